@@ -0,0 +1,228 @@
+/**
+ * Audio Module
+ *
+ * This module plays the cockpit sound cues of the flight simulator. It
+ * listens on the event bus and synthesizes short tones with the Web Audio
+ * API for touchdowns, crashes, gear motion, autopilot disconnects and store
+ * releases, and sounds the stall horn while the stall warning is on. All
+ * sound is held while the simulation is paused.
+ */
+
+import { initializeEventBus } from "../core/events.ts";
+import { AutopilotMode } from "../autopilot/controller.ts";
+
+// Tone played for a sound cue
+interface Tone {
+  frequency: number; // Hz
+  duration: number; // s
+  type: OscillatorType;
+  volume: number; // 0.0 to 1.0
+  repeat?: number; // Number of beeps, 1 if omitted
+}
+
+// Sink rate that gives the loudest touchdown thump
+const FIRM_TOUCHDOWN_SINK_RATE = 3; // m/s
+
+// Sound cues
+const CRASH_TONE: Tone = {
+  frequency: 60,
+  duration: 1.2,
+  type: "sawtooth",
+  volume: 0.3,
+};
+const DITCHING_TONE: Tone = {
+  frequency: 140,
+  duration: 0.8,
+  type: "sine",
+  volume: 0.2,
+};
+const GEAR_TONE: Tone = {
+  frequency: 180,
+  duration: 0.6,
+  type: "triangle",
+  volume: 0.05,
+};
+const AUTOPILOT_DISCONNECT_TONE: Tone = {
+  frequency: 800,
+  duration: 0.15,
+  type: "square",
+  volume: 0.05,
+  repeat: 3,
+};
+const RELEASE_TONE: Tone = {
+  frequency: 90,
+  duration: 0.1,
+  type: "sine",
+  volume: 0.2,
+};
+
+// Continuous tone of the stall horn
+const STALL_HORN_FREQUENCY = 420; // Hz
+const STALL_HORN_VOLUME = 0.05;
+
+// Main audio manager class
+class AudioManager {
+  private audioContext: AudioContext | null = null;
+  private muted: boolean = false;
+  private paused: boolean = false;
+  private stallWarning: boolean = false;
+  private stallHorn: OscillatorNode | null = null;
+
+  constructor() {
+    this.subscribeToEvents();
+  }
+
+  /**
+   * Play sound cues for simulation events
+   */
+  private subscribeToEvents(): void {
+    const eventBus = initializeEventBus();
+
+    eventBus.on("touchdown", ({ sinkRate }) => {
+      this.play({
+        frequency: 100,
+        duration: 0.15,
+        type: "sine",
+        volume: 0.1 +
+          0.3 * Math.min(1, sinkRate / FIRM_TOUCHDOWN_SINK_RATE),
+      });
+    });
+    eventBus.on("crash", () => this.play(CRASH_TONE));
+    eventBus.on("ditching", () => this.play(DITCHING_TONE));
+    eventBus.on("gearChange", () => this.play(GEAR_TONE));
+    eventBus.on("autopilotModeChange", ({ mode }) => {
+      if (mode === AutopilotMode.OFF) {
+        this.play(AUTOPILOT_DISCONNECT_TONE);
+      }
+    });
+    eventBus.on("weaponRelease", () => this.play(RELEASE_TONE));
+
+    // A stall sounds the horn at once; the warning state clears it
+    eventBus.on("stall", () => this.setStallWarning(true));
+    eventBus.on("pause", ({ paused }) => this.setPaused(paused));
+  }
+
+  /**
+   * Mute or unmute the sound cues and the stall horn
+   */
+  public setMuted(muted: boolean): void {
+    this.muted = muted;
+    this.updateStallHorn();
+  }
+
+  /**
+   * Whether the sound cues are muted
+   */
+  public isMuted(): boolean {
+    return this.muted;
+  }
+
+  /**
+   * Sound the stall horn while the stall warning is on
+   */
+  public setStallWarning(active: boolean): void {
+    this.stallWarning = active;
+    this.updateStallHorn();
+  }
+
+  /**
+   * Silence the tones still fading out and the stall horn while paused
+   */
+  private setPaused(paused: boolean): void {
+    this.paused = paused;
+    this.updateStallHorn();
+
+    const context = this.audioContext;
+    if (context) {
+      (paused ? context.suspend() : context.resume()).catch((error) => {
+        console.warn("Sound unavailable:", error);
+      });
+    }
+  }
+
+  /**
+   * Start or stop the stall horn to match the warning, mute and pause
+   */
+  private updateStallHorn(): void {
+    const sounding = this.stallWarning && !this.muted && !this.paused;
+    if (!sounding) {
+      this.stallHorn?.stop();
+      this.stallHorn = null;
+      return;
+    }
+    if (this.stallHorn || typeof AudioContext === "undefined") {
+      return;
+    }
+
+    try {
+      this.audioContext ??= new AudioContext();
+      const context = this.audioContext;
+      const gain = context.createGain();
+      gain.gain.value = STALL_HORN_VOLUME;
+      gain.connect(context.destination);
+
+      this.stallHorn = context.createOscillator();
+      this.stallHorn.type = "square";
+      this.stallHorn.frequency.value = STALL_HORN_FREQUENCY;
+      this.stallHorn.connect(gain);
+      this.stallHorn.start();
+    } catch (error) {
+      // Browsers refuse audio until the user has interacted with the page
+      console.warn("Stall horn unavailable:", error);
+    }
+  }
+
+  /**
+   * Play a tone, fading out to avoid clicks
+   */
+  private play(tone: Tone): void {
+    if (this.muted || this.paused || typeof AudioContext === "undefined") {
+      return;
+    }
+
+    try {
+      this.audioContext ??= new AudioContext();
+      const context = this.audioContext;
+      const repeat = tone.repeat ?? 1;
+
+      for (let i = 0; i < repeat; i++) {
+        const start = context.currentTime + i * tone.duration * 2;
+        const gain = context.createGain();
+        gain.gain.setValueAtTime(tone.volume, start);
+        gain.gain.exponentialRampToValueAtTime(0.001, start + tone.duration);
+        gain.connect(context.destination);
+
+        const oscillator = context.createOscillator();
+        oscillator.type = tone.type;
+        oscillator.frequency.value = tone.frequency;
+        oscillator.connect(gain);
+        oscillator.start(start);
+        oscillator.stop(start + tone.duration);
+      }
+    } catch (error) {
+      // Browsers refuse audio until the user has interacted with the page
+      console.warn("Sound unavailable:", error);
+    }
+  }
+}
+
+// Singleton instance
+let audioManagerInstance: AudioManager | null = null;
+
+/**
+ * Initialize the audio
+ */
+export function initializeAudio(): AudioManager {
+  if (!audioManagerInstance) {
+    audioManagerInstance = new AudioManager();
+    console.log("Audio initialized");
+  }
+  return audioManagerInstance;
+}
+
+/**
+ * Get the audio manager instance
+ */
+export function getAudioManager(): AudioManager | null {
+  return audioManagerInstance;
+}
@@ -3,10 +3,50 @@
  *
  * This module is responsible for implementing the autopilot functionality
  * of the flight simulator, including navigation, altitude hold, and heading hold.
+ *
+ * Each axis is flown by cascaded loops, each commanding the next within its
+ * limits: heading error commands a bank angle up to maxBankAngle, bank
+ * error a roll rate and roll rate error the ailerons; altitude error
+ * commands a vertical speed, vertical speed error a pitch angle up to
+ * maxPitchAngle and pitch error the elevator. The rudder keeps the turns
+ * coordinated by holding the sideslip at zero.
+ *
+ * NAVIGATION mode flies the flight plan with all three axes: the target
+ * heading follows the plan, and the target altitude and speed follow the
+ * constraints of the waypoints as they become active.
+ *
+ * APPROACH mode arms for the ILS of the approach runway, holding heading
+ * and altitude until the localizer is captured and tracked, then captures
+ * the glideslope and follows it down at the target speed.
  */
 
 import * as THREE from "three";
-import { getPhysicsEngine } from "../dynamics/physics.ts";
+import {
+  type AircraftState,
+  getAttitude,
+  getPhysicsEngine,
+} from "../dynamics/physics.ts";
+import {
+  checkSnapshotVersion,
+  decodeSnapshotValue,
+  encodeSnapshotValue,
+  SNAPSHOT_VERSION,
+  type SnapshotValue,
+} from "../core/snapshot.ts";
+import { getEventBus } from "../core/events.ts";
+import {
+  FlightPlan,
+  type FlightPlanState,
+  getInterceptHeading,
+  getTurnRadius,
+  type NavigationStatus,
+} from "./flight_plan.ts";
+import {
+  ApproachPhase,
+  type ApproachStatus,
+  getIlsDeviation,
+  type Runway,
+} from "./ils.ts";
 
 // Autopilot modes
 export enum AutopilotMode {
@@ -18,15 +58,69 @@ export enum AutopilotMode {
   FULL = "FULL",
 }
 
+// Limits of the inner loops
+const MAX_ROLL_RATE = 10; // degrees/s
+const MAX_VERTICAL_SPEED = 1500; // ft/min
+
+// Deviations within which the ILS beams are captured
+const LOCALIZER_CAPTURE = 2.5; // degrees, full scale
+const GLIDESLOPE_CAPTURE = 0.2; // degrees
+
+// Unit conversions
+const RAD_TO_DEG = 180 / Math.PI;
+const M_TO_FEET = 3.28084;
+const MS_TO_KNOTS = 1.94384;
+const MS_TO_FEET_PER_MINUTE = M_TO_FEET * 60;
+
 // Autopilot settings
 interface AutopilotSettings {
   targetHeading: number;
   targetAltitude: number;
   targetSpeed: number;
-  targetWaypoint: THREE.Vector3 | null;
-  approachGlideslope: number;
-  maxBankAngle: number;
-  maxPitchAngle: number;
+  approachGlideslope: number; // degrees
+  approachRunway: Runway | null;
+  maxBankAngle: number; // degrees
+  maxPitchAngle: number; // degrees
+}
+
+// Internal state of a PID controller
+interface PIDState {
+  integral: number;
+  previousError: number;
+}
+
+// Control loops of the autopilot, outer loops first
+type ControlLoop =
+  | "heading"
+  | "bank"
+  | "rollRate"
+  | "sideslip"
+  | "altitude"
+  | "verticalSpeed"
+  | "pitch"
+  | "speed";
+
+// Output of every loop in the last update, null while a loop is not flying
+export interface AutopilotLoopOutputs {
+  commandedBank: number | null; // degrees, right wing down positive
+  commandedRollRate: number | null; // degrees/s
+  aileron: number | null;
+  rudder: number | null;
+  commandedVerticalSpeed: number | null; // ft/min
+  commandedPitch: number | null; // degrees, nose up positive
+  elevator: number | null;
+  throttle: number | null;
+}
+
+// Saved autopilot state; JSON-safe, see core/snapshot.ts
+export interface AutopilotSnapshot {
+  version: number;
+  mode: AutopilotMode;
+  aircraftId: string | null;
+  settings: SnapshotValue; // AutopilotSettings
+  controllers: Record<ControlLoop, PIDState>;
+  flightPlan: SnapshotValue | null; // FlightPlanState
+  approachPhase: ApproachPhase;
 }
 
 // PID Controller for smooth control
@@ -53,6 +147,14 @@ class PIDController {
     this.outputMax = outputMax;
   }
 
+  /**
+   * Set the range the output is clamped to
+   */
+  public setOutputLimits(outputMin: number, outputMax: number): void {
+    this.outputMin = outputMin;
+    this.outputMax = outputMax;
+  }
+
   /**
    * Compute control output based on error
    */
@@ -61,6 +163,7 @@ class PIDController {
     const pTerm = this.kP * error;
 
     // Integral term
+    const integral = this.integral;
     this.integral += error * deltaTime;
     const iTerm = this.kI * this.integral;
 
@@ -69,10 +172,19 @@ class PIDController {
     const dTerm = this.kD * derivative;
 
     // Calculate output
-    let output = pTerm + iTerm + dTerm;
+    const unclamped = pTerm + iTerm + dTerm;
 
     // Clamp output
-    output = Math.max(this.outputMin, Math.min(this.outputMax, output));
+    const output = Math.max(
+      this.outputMin,
+      Math.min(this.outputMax, unclamped),
+    );
+
+    // Stop integrating into a saturated output, so that it does not wind
+    // up and overshoot once the error turns
+    if (output !== unclamped && Math.sign(error) === Math.sign(unclamped)) {
+      this.integral = integral;
+    }
 
     // Store error for next iteration
     this.previousError = error;
@@ -87,15 +199,50 @@ class PIDController {
     this.integral = 0;
     this.previousError = 0;
   }
+
+  /**
+   * Get the integral and previous error
+   */
+  public getState(): PIDState {
+    return { integral: this.integral, previousError: this.previousError };
+  }
+
+  /**
+   * Restore the integral and previous error
+   */
+  public setState(state: PIDState): void {
+    this.integral = state.integral;
+    this.previousError = state.previousError;
+  }
+}
+
+/**
+ * Create loop outputs with every loop idle
+ */
+function createLoopOutputs(): AutopilotLoopOutputs {
+  return {
+    commandedBank: null,
+    commandedRollRate: null,
+    aileron: null,
+    rudder: null,
+    commandedVerticalSpeed: null,
+    commandedPitch: null,
+    elevator: null,
+    throttle: null,
+  };
 }
 
 // Main autopilot controller class
 class AutopilotController {
   private mode: AutopilotMode = AutopilotMode.OFF;
   private settings: AutopilotSettings;
-  private headingController: PIDController;
-  private altitudeController: PIDController;
-  private speedController: PIDController;
+  private loops: Record<ControlLoop, PIDController>;
+  private outputs: AutopilotLoopOutputs = createLoopOutputs();
+  private flightPlan: FlightPlan | null = null;
+  private navigation: NavigationStatus | null = null;
+  private approachPhase: ApproachPhase = ApproachPhase.ARMED;
+  private approach: ApproachStatus | null = null;
+  private glidePathVerticalSpeed: number = 0; // ft/min down the glideslope
   private aircraftId: string | null = null;
   private lastUpdateTime: number = 0;
 
@@ -105,16 +252,24 @@ class AutopilotController {
       targetHeading: 0,
       targetAltitude: 1000, // feet
       targetSpeed: 120, // knots
-      targetWaypoint: null,
       approachGlideslope: 3, // degrees
+      approachRunway: null,
       maxBankAngle: 25, // degrees
       maxPitchAngle: 15, // degrees
     };
 
-    // Initialize PID controllers
-    this.headingController = new PIDController(0.01, 0.001, 0.05);
-    this.altitudeController = new PIDController(0.01, 0.0005, 0.05);
-    this.speedController = new PIDController(0.01, 0.001, 0.02);
+    // Initialize PID controllers; the limits of the outer loops follow the
+    // settings and are set on every update
+    this.loops = {
+      heading: new PIDController(1, 0, 0), // deg -> bank deg
+      bank: new PIDController(1, 0, 0), // deg -> roll rate deg/s
+      rollRate: new PIDController(0.02, 0.02, 0), // deg/s -> aileron
+      sideslip: new PIDController(0.01, 0.01, 0), // deg -> rudder
+      altitude: new PIDController(5, 0, 0), // ft -> vertical speed ft/min
+      verticalSpeed: new PIDController(0.01, 0.002, 0), // ft/min -> pitch deg
+      pitch: new PIDController(0.05, 0.05, 0), // deg -> elevator
+      speed: new PIDController(0.01, 0.001, 0.02), // knots -> throttle
+    };
   }
 
   /**
@@ -130,12 +285,20 @@ class AutopilotController {
   public setMode(mode: AutopilotMode): void {
     if (this.mode !== mode) {
       console.log(`Autopilot mode changed: ${this.mode} -> ${mode}`);
+      const previous = this.mode;
       this.mode = mode;
+      getEventBus()?.emit("autopilotModeChange", {
+        aircraftId: this.aircraftId,
+        previous,
+        mode,
+      });
 
       // Reset controllers when mode changes
-      this.headingController.reset();
-      this.altitudeController.reset();
-      this.speedController.reset();
+      Object.values(this.loops).forEach((loop) => loop.reset());
+      this.outputs = createLoopOutputs();
+      this.navigation = null;
+      this.approachPhase = ApproachPhase.ARMED;
+      this.approach = null;
     }
   }
 
@@ -170,16 +333,135 @@ class AutopilotController {
   }
 
   /**
-   * Set target waypoint
+   * Fly straight to a single waypoint, replacing the flight plan
    */
   public setTargetWaypoint(waypoint: THREE.Vector3 | null): void {
-    this.settings.targetWaypoint = waypoint ? waypoint.clone() : null;
+    this.setFlightPlan(
+      waypoint ? new FlightPlan([{ name: "WPT", position: waypoint }]) : null,
+    );
+  }
+
+  /**
+   * Set the flight plan flown in NAVIGATION mode
+   * The plan is flown as it is edited afterwards.
+   */
+  public setFlightPlan(plan: FlightPlan | null): void {
+    this.flightPlan = plan;
+    this.navigation = null;
+  }
+
+  /**
+   * Get the flight plan flown in NAVIGATION mode
+   */
+  public getFlightPlan(): FlightPlan | null {
+    return this.flightPlan;
+  }
+
+  /**
+   * Get the active leg with the distance and time to go, as of the last
+   * update in NAVIGATION mode
+   */
+  public getNavigationStatus(): NavigationStatus | null {
+    return this.navigation;
+  }
+
+  /**
+   * Set the runway whose ILS is flown in APPROACH mode, arming the approach
+   */
+  public setApproachRunway(runway: Runway | null): void {
+    this.settings.approachRunway = runway;
+    this.approachPhase = ApproachPhase.ARMED;
+    this.approach = null;
+  }
+
+  /**
+   * Set the angle of the glideslope flown in APPROACH mode
+   */
+  public setApproachGlideslope(angle: number): void {
+    this.settings.approachGlideslope = Math.max(0, angle);
+  }
+
+  /**
+   * Get the phase and the ILS deviations, as of the last update in
+   * APPROACH mode
+   */
+  public getApproachStatus(): ApproachStatus | null {
+    return this.approach;
+  }
+
+  /**
+   * Set the steepest bank the autopilot turns with
+   */
+  public setMaxBankAngle(angle: number): void {
+    this.settings.maxBankAngle = Math.max(0, angle);
+  }
+
+  /**
+   * Set the steepest pitch the autopilot climbs or descends with
+   */
+  public setMaxPitchAngle(angle: number): void {
+    this.settings.maxPitchAngle = Math.max(0, angle);
+  }
+
+  /**
+   * Get the output of every loop in the last update, for debugging
+   */
+  public getLoopOutputs(): AutopilotLoopOutputs {
+    return { ...this.outputs };
+  }
+
+  /**
+   * Capture the mode, targets and controller state
+   */
+  public snapshot(): AutopilotSnapshot {
+    const controllers = {} as Record<ControlLoop, PIDState>;
+    for (const name of Object.keys(this.loops) as ControlLoop[]) {
+      controllers[name] = this.loops[name].getState();
+    }
+
+    return {
+      version: SNAPSHOT_VERSION,
+      mode: this.mode,
+      aircraftId: this.aircraftId,
+      settings: encodeSnapshotValue(this.settings),
+      controllers,
+      flightPlan: this.flightPlan
+        ? encodeSnapshotValue(this.flightPlan.getState())
+        : null,
+      approachPhase: this.approachPhase,
+    };
+  }
+
+  /**
+   * Restore a snapshot taken with snapshot()
+   */
+  public restore(snapshot: AutopilotSnapshot): void {
+    checkSnapshotVersion(snapshot.version);
+    this.mode = snapshot.mode;
+    this.aircraftId = snapshot.aircraftId;
+    this.settings = decodeSnapshotValue<AutopilotSettings>(snapshot.settings);
+    for (const name of Object.keys(this.loops) as ControlLoop[]) {
+      this.loops[name].setState(snapshot.controllers[name]);
+    }
+    this.outputs = createLoopOutputs();
+
+    this.flightPlan = null;
+    this.navigation = null;
+    this.approachPhase = snapshot.approachPhase;
+    this.approach = null;
+    if (snapshot.flightPlan) {
+      this.flightPlan = new FlightPlan();
+      this.flightPlan.setState(
+        decodeSnapshotValue<FlightPlanState>(snapshot.flightPlan),
+      );
+    }
   }
 
   /**
    * Update the autopilot
+   * @param deltaTime Time step in seconds; measured from the clock if omitted
    */
-  public update(): void {
+  public update(deltaTime?: number): void {
     if (this.mode === AutopilotMode.OFF || !this.aircraftId) {
       return;
     }
@@ -197,91 +479,181 @@ class AutopilotController {
     }
 
     // Calculate delta time
-    const currentTime = performance.now();
-    const deltaTime = (currentTime - this.lastUpdateTime) / 1000; // Convert to seconds
-    this.lastUpdateTime = currentTime;
+    if (deltaTime === undefined) {
+      const currentTime = performance.now();
+      deltaTime = (currentTime - this.lastUpdateTime) / 1000; // Convert to seconds
+      this.lastUpdateTime = currentTime;
+    }
 
     if (deltaTime <= 0) {
       return; // Skip first update or invalid time delta
     }
 
     // Extract current state
-    const { position, velocity, rotation } = aircraftState;
+    const { position, velocity, airData } = aircraftState;
+    const attitude = getAttitude(aircraftState);
 
     // Calculate current heading (in degrees)
-    const heading = (rotation.y * 180 / Math.PI + 360) % 360;
+    const heading = (attitude.heading * RAD_TO_DEG + 360) % 360;
 
     // Calculate current altitude (in feet)
-    const altitude = position.y * 3.28084; // Convert meters to feet
+    const altitude = position.y * M_TO_FEET;
+
+    // Calculate current indicated airspeed (in knots)
+    const speed = airData.indicatedAirspeed * MS_TO_KNOTS;
 
-    // Calculate current speed (in knots)
-    const speed = velocity.length() * 1.94384; // Convert m/s to knots
+    // Only the axes of the active mode are flown; the pilot keeps the rest
+    const controlInputs: Partial<AircraftState["controlInputs"]> = {};
+    this.outputs = createLoopOutputs();
 
-    // Control variables
-    let aileronInput = 0;
-    let elevatorInput = 0;
-    const rudderInput = 0;
-    let throttleInput = aircraftState.throttle;
+    if (this.mode === AutopilotMode.NAVIGATION) {
+      this.followFlightPlan(position, velocity);
+    }
+    if (this.mode === AutopilotMode.APPROACH) {
+      this.flyApproach(position, velocity);
+    }
 
-    // Apply appropriate control based on mode
     if (
       this.mode === AutopilotMode.HEADING_HOLD ||
       this.mode === AutopilotMode.NAVIGATION ||
+      this.mode === AutopilotMode.APPROACH ||
       this.mode === AutopilotMode.FULL
     ) {
-      aileronInput = this.controlHeading(heading, deltaTime);
+      controlInputs.aileron = this.controlHeading(
+        heading,
+        attitude.bank * RAD_TO_DEG,
+        aircraftState.angularVelocity.z * RAD_TO_DEG,
+        deltaTime,
+      );
+      controlInputs.rudder = this.coordinateTurn(
+        aircraftState.aerodynamics.sideslip * RAD_TO_DEG,
+        deltaTime,
+      );
     }
 
     if (
       this.mode === AutopilotMode.ALTITUDE_HOLD ||
+      this.mode === AutopilotMode.NAVIGATION ||
       this.mode === AutopilotMode.APPROACH ||
       this.mode === AutopilotMode.FULL
     ) {
-      elevatorInput = this.controlAltitude(altitude, deltaTime);
+      controlInputs.elevator = this.controlAltitude(
+        altitude,
+        velocity.y * MS_TO_FEET_PER_MINUTE,
+        attitude.pitch * RAD_TO_DEG,
+        deltaTime,
+      );
     }
 
-    if (this.mode === AutopilotMode.FULL) {
-      throttleInput = this.controlSpeed(speed, deltaTime);
-    }
+    // Apply control inputs to aircraft
+    physicsEngine.updateControlInputs(this.aircraftId, controlInputs);
 
     if (
-      this.mode === AutopilotMode.NAVIGATION && this.settings.targetWaypoint
+      this.mode === AutopilotMode.NAVIGATION ||
+      this.mode === AutopilotMode.APPROACH ||
+      this.mode === AutopilotMode.FULL
     ) {
-      this.navigateToWaypoint(position, heading);
+      physicsEngine.setThrottle(
+        this.aircraftId,
+        this.controlSpeed(speed, deltaTime),
+      );
     }
-
-    // Apply control inputs to aircraft
-    physicsEngine.updateControlInputs(this.aircraftId, {
-      aileron: aileronInput,
-      elevator: elevatorInput,
-      rudder: rudderInput,
-    });
-
-    physicsEngine.setThrottle(this.aircraftId, throttleInput);
   }
 
   /**
-   * Control heading using PID controller
+   * Turn onto the target heading: heading error commands a bank, bank
+   * error a roll rate and roll rate error the ailerons
+   * @returns Aileron input
    */
-  private controlHeading(currentHeading: number, deltaTime: number): number {
+  private controlHeading(
+    currentHeading: number,
+    bank: number,
+    rollRate: number,
+    deltaTime: number,
+  ): number {
     // Calculate heading error, accounting for wrap-around
     let error = this.settings.targetHeading - currentHeading;
     if (error > 180) error -= 360;
     if (error < -180) error += 360;
 
-    // Compute aileron input using PID controller
-    return this.headingController.compute(error, deltaTime);
+    // Heading grows turning left, so a heading to the left of the current
+    // one needs the left wing down
+    const maxBank = this.settings.maxBankAngle;
+    this.loops.heading.setOutputLimits(-maxBank, maxBank);
+    const commandedBank = -this.loops.heading.compute(error, deltaTime);
+
+    this.loops.bank.setOutputLimits(-MAX_ROLL_RATE, MAX_ROLL_RATE);
+    const commandedRollRate = this.loops.bank.compute(
+      commandedBank - bank,
+      deltaTime,
+    );
+
+    const aileron = this.loops.rollRate.compute(
+      commandedRollRate - rollRate,
+      deltaTime,
+    );
+
+    Object.assign(this.outputs, { commandedBank, commandedRollRate, aileron });
+    return aileron;
+  }
+
+  /**
+   * Keep turns coordinated by holding the sideslip at zero
+   * @param sideslip Degrees, positive with the wind from the right
+   * @returns Rudder input
+   */
+  private coordinateTurn(sideslip: number, deltaTime: number): number {
+    // Wind from the right is met by yawing right
+    const rudder = this.loops.sideslip.compute(sideslip, deltaTime);
+    this.outputs.rudder = rudder;
+    return rudder;
   }
 
   /**
-   * Control altitude using PID controller
+   * Hold the target altitude: altitude error commands a vertical speed,
+   * vertical speed error a pitch and pitch error the elevator
+   * @returns Elevator input
    */
-  private controlAltitude(currentAltitude: number, deltaTime: number): number {
+  private controlAltitude(
+    currentAltitude: number,
+    verticalSpeed: number,
+    pitch: number,
+    deltaTime: number,
+  ): number {
     // Calculate altitude error
     const error = this.settings.targetAltitude - currentAltitude;
 
-    // Compute elevator input using PID controller
-    return this.altitudeController.compute(error, deltaTime);
+    // On the glideslope the target altitude moves down at a known rate,
+    // which the altitude loop only has to correct
+    const feedForward = this.mode === AutopilotMode.APPROACH &&
+        this.approachPhase === ApproachPhase.GLIDESLOPE
+      ? this.glidePathVerticalSpeed
+      : 0;
+    this.loops.altitude.setOutputLimits(
+      -MAX_VERTICAL_SPEED - feedForward,
+      MAX_VERTICAL_SPEED - feedForward,
+    );
+    const commandedVerticalSpeed = feedForward +
+      this.loops.altitude.compute(error, deltaTime);
+
+    const maxPitch = this.settings.maxPitchAngle;
+    this.loops.verticalSpeed.setOutputLimits(-maxPitch, maxPitch);
+    const commandedPitch = this.loops.verticalSpeed.compute(
+      commandedVerticalSpeed - verticalSpeed,
+      deltaTime,
+    );
+
+    const elevator = this.loops.pitch.compute(
+      commandedPitch - pitch,
+      deltaTime,
+    );
+
+    Object.assign(this.outputs, {
+      commandedVerticalSpeed,
+      commandedPitch,
+      elevator,
+    });
+    return elevator;
   }
 
   /**
@@ -293,32 +665,113 @@ class AutopilotController {
 
     // Compute throttle input using PID controller
     // Map from -1,1 to 0,1 range for throttle
-    const pidOutput = this.speedController.compute(error, deltaTime);
-    return (pidOutput + 1) / 2;
+    const pidOutput = this.loops.speed.compute(error, deltaTime);
+    const throttle = (pidOutput + 1) / 2;
+    this.outputs.throttle = throttle;
+    return throttle;
   }
 
   /**
-   * Navigate to waypoint by updating target heading
+   * Sequence the flight plan and steer along the active leg by updating the
+   * target heading, and the target altitude and speed where constrained
    */
-  private navigateToWaypoint(
+  private followFlightPlan(
     position: THREE.Vector3,
-    _currentHeading: number,
+    velocity: THREE.Vector3,
   ): void {
-    if (!this.settings.targetWaypoint) {
+    this.navigation = null;
+    if (!this.flightPlan) {
+      return;
+    }
+
+    const groundSpeed = Math.hypot(velocity.x, velocity.z);
+    this.flightPlan.sequence(
+      position,
+      getTurnRadius(groundSpeed, this.settings.maxBankAngle),
+    );
+
+    // Past the last waypoint the last course is held
+    this.navigation = this.flightPlan.getNavigationStatus(position, velocity);
+    if (!this.navigation) {
+      return;
+    }
+
+    const { leg, desiredTrack, crossTrackError } = this.navigation;
+    this.setTargetHeading(
+      getInterceptHeading(desiredTrack, crossTrackError, groundSpeed),
+    );
+    if (leg.to.altitude !== undefined) {
+      this.setTargetAltitude(leg.to.altitude);
+    }
+    if (leg.to.speed !== undefined) {
+      this.setTargetSpeed(leg.to.speed);
+    }
+  }
+
+  /**
+   * Capture and track the ILS beams of the approach runway by updating the
+   * target heading and, on the glideslope, the target altitude
+   */
+  private flyApproach(position: THREE.Vector3, velocity: THREE.Vector3): void {
+    this.approach = null;
+    const runway = this.settings.approachRunway;
+    if (!runway) {
       return;
     }
 
-    // Calculate direction to waypoint
-    const direction = new THREE.Vector3()
-      .subVectors(this.settings.targetWaypoint, position)
-      .normalize();
+    const glideslope = this.settings.approachGlideslope;
+    const deviation = getIlsDeviation(runway, position, glideslope);
+    const groundSpeed = Math.hypot(velocity.x, velocity.z);
+
+    // The localizer is captured first, then the glideslope
+    if (
+      this.approachPhase === ApproachPhase.ARMED &&
+      deviation.localizerValid &&
+      Math.abs(deviation.localizer) <= LOCALIZER_CAPTURE
+    ) {
+      this.captureApproach(ApproachPhase.LOCALIZER);
+    }
+    if (
+      this.approachPhase === ApproachPhase.LOCALIZER &&
+      deviation.glideslopeValid &&
+      Math.abs(deviation.glideslope) <= GLIDESLOPE_CAPTURE
+    ) {
+      this.captureApproach(ApproachPhase.GLIDESLOPE);
+    }
+
+    // Until captured the target heading and altitude are held
+    if (this.approachPhase !== ApproachPhase.ARMED) {
+      this.setTargetHeading(
+        getInterceptHeading(
+          runway.course,
+          deviation.lateralOffset,
+          groundSpeed,
+        ),
+      );
+    }
+    if (this.approachPhase === ApproachPhase.GLIDESLOPE) {
+      this.setTargetAltitude(deviation.glidePathHeight * M_TO_FEET);
+      this.glidePathVerticalSpeed = -groundSpeed *
+        Math.tan(glideslope * Math.PI / 180) * MS_TO_FEET_PER_MINUTE;
+    }
 
-    // Calculate heading to waypoint (in degrees)
-    const targetHeading =
-      (Math.atan2(direction.x, direction.z) * 180 / Math.PI + 360) % 360;
+    this.approach = {
+      runway: runway.name,
+      phase: this.approachPhase,
+      deviation,
+    };
+  }
 
-    // Update target heading
-    this.setTargetHeading(targetHeading);
+  /**
+   * Move the approach on to a captured phase
+   */
+  private captureApproach(phase: ApproachPhase): void {
+    console.log(`Approach captured: ${phase}`);
+    this.approachPhase = phase;
+    getEventBus()?.emit("approachCapture", {
+      aircraftId: this.aircraftId,
+      phase,
+    });
   }
 }
 
@@ -0,0 +1,360 @@
+/**
+ * Flight Plan Module
+ *
+ * This module holds the route flown by the autopilot in NAVIGATION mode: an
+ * ordered list of waypoints, each optionally constraining the altitude and
+ * speed to fly towards it. The plan sequences to the next leg a turn radius
+ * before the waypoint so that the turn rolls out on the new leg, and can be
+ * edited in flight or sent direct to any waypoint.
+ *
+ * The world is flat, so legs are straight lines over the ground and the
+ * guidance steers back onto them from the cross-track error. Headings
+ * follow the attitude convention: atan2 of the x and z displacement, in
+ * degrees, growing to the left.
+ */
+
+import * as THREE from "three";
+
+// Constants
+const GRAVITY = 9.81; // m/s²
+
+// Steepest angle the guidance intercepts a leg with
+const MAX_INTERCEPT_ANGLE = 45; // degrees
+
+// Ground covered while closing a cross-track error, so that the intercept
+// gets shallower as the track comes closer
+const INTERCEPT_TIME = 20; // s
+
+// Sharpest course change anticipated; beyond it the turn starts at this
+// distance and overshoots the new leg
+const MAX_ANTICIPATED_TURN = 120; // degrees
+
+// Point of the route
+export interface Waypoint {
+  name: string;
+  position: THREE.Vector3; // m, world; only x and z are flown
+  altitude?: number; // feet, flown towards the waypoint
+  speed?: number; // knots indicated, flown towards the waypoint
+}
+
+// Leg being flown, from a point to the active waypoint
+export interface FlightPlanLeg {
+  index: number; // Index of the active waypoint
+  from: THREE.Vector3; // m, previous waypoint or where direct-to began
+  to: Waypoint;
+}
+
+// Guidance along the active leg
+export interface NavigationStatus {
+  leg: FlightPlanLeg;
+  desiredTrack: number; // degrees, course of the leg
+  crossTrackError: number; // m, positive left of the leg
+  distanceToGo: number; // m over the ground to the active waypoint
+  timeToGo: number; // s at the current ground speed
+  distanceToDestination: number; // m along the rest of the route
+  timeToDestination: number; // s at the current ground speed
+}
+
+// Saved flight plan; see FlightPlan.getState()
+export interface FlightPlanState {
+  waypoints: Waypoint[];
+  activeIndex: number;
+  origin: THREE.Vector3 | null;
+}
+
+/**
+ * Get the heading from one point to another over the ground
+ * @returns Degrees, 0 to 360
+ */
+export function getCourse(from: THREE.Vector3, to: THREE.Vector3): number {
+  const course = Math.atan2(to.x - from.x, to.z - from.z) * 180 / Math.PI;
+  return (course + 360) % 360;
+}
+
+/**
+ * Get the distance between two points over the ground
+ */
+export function getGroundDistance(
+  from: THREE.Vector3,
+  to: THREE.Vector3,
+): number {
+  return Math.hypot(to.x - from.x, to.z - from.z);
+}
+
+/**
+ * Get the distance of a point from a leg, positive left of the leg
+ */
+export function getCrossTrackError(
+  from: THREE.Vector3,
+  to: THREE.Vector3,
+  position: THREE.Vector3,
+): number {
+  const length = getGroundDistance(from, to);
+  if (length === 0) {
+    return 0;
+  }
+
+  // Left of a leg flown along +Z is +X
+  const leftX = (to.z - from.z) / length;
+  const leftZ = -(to.x - from.x) / length;
+  return (position.x - from.x) * leftX + (position.z - from.z) * leftZ;
+}
+
+/**
+ * Get the radius of a level turn
+ * @param groundSpeed m/s
+ * @param bankAngle Degrees
+ * @returns m
+ */
+export function getTurnRadius(groundSpeed: number, bankAngle: number): number {
+  const tanBank = Math.tan(bankAngle * Math.PI / 180);
+  return tanBank > 0 ? groundSpeed * groundSpeed / (GRAVITY * tanBank) : 0;
+}
+
+/**
+ * Get the heading that flies back onto a leg
+ * @param desiredTrack Degrees, course of the leg
+ * @param crossTrackError m, positive left of the leg
+ * @param groundSpeed m/s
+ * @returns Degrees, 0 to 360
+ */
+export function getInterceptHeading(
+  desiredTrack: number,
+  crossTrackError: number,
+  groundSpeed: number,
+): number {
+  const distance = Math.max(groundSpeed * INTERCEPT_TIME, 1);
+  const intercept = Math.min(
+    Math.atan(Math.abs(crossTrackError) / distance) * 180 / Math.PI,
+    MAX_INTERCEPT_ANGLE,
+  );
+
+  // Left of the leg, turn right: headings grow to the left
+  const heading = desiredTrack - Math.sign(crossTrackError) * intercept;
+  return (heading + 360) % 360;
+}
+
+/**
+ * Get the difference between two headings
+ * @returns Degrees, -180 to 180
+ */
+function getHeadingChange(from: number, to: number): number {
+  return ((to - from + 540) % 360) - 180;
+}
+
+// Route flown in NAVIGATION mode
+export class FlightPlan {
+  private waypoints: Waypoint[];
+  private activeIndex: number = 0;
+  private origin: THREE.Vector3 | null = null; // Start of a direct-to leg
+
+  constructor(waypoints: Waypoint[] = []) {
+    this.waypoints = waypoints.map(cloneWaypoint);
+  }
+
+  /**
+   * Get the waypoints, in order
+   */
+  public getWaypoints(): Waypoint[] {
+    return this.waypoints.map(cloneWaypoint);
+  }
+
+  /**
+   * Get the index of the waypoint being flown to
+   */
+  public getActiveIndex(): number {
+    return this.activeIndex;
+  }
+
+  /**
+   * Whether every waypoint has been passed
+   */
+  public isComplete(): boolean {
+    return this.activeIndex >= this.waypoints.length;
+  }
+
+  /**
+   * Get the leg being flown, or null before the first leg starts or once
+   * the plan is complete
+   */
+  public getActiveLeg(): FlightPlanLeg | null {
+    if (this.isComplete()) {
+      return null;
+    }
+
+    const from = this.origin ??
+      this.waypoints[this.activeIndex - 1]?.position;
+    if (!from) {
+      return null;
+    }
+
+    return {
+      index: this.activeIndex,
+      from: from.clone(),
+      to: cloneWaypoint(this.waypoints[this.activeIndex]),
+    };
+  }
+
+  /**
+   * Insert a waypoint; inserted at the active index it becomes the active
+   * waypoint, on the way to the one it displaced
+   */
+  public insertWaypoint(index: number, waypoint: Waypoint): void {
+    if (index < 0 || index > this.waypoints.length) {
+      throw new Error(`Cannot insert a waypoint at ${index}`);
+    }
+
+    this.waypoints.splice(index, 0, cloneWaypoint(waypoint));
+    if (index < this.activeIndex) {
+      this.activeIndex++;
+    }
+  }
+
+  /**
+   * Delete a waypoint; deleting the active one flies on to the next
+   * @returns The deleted waypoint
+   */
+  public deleteWaypoint(index: number): Waypoint {
+    this.checkIndex(index);
+
+    const [waypoint] = this.waypoints.splice(index, 1);
+    if (index < this.activeIndex) {
+      this.activeIndex--;
+    }
+    return waypoint;
+  }
+
+  /**
+   * Fly straight from a position to a waypoint, skipping those before it
+   */
+  public directTo(index: number, position: THREE.Vector3): void {
+    this.checkIndex(index);
+
+    this.activeIndex = index;
+    this.origin = position.clone();
+  }
+
+  /**
+   * Start the first leg and move on to the next leg when the active
+   * waypoint is close enough to turn onto it
+   * @param turnRadius m, radius of the turn onto the next leg
+   * @returns Whether the active leg changed
+   */
+  public sequence(position: THREE.Vector3, turnRadius: number): boolean {
+    if (this.isComplete()) {
+      return false;
+    }
+
+    // The first leg starts wherever the aircraft is
+    if (!this.getActiveLeg()) {
+      this.origin = position.clone();
+    }
+
+    const leg = this.getActiveLeg()!;
+    const legLength = getGroundDistance(leg.from, leg.to.position);
+    const course = getCourse(leg.from, leg.to.position);
+
+    // Distance still to go along the leg, negative once past the waypoint
+    const alongTrack = legLength === 0 ? 0 : (
+      (position.x - leg.from.x) * (leg.to.position.x - leg.from.x) +
+      (position.z - leg.from.z) * (leg.to.position.z - leg.from.z)
+    ) / legLength;
+    const remaining = legLength - alongTrack;
+
+    // Start turning early by the distance the turn takes to meet the next
+    // leg, or pass over the last waypoint
+    const next = this.waypoints[this.activeIndex + 1];
+    let anticipation = 0;
+    if (next) {
+      const turn = Math.min(
+        Math.abs(
+          getHeadingChange(course, getCourse(leg.to.position, next.position)),
+        ),
+        MAX_ANTICIPATED_TURN,
+      );
+      anticipation = turnRadius * Math.tan(turn * Math.PI / 360);
+    }
+    if (remaining > anticipation) {
+      return false;
+    }
+
+    this.activeIndex++;
+    this.origin = null;
+    return true;
+  }
+
+  /**
+   * Get the guidance along the active leg
+   * @param groundVelocity m/s, only x and z are used
+   * @returns Null without an active leg
+   */
+  public getNavigationStatus(
+    position: THREE.Vector3,
+    groundVelocity: THREE.Vector3,
+  ): NavigationStatus | null {
+    const leg = this.getActiveLeg();
+    if (!leg) {
+      return null;
+    }
+
+    const groundSpeed = Math.hypot(groundVelocity.x, groundVelocity.z);
+    const distanceToGo = getGroundDistance(position, leg.to.position);
+    let distanceToDestination = distanceToGo;
+    for (let i = leg.index + 1; i < this.waypoints.length; i++) {
+      distanceToDestination += getGroundDistance(
+        this.waypoints[i - 1].position,
+        this.waypoints[i].position,
+      );
+    }
+
+    const timeAt = (distance: number) =>
+      groundSpeed > 0 ? distance / groundSpeed : Infinity;
+    return {
+      leg,
+      desiredTrack: getCourse(leg.from, leg.to.position),
+      crossTrackError: getCrossTrackError(leg.from, leg.to.position, position),
+      distanceToGo,
+      timeToGo: timeAt(distanceToGo),
+      distanceToDestination,
+      timeToDestination: timeAt(distanceToDestination),
+    };
+  }
+
+  /**
+   * Get the waypoints and progress, for saving
+   */
+  public getState(): FlightPlanState {
+    return {
+      waypoints: this.getWaypoints(),
+      activeIndex: this.activeIndex,
+      origin: this.origin?.clone() ?? null,
+    };
+  }
+
+  /**
+   * Restore the waypoints and progress
+   */
+  public setState(state: FlightPlanState): void {
+    this.waypoints = state.waypoints.map(cloneWaypoint);
+    this.activeIndex = state.activeIndex;
+    this.origin = state.origin?.clone() ?? null;
+  }
+
+  /**
+   * Check that a waypoint exists
+   */
+  private checkIndex(index: number): void {
+    if (
+      !Number.isInteger(index) || index < 0 || index >= this.waypoints.length
+    ) {
+      throw new Error(`No waypoint at ${index}`);
+    }
+  }
+}
+
+/**
+ * Copy a waypoint so that callers cannot move it
+ */
+function cloneWaypoint(waypoint: Waypoint): Waypoint {
+  return { ...waypoint, position: waypoint.position.clone() };
+}
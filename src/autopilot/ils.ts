@@ -0,0 +1,123 @@
+/**
+ * Instrument Landing System Module
+ *
+ * This module defines runways and the ILS beams that lead onto them. The
+ * localizer transmits from beyond the far end of the runway along its
+ * centreline, and the glideslope from beside the touchdown zone at the
+ * approach angle. Deviations are the raw angles off each beam, as an ILS
+ * needle shows them, with flags for where each beam can be received.
+ *
+ * Courses follow the attitude convention: atan2 of the x and z
+ * displacement, in degrees, growing to the left.
+ */
+
+import * as THREE from "three";
+
+// Runway defaults
+const DEFAULT_RUNWAY_LENGTH = 2000; // m
+const DEFAULT_TOUCHDOWN_DISTANCE = 300; // m past the threshold
+
+// Reception of the beams
+const ILS_RANGE = 33000; // m, about 18 nm
+const LOCALIZER_COVERAGE = 35; // degrees either side of the centreline
+const GLIDESLOPE_COVERAGE_MIN = 0.45; // Of the glideslope angle, below
+const GLIDESLOPE_COVERAGE_MAX = 1.75; // Of the glideslope angle, above
+
+// Stages of an ILS approach
+export enum ApproachPhase {
+  ARMED = "ARMED", // Waiting for the localizer
+  LOCALIZER = "LOCALIZER", // Tracking the localizer, waiting for glideslope
+  GLIDESLOPE = "GLIDESLOPE", // Tracking both beams
+}
+
+// Runway served by an ILS
+export interface Runway {
+  name: string;
+  threshold: THREE.Vector3; // m, world, middle of the landing threshold
+  course: number; // degrees, direction of landing
+  elevation: number; // m above sea level at the threshold
+  length: number; // m, the localizer stands at the far end
+  touchdownDistance: number; // m past the threshold, the glideslope aim
+}
+
+// Deviations of an aircraft from the ILS beams
+export interface IlsDeviation {
+  localizer: number; // degrees, positive left of the centreline
+  glideslope: number; // degrees, positive above the glideslope
+  localizerValid: boolean; // Within the localizer coverage
+  glideslopeValid: boolean; // Within the glideslope coverage
+  lateralOffset: number; // m, positive left of the extended centreline
+  glidePathHeight: number; // m above sea level on the glideslope here
+  distance: number; // m along the course to the touchdown zone, 0 past it
+}
+
+// Progress of an approach flown by the autopilot
+export interface ApproachStatus {
+  runway: string;
+  phase: ApproachPhase;
+  deviation: IlsDeviation;
+}
+
+/**
+ * Build a runway, filling in defaults
+ */
+export function createRunway(
+  options: Pick<Runway, "name" | "threshold" | "course"> & Partial<Runway>,
+): Runway {
+  return {
+    name: options.name,
+    threshold: options.threshold.clone(),
+    course: ((options.course % 360) + 360) % 360,
+    elevation: options.elevation ?? options.threshold.y,
+    length: options.length ?? DEFAULT_RUNWAY_LENGTH,
+    touchdownDistance: options.touchdownDistance ?? DEFAULT_TOUCHDOWN_DISTANCE,
+  };
+}
+
+/**
+ * Get the deviations of a position from the ILS beams of a runway
+ * @param glideslopeAngle Degrees above the horizon
+ */
+export function getIlsDeviation(
+  runway: Runway,
+  position: THREE.Vector3,
+  glideslopeAngle: number,
+): IlsDeviation {
+  const course = runway.course * Math.PI / 180;
+  const alongX = Math.sin(course);
+  const alongZ = Math.cos(course);
+
+  // Position relative to the threshold: ahead along the landing direction
+  // and left of the centreline
+  const dx = position.x - runway.threshold.x;
+  const dz = position.z - runway.threshold.z;
+  const ahead = dx * alongX + dz * alongZ;
+  const lateralOffset = dx * alongZ - dz * alongX;
+
+  // The localizer looks back along the approach from the far end
+  const fromLocalizer = runway.length - ahead;
+  const localizer = Math.atan2(lateralOffset, fromLocalizer) * 180 / Math.PI;
+
+  // The glideslope rises from the touchdown zone
+  const distance = Math.max(runway.touchdownDistance - ahead, 0);
+  const slope = Math.tan(glideslopeAngle * Math.PI / 180);
+  const glidePathHeight = runway.elevation + distance * slope;
+  const elevationAngle = Math.atan2(
+    position.y - runway.elevation,
+    runway.touchdownDistance - ahead,
+  ) * 180 / Math.PI;
+
+  const inRange = Math.hypot(fromLocalizer, lateralOffset) <= ILS_RANGE;
+  return {
+    localizer,
+    glideslope: elevationAngle - glideslopeAngle,
+    localizerValid: inRange && Math.abs(localizer) <= LOCALIZER_COVERAGE,
+    glideslopeValid: inRange && distance > 0 &&
+      Math.abs(localizer) <= LOCALIZER_COVERAGE &&
+      elevationAngle >= GLIDESLOPE_COVERAGE_MIN * glideslopeAngle &&
+      elevationAngle <= GLIDESLOPE_COVERAGE_MAX * glideslopeAngle,
+    lateralOffset,
+    glidePathHeight,
+    distance,
+  };
+}
@@ -0,0 +1,170 @@
+/**
+ * Simulation Clock Module
+ *
+ * This module turns real frame time into simulated time. The simulation can
+ * be paused, stepped one physics step at a time while paused, slowed down
+ * or run faster than real time. Faster rates split a frame into substeps no
+ * longer than the frame itself, so the physics, the autopilot and the
+ * weapons see the same step sizes as at normal speed and nothing is clamped
+ * away.
+ */
+
+import { getEventBus } from "./events.ts";
+
+// Rates the clock steps through, from slow motion to time compression
+export const TIME_RATES = [0.25, 0.5, 1, 2, 4, 8, 16];
+
+// Simulated time of a single step, until the physics step is set
+const DEFAULT_STEP_TIME = 1 / 120; // s
+
+// Main simulation clock class
+class SimulationClock {
+  private paused: boolean = false;
+  private rate: number = 1;
+  private stepTime: number = DEFAULT_STEP_TIME;
+  private pendingSteps: number = 0; // Single steps requested while paused
+
+  /**
+   * Whether the simulation is paused
+   */
+  public isPaused(): boolean {
+    return this.paused;
+  }
+
+  /**
+   * Pause or resume the simulation
+   */
+  public setPaused(paused: boolean): void {
+    if (paused === this.paused) {
+      return;
+    }
+
+    this.paused = paused;
+    this.pendingSteps = 0;
+    getEventBus()?.emit("pause", { paused });
+  }
+
+  /**
+   * Pause a running simulation or resume a paused one
+   * @returns Whether the simulation is now paused
+   */
+  public togglePause(): boolean {
+    this.setPaused(!this.paused);
+    return this.paused;
+  }
+
+  /**
+   * Get simulated seconds per real second
+   */
+  public getRate(): number {
+    return this.rate;
+  }
+
+  /**
+   * Set simulated seconds per real second, one of TIME_RATES
+   */
+  public setRate(rate: number): void {
+    if (!TIME_RATES.includes(rate)) {
+      throw new Error(`Unsupported time rate: ${rate}`);
+    }
+    if (rate === this.rate) {
+      return;
+    }
+
+    this.rate = rate;
+    getEventBus()?.emit("timeRateChange", { rate });
+  }
+
+  /**
+   * Run at the next faster rate, if any
+   * @returns The rate now in effect
+   */
+  public faster(): number {
+    const index = TIME_RATES.indexOf(this.rate);
+    this.setRate(TIME_RATES[Math.min(index + 1, TIME_RATES.length - 1)]);
+    return this.rate;
+  }
+
+  /**
+   * Run at the next slower rate, if any
+   * @returns The rate now in effect
+   */
+  public slower(): number {
+    const index = TIME_RATES.indexOf(this.rate);
+    this.setRate(TIME_RATES[Math.max(index - 1, 0)]);
+    return this.rate;
+  }
+
+  /**
+   * Set the simulated time of a single step, normally the physics step
+   */
+  public setStepTime(stepTime: number): void {
+    if (!(stepTime > 0)) {
+      throw new Error(`Invalid step time: ${stepTime}`);
+    }
+    this.stepTime = stepTime;
+  }
+
+  /**
+   * Advance a paused simulation by a single step on the next frame
+   * @returns Whether a step was queued; a running simulation is not stepped
+   */
+  public step(): boolean {
+    if (!this.paused) {
+      return false;
+    }
+
+    this.pendingSteps++;
+    return true;
+  }
+
+  /**
+   * Turn the real time of a frame into the simulated substeps to run
+   * @param frameTime Real frame time in seconds
+   * @returns Simulated time of each substep, none while paused
+   */
+  public tick(frameTime: number): number[] {
+    if (this.paused) {
+      const steps = new Array<number>(this.pendingSteps).fill(this.stepTime);
+      this.pendingSteps = 0;
+      return steps;
+    }
+
+    if (frameTime <= 0) {
+      return [];
+    }
+
+    const substeps = Math.max(1, Math.ceil(this.rate));
+    return new Array<number>(substeps).fill(frameTime * this.rate / substeps);
+  }
+
+  /**
+   * Run in real time, unpaused
+   */
+  public reset(): void {
+    this.paused = false;
+    this.rate = 1;
+    this.pendingSteps = 0;
+  }
+}
+
+// Singleton instance
+let clockInstance: SimulationClock | null = null;
+
+/**
+ * Initialize the simulation clock
+ */
+export function initializeClock(): SimulationClock {
+  if (!clockInstance) {
+    clockInstance = new SimulationClock();
+    console.log("Simulation clock initialized");
+  }
+  return clockInstance;
+}
+
+/**
+ * Get the simulation clock instance
+ */
+export function getClock(): SimulationClock | null {
+  return clockInstance;
+}
@@ -0,0 +1,196 @@
+/**
+ * Event Bus Module
+ *
+ * This module provides a typed publish/subscribe bus for simulation events.
+ * Subsystems emit events when something happens (a touchdown, a crash, a
+ * carrier trap or catapult shot, a gear or autopilot mode change, an ILS
+ * capture, a weapon hit, an overstress or a failure, a pause or a change of
+ * time rate) and any other subsystem can react without reaching into the
+ * emitter.
+ */
+
+import type * as THREE from "three";
+import type { AutopilotMode } from "../autopilot/controller.ts";
+import type { ApproachPhase } from "../autopilot/ils.ts";
+import type { FailureType } from "../dynamics/damage.ts";
+import type { Store } from "../dynamics/mass.ts";
+import type { SurfaceType } from "../dynamics/terrain.ts";
+
+// Crash or ditching of an aircraft
+export interface ImpactEvent {
+  aircraftId: string;
+  reason: string;
+  surfaceType: SurfaceType;
+  position: THREE.Vector3;
+  velocity: THREE.Vector3; // m/s at impact
+}
+
+// Events published on the bus, keyed by event type
+export interface SimulationEvents {
+  touchdown: {
+    aircraftId: string;
+    sinkRate: number; // m/s, positive downwards
+    surfaceType: SurfaceType;
+    position: THREE.Vector3;
+  };
+  crash: ImpactEvent;
+  ditching: ImpactEvent;
+  stall: {
+    aircraftId: string;
+    angleOfAttack: number; // rad
+  };
+  gearChange: {
+    aircraftId: string;
+    down: boolean; // Commanded position
+  };
+  trap: {
+    aircraftId: string;
+    wire: number; // Index of the arrestor wire, stern first
+    speed: number; // m/s over the deck when the hook caught it
+  };
+  catapultLaunch: {
+    aircraftId: string;
+    speed: number; // m/s over the deck at the end of the stroke
+  };
+  overstress: {
+    aircraftId: string;
+    loadFactor: number; // g when a structural limit was first exceeded
+    overspeed: boolean; // Beyond the never-exceed speed
+  };
+  failure: {
+    aircraftId: string;
+    failure: FailureType;
+  };
+  autopilotModeChange: {
+    aircraftId: string | null;
+    previous: AutopilotMode;
+    mode: AutopilotMode;
+  };
+  approachCapture: {
+    aircraftId: string | null;
+    phase: ApproachPhase; // Phase entered on capturing a beam
+  };
+  weaponRelease: {
+    aircraftId: string;
+    store: Store;
+  };
+  weaponHit: {
+    shooterId: string;
+    targetId: string;
+    weapon: string; // Store name, or GUN for gun rounds
+    position: THREE.Vector3; // Where the round or warhead struck
+    damage: number; // Health taken from the target
+  };
+  pause: {
+    paused: boolean;
+  };
+  timeRateChange: {
+    rate: number; // Simulated seconds per real second
+  };
+}
+
+// Type of an event on the bus
+export type SimulationEventType = keyof SimulationEvents;
+
+// Listener for one event type
+export type EventListener<K extends SimulationEventType> = (
+  event: SimulationEvents[K],
+) => void;
+
+// Main event bus class
+class EventBus {
+  private listeners: Map<
+    SimulationEventType,
+    EventListener<SimulationEventType>[]
+  > = new Map();
+
+  /**
+   * Subscribe to an event type
+   * Returns a function that removes the listener
+   */
+  public on<K extends SimulationEventType>(
+    type: K,
+    listener: EventListener<K>,
+  ): () => void {
+    const listeners = this.listeners.get(type) ?? [];
+    listeners.push(listener as EventListener<SimulationEventType>);
+    this.listeners.set(type, listeners);
+    return () => {
+      this.off(type, listener);
+    };
+  }
+
+  /**
+   * Remove a listener
+   */
+  public off<K extends SimulationEventType>(
+    type: K,
+    listener: EventListener<K>,
+  ): boolean {
+    const listeners = this.listeners.get(type);
+    const index = listeners?.indexOf(
+      listener as EventListener<SimulationEventType>,
+    ) ?? -1;
+    if (!listeners || index === -1) {
+      return false;
+    }
+
+    listeners.splice(index, 1);
+    return true;
+  }
+
+  /**
+   * Publish an event to every listener of its type
+   */
+  public emit<K extends SimulationEventType>(
+    type: K,
+    event: SimulationEvents[K],
+  ): void {
+    // Copy so listeners may unsubscribe themselves while running
+    const listeners = [...(this.listeners.get(type) ?? [])];
+
+    for (const listener of listeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        // A failing subscriber must not break the emitter
+        console.error(`Event listener for ${type} failed:`, error);
+      }
+    }
+  }
+
+  /**
+   * Get the number of listeners for an event type
+   */
+  public getListenerCount(type: SimulationEventType): number {
+    return this.listeners.get(type)?.length ?? 0;
+  }
+
+  /**
+   * Remove all listeners
+   */
+  public clear(): void {
+    this.listeners.clear();
+  }
+}
+
+// Singleton instance
+let eventBusInstance: EventBus | null = null;
+
+/**
+ * Initialize the event bus
+ */
+export function initializeEventBus(): EventBus {
+  if (!eventBusInstance) {
+    eventBusInstance = new EventBus();
+    console.log("Event bus initialized");
+  }
+  return eventBusInstance;
+}
+
+/**
+ * Get the event bus instance
+ */
+export function getEventBus(): EventBus | null {
+  return eventBusInstance;
+}
@@ -0,0 +1,183 @@
+/**
+ * Frame Loop Module
+ *
+ * This module defines the per-frame simulation pipeline. Subsystems register
+ * hooks into fixed phases, and every frame runs the phases in order:
+ * input, autopilot, physics, scene sync, HUD and render. The autopilot and
+ * physics phases advance the simulation, so they run once for every
+ * simulated substep of the frame and not at all while it is paused.
+ */
+
+// Pipeline phases, in execution order
+export enum FramePhase {
+  INPUT = "INPUT",
+  AUTOPILOT = "AUTOPILOT",
+  PHYSICS = "PHYSICS",
+  SCENE_SYNC = "SCENE_SYNC",
+  HUD = "HUD",
+  RENDER = "RENDER",
+}
+
+// Order in which the phases run within a frame
+const PHASE_ORDER: FramePhase[] = [
+  FramePhase.INPUT,
+  FramePhase.AUTOPILOT,
+  FramePhase.PHYSICS,
+  FramePhase.SCENE_SYNC,
+  FramePhase.HUD,
+  FramePhase.RENDER,
+];
+
+// Consecutive phases run together once per simulated substep, in order
+const SIMULATED_PHASES: FramePhase[] = [
+  FramePhase.AUTOPILOT,
+  FramePhase.PHYSICS,
+];
+
+// Hook called once per frame with the frame time in seconds, or once per
+// substep with its simulated time in the simulated phases
+export type FrameHook = (deltaTime: number) => void;
+
+// Registered hook entry
+interface RegisteredHook {
+  name: string;
+  hook: FrameHook;
+  priority: number; // Lower values run first within a phase
+}
+
+// Main frame loop class
+class FrameLoop {
+  private hooks: Map<FramePhase, RegisteredHook[]> = new Map();
+  private frameCount: number = 0;
+
+  constructor() {
+    PHASE_ORDER.forEach((phase) => this.hooks.set(phase, []));
+  }
+
+  /**
+   * Register a hook into a pipeline phase
+   * Returns a function that unregisters the hook
+   */
+  public registerHook(
+    phase: FramePhase,
+    name: string,
+    hook: FrameHook,
+    priority: number = 0,
+  ): () => void {
+    const phaseHooks = this.hooks.get(phase)!;
+
+    // Replace any hook already registered under the same name
+    const existingIndex = phaseHooks.findIndex((entry) => entry.name === name);
+    if (existingIndex !== -1) {
+      phaseHooks.splice(existingIndex, 1);
+    }
+
+    phaseHooks.push({ name, hook, priority });
+
+    // Keep hooks sorted by priority (stable for equal priorities)
+    phaseHooks.sort((a, b) => a.priority - b.priority);
+
+    return () => {
+      this.unregisterHook(phase, name);
+    };
+  }
+
+  /**
+   * Remove a hook from a pipeline phase
+   */
+  public unregisterHook(phase: FramePhase, name: string): boolean {
+    const phaseHooks = this.hooks.get(phase)!;
+    const index = phaseHooks.findIndex((entry) => entry.name === name);
+    if (index === -1) {
+      return false;
+    }
+
+    phaseHooks.splice(index, 1);
+    return true;
+  }
+
+  /**
+   * Get the names of the hooks registered in a phase, in execution order
+   */
+  public getHookNames(phase: FramePhase): string[] {
+    return this.hooks.get(phase)!.map((entry) => entry.name);
+  }
+
+  /**
+   * Run every phase of a single frame
+   * @param deltaTime Frame time in seconds
+   * @param simulationSteps Simulated time of each substep in seconds, from
+   * the simulation clock; a single substep of the frame time if omitted
+   */
+  public runFrame(
+    deltaTime: number,
+    simulationSteps: number[] = [deltaTime],
+  ): void {
+    for (const phase of PHASE_ORDER) {
+      if (!SIMULATED_PHASES.includes(phase)) {
+        this.runPhase(phase, deltaTime);
+      } else if (phase === SIMULATED_PHASES[0]) {
+        for (const step of simulationSteps) {
+          SIMULATED_PHASES.forEach((simulated) =>
+            this.runPhase(simulated, step)
+          );
+        }
+      }
+    }
+
+    this.frameCount++;
+  }
+
+  /**
+   * Run the hooks of a single phase
+   */
+  private runPhase(phase: FramePhase, deltaTime: number): void {
+    // Copy so hooks may unregister themselves while running
+    const phaseHooks = [...this.hooks.get(phase)!];
+
+    for (const entry of phaseHooks) {
+      try {
+        entry.hook(deltaTime);
+      } catch (error) {
+        // A failing subsystem must not stall the rest of the frame
+        console.error(`Frame hook ${phase}/${entry.name} failed:`, error);
+      }
+    }
+  }
+
+  /**
+   * Get the number of frames run so far
+   */
+  public getFrameCount(): number {
+    return this.frameCount;
+  }
+
+  /**
+   * Remove all registered hooks
+   */
+  public clear(): void {
+    PHASE_ORDER.forEach((phase) => this.hooks.set(phase, []));
+    this.frameCount = 0;
+  }
+}
+
+// Singleton instance
+let frameLoopInstance: FrameLoop | null = null;
+
+/**
+ * Initialize the frame loop
+ */
+export function initializeFrameLoop(): FrameLoop {
+  if (!frameLoopInstance) {
+    frameLoopInstance = new FrameLoop();
+    console.log("Frame loop initialized");
+  }
+  return frameLoopInstance;
+}
+
+/**
+ * Get the frame loop instance
+ */
+export function getFrameLoop(): FrameLoop | null {
+  return frameLoopInstance;
+}
@@ -0,0 +1,236 @@
+/**
+ * Snapshot Module
+ *
+ * This module defines the versioned save format of the simulation and the
+ * codec that turns state containing three.js objects into JSON-safe values
+ * and back. Vectors, quaternions, Euler angles and matrices are written as
+ * tagged objects so a snapshot survives JSON.stringify/JSON.parse exactly.
+ */
+
+import * as THREE from "three";
+import type { AutopilotSnapshot } from "../autopilot/controller.ts";
+import type { PhysicsSnapshot } from "../dynamics/physics.ts";
+
+// Version of the snapshot format; bump when the layout changes
+export const SNAPSHOT_VERSION = 2;
+
+// JSON-safe value produced by the codec
+export type SnapshotValue =
+  | null
+  | boolean
+  | number
+  | string
+  | SnapshotValue[]
+  | { [key: string]: SnapshotValue };
+
+// Complete simulation save
+export interface SimulationSnapshot {
+  version: number;
+  physics: PhysicsSnapshot;
+  autopilot: AutopilotSnapshot | null;
+}
+
+// Key marking an encoded three.js object or special number
+const TYPE_KEY = "$type";
+
+// Rotation orders of THREE.Euler
+const EULER_ORDERS: string[] = ["XYZ", "YXZ", "ZXY", "ZYX", "YZX", "XZY"];
+
+/**
+ * Encode a value into a JSON-safe snapshot value
+ * Functions and undefined fields are dropped.
+ */
+export function encodeSnapshotValue(value: unknown): SnapshotValue {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (typeof value === "number") {
+    // JSON has no NaN or Infinity
+    return Number.isFinite(value)
+      ? value
+      : { [TYPE_KEY]: "number", value: String(value) };
+  }
+  if (typeof value === "boolean" || typeof value === "string") {
+    return value;
+  }
+  if (value instanceof THREE.Vector3) {
+    const { x, y, z } = value as THREE.Vector3;
+    return { [TYPE_KEY]: "Vector3", x, y, z };
+  }
+  if (value instanceof THREE.Quaternion) {
+    const { x, y, z, w } = value as THREE.Quaternion;
+    return { [TYPE_KEY]: "Quaternion", x, y, z, w };
+  }
+  if (value instanceof THREE.Euler) {
+    const { x, y, z, order } = value as THREE.Euler;
+    return { [TYPE_KEY]: "Euler", x, y, z, order };
+  }
+  if (value instanceof THREE.Matrix3) {
+    const { elements } = value as THREE.Matrix3;
+    return { [TYPE_KEY]: "Matrix3", elements: [...elements] };
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => encodeSnapshotValue(item));
+  }
+  if (typeof value === "object") {
+    const result: { [key: string]: SnapshotValue } = {};
+    for (const [key, field] of Object.entries(value)) {
+      if (field !== undefined && typeof field !== "function") {
+        result[key] = encodeSnapshotValue(field);
+      }
+    }
+    return result;
+  }
+  throw new Error(`Cannot snapshot a value of type ${typeof value}`);
+}
+
+/**
+ * Decode a snapshot value, rebuilding the three.js objects
+ */
+export function decodeSnapshotValue<T = unknown>(value: SnapshotValue): T {
+  return decodeValue(value) as T;
+}
+
+/**
+ * Recursive worker for decodeSnapshotValue
+ */
+function decodeValue(value: SnapshotValue): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => decodeValue(item));
+  }
+  if (value === null || typeof value !== "object") {
+    return value;
+  }
+
+  const fields: Record<string, unknown> = value;
+  const number = (key: string) => readNumber(fields, key);
+  switch (fields[TYPE_KEY]) {
+    case "number":
+      return Number(readString(fields, "value"));
+    case "Vector3":
+      return new THREE.Vector3(number("x"), number("y"), number("z"));
+    case "Quaternion":
+      return new THREE.Quaternion(
+        number("x"),
+        number("y"),
+        number("z"),
+        number("w"),
+      );
+    case "Euler": {
+      const order = readString(fields, "order");
+      if (!isEulerOrder(order)) {
+        throw new Error(`Snapshot Euler order ${order} is not valid`);
+      }
+      return new THREE.Euler(number("x"), number("y"), number("z"), order);
+    }
+    case "Matrix3": {
+      const { elements } = fields;
+      if (
+        !Array.isArray(elements) ||
+        !elements.every((element) => typeof element === "number")
+      ) {
+        throw new Error("Snapshot Matrix3 elements are not numbers");
+      }
+      return new THREE.Matrix3().fromArray(elements);
+    }
+    case undefined:
+      break;
+    default:
+      throw new Error(`Unknown snapshot type ${fields[TYPE_KEY]}`);
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, field] of Object.entries(value)) {
+    result[key] = decodeValue(field);
+  }
+  return result;
+}
+
+/**
+ * Read a number field of an encoded object
+ */
+function readNumber(fields: Record<string, unknown>, key: string): number {
+  const field = fields[key];
+  if (typeof field !== "number") {
+    throw new Error(
+      `Snapshot ${fields[TYPE_KEY]} field ${key} is not a number`,
+    );
+  }
+  return field;
+}
+
+/**
+ * Read a string field of an encoded object
+ */
+function readString(fields: Record<string, unknown>, key: string): string {
+  const field = fields[key];
+  if (typeof field !== "string") {
+    throw new Error(
+      `Snapshot ${fields[TYPE_KEY]} field ${key} is not a string`,
+    );
+  }
+  return field;
+}
+
+/**
+ * Whether a string is a rotation order of THREE.Euler
+ */
+function isEulerOrder(order: string): order is THREE.EulerOrder {
+  return EULER_ORDERS.includes(order);
+}
+
+/**
+ * Check that a snapshot was written in a format this build can read
+ */
+export function checkSnapshotVersion(version: unknown): void {
+  if (version !== SNAPSHOT_VERSION) {
+    throw new Error(
+      `Unsupported snapshot version ${version}, expected ${SNAPSHOT_VERSION}`,
+    );
+  }
+}
+
+/**
+ * Capture the physics and autopilot into a simulation snapshot
+ */
+export function createSimulationSnapshot(
+  physics: { snapshot(): PhysicsSnapshot },
+  autopilot: { snapshot(): AutopilotSnapshot } | null,
+): SimulationSnapshot {
+  return {
+    version: SNAPSHOT_VERSION,
+    physics: physics.snapshot(),
+    autopilot: autopilot ? autopilot.snapshot() : null,
+  };
+}
+
+/**
+ * Restore the physics and autopilot from a simulation snapshot
+ */
+export function restoreSimulationSnapshot(
+  snapshot: SimulationSnapshot,
+  physics: { restore(snapshot: PhysicsSnapshot): void },
+  autopilot: { restore(snapshot: AutopilotSnapshot): void } | null,
+): void {
+  checkSnapshotVersion(snapshot.version);
+  physics.restore(snapshot.physics);
+  if (autopilot && snapshot.autopilot) {
+    autopilot.restore(snapshot.autopilot);
+  }
+}
+
+/**
+ * Write a simulation snapshot as JSON text
+ */
+export function serializeSnapshot(snapshot: SimulationSnapshot): string {
+  return JSON.stringify(snapshot);
+}
+
+/**
+ * Read a simulation snapshot from JSON text
+ */
+export function parseSnapshot(text: string): SimulationSnapshot {
+  const snapshot = JSON.parse(text) as SimulationSnapshot;
+  checkSnapshotVersion(snapshot?.version);
+  return snapshot;
+}
@@ -0,0 +1,159 @@
+/**
+ * Aerodynamics Module
+ *
+ * This module provides the lift and drag curves of a wing: a linear lift
+ * slope up to the critical angle of attack, followed by a collapse of lift
+ * towards flat plate behaviour once the flow separates. The physics engine
+ * evaluates the curves for each wing half, so a stalled wing can drop and
+ * the aircraft can autorotate into a spin. Close to the surface, ground
+ * effect cuts the induced drag and raises the lift of the wing.
+ */
+
+// Default stall angles
+const DEFAULT_CRITICAL_ANGLE = 16 * Math.PI / 180; // rad
+const DEFAULT_NEGATIVE_CRITICAL_ANGLE = -12 * Math.PI / 180; // rad
+
+// Angle past the critical angle over which the flow separates
+const STALL_TRANSITION_ANGLE = 4 * Math.PI / 180; // rad
+
+// Fully separated (flat plate) coefficients
+const FLAT_PLATE_LIFT = 0.9; // CL = 0.9·sin(2α)
+const FLAT_PLATE_DRAG = 1.2; // CD = 1.2·sin²α
+
+// Oswald efficiency for induced drag
+const OSWALD_EFFICIENCY = 0.8;
+
+// Lift gained with the wing right on the surface
+const GROUND_EFFECT_LIFT_GAIN = 0.25;
+
+// Lift and drag characteristics of a wing
+export interface LiftCurve {
+  zeroLiftCoefficient: number; // CL at zero angle of attack
+  liftSlope: number; // per rad
+  criticalAngle: number; // rad, positive stall angle
+  negativeCriticalAngle: number; // rad, negative stall angle
+  parasiteDrag: number; // CD0
+  inducedDragFactor: number; // k in CD = CD0 + k·CL²
+}
+
+// Change of the wing coefficients close to the surface
+export interface GroundEffect {
+  liftFactor: number; // Multiplies the lift coefficient
+  inducedDragFactor: number; // Multiplies the induced drag
+}
+
+// Wing geometry and coefficients used to build a lift curve
+export interface WingDefinition {
+  wingspan: number; // m
+  wingArea: number; // m²
+  liftCoefficient: number; // CL at zero angle of attack
+  dragCoefficient: number; // CD0
+  criticalAngleOfAttack?: number; // rad
+  negativeCriticalAngleOfAttack?: number; // rad
+}
+
+/**
+ * Build the lift curve of a wing
+ */
+export function createLiftCurve(wing: WingDefinition): LiftCurve {
+  const aspectRatio = wing.wingArea > 0
+    ? wing.wingspan * wing.wingspan / wing.wingArea
+    : 6;
+
+  return {
+    zeroLiftCoefficient: wing.liftCoefficient,
+    // Finite wing lift slope (Helmbold's approximation)
+    liftSlope: 2 * Math.PI * aspectRatio / (aspectRatio + 2),
+    criticalAngle: wing.criticalAngleOfAttack ?? DEFAULT_CRITICAL_ANGLE,
+    negativeCriticalAngle: wing.negativeCriticalAngleOfAttack ??
+      DEFAULT_NEGATIVE_CRITICAL_ANGLE,
+    parasiteDrag: wing.dragCoefficient,
+    inducedDragFactor: 1 / (Math.PI * OSWALD_EFFICIENCY * aspectRatio),
+  };
+}
+
+/**
+ * How far the flow has separated at an angle of attack
+ * Returns 0 for attached flow, rising to 1 once fully stalled.
+ */
+export function getSeparation(angleOfAttack: number, curve: LiftCurve): number {
+  let excess = 0;
+  if (angleOfAttack > curve.criticalAngle) {
+    excess = angleOfAttack - curve.criticalAngle;
+  } else if (angleOfAttack < curve.negativeCriticalAngle) {
+    excess = curve.negativeCriticalAngle - angleOfAttack;
+  }
+  return 1 - Math.exp(-Math.pow(excess / STALL_TRANSITION_ANGLE, 2));
+}
+
+/**
+ * Get the lift coefficient at an angle of attack
+ */
+export function getLiftCoefficient(
+  angleOfAttack: number,
+  curve: LiftCurve,
+): number {
+  const attached = curve.zeroLiftCoefficient +
+    curve.liftSlope * angleOfAttack;
+  const separated = FLAT_PLATE_LIFT * Math.sin(2 * angleOfAttack);
+  const separation = getSeparation(angleOfAttack, curve);
+  return attached * (1 - separation) + separated * separation;
+}
+
+/**
+ * Get the drag coefficient at an angle of attack
+ * @param inducedDragFactor Scale of the induced drag, see getGroundEffect
+ */
+export function getDragCoefficient(
+  angleOfAttack: number,
+  curve: LiftCurve,
+  inducedDragFactor: number = 1,
+): number {
+  const inducedDrag = curve.inducedDragFactor * inducedDragFactor;
+  const attachedLift = curve.zeroLiftCoefficient +
+    curve.liftSlope * angleOfAttack;
+  const attached = curve.parasiteDrag +
+    inducedDrag * attachedLift * attachedLift;
+
+  // Separated flow keeps the induced drag reached at the stall
+  const stallAngle = angleOfAttack >= 0
+    ? curve.criticalAngle
+    : curve.negativeCriticalAngle;
+  const stallLift = curve.zeroLiftCoefficient + curve.liftSlope * stallAngle;
+  const sine = Math.sin(angleOfAttack);
+  const separated = curve.parasiteDrag +
+    inducedDrag * stallLift * stallLift +
+    FLAT_PLATE_DRAG * sine * sine;
+  const separation = getSeparation(angleOfAttack, curve);
+  return attached * (1 - separation) + separated * separation;
+}
+
+/**
+ * Get the largest lift coefficient before the stall
+ */
+export function getMaxLiftCoefficient(curve: LiftCurve): number {
+  return curve.zeroLiftCoefficient + curve.liftSlope * curve.criticalAngle;
+}
+
+/**
+ * Get the ground effect on a wing at a height above the surface
+ * Induced drag follows McCormick's φ = (16h/b)² / (1 + (16h/b)²), which
+ * fades out within about a wingspan; lift rises as the downwash is blocked.
+ * @param height Height of the wing above the surface in m
+ * @param wingspan m
+ */
+export function getGroundEffect(
+  height: number,
+  wingspan: number,
+): GroundEffect {
+  if (wingspan <= 0) {
+    return { liftFactor: 1, inducedDragFactor: 1 };
+  }
+
+  const ratio = 16 * Math.max(height, 0) / wingspan;
+  const inducedDragFactor = ratio * ratio / (1 + ratio * ratio);
+  return {
+    liftFactor: 1 + GROUND_EFFECT_LIFT_GAIN * (1 - inducedDragFactor),
+    inducedDragFactor,
+  };
+}
@@ -0,0 +1,582 @@
+/**
+ * Aircraft Loader Module
+ *
+ * This module parses YSFLIGHT aircraft DAT files into typed aircraft
+ * definitions. Values carry unit suffixes (kg, t, m, m^2, deg, kt, MACH,
+ * sec...) and are converted to SI units. DAT positions use YSFLIGHT axes (+X
+ * right wing, +Y up, +Z nose) and are converted to the body axes used by
+ * the physics engine (+X left wing).
+ */
+
+import * as THREE from "three";
+import { createLiftCurve } from "./aerodynamics.ts";
+import { getAtmosphere } from "./atmosphere.ts";
+import {
+  createEngine,
+  type EngineDefinition,
+  getSteadyDryThrust,
+  getThrustLapse,
+} from "./engine.ts";
+import { createStructuralLimits } from "./damage.ts";
+import { createGearFromLayout } from "./gear.ts";
+import { createFlaps } from "./high_lift.ts";
+import { withLoadout } from "./mass.ts";
+import { type AircraftProperties, FlightModel } from "./physics.ts";
+import { createRotor } from "./rotorcraft.ts";
+
+// Constants
+const GRAVITY = 9.81; // m/s²
+
+// YSFLIGHT treats Mach 1 as a fixed speed
+const MACH_SPEED = 340; // m/s
+
+// Assumptions for values that DAT files do not provide
+const DEFAULT_ASPECT_RATIO = 6; // Wingspan² / wing area
+const DEFAULT_DRAG_COEFFICIENT = 0.03;
+const DEFAULT_LIFT_COEFFICIENT = 0.5;
+const DEFAULT_CRUISE_THROTTLE = 1; // Military power without REFTCRUS
+
+// Least parasite drag the cruise trim leaves, should induced drag alone
+// use up the cruise thrust
+const MIN_DRAG_COEFFICIENT = 0.005;
+
+// Rotor sizing for helicopters, from the maximum weight
+const HELICOPTER_CATEGORY = "HELICOPTER";
+const ROTOR_DISC_LOADING = 300; // N/m²
+const ROTOR_THRUST_MARGIN = 1.3; // Full collective thrust per unit weight
+
+// Typical non-dimensional radii of gyration (roll, pitch, yaw)
+const ROLL_GYRATION_RADIUS = 0.25;
+const PITCH_GYRATION_RADIUS = 0.38;
+const YAW_GYRATION_RADIUS = 0.39;
+
+// Physical quantity of a DAT value, which selects the accepted units
+export type Quantity =
+  | "length"
+  | "area"
+  | "mass"
+  | "force"
+  | "speed"
+  | "angle"
+  | "ratio"
+  | "count"
+  | "time";
+
+// Conversion factors to SI units per quantity; "" is a bare number
+const UNIT_FACTORS: Record<Quantity, Record<string, number>> = {
+  length: { "": 1, m: 1, cm: 0.01, km: 1000, ft: 0.3048, in: 0.0254 },
+  area: { "": 1, "m^2": 1, "ft^2": 0.09290304 },
+  mass: { "": 1, kg: 1, t: 1000, lb: 0.45359237 },
+  force: {
+    "": 1,
+    n: 1,
+    kn: 1000,
+    kg: GRAVITY,
+    t: 1000 * GRAVITY,
+    lb: 0.45359237 * GRAVITY,
+  },
+  speed: {
+    "": 1,
+    "m/s": 1,
+    kt: 0.514444,
+    "km/h": 1 / 3.6,
+    mach: MACH_SPEED,
+  },
+  angle: { "": 1, rad: 1, deg: Math.PI / 180 },
+  ratio: { "": 1, "%": 0.01 },
+  count: { "": 1 },
+  time: { "": 1, s: 1, sec: 1, ms: 0.001 },
+};
+
+// Keywords that only affect cockpit, camera or visual model setup
+const IGNORED_KEYWORDS = new Set([
+  "POSITION",
+  "ATTITUDE",
+  "COCKPITP",
+  "EXCAMERA",
+  "INSTPANL",
+  "SCRNCNTR",
+  "SMOKEGEN",
+  "SMOKECOL",
+  "VAPORPO0",
+  "VAPORPO1",
+  "NREALPRP",
+  "PROPELLR",
+  "CTLLDGEA",
+  "CTLBRAKE",
+  "CTLSPOIL",
+  "CTLABRNR",
+  "CTLTHROT",
+  "CTLIFLAP",
+  "CTLINVGR",
+  "CTLATVGW",
+]);
+
+// Weapon station (hardpoint)
+export interface WeaponStation {
+  position: THREE.Vector3; // m, body axes
+  stores: string[]; // Store names the station can carry
+}
+
+// Problem found while reading a DAT file
+export interface DatWarning {
+  line: number;
+  keyword: string;
+  message: string;
+}
+
+// Aircraft definition read from a DAT file
+export interface AircraftDefinition {
+  identify: string;
+  category: string;
+  properties: AircraftProperties; // Ready for PhysicsEngine.registerAircraft
+  engine: EngineDefinition; // Also set on the properties
+  weights: {
+    empty: number; // kg
+    fuel: number; // kg, full internal fuel
+    maxLoad: number; // kg of stores
+    initialFuel: number; // Fraction of full fuel at start
+    initialLoad: number; // kg of stores at start
+  };
+  performance: {
+    criticalAoaPositive: number; // rad
+    criticalAoaNegative: number; // rad
+    cruiseSpeed: number; // m/s
+    cruiseAltitude: number; // m
+    cruiseThrottle: number; // Throttle that holds the cruise speed
+    landingSpeed: number; // m/s
+    landingAoa: number; // rad
+    runwayLength: number; // m
+    maxSpeed: number; // m/s
+    maxLoadFactor: number; // g
+  };
+  aerodynamics: {
+    liftByFlaps: number; // ΔCL at full flaps
+    dragByFlaps: number; // ΔCD at full flaps
+    dragByGear: number; // ΔCD with gear down
+    dragBySpeedBrake: number; // ΔCD with speed brake out
+  };
+  stations: WeaponStation[];
+  guns: {
+    positions: THREE.Vector3[]; // m, body axes
+    rounds: number;
+    interval: number; // s between rounds
+  };
+  initialStores: Record<string, number>; // From INITxxxx keywords
+  warnings: DatWarning[];
+}
+
+// Values collected while reading, before the definition is assembled
+interface RawDefinition {
+  identify: string;
+  category: string;
+  afterburner: boolean;
+  numbers: Map<string, number>;
+  gear: Map<string, THREE.Vector3>;
+  stations: WeaponStation[];
+  gunPositions: THREE.Vector3[];
+  tailhook: THREE.Vector3 | null;
+  initialStores: Record<string, number>;
+}
+
+// Scalar keywords and their quantities
+const SCALAR_KEYWORDS: Record<string, Quantity> = {
+  THRAFTBN: "force",
+  THRMILIT: "force",
+  WEIGHCLN: "mass",
+  WEIGHFUL: "mass",
+  WEIGHLOD: "mass",
+  FUELABRN: "mass",
+  FUELMILI: "mass",
+  WINGAREA: "area",
+  CRITAOAP: "angle",
+  CRITAOAM: "angle",
+  CRITSPED: "speed",
+  MAXSPEED: "speed",
+  REFVCRUS: "speed",
+  REFACRUS: "length",
+  REFTCRUS: "ratio",
+  REFVLAND: "speed",
+  REFAOALD: "angle",
+  REFLNRWY: "length",
+  REFTHRLD: "ratio",
+  STRENGTH: "ratio",
+  CLBYFLAP: "ratio",
+  CDBYFLAP: "ratio",
+  CDBYGEAR: "ratio",
+  CDSPDBRK: "ratio",
+  INITFUEL: "ratio",
+  INITLOAD: "mass",
+  INITIGUN: "count",
+  GUNINTVL: "time",
+};
+
+// Gear position keywords and the wheel they describe
+const GEAR_KEYWORDS: Record<string, string> = {
+  LEFTGEAR: "left",
+  RIGHGEAR: "right",
+  WHELGEAR: "steerable",
+};
+
+/**
+ * Convert a unit-suffixed DAT value to SI units
+ * Returns null if the value or its unit is not valid for the quantity.
+ */
+export function parseDatValue(text: string, quantity: Quantity): number | null {
+  const match = text.match(/^([-+]?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?)(.*)$/i);
+  if (!match) {
+    return null;
+  }
+
+  const factor = UNIT_FACTORS[quantity][match[2].toLowerCase()];
+  if (factor === undefined) {
+    return null;
+  }
+
+  return parseFloat(match[1]) * factor;
+}
+
+/**
+ * Convert a YSFLIGHT position (x right) to body axes (x left)
+ */
+function parsePosition(values: string[]): THREE.Vector3 | null {
+  if (values.length < 3) {
+    return null;
+  }
+  const [x, y, z] = values.slice(0, 3).map((value) =>
+    parseDatValue(value, "length")
+  );
+  if (x === null || y === null || z === null) {
+    return null;
+  }
+  return new THREE.Vector3(-x, y, z);
+}
+
+/**
+ * Split a DAT line into words, keeping quoted strings together
+ */
+function tokenize(line: string): string[] {
+  const tokens: string[] = [];
+  const pattern = /"([^"]*)"|(\S+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(line)) !== null) {
+    tokens.push(match[1] ?? match[2]);
+  }
+  return tokens;
+}
+
+/**
+ * Parse the text of a YSFLIGHT aircraft DAT file
+ * Unknown keywords and unreadable values are reported as warnings; a
+ * missing weight, wing area or thrust is an error.
+ */
+export function parseAircraftDat(text: string): AircraftDefinition {
+  const warnings: DatWarning[] = [];
+  const raw: RawDefinition = {
+    identify: "",
+    category: "",
+    afterburner: false,
+    numbers: new Map(),
+    gear: new Map(),
+    stations: [],
+    gunPositions: [],
+    tailhook: null,
+    initialStores: {},
+  };
+
+  text.split(/\r?\n/).forEach((sourceLine, index) => {
+    const lineNumber = index + 1;
+    const line = sourceLine.replace(/#.*$/, "").trim();
+    if (line === "" || /^REM\b/i.test(line)) {
+      return;
+    }
+
+    const [keyword, ...values] = tokenize(line);
+    const key = keyword.toUpperCase();
+    const warn = (message: string) =>
+      warnings.push({ line: lineNumber, keyword: key, message });
+
+    if (IGNORED_KEYWORDS.has(key)) {
+      return;
+    }
+
+    if (key === "IDENTIFY") {
+      raw.identify = values.join(" ");
+    } else if (key === "CATEGORY") {
+      raw.category = (values[0] ?? "").toUpperCase();
+    } else if (key === "AFTBURNR") {
+      raw.afterburner = (values[0] ?? "").toUpperCase() === "TRUE";
+    } else if (key in SCALAR_KEYWORDS) {
+      const value = values[0] === undefined
+        ? null
+        : parseDatValue(values[0], SCALAR_KEYWORDS[key]);
+      if (value === null) {
+        warn(`Cannot read ${SCALAR_KEYWORDS[key]} value "${values[0]}"`);
+      } else {
+        raw.numbers.set(key, value);
+      }
+    } else if (key in GEAR_KEYWORDS) {
+      const position = parsePosition(values);
+      if (position) {
+        raw.gear.set(GEAR_KEYWORDS[key], position);
+      } else {
+        warn(`Cannot read gear position "${values.join(" ")}"`);
+      }
+    } else if (key === "HRDPOINT") {
+      const position = parsePosition(values);
+      if (position) {
+        raw.stations.push({ position, stores: values.slice(3) });
+      } else {
+        warn(`Cannot read hardpoint "${values.join(" ")}"`);
+      }
+    } else if (key === "MACHNGUN") {
+      const position = parsePosition(values);
+      if (position) {
+        raw.gunPositions.push(position);
+      } else {
+        warn(`Cannot read gun position "${values.join(" ")}"`);
+      }
+    } else if (key === "ARRESTER") {
+      const position = parsePosition(values);
+      if (position) {
+        raw.tailhook = position;
+      } else {
+        warn(`Cannot read arresting hook position "${values.join(" ")}"`);
+      }
+    } else if (key.startsWith("INIT")) {
+      // Initial store counts such as INITIAAM, INITB500 or INITRCKT
+      const count = values[0] === undefined ? NaN : parseInt(values[0], 10);
+      if (Number.isNaN(count)) {
+        warn(`Cannot read store count "${values[0]}"`);
+      } else {
+        raw.initialStores[key.slice(4)] = count;
+      }
+    } else {
+      warn(`Unknown keyword ${key}`);
+    }
+  });
+
+  return buildDefinition(raw, warnings);
+}
+
+/**
+ * Load and parse an aircraft DAT file, e.g. from public/assets/runtime
+ */
+export async function loadAircraftDefinition(
+  url: string,
+): Promise<AircraftDefinition> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(
+      `Failed to load aircraft ${url}: ${response.status} ${response.statusText}`,
+    );
+  }
+  return parseAircraftDat(await response.text());
+}
+
+/**
+ * Assemble the aircraft definition from the values read from the file
+ */
+function buildDefinition(
+  raw: RawDefinition,
+  warnings: DatWarning[],
+): AircraftDefinition {
+  const numbers = raw.numbers;
+  const name = raw.identify || "aircraft";
+  const required = (key: string): number => {
+    const value = numbers.get(key);
+    if (value === undefined) {
+      throw new Error(`${name}: missing ${key}`);
+    }
+    return value;
+  };
+  const optional = (key: string, fallback: number = 0): number =>
+    numbers.get(key) ?? fallback;
+
+  const emptyWeight = required("WEIGHCLN");
+  const wingArea = required("WINGAREA");
+  const militaryThrust = required("THRMILIT");
+  const afterburnerThrust = raw.afterburner ? optional("THRAFTBN") : 0;
+
+  const fuel = optional("WEIGHFUL");
+  const initialFuel = optional("INITFUEL", 1);
+  const initialLoad = optional("INITLOAD");
+  const mass = emptyWeight + fuel * initialFuel + initialLoad;
+
+  // DAT files give no span or inertia; estimate them from the wing area.
+  // The inertia is that of the empty airframe, fuel and stores add to it.
+  const wingspan = Math.sqrt(DEFAULT_ASPECT_RATIO * wingArea);
+  const momentOfInertia = new THREE.Vector3(
+    emptyWeight * Math.pow(PITCH_GYRATION_RADIUS * wingspan / 2, 2),
+    emptyWeight * Math.pow(YAW_GYRATION_RADIUS * wingspan / 2, 2),
+    emptyWeight * Math.pow(ROLL_GYRATION_RADIUS * wingspan / 2, 2),
+  );
+
+  const engine = createEngine({
+    militaryThrust,
+    afterburnerThrust,
+    fuelFlowMilitary: optional("FUELMILI"),
+    fuelFlowAfterburner: optional("FUELABRN"),
+  });
+
+  // Trim at the cruise reference: lift balances weight and the thrust at
+  // the cruise throttle balances drag. The drag coefficient is the
+  // parasite drag, so the induced drag of the cruise lift comes off it.
+  let liftCoefficient = DEFAULT_LIFT_COEFFICIENT;
+  let dragCoefficient = DEFAULT_DRAG_COEFFICIENT;
+  const cruiseSpeed = optional("REFVCRUS");
+  const cruiseAltitude = optional("REFACRUS");
+  const cruiseThrottle = optional("REFTCRUS", DEFAULT_CRUISE_THROTTLE);
+  if (cruiseSpeed > 0) {
+    const atmosphere = getAtmosphere(cruiseAltitude);
+    const dynamicPressure = 0.5 * atmosphere.density * cruiseSpeed *
+      cruiseSpeed;
+    const thrust = militaryThrust *
+      getSteadyDryThrust(engine, cruiseThrottle) *
+      getThrustLapse(atmosphere, cruiseSpeed / atmosphere.speedOfSound).dry;
+    liftCoefficient = mass * GRAVITY / (dynamicPressure * wingArea);
+    const inducedDrag = createLiftCurve({
+      wingspan,
+      wingArea,
+      liftCoefficient,
+      dragCoefficient: 0,
+    }).inducedDragFactor * liftCoefficient * liftCoefficient;
+    dragCoefficient = thrust / (dynamicPressure * wingArea) - inducedDrag;
+    if (dragCoefficient < MIN_DRAG_COEFFICIENT) {
+      dragCoefficient = MIN_DRAG_COEFFICIENT;
+      warnings.push({
+        line: 0,
+        keyword: "REFTCRUS",
+        message: "Cruise thrust too low for the cruise lift",
+      });
+    }
+  } else {
+    warnings.push({
+      line: 0,
+      keyword: "REFVCRUS",
+      message: "No cruise reference, using default lift and drag",
+    });
+  }
+
+  // Fuel sits at the reference point and the initial load is one store
+  let properties: AircraftProperties = {
+    mass: emptyWeight,
+    wingspan,
+    wingArea,
+    dragCoefficient,
+    liftCoefficient,
+    maxThrust: militaryThrust,
+    momentOfInertia,
+    engine,
+    fuelCapacity: fuel,
+    criticalAngleOfAttack: numbers.get("CRITAOAP"),
+    negativeCriticalAngleOfAttack: numbers.get("CRITAOAM"),
+  };
+  properties = withLoadout(properties, {
+    fuel: fuel * initialFuel,
+    stores: initialLoad > 0
+      ? [{ name: "INITLOAD", mass: initialLoad, position: new THREE.Vector3() }]
+      : [],
+  });
+
+  const left = raw.gear.get("left");
+  const right = raw.gear.get("right");
+  const steerable = raw.gear.get("steerable");
+  if (left && right && steerable) {
+    properties.landingGear = createGearFromLayout({
+      mass,
+      steerableWheel: steerable,
+      leftWheel: left,
+      rightWheel: right,
+    });
+    // Carrier aircraft launch from a bar on the nose wheel
+    if (raw.tailhook && steerable.z > (left.z + right.z) / 2) {
+      properties.launchBar = steerable.clone();
+    }
+  } else if (left || right || steerable) {
+    warnings.push({
+      line: 0,
+      keyword: "LEFTGEAR",
+      message: "Incomplete gear, need LEFTGEAR, RIGHGEAR and WHELGEAR",
+    });
+  }
+
+  if (raw.tailhook) {
+    properties.tailhook = raw.tailhook;
+  }
+
+  // Limit load from the strength and never-exceed speed from the critical
+  // speed
+  const strength = numbers.get("STRENGTH");
+  const criticalSpeed = numbers.get("CRITSPED");
+  if (strength !== undefined || criticalSpeed !== undefined) {
+    properties.structuralLimits = createStructuralLimits({
+      maxLoadFactor: strength,
+      neverExceedSpeed: criticalSpeed,
+    });
+  }
+
+  const speedBrakeDrag = numbers.get("CDSPDBRK");
+  if (speedBrakeDrag !== undefined) {
+    properties.speedBrakeDrag = speedBrakeDrag;
+  }
+
+  // Flaps with the default detents and deploy time
+  const liftByFlaps = numbers.get("CLBYFLAP");
+  if (liftByFlaps !== undefined) {
+    properties.flaps = createFlaps({
+      liftIncrement: liftByFlaps,
+      dragIncrement: optional("CDBYFLAP"),
+    });
+  }
+
+  // Helicopters fly on a rotor sized for their maximum weight
+  if (raw.category === HELICOPTER_CATEGORY) {
+    const maxWeight = (emptyWeight + fuel + optional("WEIGHLOD")) * GRAVITY;
+    properties.flightModel = FlightModel.ROTORCRAFT;
+    properties.rotor = createRotor({
+      radius: Math.sqrt(maxWeight / (Math.PI * ROTOR_DISC_LOADING)),
+      maxThrust: ROTOR_THRUST_MARGIN * maxWeight,
+    });
+  }
+
+  return {
+    identify: raw.identify,
+    category: raw.category,
+    properties,
+    engine,
+    weights: {
+      empty: emptyWeight,
+      fuel,
+      maxLoad: optional("WEIGHLOD"),
+      initialFuel,
+      initialLoad,
+    },
+    performance: {
+      criticalAoaPositive: optional("CRITAOAP", 20 * Math.PI / 180),
+      criticalAoaNegative: optional("CRITAOAM", -15 * Math.PI / 180),
+      cruiseSpeed,
+      cruiseAltitude,
+      cruiseThrottle,
+      landingSpeed: optional("REFVLAND"),
+      landingAoa: optional("REFAOALD"),
+      runwayLength: optional("REFLNRWY"),
+      maxSpeed: optional("MAXSPEED", optional("CRITSPED")),
+      maxLoadFactor: optional("STRENGTH"),
+    },
+    aerodynamics: {
+      liftByFlaps: optional("CLBYFLAP"),
+      dragByFlaps: optional("CDBYFLAP"),
+      dragByGear: optional("CDBYGEAR"),
+      dragBySpeedBrake: optional("CDSPDBRK"),
+    },
+    stations: raw.stations,
+    guns: {
+      positions: raw.gunPositions,
+      rounds: optional("INITIGUN"),
+      interval: optional("GUNINTVL"),
+    },
+    initialStores: raw.initialStores,
+    warnings,
+  };
+}
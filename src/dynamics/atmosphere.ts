@@ -0,0 +1,201 @@
+/**
+ * Atmosphere Module
+ *
+ * This module implements the International Standard Atmosphere (ISA) from sea
+ * level to 47 km, with temperature and pressure offsets for non-standard days.
+ * It also converts between true and indicated airspeed.
+ */
+
+// Sea level standard values
+export const SEA_LEVEL_TEMPERATURE = 288.15; // K
+export const SEA_LEVEL_PRESSURE = 101325; // Pa
+export const SEA_LEVEL_DENSITY = 1.225; // kg/m³
+export const SEA_LEVEL_SPEED_OF_SOUND = 340.294; // m/s
+
+// Physical constants
+const GAS_CONSTANT = 287.05287; // J/(kg·K), dry air
+const HEAT_CAPACITY_RATIO = 1.4;
+const STANDARD_GRAVITY = 9.80665; // m/s²
+
+// Atmospheric conditions relative to the standard day
+export interface AtmosphericConditions {
+  temperatureOffset: number; // K, deviation from ISA temperature
+  seaLevelPressure: number; // Pa, QNH
+}
+
+// Atmospheric properties at an altitude
+export interface AtmosphereSample {
+  temperature: number; // K
+  pressure: number; // Pa
+  density: number; // kg/m³
+  speedOfSound: number; // m/s
+}
+
+// ISA layer definition
+interface AtmosphereLayer {
+  baseAltitude: number; // m
+  lapseRate: number; // K/m
+  baseTemperature: number; // K
+  basePressure: number; // Pa
+}
+
+// Standard day conditions
+export const STANDARD_CONDITIONS: AtmosphericConditions = {
+  temperatureOffset: 0,
+  seaLevelPressure: SEA_LEVEL_PRESSURE,
+};
+
+// ISA layers (troposphere, tropopause, stratosphere)
+const ISA_LAYERS: AtmosphereLayer[] = buildLayers([
+  { baseAltitude: 0, lapseRate: -0.0065 },
+  { baseAltitude: 11000, lapseRate: 0 },
+  { baseAltitude: 20000, lapseRate: 0.001 },
+  { baseAltitude: 32000, lapseRate: 0.0028 },
+]);
+
+// Top of the modelled atmosphere
+const MAX_ALTITUDE = 47000; // m
+
+/**
+ * Fill in the base temperature and pressure of each layer
+ */
+function buildLayers(
+  definitions: { baseAltitude: number; lapseRate: number }[],
+): AtmosphereLayer[] {
+  const layers: AtmosphereLayer[] = [];
+  let baseTemperature = SEA_LEVEL_TEMPERATURE;
+  let basePressure = SEA_LEVEL_PRESSURE;
+
+  definitions.forEach((definition, index) => {
+    if (index > 0) {
+      const previous = layers[index - 1];
+      const height = definition.baseAltitude - previous.baseAltitude;
+      baseTemperature = previous.baseTemperature + previous.lapseRate * height;
+      basePressure = layerPressure(previous, height);
+    }
+    layers.push({ ...definition, baseTemperature, basePressure });
+  });
+
+  return layers;
+}
+
+/**
+ * Standard pressure at a height above the base of a layer
+ */
+function layerPressure(layer: AtmosphereLayer, height: number): number {
+  if (layer.lapseRate === 0) {
+    return layer.basePressure *
+      Math.exp(
+        -STANDARD_GRAVITY * height / (GAS_CONSTANT * layer.baseTemperature),
+      );
+  }
+
+  const temperature = layer.baseTemperature + layer.lapseRate * height;
+  return layer.basePressure *
+    Math.pow(
+      temperature / layer.baseTemperature,
+      -STANDARD_GRAVITY / (GAS_CONSTANT * layer.lapseRate),
+    );
+}
+
+/**
+ * Find the ISA layer containing an altitude
+ */
+function findLayer(altitude: number): AtmosphereLayer {
+  for (let i = ISA_LAYERS.length - 1; i >= 0; i--) {
+    if (altitude >= ISA_LAYERS[i].baseAltitude) {
+      return ISA_LAYERS[i];
+    }
+  }
+  // Below sea level, extend the troposphere downwards
+  return ISA_LAYERS[0];
+}
+
+/**
+ * Get the atmospheric properties at an altitude
+ * @param altitude Geopotential altitude above mean sea level in meters
+ * @param conditions Deviation from the standard day
+ */
+export function getAtmosphere(
+  altitude: number,
+  conditions: AtmosphericConditions = STANDARD_CONDITIONS,
+): AtmosphereSample {
+  const clampedAltitude = Math.min(altitude, MAX_ALTITUDE);
+  const layer = findLayer(clampedAltitude);
+  const height = clampedAltitude - layer.baseAltitude;
+
+  // Standard profile, shifted by the day's temperature and QNH
+  const standardTemperature = layer.baseTemperature + layer.lapseRate * height;
+  const temperature = standardTemperature + conditions.temperatureOffset;
+  const pressure = layerPressure(layer, height) *
+    (conditions.seaLevelPressure / SEA_LEVEL_PRESSURE);
+  const density = pressure / (GAS_CONSTANT * temperature);
+  const speedOfSound = Math.sqrt(
+    HEAT_CAPACITY_RATIO * GAS_CONSTANT * temperature,
+  );
+
+  return { temperature, pressure, density, speedOfSound };
+}
+
+/**
+ * Get the standard-day altitude that has the given air density
+ */
+export function getDensityAltitude(density: number): number {
+  for (let i = 0; i < ISA_LAYERS.length; i++) {
+    const layer = ISA_LAYERS[i];
+    const baseDensity = layer.basePressure /
+      (GAS_CONSTANT * layer.baseTemperature);
+    const isLastLayer = i === ISA_LAYERS.length - 1;
+    const nextLayer = ISA_LAYERS[i + 1];
+    const topDensity = isLastLayer ? 0 : nextLayer.basePressure /
+      (GAS_CONSTANT * nextLayer.baseTemperature);
+
+    // Use this layer if the density lies within it (or below sea level)
+    if (density > topDensity || isLastLayer) {
+      if (layer.lapseRate === 0) {
+        return layer.baseAltitude -
+          (GAS_CONSTANT * layer.baseTemperature / STANDARD_GRAVITY) *
+            Math.log(density / baseDensity);
+      }
+
+      const exponent = -STANDARD_GRAVITY / (GAS_CONSTANT * layer.lapseRate) -
+        1;
+      const temperature = layer.baseTemperature *
+        Math.pow(density / baseDensity, 1 / exponent);
+      return layer.baseAltitude +
+        (temperature - layer.baseTemperature) / layer.lapseRate;
+    }
+  }
+
+  return MAX_ALTITUDE;
+}
+
+/**
+ * Convert true airspeed to indicated (calibrated) airspeed
+ * Uses the compressible pitot relations, including the Rayleigh formula
+ * for supersonic flight.
+ */
+export function getIndicatedAirspeed(
+  trueAirspeed: number,
+  sample: AtmosphereSample,
+): number {
+  const mach = trueAirspeed / sample.speedOfSound;
+
+  // Impact pressure sensed by the pitot tube
+  let impactPressure: number;
+  if (mach < 1) {
+    impactPressure = sample.pressure *
+      (Math.pow(1 + 0.2 * mach * mach, 3.5) - 1);
+  } else {
+    impactPressure = sample.pressure *
+      (166.92158 * Math.pow(mach, 7) /
+          Math.pow(7 * mach * mach - 1, 2.5) - 1);
+  }
+
+  // Airspeed that gives the same impact pressure at sea level
+  return SEA_LEVEL_SPEED_OF_SOUND *
+    Math.sqrt(
+      5 *
+        (Math.pow(impactPressure / SEA_LEVEL_PRESSURE + 1, 2 / 7) - 1),
+    );
+}
@@ -0,0 +1,478 @@
+/**
+ * Carrier Module
+ *
+ * This module models moving platforms such as the flight deck of an
+ * aircraft carrier. A platform steams along its heading, turns, and pitches
+ * and rolls with the swell; aircraft resting on the deck are carried along
+ * by the friction of their wheels against the moving surface. A carrier
+ * deck also has arrestor wires that a lowered tailhook catches on landing
+ * and catapults that a lowered launch bar hooks onto for takeoff.
+ * Deck axes follow the body axes: +X port, +Y up, +Z bow, with the origin
+ * at the centre of the deck.
+ */
+
+import * as THREE from "three";
+import { type SurfaceSample, SurfaceType } from "./terrain.ts";
+import { type ContactBodyState } from "./gear.ts";
+
+// A hook this far above the deck still picks up a wire
+const WIRE_CATCH_HEIGHT = 0.5; // m
+
+// Speed over the deck over which the wire tension builds up to its full
+// value, and the stiffness of a wire paid out to the end of its runout
+const WIRE_SLIP_SPEED = 0.5; // m/s
+const WIRE_STOP_STIFFNESS = 50; // N/m per kg
+
+// Launch bar hookup: distance from the shuttle and misalignment allowed
+const CATAPULT_HOOKUP_DISTANCE = 1.5; // m
+const CATAPULT_HOOKUP_ANGLE = 10 * Math.PI / 180; // rad
+
+// Holdback spring and damper per kg of aircraft mass, stiff enough to hold
+// full power with the launch bar a few tenths of a metre off the shuttle
+const HOLDBACK_STIFFNESS = 50; // N/m per kg
+const HOLDBACK_DAMPING = 14; // N·s/m per kg
+
+// Catapult track along the deck
+export interface CatapultDefinition {
+  position: THREE.Vector3; // m, deck axes, shuttle at the start of the stroke
+  stroke: number; // m
+  endSpeed: number; // m/s over the deck the shuttle alone gives at the end
+}
+
+// Moving platform definition
+export interface PlatformDefinition {
+  length: number; // m of deck along the bow axis
+  width: number; // m of deck across it
+  wires: number[]; // m along the deck of each arrestor wire, stern first
+  wireSpan: number; // m across the deck the wires can be caught
+  runout: number; // m the wires pay out to stop an aircraft
+  catapults: CatapultDefinition[];
+  pitchAmplitude: number; // rad of pitching in the swell
+  rollAmplitude: number; // rad of rolling in the swell
+  swellPeriod: number; // s
+}
+
+// Moving platform motion
+export interface PlatformState {
+  position: THREE.Vector3; // m, centre of the deck
+  heading: number; // rad, as in getAttitude: 0 along +Z
+  speed: number; // m/s along the heading
+  turnRate: number; // rad/s, heading change
+  time: number; // s of swell elapsed
+}
+
+// Tailhook and launch bar positions of an aircraft, body axes
+export interface CarrierEquipment {
+  tailhook?: THREE.Vector3; // m, tip of the lowered hook
+  launchBar?: THREE.Vector3; // m, tip of the lowered launch bar
+}
+
+// Arrestor wire caught by a tailhook
+export interface WireEngagement {
+  platform: string; // Platform id
+  wire: number; // Index of the wire, stern first
+  point: THREE.Vector3; // m, deck axes, where the hook caught it
+  entrySpeed: number; // m/s over the deck when caught
+}
+
+// Catapult a launch bar is hooked onto
+export interface CatapultHookup {
+  platform: string; // Platform id
+  catapult: number; // Index of the catapult
+  fired: boolean; // False while held back before the shot
+}
+
+// Tailhook and launch bar state of an aircraft
+export interface CarrierGearState {
+  hookDown: boolean;
+  launchBarDown: boolean;
+  wire: WireEngagement | null;
+  catapult: CatapultHookup | null;
+}
+
+// Forces of the wire and catapult on the airframe
+export interface CarrierForces {
+  force: THREE.Vector3; // N, world frame
+  moment: THREE.Vector3; // N·m, body frame
+}
+
+// Surface that moves, e.g. a carrier deck
+export class MovingPlatform {
+  public readonly definition: PlatformDefinition;
+  private state: PlatformState;
+
+  constructor(
+    definition: PlatformDefinition,
+    state: Partial<PlatformState> = {},
+  ) {
+    this.definition = definition;
+    this.state = {
+      position: new THREE.Vector3(),
+      heading: 0,
+      speed: 0,
+      turnRate: 0,
+      time: 0,
+      ...state,
+    };
+  }
+
+  /**
+   * Get the platform motion
+   */
+  public getState(): PlatformState {
+    return this.state;
+  }
+
+  /**
+   * Set the platform motion, e.g. from a snapshot
+   */
+  public setState(state: PlatformState): void {
+    this.state = { ...state, position: state.position.clone() };
+  }
+
+  /**
+   * Steam along the heading and move with the swell
+   */
+  public advance(deltaTime: number): void {
+    const { state } = this;
+    state.position.addScaledVector(this.getVelocity(), deltaTime);
+    state.heading += state.turnRate * deltaTime;
+    state.time += deltaTime;
+  }
+
+  /**
+   * Get the deck to world rotation
+   */
+  public getOrientation(): THREE.Quaternion {
+    const { pitch, roll } = this.getSwell();
+    return new THREE.Quaternion().setFromEuler(
+      new THREE.Euler(pitch, this.state.heading, roll, "YXZ"),
+    );
+  }
+
+  /**
+   * Get the velocity of the centre of the deck
+   */
+  public getVelocity(): THREE.Vector3 {
+    const { heading, speed } = this.state;
+    return new THREE.Vector3(Math.sin(heading), 0, Math.cos(heading))
+      .multiplyScalar(speed);
+  }
+
+  /**
+   * Get the angular velocity of the deck, world frame
+   * The swell angles are small enough to add their rates to the turn.
+   */
+  public getAngularVelocity(): THREE.Vector3 {
+    const { pitchRate, rollRate } = this.getSwell();
+    return new THREE.Vector3(pitchRate, 0, rollRate)
+      .applyAxisAngle(new THREE.Vector3(0, 1, 0), this.state.heading)
+      .setY(this.state.turnRate);
+  }
+
+  /**
+   * Get the velocity of a point moving with the deck
+   */
+  public getPointVelocity(point: THREE.Vector3): THREE.Vector3 {
+    const offset = point.clone().sub(this.state.position);
+    return new THREE.Vector3()
+      .crossVectors(this.getAngularVelocity(), offset)
+      .add(this.getVelocity());
+  }
+
+  /**
+   * Get the direction of the bow, world frame
+   */
+  public getForward(): THREE.Vector3 {
+    return new THREE.Vector3(0, 0, 1).applyQuaternion(this.getOrientation());
+  }
+
+  /**
+   * Convert a world position to deck axes
+   */
+  public toDeck(point: THREE.Vector3): THREE.Vector3 {
+    return point.clone().sub(this.state.position).applyQuaternion(
+      this.getOrientation().invert(),
+    );
+  }
+
+  /**
+   * Convert a position in deck axes to the world frame
+   */
+  public fromDeck(point: THREE.Vector3): THREE.Vector3 {
+    return point.clone().applyQuaternion(this.getOrientation()).add(
+      this.state.position,
+    );
+  }
+
+  /**
+   * Get the deck surface at a horizontal position
+   * @returns The deck, or null if the position is off the deck
+   */
+  public getDeckSurface(x: number, z: number): SurfaceSample | null {
+    const { position } = this.state;
+    const normal = new THREE.Vector3(0, 1, 0).applyQuaternion(
+      this.getOrientation(),
+    );
+    const height = position.y -
+      (normal.x * (x - position.x) + normal.z * (z - position.z)) / normal.y;
+    const point = new THREE.Vector3(x, height, z);
+
+    const deck = this.toDeck(point);
+    const { length, width } = this.definition;
+    if (Math.abs(deck.x) > width / 2 || Math.abs(deck.z) > length / 2) {
+      return null;
+    }
+
+    return {
+      height,
+      normal,
+      type: SurfaceType.RUNWAY,
+      velocity: this.getPointVelocity(point),
+    };
+  }
+
+  /**
+   * Pitch and roll angles and rates in the swell
+   */
+  private getSwell(): {
+    pitch: number;
+    roll: number;
+    pitchRate: number;
+    rollRate: number;
+  } {
+    const { pitchAmplitude, rollAmplitude, swellPeriod } = this.definition;
+    if (swellPeriod <= 0) {
+      return { pitch: 0, roll: 0, pitchRate: 0, rollRate: 0 };
+    }
+
+    // Rolling lags pitching by a quarter of the period
+    const frequency = 2 * Math.PI / swellPeriod;
+    const phase = frequency * this.state.time;
+    return {
+      pitch: pitchAmplitude * Math.sin(phase),
+      roll: -rollAmplitude * Math.cos(phase),
+      pitchRate: pitchAmplitude * frequency * Math.cos(phase),
+      rollRate: rollAmplitude * frequency * Math.sin(phase),
+    };
+  }
+}
+
+/**
+ * Build a carrier deck definition, filling in defaults
+ */
+export function createCarrierDeck(
+  options: Partial<PlatformDefinition> = {},
+): PlatformDefinition {
+  return {
+    length: 330,
+    width: 40,
+    wires: [-135, -123, -111, -99],
+    wireSpan: 30,
+    runout: 100,
+    catapults: [
+      {
+        position: new THREE.Vector3(5, 0, 40),
+        stroke: 90,
+        endSpeed: 70,
+      },
+      {
+        position: new THREE.Vector3(-5, 0, 40),
+        stroke: 90,
+        endSpeed: 70,
+      },
+    ],
+    pitchAmplitude: 0.5 * Math.PI / 180,
+    rollAmplitude: 1 * Math.PI / 180,
+    swellPeriod: 10,
+    ...options,
+  };
+}
+
+/**
+ * Create the tailhook and launch bar state, both raised
+ */
+export function createCarrierGearState(): CarrierGearState {
+  return {
+    hookDown: false,
+    launchBarDown: false,
+    wire: null,
+    catapult: null,
+  };
+}
+
+/**
+ * Find the arrestor wire a hook crossed on its way towards the bow
+ * @param from Hook position at the start of the step, world frame
+ * @param to Hook position at the end of the step, world frame
+ * @returns Index of the wire, or null if none was caught
+ */
+export function findWireCrossing(
+  platform: MovingPlatform,
+  from: THREE.Vector3,
+  to: THREE.Vector3,
+): number | null {
+  const start = platform.toDeck(from);
+  const end = platform.toDeck(to);
+  const { wires, wireSpan } = platform.definition;
+  if (
+    end.z <= start.z || end.y > WIRE_CATCH_HEIGHT ||
+    Math.abs(end.x) > wireSpan / 2
+  ) {
+    return null;
+  }
+
+  const index = wires.findIndex((wire) => start.z < wire && end.z >= wire);
+  return index === -1 ? null : index;
+}
+
+/**
+ * Find the catapult a launch bar can hook onto
+ * @param launchBar Launch bar position, world frame
+ * @param heading Direction of the aircraft's nose, world frame
+ * @returns Index of the catapult, or null if none is in reach
+ */
+export function findCatapult(
+  platform: MovingPlatform,
+  launchBar: THREE.Vector3,
+  heading: THREE.Vector3,
+): number | null {
+  const bar = platform.toDeck(launchBar);
+  if (heading.angleTo(platform.getForward()) > CATAPULT_HOOKUP_ANGLE) {
+    return null;
+  }
+
+  const index = platform.definition.catapults.findIndex(({ position }) =>
+    Math.hypot(bar.x - position.x, bar.z - position.z) <=
+      CATAPULT_HOOKUP_DISTANCE
+  );
+  return index === -1 ? null : index;
+}
+
+/**
+ * Whether a launch bar has reached the end of the catapult stroke
+ * @param launchBar Launch bar position, world frame
+ */
+export function isStrokeComplete(
+  platform: MovingPlatform,
+  hookup: CatapultHookup,
+  launchBar: THREE.Vector3,
+): boolean {
+  const catapult = platform.definition.catapults[hookup.catapult];
+  return platform.toDeck(launchBar).z >=
+    catapult.position.z + catapult.stroke;
+}
+
+/**
+ * Get the speed of a body point over the deck along the bow axis
+ */
+export function getDeckSpeed(
+  platform: MovingPlatform,
+  point: THREE.Vector3,
+  velocity: THREE.Vector3,
+): number {
+  return velocity.clone().sub(platform.getPointVelocity(point)).dot(
+    platform.getForward(),
+  );
+}
+
+/**
+ * Calculate the pull of a caught wire and of the catapult on the airframe
+ * The wire pays out against the tension that stops the aircraft within
+ * the runout; the catapult holds the aircraft back until fired, then
+ * pulls it along the stroke.
+ */
+export function calculateCarrierForces(
+  equipment: CarrierEquipment,
+  gear: CarrierGearState,
+  body: ContactBodyState,
+  mass: number,
+  platforms: ReadonlyMap<string, MovingPlatform>,
+): CarrierForces {
+  const result: CarrierForces = {
+    force: new THREE.Vector3(),
+    moment: new THREE.Vector3(),
+  };
+  const inverseOrientation = body.orientation.clone().invert();
+  const applyForce = (force: THREE.Vector3, bodyPoint: THREE.Vector3) => {
+    result.force.add(force);
+    result.moment.add(
+      new THREE.Vector3().crossVectors(
+        bodyPoint,
+        force.clone().applyQuaternion(inverseOrientation),
+      ),
+    );
+  };
+
+  // Arrestor wire: an even pull towards the stern that stops the aircraft
+  // at the end of the runout, then holds it there
+  const wirePlatform = gear.wire && platforms.get(gear.wire.platform);
+  if (gear.wire && wirePlatform && equipment.tailhook) {
+    const { runout } = wirePlatform.definition;
+    const { point, velocity } = getBodyPoint(body, equipment.tailhook);
+    const speed = getDeckSpeed(wirePlatform, point, velocity);
+    const payout = wirePlatform.toDeck(point).z - gear.wire.point.z;
+    const deceleration = gear.wire.entrySpeed * gear.wire.entrySpeed /
+      (2 * runout);
+    const tension = mass * Math.max(
+      0,
+      deceleration * Math.max(-1, Math.min(1, speed / WIRE_SLIP_SPEED)) +
+        WIRE_STOP_STIFFNESS * Math.max(0, payout - runout),
+    );
+    applyForce(
+      wirePlatform.getForward().multiplyScalar(-tension),
+      equipment.tailhook,
+    );
+  }
+
+  // Catapult shuttle on the launch bar
+  const catapultPlatform = gear.catapult &&
+    platforms.get(gear.catapult.platform);
+  if (gear.catapult && catapultPlatform && equipment.launchBar) {
+    const catapult =
+      catapultPlatform.definition.catapults[gear.catapult.catapult];
+    const forward = catapultPlatform.getForward();
+    const { point, velocity } = getBodyPoint(body, equipment.launchBar);
+    if (gear.catapult.fired) {
+      // Even pull that reaches the end speed at the end of the stroke
+      applyForce(
+        forward.multiplyScalar(
+          mass * catapult.endSpeed * catapult.endSpeed /
+            (2 * catapult.stroke),
+        ),
+        equipment.launchBar,
+      );
+    } else {
+      // Holdback keeps the launch bar on the shuttle
+      const offset = catapultPlatform.toDeck(point).z - catapult.position.z;
+      const speed = getDeckSpeed(catapultPlatform, point, velocity);
+      applyForce(
+        forward.multiplyScalar(
+          -mass * (HOLDBACK_STIFFNESS * offset + HOLDBACK_DAMPING * speed),
+        ),
+        equipment.launchBar,
+      );
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Get the world position and velocity of a body point
+ */
+export function getBodyPoint(
+  body: ContactBodyState,
+  bodyPoint: THREE.Vector3,
+): { point: THREE.Vector3; velocity: THREE.Vector3 } {
+  return {
+    point: bodyPoint.clone().applyQuaternion(body.orientation).add(
+      body.position,
+    ),
+    // v + ω × r (rotated to world)
+    velocity: new THREE.Vector3()
+      .crossVectors(body.angularVelocity, bodyPoint)
+      .applyQuaternion(body.orientation)
+      .add(body.velocity),
+  };
+}
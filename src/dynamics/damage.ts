@@ -0,0 +1,340 @@
+/**
+ * Damage Module
+ *
+ * This module tracks the load factor and airspeed of an aircraft against
+ * its structural limits, and the damage it takes. Loads beyond the limit
+ * load or speeds beyond the never-exceed speed weaken the airframe a little
+ * more every second, and past the ultimate load it breaks up. Weapon hits
+ * damage the part of the aircraft they strike: damaged control surfaces
+ * lose authority, a damaged wing loses lift and a damaged engine loses
+ * thrust until it flames out. Failures can also be injected directly, such
+ * as a flameout or a control surface jammed where it stands.
+ */
+
+import * as THREE from "three";
+
+// Constants
+const GRAVITY = 9.81; // m/s²
+
+// Limits of aircraft that only give some of them
+const DEFAULT_MAX_LOAD_FACTOR = 7.5; // g
+const NEGATIVE_LOAD_RATIO = 0.4; // Negative limit load per positive one
+
+// The airframe breaks up at this multiple of the limit load
+const ULTIMATE_LOAD_RATIO = 1.5;
+
+// Health lost per second for each fraction over the limit load or speed
+const OVERSTRESS_RATE = 1;
+const OVERSPEED_RATE = 2;
+
+// Lift lost by a wing damaged down to nothing but still attached
+const WING_DAMAGE_LIFT_LOSS = 0.5;
+
+// Where a hit lands, in half spans from the reference point: further out
+// along the wing hits the ailerons, further aft hits the tail, and aft of
+// the reference point otherwise hits the engine
+const AILERON_HIT_SPAN = 0.4;
+const TAIL_HIT_DISTANCE = 0.4;
+
+// Parts of an aircraft that can be damaged
+export enum AircraftComponent {
+  AIRFRAME = "AIRFRAME", // Wings and fuselage
+  ENGINE = "ENGINE",
+  AILERONS = "AILERONS",
+  ELEVATOR = "ELEVATOR",
+  RUDDER = "RUDDER",
+}
+
+// Failures, injected or caused by damage
+export enum FailureType {
+  ENGINE_FLAMEOUT = "ENGINE_FLAMEOUT",
+  AILERON_JAM = "AILERON_JAM",
+  ELEVATOR_JAM = "ELEVATOR_JAM",
+  RUDDER_JAM = "RUDDER_JAM",
+  STRUCTURAL_FAILURE = "STRUCTURAL_FAILURE", // The airframe broke up
+}
+
+// Structural limits of an aircraft
+export interface StructuralLimits {
+  maxLoadFactor: number; // g, positive limit load
+  minLoadFactor: number; // g, negative limit load
+  neverExceedSpeed: number; // m/s indicated
+}
+
+// Control surface deflections, -1.0 to 1.0
+export interface ControlDeflections {
+  elevator: number;
+  aileron: number;
+  rudder: number;
+}
+
+// Damage and loads of an aircraft
+export interface DamageState {
+  health: Record<AircraftComponent, number>; // 1.0 intact to 0.0 destroyed
+  failures: FailureType[]; // Active failures, oldest first
+  jammed: Partial<ControlDeflections>; // Deflections of jammed surfaces
+  loadFactor: number; // g along body up, as an accelerometer reads it
+  peakLoadFactor: number; // g, highest since the last repair
+  minLoadFactor: number; // g, lowest since the last repair
+  overstressed: boolean; // Beyond the limit load
+  overspeed: boolean; // Beyond the never-exceed speed
+}
+
+// Control surface jammed by each failure
+const JAMS: Partial<Record<FailureType, keyof ControlDeflections>> = {
+  [FailureType.AILERON_JAM]: "aileron",
+  [FailureType.ELEVATOR_JAM]: "elevator",
+  [FailureType.RUDDER_JAM]: "rudder",
+};
+
+// Component moving each control surface
+const SURFACES: Record<keyof ControlDeflections, AircraftComponent> = {
+  elevator: AircraftComponent.ELEVATOR,
+  aileron: AircraftComponent.AILERONS,
+  rudder: AircraftComponent.RUDDER,
+};
+
+/**
+ * Build structural limits, filling in defaults
+ * The negative limit load follows the positive one and there is no
+ * never-exceed speed unless given.
+ */
+export function createStructuralLimits(
+  options: Partial<StructuralLimits> = {},
+): StructuralLimits {
+  const maxLoadFactor = options.maxLoadFactor ?? DEFAULT_MAX_LOAD_FACTOR;
+  return {
+    maxLoadFactor,
+    minLoadFactor: options.minLoadFactor ??
+      -NEGATIVE_LOAD_RATIO * maxLoadFactor,
+    neverExceedSpeed: options.neverExceedSpeed ?? Infinity,
+  };
+}
+
+/**
+ * Create the damage state of an undamaged aircraft
+ */
+export function createDamageState(): DamageState {
+  return {
+    health: {
+      [AircraftComponent.AIRFRAME]: 1,
+      [AircraftComponent.ENGINE]: 1,
+      [AircraftComponent.AILERONS]: 1,
+      [AircraftComponent.ELEVATOR]: 1,
+      [AircraftComponent.RUDDER]: 1,
+    },
+    failures: [],
+    jammed: {},
+    loadFactor: 1,
+    peakLoadFactor: 1,
+    minLoadFactor: 1,
+    overstressed: false,
+    overspeed: false,
+  };
+}
+
+/**
+ * Get the load factor along body up from the acceleration of an aircraft
+ * @param acceleration m/s², world frame, including gravity
+ * @param orientation Body to world rotation
+ * @returns g, 1 in level flight and at rest
+ */
+export function getLoadFactor(
+  acceleration: THREE.Vector3,
+  orientation: THREE.Quaternion,
+): number {
+  const up = new THREE.Vector3(0, 1, 0).applyQuaternion(orientation);
+  return acceleration.clone().setY(acceleration.y + GRAVITY).dot(up) /
+    GRAVITY;
+}
+
+/**
+ * Whether a failure is active
+ */
+export function hasFailure(damage: DamageState, failure: FailureType): boolean {
+  return damage.failures.includes(failure);
+}
+
+/**
+ * Start a failure; a jammed surface stays at its current deflection
+ * @param deflections Control surface deflections at the moment of failure
+ * @returns Whether the failure is new
+ */
+export function injectFailure(
+  damage: DamageState,
+  failure: FailureType,
+  deflections: ControlDeflections,
+): boolean {
+  if (hasFailure(damage, failure)) {
+    return false;
+  }
+
+  damage.failures.push(failure);
+  const surface = JAMS[failure];
+  if (surface) {
+    damage.jammed[surface] = deflections[surface];
+  }
+  if (failure === FailureType.ENGINE_FLAMEOUT) {
+    damage.health[AircraftComponent.ENGINE] = 0;
+  }
+  if (failure === FailureType.STRUCTURAL_FAILURE) {
+    // Nothing flies once the airframe has come apart
+    for (const component of Object.values(AircraftComponent)) {
+      if (component !== AircraftComponent.ENGINE) {
+        damage.health[component] = 0;
+      }
+    }
+  }
+  return true;
+}
+
+/**
+ * Take health off a component; a destroyed engine flames out and a
+ * destroyed airframe breaks up
+ * @param deflections Control surface deflections at the moment of damage
+ */
+export function applyDamage(
+  damage: DamageState,
+  component: AircraftComponent,
+  amount: number,
+  deflections: ControlDeflections,
+): void {
+  const health = Math.max(0, damage.health[component] - amount);
+  damage.health[component] = health;
+  if (health > 0) {
+    return;
+  }
+
+  if (component === AircraftComponent.ENGINE) {
+    injectFailure(damage, FailureType.ENGINE_FLAMEOUT, deflections);
+  } else if (component === AircraftComponent.AIRFRAME) {
+    injectFailure(damage, FailureType.STRUCTURAL_FAILURE, deflections);
+  }
+}
+
+/**
+ * Get the component struck by a hit, from where it landed
+ * @param point m, body axes, relative to the reference point
+ */
+export function getHitComponent(
+  point: THREE.Vector3,
+  wingspan: number,
+): AircraftComponent {
+  const halfSpan = wingspan / 2;
+  if (Math.abs(point.x) > AILERON_HIT_SPAN * halfSpan) {
+    return AircraftComponent.AILERONS;
+  }
+  if (point.z < -TAIL_HIT_DISTANCE * halfSpan) {
+    return point.y > 0 ? AircraftComponent.RUDDER : AircraftComponent.ELEVATOR;
+  }
+  return point.z < 0 ? AircraftComponent.ENGINE : AircraftComponent.AIRFRAME;
+}
+
+/**
+ * Damage an aircraft struck by a weapon: the airframe and the part hit
+ * @param point m, body axes, relative to the reference point
+ */
+export function applyHitDamage(
+  damage: DamageState,
+  point: THREE.Vector3,
+  wingspan: number,
+  amount: number,
+  deflections: ControlDeflections,
+): void {
+  const component = getHitComponent(point, wingspan);
+  if (component !== AircraftComponent.AIRFRAME) {
+    applyDamage(damage, component, amount, deflections);
+  }
+  applyDamage(damage, AircraftComponent.AIRFRAME, amount, deflections);
+}
+
+/**
+ * Record the load factor and overstress the airframe beyond its limits
+ * Loads on the ground are left to the landing gear.
+ * @param limits Structural limits, or undefined for an unbreakable airframe
+ * @param airborne Whether the aircraft is clear of the surface
+ * @returns Whether a limit was first exceeded in this step
+ */
+export function updateStructuralDamage(
+  limits: StructuralLimits | undefined,
+  damage: DamageState,
+  loadFactor: number,
+  indicatedAirspeed: number,
+  airborne: boolean,
+  deflections: ControlDeflections,
+  deltaTime: number,
+): boolean {
+  damage.loadFactor = loadFactor;
+  damage.peakLoadFactor = Math.max(damage.peakLoadFactor, loadFactor);
+  damage.minLoadFactor = Math.min(damage.minLoadFactor, loadFactor);
+
+  const wasExceeded = damage.overstressed || damage.overspeed;
+  if (!limits || !airborne) {
+    damage.overstressed = false;
+    damage.overspeed = false;
+    return false;
+  }
+
+  // Fraction beyond the limit load on the side the load is on
+  const limit = loadFactor >= 0 ? limits.maxLoadFactor : limits.minLoadFactor;
+  const overload = loadFactor / limit - 1;
+  damage.overstressed = overload > 0;
+  if (overload >= ULTIMATE_LOAD_RATIO - 1) {
+    injectFailure(damage, FailureType.STRUCTURAL_FAILURE, deflections);
+  } else if (damage.overstressed) {
+    applyDamage(
+      damage,
+      AircraftComponent.AIRFRAME,
+      OVERSTRESS_RATE * overload * deltaTime,
+      deflections,
+    );
+  }
+
+  // Flutter beyond the never-exceed speed shakes the airframe and the
+  // control surfaces
+  const overspeed = indicatedAirspeed / limits.neverExceedSpeed - 1;
+  damage.overspeed = overspeed > 0;
+  if (damage.overspeed) {
+    const amount = OVERSPEED_RATE * overspeed * deltaTime;
+    for (const component of Object.values(SURFACES)) {
+      applyDamage(damage, component, amount, deflections);
+    }
+    applyDamage(damage, AircraftComponent.AIRFRAME, amount, deflections);
+  }
+
+  return !wasExceeded && (damage.overstressed || damage.overspeed);
+}
+
+/**
+ * Get the deflections the control surfaces achieve: jammed surfaces stay
+ * where they stuck and damaged ones lose authority
+ */
+export function getDamagedDeflections(
+  damage: DamageState,
+  deflections: ControlDeflections,
+): ControlDeflections {
+  const result = { ...deflections };
+  for (const surface of Object.keys(SURFACES) as (keyof ControlDeflections)[]) {
+    result[surface] = damage.jammed[surface] ??
+      deflections[surface] * damage.health[SURFACES[surface]];
+  }
+  return result;
+}
+
+/**
+ * Get the fraction of its lift a damaged wing still makes
+ */
+export function getLiftFactor(damage: DamageState): number {
+  if (hasFailure(damage, FailureType.STRUCTURAL_FAILURE)) {
+    return 0;
+  }
+  return 1 - WING_DAMAGE_LIFT_LOSS *
+      (1 - damage.health[AircraftComponent.AIRFRAME]);
+}
+
+/**
+ * Get the fraction of its thrust a damaged engine still makes
+ */
+export function getThrustFactor(damage: DamageState): number {
+  return damage.health[AircraftComponent.ENGINE];
+}
@@ -0,0 +1,234 @@
+/**
+ * Engine Module
+ *
+ * This module models a jet engine: the spool (RPM) follows the throttle with
+ * separate spool-up and spool-down time constants, thrust lapses with air
+ * density and Mach number, and an afterburner lights when the throttle is
+ * pushed through the detent. Fuel flow follows the thrust and the engine
+ * runs down when the fuel is gone.
+ */
+
+import { type AtmosphereSample, SEA_LEVEL_DENSITY } from "./atmosphere.ts";
+
+// Thrust lapse with the density ratio
+const THRUST_DENSITY_EXPONENT = 0.7;
+
+// Spool speeds as a fraction of maximum RPM
+const IDLE_RPM = 0.6;
+const AFTERBURNER_LIGHT_RPM = 0.95; // Spool needed to light the afterburner
+
+// Thrust and fuel flow at idle as a fraction of military power
+const IDLE_THRUST_FRACTION = 0.05;
+const IDLE_FUEL_FRACTION = 0.1;
+
+// Defaults for engines built from a thrust figure alone
+const DEFAULT_SPOOL_UP_TIME = 3; // s
+const DEFAULT_SPOOL_DOWN_TIME = 1.5; // s
+const DEFAULT_AFTERBURNER_DETENT = 0.95; // Throttle position
+const DEFAULT_AFTERBURNER_TIME = 0.5; // s to reach full afterburner
+
+// Engine definition
+export interface EngineDefinition {
+  militaryThrust: number; // N, full dry power at sea level
+  afterburnerThrust: number; // N, full afterburner at sea level (0 if none)
+  afterburnerDetent: number; // Throttle position that lights the afterburner
+  spoolUpTime: number; // s, time constant of the spool accelerating
+  spoolDownTime: number; // s, time constant of the spool decelerating
+  afterburnerTime: number; // s, time constant of the afterburner
+  fuelFlowMilitary: number; // kg/s at military power (0 burns no fuel)
+  fuelFlowAfterburner: number; // kg/s at full afterburner
+}
+
+// Engine state
+export interface EngineState {
+  rpm: number; // Fraction of maximum RPM
+  thrust: number; // N
+  afterburner: boolean; // Afterburner lit
+  afterburnerLevel: number; // 0.0 to 1.0
+  fuelFlow: number; // kg/s
+  running: boolean; // False once the fuel has run out or the engine failed
+}
+
+/**
+ * Build an engine definition, filling in defaults
+ */
+export function createEngine(
+  options: Partial<EngineDefinition> & { militaryThrust: number },
+): EngineDefinition {
+  return {
+    afterburnerThrust: 0,
+    afterburnerDetent: DEFAULT_AFTERBURNER_DETENT,
+    spoolUpTime: DEFAULT_SPOOL_UP_TIME,
+    spoolDownTime: DEFAULT_SPOOL_DOWN_TIME,
+    afterburnerTime: DEFAULT_AFTERBURNER_TIME,
+    fuelFlowMilitary: 0,
+    fuelFlowAfterburner: 0,
+    ...options,
+  };
+}
+
+/**
+ * Whether an engine has an afterburner
+ */
+function hasAfterburner(definition: EngineDefinition): boolean {
+  return definition.afterburnerThrust > definition.militaryThrust;
+}
+
+/**
+ * Split a throttle position into dry power (0 idle to 1 military) and the
+ * afterburner command
+ */
+function readThrottle(
+  definition: EngineDefinition,
+  throttle: number,
+): { power: number; afterburner: boolean } {
+  if (!hasAfterburner(definition)) {
+    return { power: throttle, afterburner: false };
+  }
+  const detent = definition.afterburnerDetent;
+  return {
+    power: Math.min(1, throttle / detent),
+    afterburner: throttle > detent,
+  };
+}
+
+/**
+ * Spool speed that gives a dry power setting at steady state
+ * Thrust grows with the square of the spool above idle.
+ */
+function getTargetRpm(power: number): number {
+  return IDLE_RPM + (1 - IDLE_RPM) * Math.sqrt(Math.max(0, power));
+}
+
+/**
+ * Dry thrust as a fraction of military power at a spool speed
+ */
+function getDryThrustFraction(rpm: number): number {
+  const spool = Math.max(0, (rpm - IDLE_RPM) / (1 - IDLE_RPM));
+  return IDLE_THRUST_FRACTION + (1 - IDLE_THRUST_FRACTION) * spool * spool;
+}
+
+/**
+ * Dry thrust once the spool has settled at a throttle setting
+ * @returns Fraction of military thrust, before the lapse
+ */
+export function getSteadyDryThrust(
+  definition: EngineDefinition,
+  throttle: number,
+): number {
+  return getDryThrustFraction(
+    getTargetRpm(readThrottle(definition, throttle).power),
+  );
+}
+
+/**
+ * Create the engine state, spooled to match a throttle setting
+ */
+export function createEngineState(
+  definition: EngineDefinition,
+  throttle: number = 0,
+): EngineState {
+  const { power, afterburner } = readThrottle(definition, throttle);
+  return {
+    rpm: getTargetRpm(power),
+    thrust: 0,
+    afterburner,
+    afterburnerLevel: afterburner ? 1 : 0,
+    fuelFlow: 0,
+    running: true,
+  };
+}
+
+/**
+ * Thrust multipliers for altitude and Mach number
+ */
+export function getThrustLapse(
+  atmosphere: AtmosphereSample,
+  mach: number,
+): { dry: number; afterburner: number } {
+  const density = Math.pow(
+    atmosphere.density / SEA_LEVEL_DENSITY,
+    THRUST_DENSITY_EXPONENT,
+  );
+
+  // Dry thrust dips at low Mach and recovers with ram pressure; the
+  // afterburner gains more from ram pressure
+  return {
+    dry: density * (1 - 0.16 * mach + 0.25 * mach * mach),
+    afterburner: density * (1 + 0.25 * mach * mach),
+  };
+}
+
+/**
+ * Advance the engine over a time step
+ * @param definition Engine definition
+ * @param state Engine state, updated in place
+ * @param throttle Throttle position, 0.0 to 1.0
+ * @param fuel Fuel available in kg
+ * @param atmosphere Air at the aircraft
+ * @param mach Flight Mach number
+ * @param deltaTime Time step in seconds
+ * @param failed Whether the engine has failed (flamed out)
+ * @returns Fuel burned in kg
+ */
+export function updateEngine(
+  definition: EngineDefinition,
+  state: EngineState,
+  throttle: number,
+  fuel: number,
+  atmosphere: AtmosphereSample,
+  mach: number,
+  deltaTime: number,
+  failed: boolean = false,
+): number {
+  // An engine that burns fuel stops when the tanks run dry
+  const burnsFuel = definition.fuelFlowMilitary > 0;
+  state.running = !failed && (!burnsFuel || fuel > 0);
+
+  const command = readThrottle(definition, throttle);
+  const targetRpm = state.running ? getTargetRpm(command.power) : 0;
+
+  // First-order spool response, slower to accelerate than to decelerate
+  const timeConstant = targetRpm > state.rpm
+    ? definition.spoolUpTime
+    : definition.spoolDownTime;
+  state.rpm += (targetRpm - state.rpm) *
+    (1 - Math.exp(-deltaTime / Math.max(timeConstant, 1e-3)));
+
+  // The afterburner needs the spool near maximum
+  state.afterburner = state.running && command.afterburner &&
+    state.rpm >= AFTERBURNER_LIGHT_RPM;
+  const targetLevel = state.afterburner ? 1 : 0;
+  state.afterburnerLevel += (targetLevel - state.afterburnerLevel) *
+    (1 - Math.exp(-deltaTime / Math.max(definition.afterburnerTime, 1e-3)));
+
+  if (!state.running) {
+    state.thrust = 0;
+    state.fuelFlow = 0;
+    state.afterburnerLevel = 0;
+    return 0;
+  }
+
+  // Dry thrust from the spool, plus the afterburner increment
+  const spool = Math.max(0, (state.rpm - IDLE_RPM) / (1 - IDLE_RPM));
+  const dryFraction = getDryThrustFraction(state.rpm);
+  const lapse = getThrustLapse(atmosphere, mach);
+  const afterburnerIncrement = hasAfterburner(definition)
+    ? (definition.afterburnerThrust - definition.militaryThrust) *
+      state.afterburnerLevel
+    : 0;
+  state.thrust = definition.militaryThrust * dryFraction * lapse.dry +
+    afterburnerIncrement * lapse.afterburner;
+
+  // Fuel flow follows the thrust produced
+  const dryFlow = definition.fuelFlowMilitary *
+    (IDLE_FUEL_FRACTION + (1 - IDLE_FUEL_FRACTION) * spool * spool) *
+    lapse.dry;
+  const afterburnerFlow = Math.max(
+    0,
+    definition.fuelFlowAfterburner - definition.fuelFlowMilitary,
+  ) * state.afterburnerLevel * lapse.afterburner;
+  state.fuelFlow = burnsFuel ? dryFlow + afterburnerFlow : 0;
+
+  return Math.min(fuel, state.fuelFlow * deltaTime);
+}
@@ -0,0 +1,479 @@
+/**
+ * Landing Gear Module
+ *
+ * This module models landing gear struts as spring-dampers with wheel
+ * friction, differential braking and nosewheel steering. It also handles
+ * gear retraction and fuselage (belly) contact when the gear is up.
+ * Positions are in body axes: +X left wing, +Y up, +Z nose.
+ */
+
+import * as THREE from "three";
+
+// Wheel slip speed over which friction builds up to its full value
+const FRICTION_SLIP_SPEED = 0.5; // m/s
+
+// Extra stiffness once a strut has bottomed out
+const BOTTOMED_STIFFNESS_FACTOR = 10;
+
+// Fuselage contact parameters
+const BELLY_STIFFNESS_PER_KG = 200; // N/m per kg of aircraft mass
+const BELLY_DAMPING_PER_KG = 40; // N·s/m per kg of aircraft mass
+const DEFAULT_BELLY_FRICTION = 0.5;
+
+// Definition of a single gear strut
+export interface GearStrutDefinition {
+  name: string;
+  position: THREE.Vector3; // Wheel contact point, strut fully extended
+  springConstant: number; // N/m
+  damping: number; // N·s/m
+  maxCompression: number; // m of strut travel
+  rollingFriction: number; // Friction coefficient when rolling
+  brakingFriction: number; // Friction coefficient at full brake
+  lateralFriction: number; // Friction coefficient across the wheel
+  maxSteeringAngle?: number; // rad, steerable wheels only
+  brakeSide?: "left" | "right"; // Brake pedal acting on this wheel
+}
+
+// Landing gear definition of an aircraft
+export interface LandingGearDefinition {
+  struts: GearStrutDefinition[];
+  retractable: boolean;
+  transitTime: number; // s to extend or retract
+  bellyPoints: THREE.Vector3[]; // Fuselage points that touch when gear is up
+  bellyFriction?: number;
+}
+
+// Landing gear state
+export interface LandingGearState {
+  position: number; // 0 retracted, 1 down and locked
+  target: number; // Commanded position (0 or 1)
+  compression: number[]; // m per strut
+  weightOnWheels: boolean;
+  touchdownVerticalSpeed: number | null; // m/s at the last touchdown
+  bellyLanded: boolean;
+}
+
+// Ground below a contact point
+export interface GroundContact {
+  height: number; // m
+  normal: THREE.Vector3; // Unit surface normal
+  frictionScale: number; // Multiplier on braking and side friction
+  rollingScale: number; // Multiplier on rolling resistance
+  velocity?: THREE.Vector3; // m/s, world frame, of a moving surface
+}
+
+// Query for the ground under a world position
+export type GroundQuery = (x: number, z: number) => GroundContact;
+
+// Rigid body state needed to resolve contacts
+export interface ContactBodyState {
+  position: THREE.Vector3;
+  velocity: THREE.Vector3;
+  orientation: THREE.Quaternion;
+  angularVelocity: THREE.Vector3; // Body axes
+}
+
+// Pilot inputs acting on the gear
+export interface GearControls {
+  rudder: number; // -1.0 to 1.0
+  brakeLeft: number; // 0.0 to 1.0
+  brakeRight: number; // 0.0 to 1.0
+}
+
+// Result of the contact calculation
+export interface GearContactResult {
+  force: THREE.Vector3; // N, world frame
+  moment: THREE.Vector3; // N·m, body frame
+  compression: number[];
+  wheelContact: boolean;
+  bellyContact: boolean;
+}
+
+// Options for building a tricycle gear
+export interface TricycleGearOptions {
+  mass: number; // kg
+  wheelbase: number; // m from nose wheel to main wheels
+  track: number; // m between the main wheels
+  height: number; // m from reference point down to the wheels
+  mainGearOffset?: number; // m main wheels behind the reference point
+  staticCompression?: number; // m under static load
+  maxSteeringAngle?: number; // rad
+  retractable?: boolean;
+  transitTime?: number; // s
+}
+
+// Options for building a gear from measured wheel positions
+export interface GearLayoutOptions {
+  mass: number; // kg
+  steerableWheel: THREE.Vector3; // Nose or tail wheel contact point
+  leftWheel: THREE.Vector3; // Main wheel contact points
+  rightWheel: THREE.Vector3;
+  staticCompression?: number; // m under static load
+  maxSteeringAngle?: number; // rad
+  retractable?: boolean;
+  transitTime?: number; // s
+}
+
+/**
+ * Build a tricycle gear sized for an aircraft's mass
+ */
+export function createTricycleGear(
+  options: TricycleGearOptions,
+): LandingGearDefinition {
+  const { wheelbase, track, height, mainGearOffset = 0.3 } = options;
+
+  const noseZ = wheelbase - mainGearOffset;
+  const mainZ = -mainGearOffset;
+
+  return createGearFromLayout({
+    ...options,
+    steerableWheel: new THREE.Vector3(0, -height, noseZ),
+    leftWheel: new THREE.Vector3(track / 2, -height, mainZ),
+    rightWheel: new THREE.Vector3(-track / 2, -height, mainZ),
+  });
+}
+
+/**
+ * Build a gear with a steerable nose or tail wheel and two braked main
+ * wheels at the given positions, sized for an aircraft's mass
+ */
+export function createGearFromLayout(
+  options: GearLayoutOptions,
+): LandingGearDefinition {
+  const {
+    mass,
+    steerableWheel,
+    leftWheel,
+    rightWheel,
+    staticCompression = 0.1,
+    maxSteeringAngle = Math.PI / 6,
+    retractable = true,
+    transitTime = 5,
+  } = options;
+
+  const mainZ = (leftWheel.z + rightWheel.z) / 2;
+  const wheelbase = Math.abs(steerableWheel.z - mainZ);
+  const height = -(leftWheel.y + rightWheel.y) / 2;
+
+  // Static load share of each strut from the moment balance about the CG
+  const steerableShare = wheelbase > 0
+    ? Math.max(0.05, Math.min(0.95, mainZ / (mainZ - steerableWheel.z)))
+    : 0.5;
+  const mainShare = (1 - steerableShare) / 2;
+
+  const createStrut = (
+    name: string,
+    position: THREE.Vector3,
+    share: number,
+  ): GearStrutDefinition => {
+    const springConstant = mass * 9.81 * share / staticCompression;
+    return {
+      name,
+      position: position.clone(),
+      springConstant,
+      // About 60% of critical damping for the supported mass
+      damping: 1.2 * Math.sqrt(springConstant * mass * share),
+      maxCompression: staticCompression * 3,
+      rollingFriction: 0.02,
+      brakingFriction: 0.6,
+      lateralFriction: 0.8,
+    };
+  };
+
+  const isTailWheel = steerableWheel.z < mainZ;
+  const steerable = createStrut(
+    isTailWheel ? "tail" : "nose",
+    steerableWheel,
+    steerableShare,
+  );
+  steerable.maxSteeringAngle = maxSteeringAngle;
+  steerable.brakingFriction = 0;
+
+  const left = createStrut("left", leftWheel, mainShare);
+  left.brakeSide = "left";
+
+  const right = createStrut("right", rightWheel, mainShare);
+  right.brakeSide = "right";
+
+  // Fuselage underside, nose and tail
+  const bellyHeight = -height * 0.4;
+  const frontZ = Math.max(steerableWheel.z, mainZ);
+  const rearZ = isTailWheel ? steerableWheel.z : mainZ - wheelbase * 0.5;
+  return {
+    struts: [steerable, left, right],
+    retractable,
+    transitTime,
+    bellyPoints: [
+      new THREE.Vector3(0, bellyHeight, frontZ),
+      new THREE.Vector3(0, bellyHeight, rearZ),
+    ],
+  };
+}
+
+/**
+ * Create the initial gear state
+ */
+export function createGearState(
+  definition: LandingGearDefinition,
+  down: boolean = true,
+): LandingGearState {
+  return {
+    position: down ? 1 : 0,
+    target: down ? 1 : 0,
+    compression: definition.struts.map(() => 0),
+    weightOnWheels: false,
+    touchdownVerticalSpeed: null,
+    bellyLanded: false,
+  };
+}
+
+/**
+ * Move the gear towards its commanded position
+ */
+export function updateGearTransit(
+  definition: LandingGearDefinition,
+  gear: LandingGearState,
+  deltaTime: number,
+): void {
+  if (gear.position === gear.target) {
+    return;
+  }
+
+  const step = deltaTime / Math.max(definition.transitTime, 1e-3);
+  gear.position = gear.target > gear.position
+    ? Math.min(gear.target, gear.position + step)
+    : Math.max(gear.target, gear.position - step);
+}
+
+/**
+ * Calculate the contact forces of the gear and fuselage with the ground
+ */
+export function calculateGearForces(
+  definition: LandingGearDefinition,
+  gear: LandingGearState,
+  body: ContactBodyState,
+  controls: GearControls,
+  mass: number,
+  groundAt: GroundQuery,
+): GearContactResult {
+  const result: GearContactResult = {
+    force: new THREE.Vector3(),
+    moment: new THREE.Vector3(),
+    compression: definition.struts.map(() => 0),
+    wheelContact: false,
+    bellyContact: false,
+  };
+
+  const inverseOrientation = body.orientation.clone().invert();
+  const bodyUp = new THREE.Vector3(0, 1, 0).applyQuaternion(body.orientation);
+
+  // Wheels only carry load when down and locked
+  if (gear.position >= 1) {
+    definition.struts.forEach((strut, index) => {
+      const contact = resolveContact(body, strut.position, groundAt);
+      if (!contact) {
+        return;
+      }
+
+      // Strut compression along the body up axis
+      const alongStrut = Math.max(contact.normal.dot(bodyUp), 0.1);
+      const compression = contact.penetration / alongStrut;
+      const compressionRate = -contact.pointVelocity.dot(contact.normal) /
+        alongStrut;
+      result.compression[index] = Math.min(compression, strut.maxCompression);
+
+      // Spring-damper, much stiffer once bottomed out
+      const excess = Math.max(0, compression - strut.maxCompression);
+      const normalMagnitude = Math.max(
+        0,
+        strut.springConstant * compression +
+          strut.springConstant * BOTTOMED_STIFFNESS_FACTOR * excess +
+          strut.damping * compressionRate,
+      );
+      if (normalMagnitude <= 0) {
+        return;
+      }
+      result.wheelContact = true;
+
+      // Rolling direction, turned by nosewheel steering
+      const steering = -(strut.maxSteeringAngle || 0) * controls.rudder;
+      const rollDirection = new THREE.Vector3(
+        Math.sin(steering),
+        0,
+        Math.cos(steering),
+      ).applyQuaternion(body.orientation);
+      projectOntoPlane(rollDirection, contact.normal);
+      const lateralDirection = new THREE.Vector3().crossVectors(
+        contact.normal,
+        rollDirection,
+      );
+
+      // Brake pedal for this wheel
+      let brake = 0;
+      if (strut.brakeSide === "left") {
+        brake = controls.brakeLeft;
+      } else if (strut.brakeSide === "right") {
+        brake = controls.brakeRight;
+      }
+
+      const longitudinalFriction =
+        strut.rollingFriction * contact.rollingScale +
+        strut.brakingFriction * brake * contact.frictionScale;
+      const lateralFriction = strut.lateralFriction * contact.frictionScale;
+
+      const force = contact.normal.clone().multiplyScalar(normalMagnitude)
+        .addScaledVector(
+          rollDirection,
+          -saturate(contact.pointVelocity.dot(rollDirection)) *
+            longitudinalFriction * normalMagnitude,
+        )
+        .addScaledVector(
+          lateralDirection,
+          -saturate(contact.pointVelocity.dot(lateralDirection)) *
+            lateralFriction * normalMagnitude,
+        );
+
+      applyContactForce(result, force, contact.bodyPoint, inverseOrientation);
+    });
+  }
+
+  // Fuselage contact, mainly when the gear is not down
+  const bellyFriction = definition.bellyFriction ?? DEFAULT_BELLY_FRICTION;
+  for (const point of definition.bellyPoints) {
+    const contact = resolveContact(body, point, groundAt);
+    if (!contact) {
+      continue;
+    }
+
+    const penetrationRate = -contact.pointVelocity.dot(contact.normal);
+    const normalMagnitude = Math.max(
+      0,
+      BELLY_STIFFNESS_PER_KG * mass * contact.penetration +
+        BELLY_DAMPING_PER_KG * mass * penetrationRate,
+    );
+    if (normalMagnitude <= 0) {
+      continue;
+    }
+    result.bellyContact = true;
+
+    // Sliding friction against the whole tangential velocity
+    const tangential = contact.pointVelocity.clone().addScaledVector(
+      contact.normal,
+      -contact.pointVelocity.dot(contact.normal),
+    );
+    const slipSpeed = tangential.length();
+    const force = contact.normal.clone().multiplyScalar(normalMagnitude);
+    if (slipSpeed > 1e-6) {
+      force.addScaledVector(
+        tangential,
+        -saturate(slipSpeed) * bellyFriction * normalMagnitude / slipSpeed,
+      );
+    }
+
+    applyContactForce(result, force, contact.bodyPoint, inverseOrientation);
+  }
+
+  return result;
+}
+
+/**
+ * Find whether a body point is below the ground and how it is moving
+ */
+function resolveContact(
+  body: ContactBodyState,
+  bodyPoint: THREE.Vector3,
+  groundAt: GroundQuery,
+): {
+  penetration: number;
+  normal: THREE.Vector3;
+  frictionScale: number;
+  rollingScale: number;
+  pointVelocity: THREE.Vector3;
+  bodyPoint: THREE.Vector3;
+} | null {
+  const offset = bodyPoint.clone().applyQuaternion(body.orientation);
+  const worldPoint = offset.clone().add(body.position);
+  const ground = groundAt(worldPoint.x, worldPoint.z);
+
+  // Depth below the ground plane, measured along the normal
+  const penetration = (ground.height - worldPoint.y) * ground.normal.y;
+  if (penetration <= 0) {
+    return null;
+  }
+
+  // Velocity of the point over the surface: v + ω × r (rotated to world)
+  const pointVelocity = new THREE.Vector3()
+    .crossVectors(body.angularVelocity, bodyPoint)
+    .applyQuaternion(body.orientation)
+    .add(body.velocity);
+  if (ground.velocity) {
+    pointVelocity.sub(ground.velocity);
+  }
+
+  return {
+    penetration,
+    normal: ground.normal,
+    frictionScale: ground.frictionScale,
+    rollingScale: ground.rollingScale,
+    pointVelocity,
+    bodyPoint,
+  };
+}
+
+/**
+ * Get the lowest world height of the points that can touch the ground
+ */
+export function getLowestContactHeight(
+  definition: LandingGearDefinition,
+  gear: LandingGearState,
+  body: ContactBodyState,
+): number {
+  const points = gear.position >= 1
+    ? [
+      ...definition.struts.map((strut) => strut.position),
+      ...definition.bellyPoints,
+    ]
+    : definition.bellyPoints;
+
+  let lowest = Infinity;
+  for (const point of points) {
+    const worldY = point.clone().applyQuaternion(body.orientation).y +
+      body.position.y;
+    lowest = Math.min(lowest, worldY);
+  }
+  return lowest === Infinity ? body.position.y : lowest;
+}
+
+/**
+ * Add a world force acting at a body point to the contact result
+ */
+function applyContactForce(
+  result: GearContactResult,
+  force: THREE.Vector3,
+  bodyPoint: THREE.Vector3,
+  inverseOrientation: THREE.Quaternion,
+): void {
+  result.force.add(force);
+  const bodyForce = force.clone().applyQuaternion(inverseOrientation);
+  result.moment.add(new THREE.Vector3().crossVectors(bodyPoint, bodyForce));
+}
+
+/**
+ * Remove the normal component of a direction and renormalize it
+ */
+function projectOntoPlane(
+  direction: THREE.Vector3,
+  normal: THREE.Vector3,
+): void {
+  direction.addScaledVector(normal, -direction.dot(normal));
+  if (direction.lengthSq() > 1e-12) {
+    direction.normalize();
+  }
+}
+
+/**
+ * Friction ramp: linear below the slip speed, full value above it
+ */
+function saturate(speed: number): number {
+  return Math.max(-1, Math.min(1, speed / FRICTION_SLIP_SPEED));
+}
@@ -0,0 +1,207 @@
+/**
+ * High-Lift Devices Module
+ *
+ * This module models trailing-edge flaps and leading-edge slats. The flap
+ * lever stops at the detents of the aircraft and the flaps follow it at
+ * their deploy rate; above the placard speed of a setting the air loads
+ * blow them back to the largest setting that is still within its limit.
+ * Slats raise the critical angle of attack, either extended with the flaps
+ * or pulled out by the airflow at high angles of attack.
+ */
+
+import { type LiftCurve } from "./aerodynamics.ts";
+
+// Defaults for flaps and slats built from their coefficients alone
+const DEFAULT_FLAP_DETENTS = [0, 1 / 3, 2 / 3, 1];
+const DEFAULT_FLAP_DEPLOY_TIME = 8; // s from up to full
+const DEFAULT_SLAT_DEPLOY_TIME = 2; // s
+const DEFAULT_SLAT_DEPLOY_ANGLE = 8 * Math.PI / 180; // rad
+
+// Flap system definition
+export interface FlapDefinition {
+  detents: number[]; // Lever stops from 0 (up) to 1 (full), empty if none
+  deployTime: number; // s from up to full, 0 for instant
+  liftIncrement: number; // ΔCL at full flaps
+  dragIncrement: number; // ΔCD at full flaps
+  criticalAngleChange: number; // rad, change of the stall angle at full
+  maxSpeeds: number[]; // m/s indicated, placard speed of each detent
+}
+
+// Leading-edge slat definition
+export interface SlatDefinition {
+  criticalAngleIncrement: number; // rad, stall angle gained when extended
+  dragIncrement: number; // ΔCD when extended
+  deployTime: number; // s from retracted to extended
+  automatic: boolean; // Extended by the airflow instead of with the flaps
+  deployAngle: number; // rad, angle of attack that extends automatic slats
+}
+
+// Flap and slat state
+export interface HighLiftState {
+  flapPosition: number; // 0.0 (up) to 1.0 (full)
+  flapTarget: number; // Setting the flaps are moving to
+  flapOverspeed: boolean; // Flaps commanded out above their placard speed
+  slatPosition: number; // 0.0 (retracted) to 1.0 (extended)
+}
+
+/**
+ * Build a flap definition, filling in defaults
+ */
+export function createFlaps(
+  options: Partial<FlapDefinition> & { liftIncrement: number },
+): FlapDefinition {
+  return {
+    detents: DEFAULT_FLAP_DETENTS,
+    deployTime: DEFAULT_FLAP_DEPLOY_TIME,
+    dragIncrement: 0,
+    criticalAngleChange: 0,
+    maxSpeeds: [],
+    ...options,
+  };
+}
+
+/**
+ * Build a slat definition, filling in defaults
+ */
+export function createSlats(
+  options: Partial<SlatDefinition> & { criticalAngleIncrement: number },
+): SlatDefinition {
+  return {
+    dragIncrement: 0,
+    deployTime: DEFAULT_SLAT_DEPLOY_TIME,
+    automatic: false,
+    deployAngle: DEFAULT_SLAT_DEPLOY_ANGLE,
+    ...options,
+  };
+}
+
+/**
+ * Create the high-lift state with the flaps at a lever position
+ */
+export function createHighLiftState(
+  flaps: FlapDefinition,
+  lever: number = 0,
+): HighLiftState {
+  const position = getFlapDetent(flaps, lever);
+  return {
+    flapPosition: position,
+    flapTarget: position,
+    flapOverspeed: false,
+    slatPosition: 0,
+  };
+}
+
+/**
+ * Get the flap setting selected by a lever position: the nearest detent,
+ * or the lever itself when the flaps have none
+ */
+export function getFlapDetent(flaps: FlapDefinition, lever: number): number {
+  const clamped = Math.max(0, Math.min(1, lever));
+  if (flaps.detents.length === 0) {
+    return clamped;
+  }
+
+  return flaps.detents.reduce((nearest, detent) =>
+    Math.abs(detent - clamped) < Math.abs(nearest - clamped) ? detent : nearest
+  );
+}
+
+/**
+ * Get the placard speed of the flaps at a position: that of the first
+ * detent at or beyond it
+ * @returns Speed in m/s indicated, Infinity without a limit
+ */
+export function getFlapSpeedLimit(
+  flaps: FlapDefinition,
+  position: number,
+): number {
+  const index = flaps.detents.findIndex((detent) => detent >= position);
+  return index >= 0 ? flaps.maxSpeeds[index] ?? Infinity : Infinity;
+}
+
+/**
+ * Move the flaps and slats towards their commanded positions
+ * @param lever Flap lever position (0.0 to 1.0)
+ * @param indicatedAirspeed m/s
+ * @param angleOfAttack rad
+ */
+export function updateHighLift(
+  flaps: FlapDefinition,
+  slats: SlatDefinition | null,
+  state: HighLiftState,
+  lever: number,
+  indicatedAirspeed: number,
+  angleOfAttack: number,
+  deltaTime: number,
+): void {
+  // Above the placard speed the flaps blow back to a setting within limits
+  const selected = getFlapDetent(flaps, lever);
+  state.flapOverspeed = indicatedAirspeed >
+    getFlapSpeedLimit(flaps, selected);
+  state.flapTarget = state.flapOverspeed
+    ? flaps.detents.filter((detent) =>
+      detent <= selected &&
+      getFlapSpeedLimit(flaps, detent) >= indicatedAirspeed
+    ).reduce((largest, detent) => Math.max(largest, detent), 0)
+    : selected;
+  state.flapPosition = moveTowards(
+    state.flapPosition,
+    state.flapTarget,
+    flaps.deployTime,
+    deltaTime,
+  );
+
+  if (slats) {
+    const extended = slats.automatic
+      ? angleOfAttack > slats.deployAngle
+      : state.flapPosition > 0;
+    state.slatPosition = moveTowards(
+      state.slatPosition,
+      extended ? 1 : 0,
+      slats.deployTime,
+      deltaTime,
+    );
+  }
+}
+
+/**
+ * Get the lift curve of a wing with its flaps and slats in their current
+ * positions
+ */
+export function getHighLiftCurve(
+  curve: LiftCurve,
+  flaps: FlapDefinition,
+  slats: SlatDefinition | null,
+  state: HighLiftState,
+): LiftCurve {
+  const criticalAngleChange = flaps.criticalAngleChange *
+      state.flapPosition +
+    (slats ? slats.criticalAngleIncrement * state.slatPosition : 0);
+  if (criticalAngleChange === 0) {
+    return curve;
+  }
+
+  return {
+    ...curve,
+    criticalAngle: curve.criticalAngle + criticalAngleChange,
+  };
+}
+
+/**
+ * Move a position from 0 to 1 towards a target over a full travel time
+ */
+function moveTowards(
+  position: number,
+  target: number,
+  travelTime: number,
+  deltaTime: number,
+): number {
+  if (travelTime <= 0) {
+    return target;
+  }
+
+  const step = deltaTime / travelTime;
+  return target > position
+    ? Math.min(target, position + step)
+    : Math.max(target, position - step);
+}
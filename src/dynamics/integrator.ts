@@ -0,0 +1,250 @@
+/**
+ * Integrator Module
+ *
+ * This module advances the rigid-body state of an aircraft over a physics
+ * step. The physics engine supplies the accelerations for any trial state
+ * and an integrator decides where to sample them: forward Euler, the
+ * semi-implicit (symplectic) Euler the engine has always used, classic
+ * fourth-order Runge-Kutta, or RK4 with adaptive sub-steps for stiff
+ * contact.
+ */
+
+import * as THREE from "three";
+
+// Rigid-body state advanced by an integrator
+export interface RigidBodyState {
+  position: THREE.Vector3;
+  velocity: THREE.Vector3;
+  orientation: THREE.Quaternion; // Body to world rotation
+  angularVelocity: THREE.Vector3; // rad/s, body axes
+}
+
+// Accelerations of a rigid body in a given state
+export interface RigidBodyDerivative {
+  acceleration: THREE.Vector3; // m/s², world frame
+  angularAcceleration: THREE.Vector3; // rad/s², body axes
+}
+
+// Evaluates the accelerations for a trial state during a step
+export type DerivativeFunction = (
+  body: RigidBodyState,
+) => RigidBodyDerivative;
+
+// Strategy for advancing a rigid body over a time step
+export interface Integrator {
+  /**
+   * Advance the body in place by a time step
+   */
+  step(
+    body: RigidBodyState,
+    deltaTime: number,
+    derivative: DerivativeFunction,
+  ): void;
+}
+
+// Adaptive integrator error limits
+export interface AdaptiveIntegratorOptions {
+  velocityTolerance?: number; // m/s (default 1e-3)
+  angularVelocityTolerance?: number; // rad/s (default 1e-3)
+  maxDepth?: number; // Halvings of the step at most (default 4)
+}
+
+// Forward Euler: everything moves with the rates at the start of the step
+// Cheapest, but gains energy in oscillations; kept for comparison.
+export class ExplicitEulerIntegrator implements Integrator {
+  public step(
+    body: RigidBodyState,
+    deltaTime: number,
+    derivative: DerivativeFunction,
+  ): void {
+    const { acceleration, angularAcceleration } = derivative(body);
+    const velocity = body.velocity.clone();
+    const angularVelocity = body.angularVelocity.clone();
+
+    body.velocity.addScaledVector(acceleration, deltaTime);
+    body.position.addScaledVector(velocity, deltaTime);
+    body.angularVelocity.addScaledVector(angularAcceleration, deltaTime);
+    integrateOrientation(body.orientation, angularVelocity, deltaTime);
+  }
+}
+
+// Semi-implicit Euler: rates first, then the pose with the new rates
+// Keeps oscillations bounded at the cost of a single evaluation.
+export class SemiImplicitEulerIntegrator implements Integrator {
+  public step(
+    body: RigidBodyState,
+    deltaTime: number,
+    derivative: DerivativeFunction,
+  ): void {
+    const { acceleration, angularAcceleration } = derivative(body);
+
+    body.velocity.addScaledVector(acceleration, deltaTime);
+    body.position.addScaledVector(body.velocity, deltaTime);
+    body.angularVelocity.addScaledVector(angularAcceleration, deltaTime);
+    integrateOrientation(body.orientation, body.angularVelocity, deltaTime);
+  }
+}
+
+// Classic fourth-order Runge-Kutta
+// The orientation turns by the weighted mean of the stage body rates.
+export class RungeKutta4Integrator implements Integrator {
+  public step(
+    body: RigidBodyState,
+    deltaTime: number,
+    derivative: DerivativeFunction,
+  ): void {
+    const stages: RigidBodyState[] = [];
+    const rates: RigidBodyDerivative[] = [];
+    const fractions = [0, 0.5, 0.5, 1];
+
+    // Each stage starts from the initial state, moved along the previous
+    // stage's rates
+    for (let i = 0; i < fractions.length; i++) {
+      const stage = i === 0 ? body : createTrialState(
+        body,
+        stages[i - 1],
+        rates[i - 1],
+        fractions[i] * deltaTime,
+      );
+      stages.push(stage);
+      rates.push(derivative(stage));
+    }
+
+    const weights = [1, 2, 2, 1];
+    const velocity = new THREE.Vector3();
+    const acceleration = new THREE.Vector3();
+    const angularVelocity = new THREE.Vector3();
+    const angularAcceleration = new THREE.Vector3();
+    for (let i = 0; i < weights.length; i++) {
+      const weight = weights[i] / 6;
+      velocity.addScaledVector(stages[i].velocity, weight);
+      acceleration.addScaledVector(rates[i].acceleration, weight);
+      angularVelocity.addScaledVector(stages[i].angularVelocity, weight);
+      angularAcceleration.addScaledVector(
+        rates[i].angularAcceleration,
+        weight,
+      );
+    }
+
+    body.position.addScaledVector(velocity, deltaTime);
+    body.velocity.addScaledVector(acceleration, deltaTime);
+    body.angularVelocity.addScaledVector(angularAcceleration, deltaTime);
+    integrateOrientation(body.orientation, angularVelocity, deltaTime);
+  }
+}
+
+// RK4 with step doubling: a step is split in half until the two estimates
+// agree within the tolerances or the maximum depth is reached
+export class AdaptiveIntegrator implements Integrator {
+  private rk4: RungeKutta4Integrator = new RungeKutta4Integrator();
+  private velocityTolerance: number;
+  private angularVelocityTolerance: number;
+  private maxDepth: number;
+
+  constructor(options: AdaptiveIntegratorOptions = {}) {
+    this.velocityTolerance = options.velocityTolerance ?? 1e-3;
+    this.angularVelocityTolerance = options.angularVelocityTolerance ?? 1e-3;
+    this.maxDepth = options.maxDepth ?? 4;
+  }
+
+  public step(
+    body: RigidBodyState,
+    deltaTime: number,
+    derivative: DerivativeFunction,
+  ): void {
+    this.stepWithin(body, deltaTime, derivative, 0);
+  }
+
+  /**
+   * Advance by a step or, when it is too coarse, by two halves of it
+   */
+  private stepWithin(
+    body: RigidBodyState,
+    deltaTime: number,
+    derivative: DerivativeFunction,
+    depth: number,
+  ): void {
+    const full = cloneRigidBodyState(body);
+    this.rk4.step(full, deltaTime, derivative);
+
+    const halves = cloneRigidBodyState(body);
+    this.rk4.step(halves, deltaTime / 2, derivative);
+    this.rk4.step(halves, deltaTime / 2, derivative);
+
+    const error = Math.max(
+      full.velocity.distanceTo(halves.velocity) / this.velocityTolerance,
+      full.angularVelocity.distanceTo(halves.angularVelocity) /
+        this.angularVelocityTolerance,
+    );
+    if (error <= 1 || depth >= this.maxDepth) {
+      copyRigidBodyState(body, halves);
+      return;
+    }
+
+    this.stepWithin(body, deltaTime / 2, derivative, depth + 1);
+    this.stepWithin(body, deltaTime / 2, derivative, depth + 1);
+  }
+}
+
+/**
+ * Rotate an orientation by body-axis angular velocity over a time step
+ */
+export function integrateOrientation(
+  orientation: THREE.Quaternion,
+  angularVelocity: THREE.Vector3,
+  deltaTime: number,
+): void {
+  const rate = angularVelocity.length();
+  if (rate < 1e-12) {
+    return;
+  }
+
+  // Body-frame rotation is applied on the right
+  const delta = new THREE.Quaternion().setFromAxisAngle(
+    angularVelocity.clone().divideScalar(rate),
+    rate * deltaTime,
+  );
+  orientation.multiply(delta).normalize();
+}
+
+/**
+ * Copy a rigid-body state
+ */
+export function cloneRigidBodyState(body: RigidBodyState): RigidBodyState {
+  return {
+    position: body.position.clone(),
+    velocity: body.velocity.clone(),
+    orientation: body.orientation.clone(),
+    angularVelocity: body.angularVelocity.clone(),
+  };
+}
+
+/**
+ * Overwrite a rigid-body state with another
+ */
+function copyRigidBodyState(
+  target: RigidBodyState,
+  source: RigidBodyState,
+): void {
+  target.position.copy(source.position);
+  target.velocity.copy(source.velocity);
+  target.orientation.copy(source.orientation);
+  target.angularVelocity.copy(source.angularVelocity);
+}
+
+/**
+ * Move the initial state along the rates of a stage for part of a step
+ */
+function createTrialState(
+  initial: RigidBodyState,
+  stage: RigidBodyState,
+  rates: RigidBodyDerivative,
+  deltaTime: number,
+): RigidBodyState {
+  const trial = cloneRigidBodyState(initial);
+  trial.position.addScaledVector(stage.velocity, deltaTime);
+  trial.velocity.addScaledVector(rates.acceleration, deltaTime);
+  trial.angularVelocity.addScaledVector(rates.angularAcceleration, deltaTime);
+  integrateOrientation(trial.orientation, stage.angularVelocity, deltaTime);
+  return trial;
+}
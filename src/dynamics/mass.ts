@@ -0,0 +1,247 @@
+/**
+ * Mass Module
+ *
+ * This module tracks the fuel tanks and stores an aircraft carries, and
+ * derives its total mass, centre of gravity and inertia tensor from them.
+ * Positions are in body axes (+X left wing, +Y up, +Z nose) relative to the
+ * aircraft reference point, which is the centre of gravity when empty.
+ */
+
+import * as THREE from "three";
+
+// Fuel tank; tanks feed the engines in the order they are listed
+export interface FuelTank {
+  name: string;
+  position: THREE.Vector3; // m, body axes
+  capacity: number; // kg
+}
+
+// Store (weapon, pod or external load) carried by the aircraft
+export interface Store {
+  name: string;
+  mass: number; // kg
+  position: THREE.Vector3; // m, body axes
+  station?: number; // Weapon station carrying the store
+}
+
+// Fuel and stores carried at the start of a flight
+export interface Loadout {
+  fuel: number[]; // kg per tank
+  stores: Store[];
+}
+
+// Loadout request; fuel is given as a total and spread over the tanks
+export interface LoadoutOptions {
+  fuel?: number; // kg in total, full tanks if omitted
+  stores?: Store[];
+}
+
+// Mass properties of an aircraft
+export interface MassDefinition {
+  mass: number; // kg, empty
+  momentOfInertia: THREE.Vector3; // kg·m², empty, about body X, Y and Z
+  productsOfInertia?: THREE.Vector3; // kg·m², Ixy, Ixz and Iyz
+  fuelCapacity?: number; // kg in a single tank at the reference point
+  fuelTanks?: FuelTank[]; // Replaces fuelCapacity
+  loadout?: Loadout;
+}
+
+// Current mass state
+export interface MassState {
+  total: number; // kg
+  centerOfGravity: THREE.Vector3; // m, body axes
+  tanks: number[]; // kg per tank
+  stores: Store[];
+}
+
+/**
+ * Get the fuel tanks of an aircraft
+ */
+export function getFuelTanks(definition: MassDefinition): FuelTank[] {
+  if (definition.fuelTanks) {
+    return definition.fuelTanks;
+  }
+  if (definition.fuelCapacity) {
+    return [{
+      name: "main",
+      position: new THREE.Vector3(),
+      capacity: definition.fuelCapacity,
+    }];
+  }
+  return [];
+}
+
+/**
+ * Spread a fuel quantity over the tanks in proportion to their capacity
+ */
+function distributeFuel(tanks: FuelTank[], fuel: number): number[] {
+  const capacity = tanks.reduce((sum, tank) => sum + tank.capacity, 0);
+  const fraction = capacity > 0 ? Math.max(0, Math.min(1, fuel / capacity)) : 0;
+  return tanks.map((tank) => tank.capacity * fraction);
+}
+
+/**
+ * Set the fuel and stores an aircraft starts with
+ * Use before PhysicsEngine.registerAircraft.
+ */
+export function withLoadout<T extends MassDefinition>(
+  definition: T,
+  options: LoadoutOptions,
+): T {
+  const tanks = getFuelTanks(definition);
+  const fuel = options.fuel ??
+    tanks.reduce((sum, tank) => sum + tank.capacity, 0);
+
+  return {
+    ...definition,
+    loadout: {
+      fuel: distributeFuel(tanks, fuel),
+      stores: (options.stores ?? []).map((store) => ({
+        ...store,
+        position: store.position.clone(),
+      })),
+    },
+  };
+}
+
+/**
+ * Create the mass state at the start of a flight
+ * @param definition Mass properties of the aircraft
+ * @param fuel Total fuel in kg; the loadout or full tanks if omitted
+ */
+export function createMassState(
+  definition: MassDefinition,
+  fuel?: number,
+): MassState {
+  const tanks = getFuelTanks(definition);
+  const loadout = definition.loadout;
+
+  let tankFuel: number[];
+  if (fuel !== undefined) {
+    tankFuel = distributeFuel(tanks, fuel);
+  } else if (loadout && loadout.fuel.length === tanks.length) {
+    tankFuel = [...loadout.fuel];
+  } else {
+    tankFuel = tanks.map((tank) => tank.capacity);
+  }
+
+  const state: MassState = {
+    total: definition.mass,
+    centerOfGravity: new THREE.Vector3(),
+    tanks: tankFuel,
+    stores: (loadout?.stores ?? []).map((store) => ({
+      ...store,
+      position: store.position.clone(),
+    })),
+  };
+  updateMassState(definition, state);
+  return state;
+}
+
+/**
+ * Get the fuel remaining in all tanks
+ */
+export function getTotalFuel(state: MassState): number {
+  return state.tanks.reduce((sum, quantity) => sum + quantity, 0);
+}
+
+/**
+ * Draw fuel from the tanks in feed order
+ * @returns Fuel actually drawn in kg
+ */
+export function drawFuel(state: MassState, amount: number): number {
+  let remaining = amount;
+  for (let i = 0; i < state.tanks.length && remaining > 0; i++) {
+    const drawn = Math.min(state.tanks[i], remaining);
+    state.tanks[i] -= drawn;
+    remaining -= drawn;
+  }
+  return amount - remaining;
+}
+
+/**
+ * Recompute the total mass and centre of gravity
+ */
+export function updateMassState(
+  definition: MassDefinition,
+  state: MassState,
+): void {
+  const tanks = getFuelTanks(definition);
+  let total = definition.mass;
+  const moment = new THREE.Vector3();
+
+  tanks.forEach((tank, index) => {
+    const fuel = state.tanks[index] ?? 0;
+    total += fuel;
+    moment.addScaledVector(tank.position, fuel);
+  });
+  for (const store of state.stores) {
+    total += store.mass;
+    moment.addScaledVector(store.position, store.mass);
+  }
+
+  state.total = total;
+  state.centerOfGravity.copy(moment.divideScalar(total));
+}
+
+/**
+ * Build the inertia tensor of the empty aircraft
+ */
+export function createInertiaTensor(
+  definition: MassDefinition,
+): THREE.Matrix3 {
+  const { x: ixx, y: iyy, z: izz } = definition.momentOfInertia;
+  const products = definition.productsOfInertia || new THREE.Vector3();
+  const { x: ixy, y: ixz, z: iyz } = products;
+
+  return new THREE.Matrix3().set(
+    ixx,
+    -ixy,
+    -ixz,
+    -ixy,
+    iyy,
+    -iyz,
+    -ixz,
+    -iyz,
+    izz,
+  );
+}
+
+/**
+ * Build the inertia tensor about the current centre of gravity
+ * Fuel and stores are treated as point masses.
+ */
+export function getInertiaTensor(
+  definition: MassDefinition,
+  state: MassState,
+): THREE.Matrix3 {
+  const inertia = createInertiaTensor(definition);
+  const cg = state.centerOfGravity;
+
+  // Parallel axis theorem: m·(|r|²·E - r·rᵀ) with r from the CG
+  const addPointMass = (mass: number, position: THREE.Vector3) => {
+    const r = position.clone().sub(cg);
+    const lengthSq = r.lengthSq();
+    const e = inertia.elements; // Symmetric, so storage order is irrelevant
+    e[0] += mass * (lengthSq - r.x * r.x);
+    e[4] += mass * (lengthSq - r.y * r.y);
+    e[8] += mass * (lengthSq - r.z * r.z);
+    e[1] -= mass * r.x * r.y;
+    e[3] -= mass * r.x * r.y;
+    e[2] -= mass * r.x * r.z;
+    e[6] -= mass * r.x * r.z;
+    e[5] -= mass * r.y * r.z;
+    e[7] -= mass * r.y * r.z;
+  };
+
+  // The empty aircraft's own CG is the reference point
+  addPointMass(definition.mass, new THREE.Vector3());
+  getFuelTanks(definition).forEach((tank, index) =>
+    addPointMass(state.tanks[index] ?? 0, tank.position)
+  );
+  for (const store of state.stores) {
+    addPointMass(store.mass, store.position);
+  }
+
+  return inertia;
+}
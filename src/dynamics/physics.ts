@@ -6,50 +6,393 @@
  */
 
 import * as THREE from "three";
+import {
+  type AtmosphereSample,
+  type AtmosphericConditions,
+  getAtmosphere,
+  getDensityAltitude,
+  getIndicatedAirspeed,
+  SEA_LEVEL_DENSITY,
+  STANDARD_CONDITIONS,
+} from "./atmosphere.ts";
+import { WindField } from "./wind.ts";
+import {
+  createEngine,
+  createEngineState,
+  type EngineDefinition,
+  type EngineState,
+  updateEngine,
+} from "./engine.ts";
+import {
+  createMassState,
+  drawFuel,
+  type FuelTank,
+  getInertiaTensor,
+  getTotalFuel,
+  type Loadout,
+  type MassState,
+  type Store,
+  updateMassState,
+} from "./mass.ts";
+import {
+  createLiftCurve,
+  getDragCoefficient,
+  getGroundEffect,
+  getLiftCoefficient,
+  getSeparation,
+  type LiftCurve,
+} from "./aerodynamics.ts";
+import {
+  createFlaps,
+  createHighLiftState,
+  type FlapDefinition,
+  getHighLiftCurve,
+  type HighLiftState,
+  type SlatDefinition,
+  updateHighLift,
+} from "./high_lift.ts";
+import {
+  calculateGearForces,
+  createGearState,
+  type GearContactResult,
+  getLowestContactHeight,
+  type GroundQuery,
+  type LandingGearDefinition,
+  type LandingGearState,
+  updateGearTransit,
+} from "./gear.ts";
+import {
+  FlatSurfaceProvider,
+  SURFACE_FRICTION,
+  type SurfaceProvider,
+  type SurfaceSample,
+  SurfaceType,
+} from "./terrain.ts";
+import {
+  calculateRotorForces,
+  createRotorState,
+  type RotorDefinition,
+  type RotorForces,
+  type RotorState,
+  updateRotorSpeed,
+} from "./rotorcraft.ts";
+import {
+  calculateCarrierForces,
+  type CarrierGearState,
+  createCarrierGearState,
+  findCatapult,
+  findWireCrossing,
+  getBodyPoint,
+  getDeckSpeed,
+  isStrokeComplete,
+  MovingPlatform,
+  type PlatformDefinition,
+  type PlatformState,
+} from "./carrier.ts";
+import {
+  applyHitDamage,
+  type ControlDeflections,
+  createDamageState,
+  type DamageState,
+  FailureType,
+  getDamagedDeflections,
+  getLiftFactor,
+  getLoadFactor,
+  getThrustFactor,
+  hasFailure,
+  injectFailure,
+  type StructuralLimits,
+  updateStructuralDamage,
+} from "./damage.ts";
+import {
+  type Integrator,
+  type RigidBodyDerivative,
+  type RigidBodyState,
+  SemiImplicitEulerIntegrator,
+} from "./integrator.ts";
+import {
+  checkSnapshotVersion,
+  decodeSnapshotValue,
+  encodeSnapshotValue,
+  SNAPSHOT_VERSION,
+  type SnapshotValue,
+} from "../core/snapshot.ts";
+import { getEventBus, type ImpactEvent } from "../core/events.ts";
 
 // Constants
 const GRAVITY = 9.81; // m/s²
-const AIR_DENSITY = 1.225; // kg/m³ at sea level
+
+// Surface contact limits
+const DEFAULT_MAX_SINK_RATE = 5; // m/s the gear survives at touchdown
+const BELLY_CRASH_SINK_RATE = 3; // m/s survivable on the fuselage
+const GEARLESS_CRASH_SPEED = 3; // m/s vertical impact without gear
+const LIFTOFF_HEIGHT = 0.05; // m of clearance before a touchdown counts
+
+// The catapult fires once the pilot has run the engine up to full power
+const CATAPULT_FIRE_THROTTLE = 0.9;
+const CATAPULT_FIRE_RPM = 0.9; // Fraction of maximum RPM
+
+// Stall warning and spin detection
+const STALL_WARNING_MARGIN = 3 * Math.PI / 180; // rad before the stall
+const STALLED_SEPARATION = 0.5; // Flow separation at which a wing is stalled
+const SPIN_YAW_RATE = 0.5; // rad/s of sustained yaw while stalled
+
+// Wing drop: one wing stalls first, more so when slipping
+const WING_DROP_BIAS = 1 * Math.PI / 180; // rad, left wing rigged higher
+const WING_DROP_SIDESLIP = 0.5; // Extra wing α difference per rad sideslip
+
+// Control effect on lift and drag
+const LIFT_ELEVATOR_DERIVATIVE = 0.3; // CLδe
+const SIDE_FORCE_RUDDER = 0.5; // CYδr
+
+// Speed brake and spoilers
+const DRAG_SPEED_BRAKE_FACTOR = 1.0; // ΔCD fully out, relative to CD0
+const SPOILER_LIFT_LOSS = 0.6; // Fraction of wing lift dumped when fully up
+const DRAG_SPOILER_FACTOR = 0.5; // ΔCD fully up, relative to CD0
+
+// Flaps of aircraft that do not define their own: continuous and instant
+const LIFT_FLAPS = 0.4; // ΔCL at full flaps
+const DRAG_FLAPS_FACTOR = 0.5; // ΔCD at full flaps, relative to CD0
+
+// Stability and control derivatives (per radian, conventional body axes)
+// Roll damping comes from the difference in lift between the wing halves.
+const ROLL_AILERON_DERIVATIVE = 0.1; // Clδa
+const ROLL_SIDESLIP_DERIVATIVE = -0.05; // Clβ (dihedral effect)
+const PITCH_STABILITY_DERIVATIVE = -0.8; // Cmα
+const PITCH_ELEVATOR_DERIVATIVE = 0.35; // Cmδe, full up trims past the stall
+const PITCH_DAMPING_DERIVATIVE = -12; // Cmq
+const YAW_STABILITY_DERIVATIVE = 0.1; // Cnβ (weathercock stability)
+const YAW_RUDDER_DERIVATIVE = 0.06; // Cnδr
+const YAW_DAMPING_DERIVATIVE = -0.15; // Cnr
+
+// How an aircraft stays in the air
+export enum FlightModel {
+  FIXED_WING = "FIXED_WING",
+  ROTORCRAFT = "ROTORCRAFT",
+}
 
 // Aircraft physical properties interface
-interface AircraftProperties {
-  mass: number; // kg
+export interface AircraftProperties {
+  mass: number; // kg, empty (without fuel and stores)
+  flightModel?: FlightModel; // Fixed wing if omitted
+  rotor?: RotorDefinition; // Main and tail rotor of a rotorcraft
   wingspan: number; // m
   wingArea: number; // m²
   dragCoefficient: number;
   liftCoefficient: number;
-  maxThrust: number; // N
-  momentOfInertia: THREE.Vector3; // kg·m²
+  maxThrust: number; // N, military power when no engine is given
+  momentOfInertia: THREE.Vector3; // kg·m², about body X, Y and Z
+  productsOfInertia?: THREE.Vector3; // kg·m², Ixy, Ixz and Iyz
+  landingGear?: LandingGearDefinition;
+  maxSinkRate?: number; // m/s, touchdown limit of the gear
+  tailhook?: THREE.Vector3; // m, body axes, tip of the lowered hook
+  launchBar?: THREE.Vector3; // m, body axes, tip of the lowered launch bar
+  structuralLimits?: StructuralLimits; // No overstress damage if omitted
+  criticalAngleOfAttack?: number; // rad, stall angle (default 16°)
+  negativeCriticalAngleOfAttack?: number; // rad (default -12°)
+  engine?: EngineDefinition; // Built from maxThrust if omitted
+  flaps?: FlapDefinition; // Continuous instant flaps if omitted
+  slats?: SlatDefinition; // None if omitted
+  speedBrakeDrag?: number; // ΔCD with the speed brake out (default CD0)
+  fuelCapacity?: number; // kg in a single tank at the reference point
+  fuelTanks?: FuelTank[]; // Replaces fuelCapacity
+  loadout?: Loadout; // Fuel and stores at the start, see withLoadout
 }
 
 // State vector for aircraft
-interface AircraftState {
+// Body axes follow the three.js object frame: +X left wing, +Y up, +Z nose.
+export interface AircraftState {
   position: THREE.Vector3;
   velocity: THREE.Vector3;
   acceleration: THREE.Vector3;
-  rotation: THREE.Euler;
-  angularVelocity: THREE.Vector3;
-  angularAcceleration: THREE.Vector3;
+  orientation: THREE.Quaternion; // Body to world rotation
+  rotation: THREE.Euler; // Derived from orientation ("YXZ"), read-only
+  angularVelocity: THREE.Vector3; // rad/s, body axes
+  angularAcceleration: THREE.Vector3; // rad/s², body axes
   throttle: number; // 0.0 to 1.0
+  engine: EngineState;
+  fuel: number; // kg remaining
+  mass: MassState; // Total mass, centre of gravity, tanks and stores
   controlInputs: {
     elevator: number; // -1.0 to 1.0
     aileron: number; // -1.0 to 1.0
     rudder: number; // -1.0 to 1.0
-    flaps: number; // 0.0 to 1.0
+    flaps: number; // 0.0 to 1.0, flap lever
+    brakeLeft: number; // 0.0 to 1.0
+    brakeRight: number; // 0.0 to 1.0
+    speedBrake: number; // 0.0 to 1.0
+    spoilers: number; // 0.0 to 1.0
+    pitchTrim: number; // -1.0 to 1.0, neutral elevator, nose up positive
+    rollTrim: number; // -1.0 to 1.0, neutral aileron
+    yawTrim: number; // -1.0 to 1.0, neutral rudder
+  };
+  gear: LandingGearState | null; // Null for aircraft without landing gear
+  carrierGear: CarrierGearState | null; // Null without hook or launch bar
+  highLift: HighLiftState; // Flap and slat positions
+  rotor: RotorState | null; // Null for fixed-wing aircraft
+  damage: DamageState; // Loads, damage and failures
+  groundContact: {
+    status: ContactStatus;
+    surfaceType: SurfaceType; // Surface below the aircraft
+    heightAboveGround: number; // m, reference point above the surface
+  };
+  airData: {
+    trueAirspeed: number; // m/s
+    indicatedAirspeed: number; // m/s
+    mach: number;
+    densityAltitude: number; // m
+    density: number; // kg/m³
+    temperature: number; // K
+    wind: THREE.Vector3; // m/s, world frame, including gusts and turbulence
   };
+  aerodynamics: {
+    angleOfAttack: number; // rad
+    sideslip: number; // rad, positive with the wind from the right
+    liftCoefficient: number;
+    stallWarning: boolean; // Approaching the critical angle of attack
+    stalled: boolean;
+    spinning: boolean; // Stalled and autorotating
+  };
+}
+
+// Relationship between an aircraft and the surface
+export enum ContactStatus {
+  AIRBORNE = "AIRBORNE",
+  GROUNDED = "GROUNDED",
+  CRASHED = "CRASHED",
+  DITCHED = "DITCHED",
+}
+
+// Saved physics state; JSON-safe, see core/snapshot.ts
+// Wind and terrain are environment settings and are not included.
+export interface PhysicsSnapshot {
+  version: number;
+  time: number; // s of simulated time
+  atmosphericConditions: AtmosphericConditions;
+  aircraft: {
+    id: string;
+    properties: SnapshotValue; // AircraftProperties
+    state: SnapshotValue; // AircraftState, including the control inputs
+    previous: SnapshotValue; // Pose at the start of the last step
+  }[];
+  platforms: {
+    id: string;
+    definition: SnapshotValue; // PlatformDefinition
+    state: SnapshotValue; // PlatformState
+  }[];
+}
+
+// Fixed time step configuration
+export interface TimeStepConfig {
+  stepRate: number; // Physics steps per second (Hz)
+  maxSubSteps: number; // Maximum steps run for a single frame
+  maxFrameTime: number; // s, longer frames are clamped
+}
+
+// Conventional attitude angles derived from the orientation (radians)
+export interface Attitude {
+  heading: number; // Yaw about world up, 0 along +Z
+  pitch: number; // Positive nose up
+  bank: number; // Positive right wing down
+}
+
+// Pose of an aircraft at the end of the previous physics step
+interface PreviousPose {
+  position: THREE.Vector3;
+  orientation: THREE.Quaternion;
+}
+
+// Air conditions an aircraft is flying through during a step
+interface FlowConditions {
+  atmosphere: AtmosphereSample;
+  airVelocity: THREE.Vector3; // Velocity relative to the air mass, world frame
+  angleOfAttack: number; // rad
+  sideslip: number; // rad
+}
+
+// Aerodynamic forces (world frame) and wing moments (body frame)
+interface AerodynamicForces {
+  lift: THREE.Vector3;
+  drag: THREE.Vector3;
+  sideForce: THREE.Vector3;
+  moment: THREE.Vector3; // From unequal lift and drag of the wing halves
+  liftCoefficient: number;
+}
+
+// Registered aircraft entry
+interface AircraftEntry {
+  id: string;
+  properties: AircraftProperties;
+  state: AircraftState;
+  previous: PreviousPose;
+  inertia: THREE.Matrix3; // Body-axis inertia tensor
+  inverseInertia: THREE.Matrix3;
+  liftCurve: LiftCurve;
+  engine: EngineDefinition;
+  flaps: FlapDefinition;
+  slats: SlatDefinition | null;
+  rotor: RotorDefinition | null; // Null for fixed-wing aircraft
+  flying: boolean; // Clear of the surface since the last touchdown
+  integrator: Integrator | null; // Overrides the engine's integrator
+}
+
+// Physics operations used by the other subsystems, provided by the engine
+// on the main thread or by a bridge to an engine in a worker
+export interface PhysicsApi {
+  registerAircraft(
+    id: string,
+    properties: AircraftProperties,
+    initialState?: Partial<AircraftState>,
+  ): void;
+  removeAircraft(id: string): boolean;
+  getAircraftState(id: string): AircraftState | null;
+  getInterpolatedState(id: string): AircraftState | null;
+  updateControlInputs(
+    id: string,
+    controlInputs: Partial<AircraftState["controlInputs"]>,
+  ): void;
+  releaseStore(id: string, index: number): Store | null;
+  setThrottle(id: string, throttle: number): void;
+  setGearDown(id: string, down: boolean): boolean;
+  toggleGear(id: string): boolean;
+  setBrakes(id: string, left: number, right?: number): void;
+  setHookDown(id: string, down: boolean): boolean;
+  setLaunchBarDown(id: string, down: boolean): boolean;
+  applyHit(id: string, point: THREE.Vector3, amount: number): boolean;
+  injectFailure(id: string, failure: FailureType): boolean;
+  repairAircraft(id: string): boolean;
+  addPlatform(id: string, platform: MovingPlatform): void;
+  removePlatform(id: string): boolean;
+  getPlatform(id: string): MovingPlatform | null;
+  advance(frameTime: number): number;
+  getSimulationTime(): number;
+  snapshot(): PhysicsSnapshot;
+  restore(snapshot: PhysicsSnapshot): void;
 }
 
 // Main physics engine class
-class PhysicsEngine {
-  private aircrafts: Map<
-    string,
-    { properties: AircraftProperties; state: AircraftState }
-  >;
+export class PhysicsEngine implements PhysicsApi {
+  private aircrafts: Map<string, AircraftEntry>;
   private lastTimestamp: number;
   private isRunning: boolean;
   private animationFrameId: number | null = null;
   private timeoutId: number | null = null;
   private isTestMode: boolean = false;
+  private timeStepConfig: TimeStepConfig = {
+    stepRate: 120,
+    maxSubSteps: 8,
+    maxFrameTime: 0.25,
+  };
+  private accumulator: number = 0;
+  private interpolationAlpha: number = 1;
+  private atmosphericConditions: AtmosphericConditions = {
+    ...STANDARD_CONDITIONS,
+  };
+  private windField: WindField = new WindField();
+  private surfaceProvider: SurfaceProvider = new FlatSurfaceProvider();
+  private platforms: Map<string, MovingPlatform> = new Map();
+  private simulationTime: number = 0; // s simulated since start
+  private integrator: Integrator = new SemiImplicitEulerIntegrator();
 
   constructor() {
     this.aircrafts = new Map();
@@ -65,20 +408,77 @@ class PhysicsEngine {
     properties: AircraftProperties,
     initialState: Partial<AircraftState> = {},
   ): void {
+    const engine = properties.engine ??
+      createEngine({ militaryThrust: properties.maxThrust });
+    const rotor = properties.flightModel === FlightModel.ROTORCRAFT
+      ? properties.rotor ?? null
+      : null;
+    if (properties.flightModel === FlightModel.ROTORCRAFT && !rotor) {
+      throw new Error(`Rotorcraft ${id} has no rotor definition`);
+    }
+    const flaps = properties.flaps ?? createFlaps({
+      detents: [],
+      deployTime: 0,
+      liftIncrement: LIFT_FLAPS,
+      dragIncrement: properties.dragCoefficient * DRAG_FLAPS_FACTOR,
+    });
+
     // Create default state
     const defaultState: AircraftState = {
       position: new THREE.Vector3(0, 0, 0),
       velocity: new THREE.Vector3(0, 0, 0),
       acceleration: new THREE.Vector3(0, 0, 0),
+      orientation: new THREE.Quaternion(),
       rotation: new THREE.Euler(0, 0, 0, "YXZ"),
       angularVelocity: new THREE.Vector3(0, 0, 0),
       angularAcceleration: new THREE.Vector3(0, 0, 0),
       throttle: 0,
+      engine: createEngineState(engine),
+      fuel: 0,
+      mass: createMassState(properties),
       controlInputs: {
         elevator: 0,
         aileron: 0,
         rudder: 0,
         flaps: 0,
+        brakeLeft: 0,
+        brakeRight: 0,
+        speedBrake: 0,
+        spoilers: 0,
+        pitchTrim: 0,
+        rollTrim: 0,
+        yawTrim: 0,
+      },
+      gear: properties.landingGear
+        ? createGearState(properties.landingGear)
+        : null,
+      carrierGear: properties.tailhook || properties.launchBar
+        ? createCarrierGearState()
+        : null,
+      highLift: createHighLiftState(flaps),
+      rotor: rotor ? createRotorState() : null,
+      damage: createDamageState(),
+      groundContact: {
+        status: ContactStatus.AIRBORNE,
+        surfaceType: SurfaceType.RUNWAY,
+        heightAboveGround: 0,
+      },
+      airData: {
+        trueAirspeed: 0,
+        indicatedAirspeed: 0,
+        mach: 0,
+        densityAltitude: 0,
+        density: SEA_LEVEL_DENSITY,
+        temperature: 0,
+        wind: new THREE.Vector3(),
+      },
+      aerodynamics: {
+        angleOfAttack: 0,
+        sideslip: 0,
+        liftCoefficient: 0,
+        stallWarning: false,
+        stalled: false,
+        spinning: false,
       },
     };
 
@@ -89,7 +489,12 @@ class PhysicsEngine {
       position: initialState.position || defaultState.position,
       velocity: initialState.velocity || defaultState.velocity,
       acceleration: initialState.acceleration || defaultState.acceleration,
-      rotation: initialState.rotation || defaultState.rotation,
+      // Orientation wins over Euler angles when both are given
+      orientation: initialState.orientation ||
+        (initialState.rotation
+          ? new THREE.Quaternion().setFromEuler(initialState.rotation)
+          : defaultState.orientation),
+      rotation: defaultState.rotation,
       angularVelocity: initialState.angularVelocity ||
         defaultState.angularVelocity,
       angularAcceleration: initialState.angularAcceleration ||
@@ -100,14 +505,56 @@ class PhysicsEngine {
       },
     };
 
+    // Derive the Euler angles from the orientation
+    state.orientation.normalize();
+    state.rotation.setFromQuaternion(state.orientation, "YXZ");
+
+    // Load the fuel and stores, then build the inertia tensor about the CG
+    state.mass = createMassState(properties, initialState.fuel);
+    state.fuel = getTotalFuel(state.mass);
+    const inertia = getInertiaTensor(properties, state.mass);
+
     // Register the aircraft
-    this.aircrafts.set(id, { properties, state });
+    const entry: AircraftEntry = {
+      id,
+      properties,
+      state,
+      previous: {
+        position: state.position.clone(),
+        orientation: state.orientation.clone(),
+      },
+      inertia,
+      inverseInertia: inertia.clone().invert(),
+      liftCurve: createLiftCurve(properties),
+      engine,
+      flaps,
+      slats: properties.slats ?? null,
+      rotor,
+      flying: false,
+      integrator: null,
+    };
+    this.aircrafts.set(id, entry);
+
+    // Start with the engine spooled to the initial throttle and the flaps
+    // at the initial lever position
+    state.engine = createEngineState(engine, state.throttle);
+    state.highLift = createHighLiftState(flaps, state.controlInputs.flaps);
+
+    // Fill in the air data for the starting position
+    state.airData = { ...defaultState.airData };
+    state.aerodynamics = { ...defaultState.aerodynamics };
+    this.updateAirData(entry, 0);
+
+    // Start with a fresh surface contact state
+    state.groundContact = { ...defaultState.groundContact };
+    this.updateHeightAboveGround(state);
   }
 
   /**
    * Remove an aircraft from the physics engine
    */
   public removeAircraft(id: string): boolean {
+    this.windField.removeAircraft(id);
     return this.aircrafts.delete(id);
   }
 
@@ -119,6 +566,33 @@ class PhysicsEngine {
     return aircraft ? aircraft.state : null;
   }
 
+  /**
+   * Get the state of an aircraft interpolated between the last two physics
+   * steps, for drawing frames that fall between steps
+   */
+  public getInterpolatedState(id: string): AircraftState | null {
+    const aircraft = this.aircrafts.get(id);
+    if (!aircraft) {
+      return null;
+    }
+
+    const { state, previous } = aircraft;
+    const alpha = this.interpolationAlpha;
+
+    const position = previous.position.clone().lerp(state.position, alpha);
+    const orientation = previous.orientation.clone().slerp(
+      state.orientation,
+      alpha,
+    );
+
+    return {
+      ...state,
+      position,
+      orientation,
+      rotation: new THREE.Euler().setFromQuaternion(orientation, "YXZ"),
+    };
+  }
+
   /**
    * Update the control inputs for an aircraft
    */
@@ -135,6 +609,22 @@ class PhysicsEngine {
     }
   }
 
+  /**
+   * Release a store, e.g. when a weapon is fired or a tank jettisoned
+   * @returns The released store, or null if there is none at the index
+   */
+  public releaseStore(id: string, index: number): Store | null {
+    const aircraft = this.aircrafts.get(id);
+    if (!aircraft || index < 0 || index >= aircraft.state.mass.stores.length) {
+      return null;
+    }
+
+    const [store] = aircraft.state.mass.stores.splice(index, 1);
+    this.updateMass(aircraft);
+    getEventBus()?.emit("weaponRelease", { aircraftId: id, store });
+    return store;
+  }
+
   /**
    * Set the throttle for an aircraft
    */
@@ -145,6 +635,153 @@ class PhysicsEngine {
     }
   }
 
+  /**
+   * Command the landing gear up or down
+   * Retraction is inhibited while there is weight on the wheels.
+   * @returns Whether the command was accepted
+   */
+  public setGearDown(id: string, down: boolean): boolean {
+    const aircraft = this.aircrafts.get(id);
+    const gear = aircraft?.state.gear;
+    if (!aircraft || !gear || !aircraft.properties.landingGear?.retractable) {
+      return false;
+    }
+
+    if (!down && gear.weightOnWheels) {
+      return false;
+    }
+
+    const target = down ? 1 : 0;
+    if (gear.target !== target) {
+      gear.target = target;
+      getEventBus()?.emit("gearChange", { aircraftId: id, down });
+    }
+    return true;
+  }
+
+  /**
+   * Toggle the landing gear
+   * @returns Whether the gear is now commanded down
+   */
+  public toggleGear(id: string): boolean {
+    const gear = this.aircrafts.get(id)?.state.gear;
+    if (!gear) {
+      return false;
+    }
+
+    this.setGearDown(id, gear.target < 1);
+    return gear.target === 1;
+  }
+
+  /**
+   * Set the wheel brakes (0.0 to 1.0 per side)
+   */
+  public setBrakes(id: string, left: number, right: number = left): void {
+    this.updateControlInputs(id, {
+      brakeLeft: Math.max(0, Math.min(1, left)),
+      brakeRight: Math.max(0, Math.min(1, right)),
+    });
+  }
+
+  /**
+   * Lower or raise the tailhook; raising it frees a caught wire
+   * @returns Whether the aircraft has a tailhook
+   */
+  public setHookDown(id: string, down: boolean): boolean {
+    const aircraft = this.aircrafts.get(id);
+    const carrierGear = aircraft?.state.carrierGear;
+    if (!aircraft?.properties.tailhook || !carrierGear) {
+      return false;
+    }
+
+    carrierGear.hookDown = down;
+    if (!down) {
+      carrierGear.wire = null;
+    }
+    return true;
+  }
+
+  /**
+   * Lower or raise the launch bar; raising it leaves the catapult
+   * @returns Whether the aircraft has a launch bar
+   */
+  public setLaunchBarDown(id: string, down: boolean): boolean {
+    const aircraft = this.aircrafts.get(id);
+    const carrierGear = aircraft?.state.carrierGear;
+    if (!aircraft?.properties.launchBar || !carrierGear) {
+      return false;
+    }
+
+    carrierGear.launchBarDown = down;
+    if (!down) {
+      carrierGear.catapult = null;
+    }
+    return true;
+  }
+
+  /**
+   * Damage an aircraft struck by a weapon at a point
+   * @param point m, world frame
+   * @param amount Health taken from the airframe and the part struck
+   * @returns Whether the aircraft exists
+   */
+  public applyHit(id: string, point: THREE.Vector3, amount: number): boolean {
+    const aircraft = this.aircrafts.get(id);
+    if (!aircraft) {
+      return false;
+    }
+
+    const { properties, state } = aircraft;
+    const bodyPoint = point.clone().sub(state.position).applyQuaternion(
+      state.orientation.clone().invert(),
+    );
+    this.updateFailures(aircraft, () =>
+      applyHitDamage(
+        state.damage,
+        bodyPoint,
+        properties.wingspan,
+        amount,
+        getControlDeflections(state),
+      ));
+    return true;
+  }
+
+  /**
+   * Fail a system of an aircraft, such as the engine or a control surface
+   * @returns Whether the failure is new
+   */
+  public injectFailure(id: string, failure: FailureType): boolean {
+    const aircraft = this.aircrafts.get(id);
+    if (!aircraft) {
+      return false;
+    }
+
+    const { state } = aircraft;
+    let added = false;
+    this.updateFailures(aircraft, () => {
+      added = injectFailure(
+        state.damage,
+        failure,
+        getControlDeflections(state),
+      );
+    });
+    return added;
+  }
+
+  /**
+   * Repair all damage and clear the failures of an aircraft
+   * @returns Whether the aircraft exists
+   */
+  public repairAircraft(id: string): boolean {
+    const aircraft = this.aircrafts.get(id);
+    if (!aircraft) {
+      return false;
+    }
+
+    aircraft.state.damage = createDamageState();
+    return true;
+  }
+
   /**
    * Start the physics simulation
    */
@@ -187,14 +824,251 @@ class PhysicsEngine {
     this.isTestMode = enabled;
   }
 
+  /**
+   * Set the atmospheric conditions (non-standard temperature and QNH)
+   */
+  public setAtmosphericConditions(
+    conditions: Partial<AtmosphericConditions>,
+  ): void {
+    this.atmosphericConditions = {
+      ...this.atmosphericConditions,
+      ...conditions,
+    };
+  }
+
+  /**
+   * Get the atmospheric conditions
+   */
+  public getAtmosphericConditions(): AtmosphericConditions {
+    return { ...this.atmosphericConditions };
+  }
+
+  /**
+   * Get the atmosphere at an altitude under the current conditions
+   */
+  public getAtmosphere(altitude: number): AtmosphereSample {
+    return getAtmosphere(altitude, this.atmosphericConditions);
+  }
+
+  /**
+   * Set the surface (terrain) provider queried for ground contact
+   */
+  public setSurfaceProvider(provider: SurfaceProvider): void {
+    this.surfaceProvider = provider;
+  }
+
+  /**
+   * Get the surface provider
+   */
+  public getSurfaceProvider(): SurfaceProvider {
+    return this.surfaceProvider;
+  }
+
+  /**
+   * Add a moving platform, such as a carrier deck, above the surface
+   */
+  public addPlatform(id: string, platform: MovingPlatform): void {
+    this.platforms.set(id, platform);
+  }
+
+  /**
+   * Remove a moving platform
+   */
+  public removePlatform(id: string): boolean {
+    return this.platforms.delete(id);
+  }
+
+  /**
+   * Get a moving platform
+   */
+  public getPlatform(id: string): MovingPlatform | null {
+    return this.platforms.get(id) ?? null;
+  }
+
+  /**
+   * Get the wind field acting on all aircraft
+   */
+  public getWindField(): WindField {
+    return this.windField;
+  }
+
+  /**
+   * Set the integrator used for aircraft without one of their own
+   */
+  public setIntegrator(integrator: Integrator): void {
+    this.integrator = integrator;
+  }
+
+  /**
+   * Get the integrator used for aircraft without one of their own
+   */
+  public getIntegrator(): Integrator {
+    return this.integrator;
+  }
+
+  /**
+   * Set the integrator of one aircraft, or use the engine's when null
+   * @returns Whether the aircraft exists
+   */
+  public setAircraftIntegrator(
+    id: string,
+    integrator: Integrator | null,
+  ): boolean {
+    const aircraft = this.aircrafts.get(id);
+    if (!aircraft) {
+      return false;
+    }
+
+    aircraft.integrator = integrator;
+    return true;
+  }
+
+  /**
+   * Configure the fixed time step
+   */
+  public configureTimeStep(config: Partial<TimeStepConfig>): void {
+    this.timeStepConfig = { ...this.timeStepConfig, ...config };
+    this.accumulator = 0;
+  }
+
+  /**
+   * Get the fixed time step configuration
+   */
+  public getTimeStepConfig(): TimeStepConfig {
+    return { ...this.timeStepConfig };
+  }
+
+  /**
+   * Get how far rendering is between the last two physics steps (0 to 1)
+   */
+  public getInterpolationAlpha(): number {
+    return this.interpolationAlpha;
+  }
+
+  /**
+   * Get the simulated time in seconds
+   */
+  public getSimulationTime(): number {
+    return this.simulationTime;
+  }
+
+  /**
+   * Capture the state of every aircraft and moving platform as a JSON-safe
+   * snapshot
+   */
+  public snapshot(): PhysicsSnapshot {
+    return {
+      version: SNAPSHOT_VERSION,
+      time: this.simulationTime,
+      atmosphericConditions: { ...this.atmosphericConditions },
+      aircraft: [...this.aircrafts.values()].map((aircraft) => ({
+        id: aircraft.id,
+        properties: encodeSnapshotValue(aircraft.properties),
+        state: encodeSnapshotValue(aircraft.state),
+        previous: encodeSnapshotValue(aircraft.previous),
+      })),
+      platforms: [...this.platforms].map(([id, platform]) => ({
+        id,
+        definition: encodeSnapshotValue(platform.definition),
+        state: encodeSnapshotValue(platform.getState()),
+      })),
+    };
+  }
+
+  /**
+   * Replace every aircraft and moving platform with those in a snapshot
+   */
+  public restore(snapshot: PhysicsSnapshot): void {
+    checkSnapshotVersion(snapshot.version);
+
+    // Platforms of the same id are moved in place, so that references held
+    // by the scene stay valid
+    const platforms = new Map<string, MovingPlatform>();
+    for (const saved of snapshot.platforms) {
+      const state = decodeSnapshotValue<PlatformState>(saved.state);
+      const platform = this.platforms.get(saved.id);
+      if (platform) {
+        platform.setState(state);
+      }
+      platforms.set(
+        saved.id,
+        platform ?? new MovingPlatform(
+          decodeSnapshotValue<PlatformDefinition>(saved.definition),
+          state,
+        ),
+      );
+    }
+    this.platforms = platforms;
+
+    // Integrator choices are settings, kept for aircraft of the same id
+    const integrators = new Map<string, Integrator | null>();
+    for (const [id, aircraft] of this.aircrafts) {
+      integrators.set(id, aircraft.integrator);
+      this.removeAircraft(id);
+    }
+    for (const saved of snapshot.aircraft) {
+      this.registerAircraft(
+        saved.id,
+        decodeSnapshotValue<AircraftProperties>(saved.properties),
+      );
+      const entry = this.aircrafts.get(saved.id)!;
+      entry.state = decodeSnapshotValue<AircraftState>(saved.state);
+      entry.previous = decodeSnapshotValue<PreviousPose>(saved.previous);
+      entry.integrator = integrators.get(saved.id) ?? null;
+      this.updateMass(entry);
+    }
+
+    this.simulationTime = snapshot.time;
+    this.atmosphericConditions = { ...snapshot.atmosphericConditions };
+    this.accumulator = 0;
+    this.interpolationAlpha = 1;
+  }
+
+  /**
+   * Advance the simulation by a frame's worth of time in fixed steps
+   * Leftover time is carried to the next frame and used for interpolation.
+   * @param frameTime Elapsed real time in seconds
+   * @returns Number of physics steps run
+   */
+  public advance(frameTime: number): number {
+    const { stepRate, maxSubSteps, maxFrameTime } = this.timeStepConfig;
+    const stepSize = 1 / stepRate;
+
+    // Clamp long frames (tab switch, GC pause) so the model does not blow up
+    this.accumulator += Math.min(Math.max(frameTime, 0), maxFrameTime);
+
+    let steps = 0;
+    while (this.accumulator >= stepSize && steps < maxSubSteps) {
+      this.updateStep(stepSize);
+      this.accumulator -= stepSize;
+      steps++;
+    }
+
+    // Spiral-of-death guard: drop whole steps that could not be simulated
+    if (this.accumulator >= stepSize) {
+      this.accumulator %= stepSize;
+    }
+
+    this.interpolationAlpha = this.accumulator / stepSize;
+    return steps;
+  }
+
   /**
    * Perform a single physics update step
    * This is useful for testing where we want to manually control updates
    * @param deltaTime Time step in seconds
    */
   public updateStep(deltaTime: number = 1 / 60): void {
+    this.simulationTime += deltaTime;
+
+    // Advance gusts shared by all aircraft and the moving platforms
+    this.windField.advance(deltaTime);
+    this.platforms.forEach((platform) => platform.advance(deltaTime));
+
     // Update each aircraft
     this.aircrafts.forEach((aircraft) => {
+      aircraft.previous.position.copy(aircraft.state.position);
+      aircraft.previous.orientation.copy(aircraft.state.orientation);
       this.updateAircraft(aircraft, deltaTime);
     });
   }
@@ -212,10 +1086,8 @@ class PhysicsEngine {
     const deltaTime = (currentTime - this.lastTimestamp) / 1000; // Convert to seconds
     this.lastTimestamp = currentTime;
 
-    // Update each aircraft
-    this.aircrafts.forEach((aircraft) => {
-      this.updateAircraft(aircraft, deltaTime);
-    });
+    // Run as many fixed steps as the elapsed time calls for
+    this.advance(deltaTime);
 
     // Skip scheduling next update if in test mode
     if (this.isTestMode) {
@@ -235,97 +1107,672 @@ class PhysicsEngine {
   /**
    * Update the physics for a single aircraft
    */
-  private updateAircraft(
-    aircraft: { properties: AircraftProperties; state: AircraftState },
-    deltaTime: number,
-  ): void {
+  private updateAircraft(aircraft: AircraftEntry, deltaTime: number): void {
+    const { state } = aircraft;
+
+    // Wrecks stay where they came to rest
+    if (isWrecked(state)) {
+      return;
+    }
+
+    // Sample the atmosphere and wind at the current position; the wind
+    // holds for the whole step
+    const flow = this.updateAirData(aircraft, deltaTime);
+    const wind = state.airData.wind.clone();
+
+    // Spool the engine and burn fuel (burning fuel lightens the aircraft)
+    this.updateEngineState(aircraft, flow, deltaTime);
+
+    if (aircraft.rotor) {
+      // Spin the rotor with the engine or the airflow
+      this.updateRotorState(aircraft, flow, deltaTime);
+    } else {
+      // Run the flaps and slats towards the lever and the airflow
+      updateHighLift(
+        aircraft.flaps,
+        aircraft.slats,
+        state.highLift,
+        state.controlInputs.flaps,
+        state.airData.indicatedAirspeed,
+        flow.angleOfAttack,
+        deltaTime,
+      );
+
+      // Stall warning and spin state at the start of the step
+      const aerodynamicForces = this.calculateAerodynamicForces(
+        aircraft,
+        state,
+        flow,
+      );
+      this.updateStallState(
+        aircraft,
+        flow,
+        aerodynamicForces.liftCoefficient,
+      );
+    }
+
+    // Landing gear and fuselage contact with the ground
+    const contact = this.calculateGroundContact(aircraft, deltaTime);
+    if (isWrecked(state)) {
+      return;
+    }
+
+    // Move the aircraft, sampling the forces wherever the integrator asks
+    let initial: RigidBodyDerivative | null = null;
+    const integrator = aircraft.integrator ?? this.integrator;
+    integrator.step(state, deltaTime, (body) => {
+      const derivative = this.calculateDerivative(aircraft, body, wind);
+      initial ??= derivative;
+      return derivative;
+    });
+    state.acceleration.copy(initial!.acceleration);
+    state.angularAcceleration.copy(initial!.angularAcceleration);
+
+    // Refresh the Euler angles from the new attitude
+    state.rotation.setFromQuaternion(state.orientation, "YXZ");
+
+    // Catch wires and work the catapult
+    this.updateCarrierGear(aircraft);
+
+    // Classify contact with the surface after the move
+    this.resolveSurfaceContact(aircraft, contact);
+
+    // Loads of the step against the structural limits
+    this.updateDamage(aircraft, deltaTime);
+  }
+
+  /**
+   * Track the load factor and airspeed against the structural limits
+   */
+  private updateDamage(aircraft: AircraftEntry, deltaTime: number): void {
+    const { id, properties, state } = aircraft;
+    if (isWrecked(state)) {
+      return;
+    }
+
+    this.updateFailures(aircraft, () => {
+      const exceeded = updateStructuralDamage(
+        properties.structuralLimits,
+        state.damage,
+        getLoadFactor(state.acceleration, state.orientation),
+        state.airData.indicatedAirspeed,
+        state.groundContact.status === ContactStatus.AIRBORNE,
+        getControlDeflections(state),
+        deltaTime,
+      );
+      if (exceeded) {
+        getEventBus()?.emit("overstress", {
+          aircraftId: id,
+          loadFactor: state.damage.loadFactor,
+          overspeed: state.damage.overspeed,
+        });
+      }
+    });
+  }
+
+  /**
+   * Change the damage of an aircraft and publish the failures it caused
+   */
+  private updateFailures(aircraft: AircraftEntry, change: () => void): void {
+    const { failures } = aircraft.state.damage;
+    const count = failures.length;
+    change();
+    for (const failure of failures.slice(count)) {
+      getEventBus()?.emit("failure", { aircraftId: aircraft.id, failure });
+    }
+  }
+
+  /**
+   * Calculate the accelerations of an aircraft in a trial rigid-body state
+   * The engine, gear transit and wind stay as they were at the start of
+   * the step.
+   */
+  private calculateDerivative(
+    aircraft: AircraftEntry,
+    body: RigidBodyState,
+    wind: THREE.Vector3,
+  ): RigidBodyDerivative {
+    const { properties } = aircraft;
+    const state: AircraftState = {
+      ...aircraft.state,
+      position: body.position,
+      velocity: body.velocity,
+      orientation: body.orientation,
+      angularVelocity: body.angularVelocity,
+    };
+    const flow = this.getFlowConditions(state, wind);
+    const mass = state.mass.total;
+    const gravityForce = new THREE.Vector3(0, -GRAVITY * mass, 0);
+
+    // Sum all forces except gravity, which acts at the CG, and the moments
+    // (torques) in body axes
+    const appliedForce = new THREE.Vector3();
+    let moments: THREE.Vector3;
+    if (aircraft.rotor) {
+      const rotorForces = this.getRotorForces(aircraft, state, flow);
+      appliedForce.add(rotorForces.force);
+      moments = rotorForces.moment;
+    } else {
+      const thrustForce = new THREE.Vector3(0, 0, 1)
+        .applyQuaternion(state.orientation)
+        .multiplyScalar(state.engine.thrust);
+      const aerodynamicForces = this.calculateAerodynamicForces(
+        aircraft,
+        state,
+        flow,
+      );
+      appliedForce
+        .add(thrustForce)
+        .add(aerodynamicForces.lift)
+        .add(aerodynamicForces.drag)
+        .add(aerodynamicForces.sideForce);
+      moments = this.calculateMoments(properties, state, flow)
+        .add(aerodynamicForces.moment);
+    }
+
+    // Landing gear and fuselage contact with the ground
+    if (properties.landingGear && state.gear) {
+      const contact = calculateGearForces(
+        properties.landingGear,
+        state.gear,
+        state,
+        state.controlInputs,
+        mass,
+        this.createGroundQuery(),
+      );
+      appliedForce.add(contact.force);
+      moments.add(contact.moment);
+    }
+
+    // Arrestor wire and catapult pulling on the airframe
+    if (state.carrierGear) {
+      const carrier = calculateCarrierForces(
+        properties,
+        state.carrierGear,
+        state,
+        mass,
+        this.platforms,
+      );
+      appliedForce.add(carrier.force);
+      moments.add(carrier.moment);
+    }
+
+    // Forces act about the reference point; a CG away from it adds a moment
+    const bodyForce = appliedForce.clone().applyQuaternion(
+      state.orientation.clone().invert(),
+    );
+    moments.add(
+      new THREE.Vector3().crossVectors(
+        state.mass.centerOfGravity.clone().negate(),
+        bodyForce,
+      ),
+    );
+    const totalForce = appliedForce.add(gravityForce);
+
+    // Euler's rotation equations: I·dω/dt = M - ω × (I·ω)
+    const { inertia, inverseInertia } = aircraft;
+    const angularMomentum = state.angularVelocity.clone().applyMatrix3(
+      inertia,
+    );
+    const gyroscopicMoment = new THREE.Vector3().crossVectors(
+      state.angularVelocity,
+      angularMomentum,
+    );
+
+    return {
+      // F = ma
+      acceleration: totalForce.divideScalar(mass),
+      angularAcceleration: moments.sub(gyroscopicMoment).applyMatrix3(
+        inverseInertia,
+      ),
+    };
+  }
+
+  /**
+   * Recompute the mass, centre of gravity and inertia after the fuel or
+   * stores change
+   */
+  private updateMass(aircraft: AircraftEntry): void {
     const { properties, state } = aircraft;
+    updateMassState(properties, state.mass);
+    state.fuel = getTotalFuel(state.mass);
+    aircraft.inertia = getInertiaTensor(properties, state.mass);
+    aircraft.inverseInertia = aircraft.inertia.clone().invert();
+  }
 
-    // Calculate forces
-    const gravityForce = new THREE.Vector3(0, -GRAVITY * properties.mass, 0);
-    const thrustForce = this.calculateThrust(properties, state);
-    const aerodynamicForces = this.calculateAerodynamicForces(
-      properties,
-      state,
+  /**
+   * Build the ground query used by the gear from the surface provider
+   */
+  private createGroundQuery(): GroundQuery {
+    return (x, z) => {
+      const surface = this.getSurface(x, z);
+      const friction = SURFACE_FRICTION[surface.type];
+      return {
+        height: surface.height,
+        normal: surface.normal,
+        frictionScale: friction.frictionScale,
+        rollingScale: friction.rollingScale,
+        velocity: surface.velocity,
+      };
+    };
+  }
+
+  /**
+   * Get the surface at a horizontal position: the deck of a moving
+   * platform there, otherwise the terrain
+   */
+  private getSurface(x: number, z: number): SurfaceSample {
+    const terrain = this.surfaceProvider.getSurface(x, z);
+    for (const platform of this.platforms.values()) {
+      const deck = platform.getDeckSurface(x, z);
+      if (deck && deck.height > terrain.height) {
+        return deck;
+      }
+    }
+    return terrain;
+  }
+
+  /**
+   * Update the height of an aircraft above the surface below it
+   */
+  private updateHeightAboveGround(state: AircraftState): SurfaceSample {
+    const surface = this.getSurface(
+      state.position.x,
+      state.position.z,
     );
+    state.groundContact.surfaceType = surface.type;
+    state.groundContact.heightAboveGround = state.position.y - surface.height;
+    return surface;
+  }
 
-    // Sum all forces
-    const totalForce = new THREE.Vector3()
-      .add(gravityForce)
-      .add(thrustForce)
-      .add(aerodynamicForces.lift)
-      .add(aerodynamicForces.drag)
-      .add(aerodynamicForces.sideForce);
+  /**
+   * Detect terrain impact and ditching and update the contact status
+   */
+  private resolveSurfaceContact(
+    aircraft: AircraftEntry,
+    contact: GearContactResult | null,
+  ): void {
+    const { properties, state } = aircraft;
+    if (isWrecked(state)) {
+      return;
+    }
 
-    // Calculate acceleration (F = ma)
-    state.acceleration.copy(totalForce.divideScalar(properties.mass));
+    const surface = this.updateHeightAboveGround(state);
 
-    // Update velocity (v = v0 + at)
-    state.velocity.add(state.acceleration.clone().multiplyScalar(deltaTime));
+    // Lowest point of the airframe that can touch the surface
+    const lowestPoint = properties.landingGear && state.gear
+      ? getLowestContactHeight(properties.landingGear, state.gear, state)
+      : state.position.y;
+    if (lowestPoint - surface.height > LIFTOFF_HEIGHT) {
+      aircraft.flying = true;
+    }
 
-    // Update position (p = p0 + vt)
-    state.position.add(state.velocity.clone().multiplyScalar(deltaTime));
+    // Water never supports the aircraft
+    if (surface.type === SurfaceType.WATER) {
+      if (lowestPoint < surface.height) {
+        this.recordCollision(
+          aircraft,
+          ContactStatus.DITCHED,
+          "Ditched in water",
+          surface.type,
+        );
+      } else {
+        state.groundContact.status = ContactStatus.AIRBORNE;
+      }
+      return;
+    }
+
+    // The reference point below the surface means the airframe hit it
+    if (state.position.y < surface.height && properties.landingGear) {
+      this.recordCollision(
+        aircraft,
+        ContactStatus.CRASHED,
+        "Terrain impact",
+        surface.type,
+      );
+      return;
+    }
+
+    // Aircraft without landing gear rest on their reference point
+    if (!properties.landingGear) {
+      if (state.position.y >= surface.height) {
+        state.groundContact.status = ContactStatus.AIRBORNE;
+        return;
+      }
+
+      const velocity = getSurfaceRelativeVelocity(state, surface);
+      if (-velocity.y > GEARLESS_CRASH_SPEED) {
+        this.recordCollision(
+          aircraft,
+          ContactStatus.CRASHED,
+          "Terrain impact",
+          surface.type,
+        );
+        return;
+      }
+
+      state.position.y = surface.height;
+      velocity.y = Math.max(0, velocity.y);
+      // Apply ground friction, carrying the aircraft with a moving surface
+      velocity.x *= 0.95;
+      velocity.z *= 0.95;
+      state.velocity.copy(velocity).add(
+        surface.velocity ?? new THREE.Vector3(),
+      );
+      state.groundContact.status = ContactStatus.GROUNDED;
+      return;
+    }
+
+    state.groundContact.status = contact &&
+        (contact.wheelContact || contact.bellyContact)
+      ? ContactStatus.GROUNDED
+      : ContactStatus.AIRBORNE;
+  }
+
+  /**
+   * Stop a crashed or ditched aircraft and publish the event
+   */
+  private recordCollision(
+    aircraft: AircraftEntry,
+    status: ContactStatus.CRASHED | ContactStatus.DITCHED,
+    reason: string,
+    surfaceType: SurfaceType,
+  ): void {
+    const { id, state } = aircraft;
+    const event: ImpactEvent = {
+      aircraftId: id,
+      reason,
+      surfaceType,
+      position: state.position.clone(),
+      velocity: state.velocity.clone(),
+    };
 
-    // Calculate moments (torques)
-    const moments = this.calculateMoments(properties, state, aerodynamicForces);
+    state.groundContact.status = status;
+    state.groundContact.surfaceType = surfaceType;
+    state.velocity.set(0, 0, 0);
+    state.acceleration.set(0, 0, 0);
+    state.angularVelocity.set(0, 0, 0);
+    state.angularAcceleration.set(0, 0, 0);
 
-    // Calculate angular acceleration
-    state.angularAcceleration.set(
-      moments.x / properties.momentOfInertia.x,
-      moments.y / properties.momentOfInertia.y,
-      moments.z / properties.momentOfInertia.z,
+    getEventBus()?.emit(
+      status === ContactStatus.CRASHED ? "crash" : "ditching",
+      event,
     );
+  }
+
+  /**
+   * Resolve landing gear and belly contact, updating the gear state
+   */
+  private calculateGroundContact(
+    aircraft: AircraftEntry,
+    deltaTime: number,
+  ): GearContactResult | null {
+    const { properties, state } = aircraft;
+    const definition = properties.landingGear;
+    const gear = state.gear;
+    if (!definition || !gear) {
+      return null;
+    }
+
+    // Gear extension and retraction
+    updateGearTransit(definition, gear, deltaTime);
 
-    // Update angular velocity
-    state.angularVelocity.add(
-      state.angularAcceleration.clone().multiplyScalar(deltaTime),
+    const wasOnGround = gear.weightOnWheels ||
+      state.groundContact.status === ContactStatus.GROUNDED;
+    const contact = calculateGearForces(
+      definition,
+      gear,
+      state,
+      state.controlInputs,
+      state.mass.total,
+      this.createGroundQuery(),
     );
+    gear.compression = contact.compression;
+
+    // Speed towards the surface, along its normal so slopes count too, and
+    // over it when the surface moves
+    const surface = this.getSurface(state.position.x, state.position.z);
+    const velocity = getSurfaceRelativeVelocity(state, surface);
+    const closingSpeed = -velocity.dot(surface.normal);
+
+    // Record the sink rate at the moment the wheels touch down
+    if (contact.wheelContact && !gear.weightOnWheels) {
+      gear.touchdownVerticalSpeed = velocity.y;
 
-    // Update rotation
-    state.rotation.x += state.angularVelocity.x * deltaTime;
-    state.rotation.y += state.angularVelocity.y * deltaTime;
-    state.rotation.z += state.angularVelocity.z * deltaTime;
+      const maxSinkRate = properties.maxSinkRate ?? DEFAULT_MAX_SINK_RATE;
+      if (closingSpeed > maxSinkRate) {
+        this.recordCollision(
+          aircraft,
+          ContactStatus.CRASHED,
+          "Gear collapsed on hard landing",
+          state.groundContact.surfaceType,
+        );
+        return null;
+      }
 
-    // Ground collision detection (simple)
-    if (state.position.y < 0) {
-      state.position.y = 0;
-      state.velocity.y = 0;
-      // Apply ground friction
-      state.velocity.x *= 0.95;
-      state.velocity.z *= 0.95;
+      // Landings only count when arriving from the air
+      if (aircraft.flying) {
+        aircraft.flying = false;
+        getEventBus()?.emit("touchdown", {
+          aircraftId: aircraft.id,
+          sinkRate: Math.max(0, closingSpeed),
+          surfaceType: state.groundContact.surfaceType,
+          position: state.position.clone(),
+        });
+      }
     }
+    gear.weightOnWheels = contact.wheelContact;
+
+    // Touching down on the fuselage with the gear not locked down
+    if (contact.bellyContact && gear.position < 1) {
+      if (!wasOnGround && closingSpeed > BELLY_CRASH_SINK_RATE) {
+        this.recordCollision(
+          aircraft,
+          ContactStatus.CRASHED,
+          "Hard belly impact",
+          state.groundContact.surfaceType,
+        );
+        return null;
+      }
+      gear.bellyLanded = true;
+    }
+
+    return contact;
   }
 
   /**
-   * Calculate thrust force based on throttle setting
+   * Catch arrestor wires with a lowered hook, and hook a lowered launch bar
+   * onto a catapult, fire it at full power and let go at the end of the
+   * stroke
    */
-  private calculateThrust(
-    properties: AircraftProperties,
+  private updateCarrierGear(aircraft: AircraftEntry): void {
+    const { id, properties, state, previous } = aircraft;
+    const carrierGear = state.carrierGear;
+    if (!carrierGear) {
+      return;
+    }
+
+    // The hook crossing a wire on its way up the deck picks it up
+    const { tailhook, launchBar } = properties;
+    if (carrierGear.wire && !this.platforms.has(carrierGear.wire.platform)) {
+      carrierGear.wire = null;
+    }
+    if (tailhook && carrierGear.hookDown && !carrierGear.wire) {
+      const from = tailhook.clone().applyQuaternion(previous.orientation)
+        .add(previous.position);
+      const hook = getBodyPoint(state, tailhook);
+      for (const [platformId, platform] of this.platforms) {
+        const wire = findWireCrossing(platform, from, hook.point);
+        if (wire === null) {
+          continue;
+        }
+        const speed = getDeckSpeed(platform, hook.point, hook.velocity);
+        carrierGear.wire = {
+          platform: platformId,
+          wire,
+          point: platform.toDeck(hook.point),
+          entrySpeed: speed,
+        };
+        getEventBus()?.emit("trap", { aircraftId: id, wire, speed });
+        break;
+      }
+    }
+
+    if (!launchBar || !carrierGear.launchBarDown) {
+      return;
+    }
+    const bar = getBodyPoint(state, launchBar);
+    const hookup = carrierGear.catapult;
+    if (!hookup) {
+      // Taxiing onto a shuttle with weight on the wheels hooks up
+      if (!state.gear?.weightOnWheels) {
+        return;
+      }
+      const nose = new THREE.Vector3(0, 0, 1).applyQuaternion(
+        state.orientation,
+      );
+      for (const [platformId, platform] of this.platforms) {
+        const catapult = findCatapult(platform, bar.point, nose);
+        if (catapult !== null) {
+          carrierGear.catapult = {
+            platform: platformId,
+            catapult,
+            fired: false,
+          };
+          break;
+        }
+      }
+      return;
+    }
+
+    const platform = this.platforms.get(hookup.platform);
+    if (!platform) {
+      carrierGear.catapult = null;
+    } else if (!hookup.fired) {
+      hookup.fired = state.throttle >= CATAPULT_FIRE_THROTTLE &&
+        state.engine.rpm >= CATAPULT_FIRE_RPM;
+    } else if (isStrokeComplete(platform, hookup, bar.point)) {
+      // Off the end of the deck with the launch bar stowed
+      carrierGear.catapult = null;
+      carrierGear.launchBarDown = false;
+      getEventBus()?.emit("catapultLaunch", {
+        aircraftId: id,
+        speed: getDeckSpeed(platform, bar.point, bar.velocity),
+      });
+    }
+  }
+
+  /**
+   * Refresh the air data of an aircraft and return the flow conditions
+   */
+  private updateAirData(
+    aircraft: AircraftEntry,
+    deltaTime: number,
+  ): FlowConditions {
+    const { id, state } = aircraft;
+
+    // Aerodynamics see the velocity relative to the moving air mass
+    const wind = this.windField.sampleWind(
+      id,
+      state.position,
+      state.orientation,
+      state.airData.trueAirspeed,
+      deltaTime,
+    );
+    const flow = this.getFlowConditions(state, wind);
+    const { atmosphere } = flow;
+    const trueAirspeed = flow.airVelocity.length();
+
+    state.airData.trueAirspeed = trueAirspeed;
+    state.airData.indicatedAirspeed = getIndicatedAirspeed(
+      trueAirspeed,
+      atmosphere,
+    );
+    state.airData.mach = trueAirspeed / atmosphere.speedOfSound;
+    state.airData.densityAltitude = getDensityAltitude(atmosphere.density);
+    state.airData.density = atmosphere.density;
+    state.airData.temperature = atmosphere.temperature;
+    state.airData.wind.copy(wind);
+
+    return flow;
+  }
+
+  /**
+   * Calculate the air conditions an aircraft flies through in a wind
+   */
+  private getFlowConditions(
     state: AircraftState,
-  ): THREE.Vector3 {
-    // Calculate thrust magnitude
-    const thrustMagnitude = properties.maxThrust * state.throttle;
+    wind: THREE.Vector3,
+  ): FlowConditions {
+    const atmosphere = getAtmosphere(
+      state.position.y,
+      this.atmosphericConditions,
+    );
+    const airVelocity = state.velocity.clone().sub(wind);
+    const trueAirspeed = airVelocity.length();
 
-    // Convert aircraft's rotation to direction vector
-    const direction = new THREE.Vector3(0, 0, 1).applyEuler(state.rotation);
+    // Airflow angles from the body-axis velocity
+    const bodyVelocity = airVelocity.clone().applyQuaternion(
+      state.orientation.clone().invert(),
+    );
+    const angleOfAttack = trueAirspeed > 0.1
+      ? Math.atan2(-bodyVelocity.y, bodyVelocity.z)
+      : 0;
+    const sideslip = trueAirspeed > 0.1
+      ? Math.asin(Math.max(-1, Math.min(1, -bodyVelocity.x / trueAirspeed)))
+      : 0;
 
-    // Return thrust vector
-    return direction.multiplyScalar(thrustMagnitude);
+    return { atmosphere, airVelocity, angleOfAttack, sideslip };
+  }
+
+  /**
+   * Spool the engine towards the throttle setting and burn fuel
+   */
+  private updateEngineState(
+    aircraft: AircraftEntry,
+    flow: FlowConditions,
+    deltaTime: number,
+  ): void {
+    const { state } = aircraft;
+    const fuelBurned = updateEngine(
+      aircraft.engine,
+      state.engine,
+      state.throttle,
+      state.fuel,
+      flow.atmosphere,
+      state.airData.mach,
+      deltaTime,
+      hasFailure(state.damage, FailureType.ENGINE_FLAMEOUT),
+    );
+    // A damaged engine makes part of its thrust
+    state.engine.thrust *= getThrustFactor(state.damage);
+    if (fuelBurned > 0) {
+      drawFuel(state.mass, fuelBurned);
+      this.updateMass(aircraft);
+    }
   }
 
   /**
    * Calculate aerodynamic forces (lift, drag, side force)
+   * Each wing half is evaluated on the lift curve at its own angle of
+   * attack, so the wing that stalls first drops and rolling into the stall
+   * can autorotate into a spin.
    */
   private calculateAerodynamicForces(
-    properties: AircraftProperties,
+    aircraft: AircraftEntry,
     state: AircraftState,
-  ): {
-    lift: THREE.Vector3;
-    drag: THREE.Vector3;
-    sideForce: THREE.Vector3;
-  } {
-    // Get airspeed (magnitude of velocity)
-    const airspeed = state.velocity.length();
+    flow: FlowConditions,
+  ): AerodynamicForces {
+    const { properties, flaps, slats } = aircraft;
+    const { highLift } = state;
+    const liftCurve = getHighLiftCurve(
+      aircraft.liftCurve,
+      flaps,
+      slats,
+      highLift,
+    );
+    const { angleOfAttack, sideslip } = flow;
+    const airspeed = flow.airVelocity.length();
 
     // If airspeed is negligible, no aerodynamic forces
     if (airspeed < 0.1) {
@@ -333,97 +1780,308 @@ class PhysicsEngine {
         lift: new THREE.Vector3(),
         drag: new THREE.Vector3(),
         sideForce: new THREE.Vector3(),
+        moment: new THREE.Vector3(),
+        liftCoefficient: 0,
       };
     }
 
-    // Get normalized velocity vector
-    const velocityDirection = state.velocity.clone().normalize();
+    // Rolling raises the angle of attack of the descending wing, measured
+    // at the middle of each wing half
+    const rollRate = state.angularVelocity.z;
+    const rollAngle = rollRate * properties.wingspan / (4 * airspeed);
 
-    // Get aircraft's up vector (for lift direction)
-    const upVector = new THREE.Vector3(0, 1, 0).applyEuler(state.rotation);
+    // Near the stall one wing lets go first
+    const separation = getSeparation(angleOfAttack, liftCurve);
+    const dropAngle = (WING_DROP_BIAS + WING_DROP_SIDESLIP * sideslip) *
+      separation;
+    const leftAngle = angleOfAttack - rollAngle + dropAngle / 2;
+    const rightAngle = angleOfAttack + rollAngle - dropAngle / 2;
 
-    // Get aircraft's right vector (for side force direction)
-    const forwardVector = new THREE.Vector3(0, 0, 1).applyEuler(state.rotation);
-    const rightVector = new THREE.Vector3().crossVectors(
-      forwardVector,
-      upVector,
+    // Within about a wingspan of the surface the wing gains lift and loses
+    // induced drag
+    const surface = this.getSurface(
+      state.position.x,
+      state.position.z,
+    );
+    const groundEffect = getGroundEffect(
+      state.position.y - surface.height,
+      properties.wingspan,
+    );
+
+    // Spoilers dump part of the wing lift, and so does wing damage
+    const { speedBrake, spoilers } = state.controlInputs;
+    const liftFactor = groundEffect.liftFactor *
+      (1 - SPOILER_LIFT_LOSS * spoilers) * getLiftFactor(state.damage);
+    const { inducedDragFactor } = groundEffect;
+    const leftLift = getLiftCoefficient(leftAngle, liftCurve) * liftFactor;
+    const rightLift = getLiftCoefficient(rightAngle, liftCurve) * liftFactor;
+    const leftDrag = getDragCoefficient(
+      leftAngle,
+      liftCurve,
+      inducedDragFactor,
+    );
+    const rightDrag = getDragCoefficient(
+      rightAngle,
+      liftCurve,
+      inducedDragFactor,
+    );
+
+    // Whole wing coefficients with control surface and high-lift increments
+    const { elevator, rudder } = getControlDeflections(state);
+    const speedBrakeDrag = properties.speedBrakeDrag ??
+      properties.dragCoefficient * DRAG_SPEED_BRAKE_FACTOR;
+    const liftCoefficient = (leftLift + rightLift) / 2 +
+      LIFT_ELEVATOR_DERIVATIVE * elevator +
+      flaps.liftIncrement * highLift.flapPosition;
+    const dragCoefficient = (leftDrag + rightDrag) / 2 +
+      flaps.dragIncrement * highLift.flapPosition +
+      (slats ? slats.dragIncrement * highLift.slatPosition : 0) +
+      speedBrakeDrag * speedBrake +
+      properties.dragCoefficient * DRAG_SPOILER_FACTOR * spoilers;
+    const sideForceCoefficient = SIDE_FORCE_RUDDER * rudder;
+
+    // Calculate dynamic pressure
+    const dynamicPressure = 0.5 * flow.atmosphere.density * airspeed *
+      airspeed;
+    const wingForce = dynamicPressure * properties.wingArea;
+
+    // Lift acts perpendicular to the airflow in the plane of symmetry, drag
+    // against the airflow and side force along the right wing
+    const velocityDirection = flow.airVelocity.clone().normalize();
+    const leftWing = new THREE.Vector3(1, 0, 0).applyQuaternion(
+      state.orientation,
+    );
+    const liftDirection = new THREE.Vector3().crossVectors(
+      velocityDirection,
+      leftWing,
     ).normalize();
 
-    // Calculate angle of attack (simplified)
-    const angleOfAttack = Math.acos(forwardVector.dot(velocityDirection)) -
-      Math.PI / 2;
+    const lift = liftDirection.multiplyScalar(wingForce * liftCoefficient);
+    const drag = velocityDirection.multiplyScalar(-wingForce * dragCoefficient);
+    const sideForce = leftWing.multiplyScalar(
+      -wingForce * sideForceCoefficient,
+    );
+
+    // Each half wing acts a quarter span from the centreline: more lift on
+    // the right wing rolls left, more drag on it yaws right
+    const armForce = wingForce / 2 * properties.wingspan / 4;
+    const rollMoment = armForce * (leftLift - rightLift);
+    const yawMoment = armForce * (rightDrag - leftDrag);
+
+    return {
+      lift,
+      drag,
+      sideForce,
+      // Convert to the body frame (+X left wing, +Y up, +Z nose)
+      moment: new THREE.Vector3(0, -yawMoment, rollMoment),
+      liftCoefficient,
+    };
+  }
 
-    // Calculate lift coefficient (simplified)
-    const effectiveLiftCoef = properties.liftCoefficient *
-      (1 + 5 * angleOfAttack + state.controlInputs.elevator * 0.5 +
-        state.controlInputs.flaps * 0.8);
+  /**
+   * Calculate the rotor forces of a rotorcraft: the throttle works the
+   * collective and the controls the cyclic and tail rotor
+   */
+  private getRotorForces(
+    aircraft: AircraftEntry,
+    state: AircraftState,
+    flow: FlowConditions,
+  ): RotorForces {
+    const surface = this.getSurface(
+      state.position.x,
+      state.position.z,
+    );
+    return calculateRotorForces(
+      aircraft.rotor!,
+      state.rotor!,
+      {
+        collective: state.throttle,
+        ...getControlDeflections(state),
+      },
+      state,
+      flow.airVelocity,
+      flow.atmosphere.density,
+      state.position.y - surface.height,
+    );
+  }
 
-    // Calculate drag coefficient (simplified)
-    const effectiveDragCoef = properties.dragCoefficient *
-      (1 + angleOfAttack * angleOfAttack * 10 +
-        state.controlInputs.flaps * 0.5);
+  /**
+   * Update the rotor speed of a rotorcraft and its airflow angles
+   * Rotor blades do not stall as a wing does, so there are no warnings.
+   */
+  private updateRotorState(
+    aircraft: AircraftEntry,
+    flow: FlowConditions,
+    deltaTime: number,
+  ): void {
+    const { state } = aircraft;
+    const { thrust, axialVelocity } = this.getRotorForces(
+      aircraft,
+      state,
+      flow,
+    );
+    updateRotorSpeed(
+      aircraft.rotor!,
+      state.rotor!,
+      state.engine.running,
+      thrust,
+      axialVelocity,
+      flow.atmosphere.density,
+      deltaTime,
+    );
 
-    // Calculate side force coefficient (simplified)
-    const sideForceFactor = state.controlInputs.rudder * 0.5;
+    const aerodynamics = state.aerodynamics;
+    aerodynamics.angleOfAttack = flow.angleOfAttack;
+    aerodynamics.sideslip = flow.sideslip;
+    aerodynamics.liftCoefficient = 0;
+    aerodynamics.stallWarning = false;
+    aerodynamics.stalled = false;
+    aerodynamics.spinning = false;
+  }
 
-    // Calculate dynamic pressure
-    const dynamicPressure = 0.5 * AIR_DENSITY * airspeed * airspeed;
+  /**
+   * Update the angle of attack, stall warning and spin state
+   */
+  private updateStallState(
+    aircraft: AircraftEntry,
+    flow: FlowConditions,
+    liftCoefficient: number,
+  ): void {
+    const { state } = aircraft;
+    const curve = getHighLiftCurve(
+      aircraft.liftCurve,
+      aircraft.flaps,
+      aircraft.slats,
+      state.highLift,
+    );
+    const { angleOfAttack, sideslip } = flow;
+    const aerodynamics = state.aerodynamics;
+    const wasStalled = aerodynamics.stalled;
+    aerodynamics.angleOfAttack = angleOfAttack;
+    aerodynamics.sideslip = sideslip;
+    aerodynamics.liftCoefficient = liftCoefficient;
 
-    // Calculate force magnitudes
-    const liftMagnitude = dynamicPressure * properties.wingArea *
-      effectiveLiftCoef;
-    const dragMagnitude = dynamicPressure * properties.wingArea *
-      effectiveDragCoef;
-    const sideForceMagnitude = dynamicPressure * properties.wingArea *
-      sideForceFactor;
+    // No warnings while parked or rolling on the ground
+    const flying = flow.airVelocity.length() > 0.1 &&
+      !state.gear?.weightOnWheels;
 
-    // Calculate force vectors
-    const lift = upVector.multiplyScalar(liftMagnitude);
-    const drag = velocityDirection.multiplyScalar(-dragMagnitude);
-    const sideForce = rightVector.multiplyScalar(sideForceMagnitude);
+    aerodynamics.stallWarning = flying &&
+      (angleOfAttack > curve.criticalAngle - STALL_WARNING_MARGIN ||
+        angleOfAttack < curve.negativeCriticalAngle + STALL_WARNING_MARGIN);
+    aerodynamics.stalled = flying &&
+      getSeparation(angleOfAttack, curve) > STALLED_SEPARATION;
+    if (aerodynamics.stalled && !wasStalled) {
+      getEventBus()?.emit("stall", { aircraftId: aircraft.id, angleOfAttack });
+    }
 
-    return { lift, drag, sideForce };
+    // Autorotation shows as sustained yaw while the wing is stalled
+    const yawRate = -state.angularVelocity.y;
+    aerodynamics.spinning = aerodynamics.stalled &&
+      Math.abs(yawRate) > SPIN_YAW_RATE;
   }
 
   /**
-   * Calculate moments (torques) acting on the aircraft
+   * Calculate moments (torques) acting on the aircraft, in body axes
    */
   private calculateMoments(
     properties: AircraftProperties,
     state: AircraftState,
-    forces: {
-      lift: THREE.Vector3;
-      drag: THREE.Vector3;
-      sideForce: THREE.Vector3;
-    },
+    flow: FlowConditions,
   ): THREE.Vector3 {
-    // Calculate roll moment (from aileron)
-    const rollMoment = properties.wingspan * 0.5 * state.controlInputs.aileron *
-      forces.lift.length() * 0.1;
-
-    // Calculate pitch moment (from elevator)
-    const pitchMoment = state.controlInputs.elevator * forces.lift.length() *
-      0.2;
-
-    // Calculate yaw moment (from rudder)
-    const yawMoment = state.controlInputs.rudder * forces.drag.length() * 0.2;
-
-    // Add damping moments (proportional to angular velocity)
-    const rollDamping = -state.angularVelocity.x * 0.5;
-    const pitchDamping = -state.angularVelocity.y * 0.5;
-    const yawDamping = -state.angularVelocity.z * 0.5;
-
-    return new THREE.Vector3(
-      rollMoment + rollDamping,
-      pitchMoment + pitchDamping,
-      yawMoment + yawDamping,
-    );
+    const airspeed = flow.airVelocity.length();
+
+    // No aerodynamic moments without airflow
+    if (airspeed < 0.1) {
+      return new THREE.Vector3();
+    }
+
+    const { angleOfAttack, sideslip } = flow;
+
+    // Conventional body rates: pitch up and yaw right positive
+    const pitchRate = -state.angularVelocity.x;
+    const yawRate = -state.angularVelocity.y;
+
+    // Reference dimensions
+    const dynamicPressure = 0.5 * flow.atmosphere.density * airspeed *
+      airspeed;
+    const span = properties.wingspan;
+    const chord = properties.wingArea / properties.wingspan;
+    const { aileron, elevator, rudder } = getControlDeflections(state);
+
+    // Roll moment (aileron, dihedral effect)
+    const rollMoment = dynamicPressure * properties.wingArea * span *
+      (ROLL_AILERON_DERIVATIVE * aileron +
+        ROLL_SIDESLIP_DERIVATIVE * sideslip);
+
+    // Pitch moment (static stability, elevator, pitch damping)
+    const pitchMoment = dynamicPressure * properties.wingArea * chord *
+      (PITCH_STABILITY_DERIVATIVE * angleOfAttack +
+        PITCH_ELEVATOR_DERIVATIVE * elevator +
+        PITCH_DAMPING_DERIVATIVE * pitchRate * chord / (2 * airspeed));
+
+    // Yaw moment (weathercock stability, rudder, yaw damping)
+    const yawMoment = dynamicPressure * properties.wingArea * span *
+      (YAW_STABILITY_DERIVATIVE * sideslip +
+        YAW_RUDDER_DERIVATIVE * rudder +
+        YAW_DAMPING_DERIVATIVE * yawRate * span / (2 * airspeed));
+
+    // Convert to the body frame (+X left wing, +Y up, +Z nose)
+    return new THREE.Vector3(-pitchMoment, -yawMoment, rollMoment);
   }
 }
 
+/**
+ * Get the control surface deflections: the pilot's inputs about the
+ * trimmed neutral positions, as far as damage lets the surfaces move
+ */
+function getControlDeflections(state: AircraftState): ControlDeflections {
+  const controls = state.controlInputs;
+  const clamp = (value: number) => Math.max(-1, Math.min(1, value));
+  return getDamagedDeflections(state.damage, {
+    elevator: clamp(controls.elevator + controls.pitchTrim),
+    aileron: clamp(controls.aileron + controls.rollTrim),
+    rudder: clamp(controls.rudder + controls.yawTrim),
+  });
+}
+
+/**
+ * Get the velocity of an aircraft over a surface, which may be moving
+ */
+function getSurfaceRelativeVelocity(
+  state: AircraftState,
+  surface: SurfaceSample,
+): THREE.Vector3 {
+  const velocity = state.velocity.clone();
+  return surface.velocity ? velocity.sub(surface.velocity) : velocity;
+}
+
+/**
+ * Whether an aircraft has crashed or ditched
+ */
+function isWrecked(state: AircraftState): boolean {
+  return state.groundContact.status === ContactStatus.CRASHED ||
+    state.groundContact.status === ContactStatus.DITCHED;
+}
+
+/**
+ * Derive heading, pitch and bank from an aircraft state
+ * Use these for display and guidance only; the orientation is authoritative.
+ */
+export function getAttitude(state: AircraftState): Attitude {
+  const euler = new THREE.Euler().setFromQuaternion(state.orientation, "YXZ");
+  return {
+    heading: euler.y,
+    pitch: -euler.x,
+    bank: euler.z,
+  };
+}
+
 // Singleton instance
 let physicsEngineInstance: PhysicsEngine | null = null;
 
+// Physics used in place of the engine, e.g. a worker bridge
+let physicsBackend: PhysicsApi | null = null;
+
 /**
  * Initialize the physics engine
  */
@@ -436,8 +2094,17 @@ export function initializeDynamics(): PhysicsEngine {
 }
 
 /**
- * Get the physics engine instance
+ * Get the physics used by the simulation: the backend if one is set,
+ * otherwise the physics engine instance
  */
-export function getPhysicsEngine(): PhysicsEngine | null {
-  return physicsEngineInstance;
+export function getPhysicsEngine(): PhysicsApi | null {
+  return physicsBackend ?? physicsEngineInstance;
+}
+
+/**
+ * Run the simulation on another physics backend, or back on the engine
+ * instance when null
+ */
+export function setPhysicsBackend(backend: PhysicsApi | null): void {
+  physicsBackend = backend;
 }
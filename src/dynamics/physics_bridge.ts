@@ -0,0 +1,550 @@
+/**
+ * Physics Bridge Module
+ *
+ * This module lets the simulation run its physics in a Web Worker behind
+ * the same API as the PhysicsEngine on the main thread. The bridge keeps a
+ * mirror of every aircraft: commands update the mirror at once and are sent
+ * to the worker, and each frame the worker streams the simulated state back
+ * into it through a shared or transferred state buffer. Moving platforms
+ * are mirrored too, steaming on between the snapshots that correct them.
+ */
+
+import * as THREE from "three";
+import {
+  type AircraftProperties,
+  type AircraftState,
+  type PhysicsApi,
+  PhysicsEngine,
+  type PhysicsSnapshot,
+  setPhysicsBackend,
+  type TimeStepConfig,
+} from "./physics.ts";
+import { type Store } from "./mass.ts";
+import { type MovingPlatform } from "./carrier.ts";
+import { type FailureType, hasFailure } from "./damage.ts";
+import {
+  createStateBuffer,
+  type DrawPose,
+  getSlotCapacity,
+  readAircraftState,
+  readFrameHeader,
+  type WorkerRequest,
+  type WorkerResponse,
+} from "./worker_protocol.ts";
+import { decodeSnapshotValue, encodeSnapshotValue } from "../core/snapshot.ts";
+import { getEventBus, type SimulationEventType } from "../core/events.ts";
+
+// Aircraft the state buffer holds unless configured otherwise
+const DEFAULT_CAPACITY = 64;
+
+// Message channel to the worker
+export interface WorkerPort {
+  postMessage(message: WorkerRequest, transfer?: Transferable[]): void;
+  onmessage: ((event: MessageEvent<WorkerResponse>) => void) | null;
+  terminate?(): void;
+}
+
+// Worker physics options
+export interface WorkerPhysicsOptions {
+  capacity?: number; // Maximum number of aircraft
+  shared?: boolean; // Share the state buffer (default if cross-origin isolated)
+  timeStep?: Partial<TimeStepConfig>;
+}
+
+// Physics running in a worker, behind the PhysicsApi
+export class PhysicsWorkerBridge implements PhysicsApi {
+  private port: WorkerPort;
+  private mirror: PhysicsEngine = new PhysicsEngine();
+  private properties: Map<string, AircraftProperties> = new Map();
+  private slots: Map<string, number> = new Map();
+  private drawPoses: Map<string, DrawPose> = new Map();
+  private platforms: Map<string, MovingPlatform> = new Map();
+  private platformTime: number = 0; // s of simulated time of the platforms
+  private data: Float64Array | null; // Null while transferred to the worker
+  private capacity: number; // Aircraft slots in the state buffer
+  private shared: boolean;
+  private frameInFlight: boolean = false;
+  private pendingTime: number = 0; // s not yet sent to the worker
+  private pendingFrames: number = 0; // Frames pendingTime was gathered over
+  private lastSteps: number = 0;
+  private simulationTime: number = 0;
+
+  constructor(port: WorkerPort, options: WorkerPhysicsOptions = {}) {
+    this.port = port;
+    this.shared = typeof SharedArrayBuffer !== "undefined" &&
+      (options.shared ?? globalThis.crossOriginIsolated === true);
+
+    const buffer = createStateBuffer(
+      options.capacity ?? DEFAULT_CAPACITY,
+      this.shared,
+    );
+    this.data = new Float64Array(buffer);
+    this.capacity = getSlotCapacity(this.data);
+
+    this.port.onmessage = (event) => this.handleResponse(event.data);
+    this.port.postMessage({
+      type: "init",
+      buffer: this.shared ? buffer as SharedArrayBuffer : null,
+      timeStep: options.timeStep,
+    });
+  }
+
+  /**
+   * Whether the state buffer is shared with the worker
+   */
+  public isShared(): boolean {
+    return this.shared;
+  }
+
+  /**
+   * Register an aircraft with the worker
+   */
+  public registerAircraft(
+    id: string,
+    properties: AircraftProperties,
+    initialState: Partial<AircraftState> = {},
+  ): void {
+    const slot = this.slots.get(id) ?? this.findFreeSlot();
+    this.mirror.registerAircraft(id, properties, initialState);
+    this.properties.set(id, properties);
+    this.slots.set(id, slot);
+
+    const state = this.mirror.getAircraftState(id)!;
+    this.drawPoses.set(id, {
+      position: state.position.clone(),
+      orientation: state.orientation.clone(),
+    });
+
+    this.port.postMessage({
+      type: "register",
+      id,
+      slot,
+      properties: encodeSnapshotValue(properties),
+      initialState: encodeSnapshotValue(initialState),
+    });
+  }
+
+  /**
+   * Remove an aircraft from the worker
+   */
+  public removeAircraft(id: string): boolean {
+    this.properties.delete(id);
+    this.slots.delete(id);
+    this.drawPoses.delete(id);
+    this.port.postMessage({ type: "remove", id });
+    return this.mirror.removeAircraft(id);
+  }
+
+  /**
+   * Get the state of an aircraft as of the last frame from the worker
+   */
+  public getAircraftState(id: string): AircraftState | null {
+    return this.mirror.getAircraftState(id);
+  }
+
+  /**
+   * Get the state of an aircraft with the pose the worker interpolated
+   */
+  public getInterpolatedState(id: string): AircraftState | null {
+    const state = this.mirror.getAircraftState(id);
+    const pose = this.drawPoses.get(id);
+    if (!state || !pose) {
+      return null;
+    }
+
+    return {
+      ...state,
+      position: pose.position.clone(),
+      orientation: pose.orientation.clone(),
+      rotation: new THREE.Euler().setFromQuaternion(pose.orientation, "YXZ"),
+    };
+  }
+
+  /**
+   * Update the control inputs for an aircraft
+   */
+  public updateControlInputs(
+    id: string,
+    controlInputs: Partial<AircraftState["controlInputs"]>,
+  ): void {
+    this.mirror.updateControlInputs(id, controlInputs);
+    this.port.postMessage({ type: "controls", id, controlInputs });
+  }
+
+  /**
+   * Release a store
+   * @returns The released store, or null if there is none at the index
+   */
+  public releaseStore(id: string, index: number): Store | null {
+    const stores = this.mirror.getAircraftState(id)?.mass.stores;
+    if (!stores || index < 0 || index >= stores.length) {
+      return null;
+    }
+
+    const [store] = stores.splice(index, 1);
+    this.port.postMessage({ type: "releaseStore", id, index });
+    return store;
+  }
+
+  /**
+   * Set the throttle for an aircraft
+   */
+  public setThrottle(id: string, throttle: number): void {
+    this.mirror.setThrottle(id, throttle);
+    this.port.postMessage({ type: "throttle", id, throttle });
+  }
+
+  /**
+   * Command the landing gear up or down
+   * @returns Whether the command was accepted
+   */
+  public setGearDown(id: string, down: boolean): boolean {
+    const gear = this.mirror.getAircraftState(id)?.gear;
+    if (!gear || !this.properties.get(id)?.landingGear?.retractable) {
+      return false;
+    }
+    if (!down && gear.weightOnWheels) {
+      return false;
+    }
+
+    // The worker publishes the gear change event
+    gear.target = down ? 1 : 0;
+    this.port.postMessage({ type: "gear", id, down });
+    return true;
+  }
+
+  /**
+   * Toggle the landing gear
+   * @returns Whether the gear is now commanded down
+   */
+  public toggleGear(id: string): boolean {
+    const gear = this.mirror.getAircraftState(id)?.gear;
+    if (!gear) {
+      return false;
+    }
+
+    this.setGearDown(id, gear.target < 1);
+    return gear.target === 1;
+  }
+
+  /**
+   * Lower or raise the tailhook
+   * @returns Whether the aircraft has a tailhook
+   */
+  public setHookDown(id: string, down: boolean): boolean {
+    if (!this.mirror.setHookDown(id, down)) {
+      return false;
+    }
+    this.port.postMessage({ type: "hook", id, down });
+    return true;
+  }
+
+  /**
+   * Lower or raise the launch bar
+   * @returns Whether the aircraft has a launch bar
+   */
+  public setLaunchBarDown(id: string, down: boolean): boolean {
+    if (!this.mirror.setLaunchBarDown(id, down)) {
+      return false;
+    }
+    this.port.postMessage({ type: "launchBar", id, down });
+    return true;
+  }
+
+  /**
+   * Set the wheel brakes (0.0 to 1.0 per side)
+   */
+  public setBrakes(id: string, left: number, right: number = left): void {
+    this.updateControlInputs(id, {
+      brakeLeft: Math.max(0, Math.min(1, left)),
+      brakeRight: Math.max(0, Math.min(1, right)),
+    });
+  }
+
+  /**
+   * Damage an aircraft struck by a weapon at a point
+   * The damage arrives with the next snapshot and the worker publishes the
+   * failures it causes.
+   * @returns Whether the aircraft exists
+   */
+  public applyHit(id: string, point: THREE.Vector3, amount: number): boolean {
+    if (!this.mirror.getAircraftState(id)) {
+      return false;
+    }
+
+    this.port.postMessage({
+      type: "hit",
+      id,
+      point: encodeSnapshotValue(point),
+      amount,
+    });
+    return true;
+  }
+
+  /**
+   * Fail a system of an aircraft
+   * @returns Whether the failure is new
+   */
+  public injectFailure(id: string, failure: FailureType): boolean {
+    const damage = this.mirror.getAircraftState(id)?.damage;
+    if (!damage || hasFailure(damage, failure)) {
+      return false;
+    }
+
+    // The worker publishes the failure event
+    damage.failures.push(failure);
+    this.port.postMessage({ type: "failure", id, failure });
+    return true;
+  }
+
+  /**
+   * Repair all damage and clear the failures of an aircraft
+   * @returns Whether the aircraft exists
+   */
+  public repairAircraft(id: string): boolean {
+    if (!this.mirror.repairAircraft(id)) {
+      return false;
+    }
+    this.port.postMessage({ type: "repair", id });
+    return true;
+  }
+
+  /**
+   * Add a moving platform to the worker
+   * The platform passed in is the mirror, moved with every frame.
+   */
+  public addPlatform(id: string, platform: MovingPlatform): void {
+    this.mirror.addPlatform(id, platform);
+    this.platforms.set(id, platform);
+    this.port.postMessage({
+      type: "addPlatform",
+      id,
+      definition: encodeSnapshotValue(platform.definition),
+      state: encodeSnapshotValue(platform.getState()),
+    });
+  }
+
+  /**
+   * Remove a moving platform from the worker
+   */
+  public removePlatform(id: string): boolean {
+    this.platforms.delete(id);
+    this.port.postMessage({ type: "removePlatform", id });
+    return this.mirror.removePlatform(id);
+  }
+
+  /**
+   * Get the mirror of a moving platform
+   */
+  public getPlatform(id: string): MovingPlatform | null {
+    return this.mirror.getPlatform(id);
+  }
+
+  /**
+   * Ask the worker to advance the simulation by a frame's worth of time
+   * Time is held back while the previous frame is still being computed.
+   * @returns Number of physics steps run by the last completed frame
+   */
+  public advance(frameTime: number): number {
+    this.pendingTime += frameTime;
+    this.pendingFrames++;
+    if (this.frameInFlight) {
+      return this.lastSteps;
+    }
+
+    const buffer = this.shared ? null : this.data!.buffer as ArrayBuffer;
+    const pendingTime = this.pendingTime;
+    const pendingFrames = this.pendingFrames;
+    if (buffer) {
+      this.data = null;
+    }
+    this.frameInFlight = true;
+    this.pendingTime = 0;
+    this.pendingFrames = 0;
+
+    this.port.postMessage(
+      {
+        type: "advance",
+        frameTime: pendingTime,
+        frames: pendingFrames,
+        buffer,
+      },
+      buffer ? [buffer] : [],
+    );
+    return this.lastSteps;
+  }
+
+  /**
+   * Get the simulated time of the last completed frame
+   */
+  public getSimulationTime(): number {
+    return this.simulationTime;
+  }
+
+  /**
+   * Capture the mirrored state of every aircraft
+   * Fields not streamed every frame may be up to a second old.
+   */
+  public snapshot(): PhysicsSnapshot {
+    return { ...this.mirror.snapshot(), time: this.simulationTime };
+  }
+
+  /**
+   * Replace every aircraft and moving platform with those in a snapshot
+   * Throws, leaving the aircraft as they were, if the snapshot holds more
+   * aircraft than the worker has slots for.
+   */
+  public restore(snapshot: PhysicsSnapshot): void {
+    if (snapshot.aircraft.length > this.capacity) {
+      throw new Error(`Physics worker is full (${this.capacity} aircraft)`);
+    }
+
+    this.mirror.restore(snapshot);
+    this.simulationTime = snapshot.time;
+    this.platformTime = snapshot.time;
+
+    this.properties.clear();
+    this.slots.clear();
+    this.drawPoses.clear();
+    snapshot.aircraft.forEach((saved, slot) => {
+      const state = this.mirror.getAircraftState(saved.id)!;
+      this.properties.set(
+        saved.id,
+        decodeSnapshotValue<AircraftProperties>(saved.properties),
+      );
+      this.slots.set(saved.id, slot);
+      this.drawPoses.set(saved.id, {
+        position: state.position.clone(),
+        orientation: state.orientation.clone(),
+      });
+    });
+    this.platforms.clear();
+    for (const saved of snapshot.platforms) {
+      this.platforms.set(saved.id, this.mirror.getPlatform(saved.id)!);
+    }
+
+    this.port.postMessage({
+      type: "restore",
+      snapshot,
+      slots: Object.fromEntries(this.slots),
+    });
+  }
+
+  /**
+   * Stop the worker
+   */
+  public terminate(): void {
+    this.port.onmessage = null;
+    this.port.terminate?.();
+  }
+
+  /**
+   * Apply a response from the worker
+   */
+  private handleResponse(response: WorkerResponse): void {
+    switch (response.type) {
+      case "frame":
+        if (response.buffer) {
+          this.data = new Float64Array(response.buffer);
+        }
+        this.readFrame(this.data!);
+        this.frameInFlight = false;
+        break;
+      case "snapshot":
+        this.applySnapshot(response.snapshot);
+        break;
+      case "event":
+        getEventBus()?.emit(
+          response.name as SimulationEventType,
+          decodeSnapshotValue(response.event),
+        );
+        break;
+    }
+  }
+
+  /**
+   * Copy the streamed state of every aircraft into the mirror
+   */
+  private readFrame(data: Float64Array): void {
+    const header = readFrameHeader(data);
+    this.simulationTime = header.time;
+    this.lastSteps = header.steps;
+
+    const elapsed = header.time - this.platformTime;
+    this.platformTime = header.time;
+    this.platforms.forEach((platform) => platform.advance(elapsed));
+
+    this.slots.forEach((slot, id) => {
+      const state = this.mirror.getAircraftState(id);
+      const pose = this.drawPoses.get(id);
+      if (state && pose) {
+        readAircraftState(data, slot, state, pose);
+      }
+    });
+  }
+
+  /**
+   * Refresh the mirror from a full snapshot, keeping the local controls
+   */
+  private applySnapshot(snapshot: PhysicsSnapshot): void {
+    const controls = new Map<string, AircraftState["controlInputs"]>();
+    this.slots.forEach((_slot, id) => {
+      const state = this.mirror.getAircraftState(id);
+      if (state) {
+        controls.set(id, state.controlInputs);
+      }
+    });
+
+    // Aircraft and platforms added since the snapshot was taken are kept as
+    // they are, and platforms removed since are not brought back
+    const known = new Set([
+      ...snapshot.aircraft.map((saved) => saved.id),
+      ...snapshot.platforms.map((saved) => saved.id),
+    ]);
+    const pending = [...this.slots.keys(), ...this.platforms.keys()]
+      .filter((id) => !known.has(id));
+    if (pending.length > 0) {
+      return;
+    }
+
+    this.mirror.restore({
+      ...snapshot,
+      platforms: snapshot.platforms.filter((saved) =>
+        this.platforms.has(saved.id)
+      ),
+    });
+    this.platformTime = snapshot.time;
+    controls.forEach((controlInputs, id) => {
+      this.mirror.updateControlInputs(id, controlInputs);
+    });
+  }
+
+  /**
+   * Find the lowest slot not used by an aircraft
+   */
+  private findFreeSlot(): number {
+    const used = new Set(this.slots.values());
+    for (let slot = 0; slot < this.capacity; slot++) {
+      if (!used.has(slot)) {
+        return slot;
+      }
+    }
+    throw new Error(`Physics worker is full (${this.capacity} aircraft)`);
+  }
+}
+
+/**
+ * Start physics in a Web Worker and make it the physics of the simulation
+ */
+export function initializeWorkerDynamics(
+  options: WorkerPhysicsOptions = {},
+): PhysicsWorkerBridge {
+  const worker = new Worker(
+    new URL("./physics_worker.ts", import.meta.url).href,
+    { type: "module" },
+  );
+  const bridge = new PhysicsWorkerBridge(worker as WorkerPort, options);
+  setPhysicsBackend(bridge);
+  console.log("Physics worker initialized");
+  return bridge;
+}
@@ -0,0 +1,201 @@
+/**
+ * Physics Worker Module
+ *
+ * This module runs a PhysicsEngine inside a Web Worker. It applies the
+ * registrations, control inputs and moving platforms sent by the main
+ * thread, advances the simulation when asked, and streams the aircraft
+ * state back through the state buffer. Full snapshots and simulation
+ * events follow as messages.
+ */
+
+import { type AircraftProperties, PhysicsEngine } from "./physics.ts";
+import {
+  MovingPlatform,
+  type PlatformDefinition,
+  type PlatformState,
+} from "./carrier.ts";
+import {
+  type DrawPose,
+  type WorkerRequest,
+  type WorkerResponse,
+  writeAircraftState,
+  writeFrameHeader,
+} from "./worker_protocol.ts";
+import { decodeSnapshotValue, encodeSnapshotValue } from "../core/snapshot.ts";
+import {
+  initializeEventBus,
+  type SimulationEventType,
+} from "../core/events.ts";
+import { TIME_RATES } from "../core/clock.ts";
+
+// Simulated time between full snapshots sent to the main thread
+const SNAPSHOT_INTERVAL = 1; // s
+
+// Most frames of held back time caught up at once: a frame at the fastest
+// time rate, so that a worker running late does not fall further behind
+const MAX_FRAMES_PER_ADVANCE = Math.max(...TIME_RATES);
+
+// Events published by the physics engine
+const PHYSICS_EVENTS: SimulationEventType[] = [
+  "touchdown",
+  "crash",
+  "ditching",
+  "stall",
+  "gearChange",
+  "trap",
+  "catapultLaunch",
+  "overstress",
+  "failure",
+  "weaponRelease",
+];
+
+// Sends a response to the main thread
+export type PostResponse = (
+  response: WorkerResponse,
+  transfer?: Transferable[],
+) => void;
+
+/**
+ * Create the request handler of a physics worker
+ * @param post Sends responses to the main thread
+ */
+export function createWorkerHandler(
+  post: PostResponse,
+): (request: WorkerRequest) => void {
+  const engine = new PhysicsEngine();
+  let slots = new Map<string, number>();
+  let shared: Float64Array | null = null;
+  let lastSnapshotTime = 0;
+
+  return (request: WorkerRequest) => {
+    switch (request.type) {
+      case "init":
+        shared = request.buffer ? new Float64Array(request.buffer) : null;
+        if (request.timeStep) {
+          engine.configureTimeStep(request.timeStep);
+        }
+        break;
+      case "register":
+        engine.registerAircraft(
+          request.id,
+          decodeSnapshotValue<AircraftProperties>(request.properties),
+          decodeSnapshotValue(request.initialState),
+        );
+        slots.set(request.id, request.slot);
+        break;
+      case "remove":
+        engine.removeAircraft(request.id);
+        slots.delete(request.id);
+        break;
+      case "controls":
+        engine.updateControlInputs(request.id, request.controlInputs);
+        break;
+      case "throttle":
+        engine.setThrottle(request.id, request.throttle);
+        break;
+      case "gear":
+        engine.setGearDown(request.id, request.down);
+        break;
+      case "hook":
+        engine.setHookDown(request.id, request.down);
+        break;
+      case "launchBar":
+        engine.setLaunchBarDown(request.id, request.down);
+        break;
+      case "releaseStore":
+        engine.releaseStore(request.id, request.index);
+        break;
+      case "hit":
+        engine.applyHit(
+          request.id,
+          decodeSnapshotValue(request.point),
+          request.amount,
+        );
+        break;
+      case "failure":
+        engine.injectFailure(request.id, request.failure);
+        break;
+      case "repair":
+        engine.repairAircraft(request.id);
+        break;
+      case "addPlatform":
+        engine.addPlatform(
+          request.id,
+          new MovingPlatform(
+            decodeSnapshotValue<PlatformDefinition>(request.definition),
+            decodeSnapshotValue<PlatformState>(request.state),
+          ),
+        );
+        break;
+      case "removePlatform":
+        engine.removePlatform(request.id);
+        break;
+      case "restore":
+        engine.restore(request.snapshot);
+        slots = new Map(Object.entries(request.slots));
+        break;
+      case "advance": {
+        // Advance frame by frame, as the main thread would have, so that
+        // compressed time is not clamped away as one long frame
+        const frames = Math.min(
+          Math.max(request.frames, 1),
+          MAX_FRAMES_PER_ADVANCE,
+        );
+        let steps = 0;
+        for (let i = 0; i < frames; i++) {
+          steps += engine.advance(request.frameTime / frames);
+        }
+        const time = engine.getSimulationTime();
+
+        // Refresh the fields the state buffer does not carry
+        if (time - lastSnapshotTime >= SNAPSHOT_INTERVAL) {
+          lastSnapshotTime = time;
+          post({ type: "snapshot", snapshot: engine.snapshot() });
+        }
+
+        const data = shared ?? new Float64Array(request.buffer!);
+        writeFrameHeader(data, time, steps);
+        slots.forEach((slot, id) => {
+          const state = engine.getAircraftState(id);
+          const draw: DrawPose | null = engine.getInterpolatedState(id);
+          if (state && draw) {
+            writeAircraftState(data, slot, state, draw);
+          }
+        });
+
+        if (shared) {
+          post({ type: "frame", buffer: null });
+        } else {
+          post({ type: "frame", buffer: request.buffer }, [request.buffer!]);
+        }
+        break;
+      }
+    }
+  };
+}
+
+/**
+ * Forward the physics events published in the worker to the main thread
+ */
+function forwardEvents(post: PostResponse): void {
+  const eventBus = initializeEventBus();
+  for (const name of PHYSICS_EVENTS) {
+    eventBus.on(name, (event) => {
+      post({ type: "event", name, event: encodeSnapshotValue(event) });
+    });
+  }
+}
+
+// Worker entry point; importing the module elsewhere has no side effects
+if ("WorkerGlobalScope" in globalThis) {
+  const scope = globalThis as unknown as {
+    postMessage(message: unknown, transfer?: Transferable[]): void;
+    onmessage: ((event: MessageEvent<WorkerRequest>) => void) | null;
+  };
+  const post: PostResponse = (response, transfer = []) =>
+    scope.postMessage(response, transfer);
+
+  forwardEvents(post);
+  const handle = createWorkerHandler(post);
+  scope.onmessage = (event) => handle(event.data);
+}
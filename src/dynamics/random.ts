@@ -0,0 +1,61 @@
+/**
+ * Seeded Random Module
+ *
+ * This module provides a small deterministic pseudo-random number generator
+ * (mulberry32) so that stochastic effects such as turbulence can be
+ * reproduced exactly in tests and replays.
+ */
+
+// Seeded pseudo-random number generator
+export class SeededRandom {
+  private state: number;
+  private spareGaussian: number | null = null;
+
+  constructor(seed: number = 1) {
+    this.state = seed >>> 0;
+  }
+
+  /**
+   * Reset the generator to a seed
+   */
+  public setSeed(seed: number): void {
+    this.state = seed >>> 0;
+    this.spareGaussian = null;
+  }
+
+  /**
+   * Uniform random number in [0, 1)
+   */
+  public next(): number {
+    this.state = (this.state + 0x6D2B79F5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Uniform random number in [min, max)
+   */
+  public range(min: number, max: number): number {
+    return min + (max - min) * this.next();
+  }
+
+  /**
+   * Normally distributed random number (mean 0, standard deviation 1)
+   */
+  public gaussian(): number {
+    if (this.spareGaussian !== null) {
+      const spare = this.spareGaussian;
+      this.spareGaussian = null;
+      return spare;
+    }
+
+    // Box-Muller transform
+    const u1 = Math.max(this.next(), 1e-12);
+    const u2 = this.next();
+    const radius = Math.sqrt(-2 * Math.log(u1));
+    this.spareGaussian = radius * Math.sin(2 * Math.PI * u2);
+    return radius * Math.cos(2 * Math.PI * u2);
+  }
+}
@@ -0,0 +1,287 @@
+/**
+ * Rotorcraft Module
+ *
+ * This module models a helicopter with a single main rotor and a tail
+ * rotor. The collective sets the blade pitch and with it the rotor thrust,
+ * which falls as air flows up through a climbing disc and rises with
+ * translational lift and close to the ground. Cyclic tilts the disc and
+ * the thrust with it, and the pedals work the tail rotor, which is taken
+ * to cancel the main rotor torque at neutral. The engine drives the rotor
+ * through a governor; without power the air flowing up through a
+ * descending disc keeps it turning in autorotation.
+ */
+
+import * as THREE from "three";
+import { SEA_LEVEL_DENSITY } from "./atmosphere.ts";
+
+// Blade pitch range of the collective
+const COLLECTIVE_PITCH_RANGE = 12 * Math.PI / 180; // rad
+
+// Blade element theory: thrust ∝ θ - 1.5·λ for inflow ratio λ
+const INFLOW_THRUST_FACTOR = 1.5;
+
+// Translational lift: extra thrust once clear of the rotor's own downwash
+const TRANSLATIONAL_LIFT_GAIN = 0.2;
+const TRANSLATIONAL_LIFT_SPEED = 10; // m/s of in-plane airflow
+
+// Power to turn the blades against their profile drag at nominal speed,
+// as a fraction of the engine power
+const PROFILE_POWER_FRACTION = 0.25;
+
+// Governor power per unit rotor speed error, as a fraction of engine power
+const GOVERNOR_GAIN = 5;
+
+// Rotor speed the blades survive, as a fraction of nominal
+const MAX_ROTOR_SPEED = 1.3;
+
+// Defaults for rotors built from their size and thrust alone
+const DEFAULT_TIP_SPEED = 210; // m/s
+const DEFAULT_HUB_HEIGHT = 1.5; // m above the reference point
+const DEFAULT_CYCLIC_AUTHORITY = 8 * Math.PI / 180; // rad
+const DEFAULT_POWER_PER_THRUST = 12; // W/N of engine power
+const DEFAULT_BLADE_MASS_FRACTION = 0.02; // Blade mass per unit of thrust mass
+const DEFAULT_FUSELAGE_DRAG_AREA = 2; // m²
+const GRAVITY = 9.81; // m/s²
+
+// Main and tail rotor definition
+export interface RotorDefinition {
+  radius: number; // m
+  tipSpeed: number; // m/s at nominal rotor speed
+  maxThrust: number; // N at full collective and nominal speed, sea level
+  hubPosition: THREE.Vector3; // m, body axes from the reference point
+  cyclicAuthority: number; // rad of disc tilt at full cyclic
+  pedalAuthority: number; // N·m of tail rotor yaw moment at full pedal
+  enginePower: number; // W of shaft power
+  rotorInertia: number; // kg·m² about the shaft
+  damping: number; // N·m·s/rad of pitch and roll damping from the disc
+  yawDamping: number; // N·m·s/rad from the tail rotor
+  fuselageDragArea: number; // m², drag coefficient times frontal area
+}
+
+// Rotor state
+export interface RotorState {
+  speed: number; // Fraction of nominal rotor speed
+  thrust: number; // N at the start of the step
+  power: number; // W the rotor needs at the start of the step
+}
+
+// Helicopter controls: the collective and the cyclic and pedal deflections
+export interface RotorControls {
+  collective: number; // 0.0 to 1.0
+  elevator: number; // -1.0 to 1.0, aft cyclic positive
+  aileron: number; // -1.0 to 1.0, right cyclic positive
+  rudder: number; // -1.0 to 1.0, right pedal positive
+}
+
+// Rotor forces (world frame) and moments (body frame, about the reference)
+export interface RotorForces {
+  force: THREE.Vector3;
+  moment: THREE.Vector3;
+  thrust: number; // N
+  axialVelocity: number; // m/s of climb through the disc
+}
+
+// Rigid-body motion the rotor forces depend on
+export interface RotorBodyState {
+  orientation: THREE.Quaternion;
+  angularVelocity: THREE.Vector3; // Body axes
+}
+
+/**
+ * Build a rotor definition, filling in defaults
+ */
+export function createRotor(
+  options: Partial<RotorDefinition> & { radius: number; maxThrust: number },
+): RotorDefinition {
+  const { radius, maxThrust } = options;
+  const tipSpeed = options.tipSpeed ?? DEFAULT_TIP_SPEED;
+  const pedalAuthority = options.pedalAuthority ?? 0.1 * maxThrust * radius;
+  const bladeMass = DEFAULT_BLADE_MASS_FRACTION * maxThrust / GRAVITY;
+
+  return {
+    tipSpeed,
+    hubPosition: new THREE.Vector3(0, DEFAULT_HUB_HEIGHT, 0),
+    cyclicAuthority: DEFAULT_CYCLIC_AUTHORITY,
+    pedalAuthority,
+    enginePower: DEFAULT_POWER_PER_THRUST * maxThrust,
+    rotorInertia: bladeMass * radius * radius / 3,
+    damping: 8 * maxThrust * radius / tipSpeed,
+    yawDamping: pedalAuthority,
+    fuselageDragArea: DEFAULT_FUSELAGE_DRAG_AREA,
+    ...options,
+  };
+}
+
+/**
+ * Create the rotor state, turning at nominal speed
+ */
+export function createRotorState(speed: number = 1): RotorState {
+  return { speed, thrust: 0, power: 0 };
+}
+
+/**
+ * Thrust gain of a rotor close to the ground
+ * Cheeseman and Bennett: T/T∞ = 1 / (1 - (R/4z)²), held below half a
+ * radius where it no longer applies.
+ */
+export function getRotorGroundEffect(height: number, radius: number): number {
+  const clearance = Math.max(height, radius / 2);
+  const ratio = radius / (4 * clearance);
+  return 1 / (1 - ratio * ratio);
+}
+
+/**
+ * Calculate the rotor thrust for a collective setting and the airflow
+ * @param axialVelocity m/s of climb along the rotor shaft, through the air
+ * @param inPlaneSpeed m/s of airflow across the disc
+ * @param height m of the hub above the surface
+ */
+export function getRotorThrust(
+  definition: RotorDefinition,
+  rotor: RotorState,
+  collective: number,
+  axialVelocity: number,
+  inPlaneSpeed: number,
+  density: number,
+  height: number,
+): number {
+  if (rotor.speed <= 0) {
+    return 0;
+  }
+
+  // Climbing lowers the blade angle of attack, descending raises it
+  const inflowRatio = axialVelocity / (definition.tipSpeed * rotor.speed);
+  const pitch = collective -
+    INFLOW_THRUST_FACTOR * inflowRatio / COLLECTIVE_PITCH_RANGE;
+
+  const translationalLift = 1 + TRANSLATIONAL_LIFT_GAIN *
+      (1 - Math.exp(-Math.pow(inPlaneSpeed / TRANSLATIONAL_LIFT_SPEED, 2)));
+  const groundEffect = getRotorGroundEffect(height, definition.radius);
+
+  return Math.max(
+    0,
+    definition.maxThrust * density / SEA_LEVEL_DENSITY *
+      rotor.speed * rotor.speed * pitch * translationalLift * groundEffect,
+  );
+}
+
+/**
+ * Calculate the main and tail rotor forces and the fuselage drag
+ * @param airVelocity Velocity relative to the air mass, world frame
+ * @param height m of the reference point above the surface
+ */
+export function calculateRotorForces(
+  definition: RotorDefinition,
+  rotor: RotorState,
+  controls: RotorControls,
+  body: RotorBodyState,
+  airVelocity: THREE.Vector3,
+  density: number,
+  height: number,
+): RotorForces {
+  // Cyclic tilts the disc: aft stick tips it back, right stick right
+  const pitchTilt = controls.elevator * definition.cyclicAuthority;
+  const rollTilt = controls.aileron * definition.cyclicAuthority;
+  const discNormal = new THREE.Vector3(
+    -Math.sin(rollTilt),
+    1,
+    -Math.sin(pitchTilt),
+  ).normalize();
+
+  // Airflow through and across the disc
+  const bodyAir = airVelocity.clone().applyQuaternion(
+    body.orientation.clone().invert(),
+  );
+  const axialVelocity = bodyAir.dot(discNormal);
+  const inPlaneSpeed = bodyAir.clone()
+    .addScaledVector(discNormal, -axialVelocity)
+    .length();
+
+  const thrust = getRotorThrust(
+    definition,
+    rotor,
+    controls.collective,
+    axialVelocity,
+    inPlaneSpeed,
+    density,
+    height + definition.hubPosition.y,
+  );
+  const bodyThrust = discNormal.clone().multiplyScalar(thrust);
+
+  // Thrust acting at the hub, disc damping and the tail rotor
+  const speedSquared = rotor.speed * rotor.speed;
+  const yawRate = -body.angularVelocity.y;
+  const yawMoment = definition.pedalAuthority * controls.rudder *
+      speedSquared -
+    definition.yawDamping * yawRate;
+  const moment = new THREE.Vector3()
+    .crossVectors(definition.hubPosition, bodyThrust)
+    .add(
+      new THREE.Vector3(
+        -definition.damping * rotor.speed * body.angularVelocity.x,
+        -yawMoment,
+        -definition.damping * rotor.speed * body.angularVelocity.z,
+      ),
+    );
+
+  // Fuselage drag against the airflow
+  const drag = airVelocity.clone().multiplyScalar(
+    -0.5 * density * airVelocity.length() * definition.fuselageDragArea,
+  );
+
+  return {
+    force: bodyThrust.applyQuaternion(body.orientation).add(drag),
+    moment,
+    thrust,
+    axialVelocity,
+  };
+}
+
+/**
+ * Spin the rotor up or down with the balance of engine and rotor power
+ * The governor holds nominal speed within the engine power; with the
+ * engine stopped, air flowing up through the disc drives the rotor.
+ * @param engineRunning Whether the engine can deliver power
+ * @param thrust N at the start of the step
+ * @param axialVelocity m/s of climb through the disc
+ */
+export function updateRotorSpeed(
+  definition: RotorDefinition,
+  rotor: RotorState,
+  engineRunning: boolean,
+  thrust: number,
+  axialVelocity: number,
+  density: number,
+  deltaTime: number,
+): void {
+  const { radius, enginePower } = definition;
+  const area = Math.PI * radius * radius;
+  const densityRatio = density / SEA_LEVEL_DENSITY;
+
+  // Induced power from momentum theory plus blade profile power
+  const inducedVelocity = Math.sqrt(thrust / (2 * density * area));
+  const profilePower = PROFILE_POWER_FRACTION * enginePower * densityRatio *
+    Math.pow(rotor.speed, 3);
+  const required = thrust * (inducedVelocity + axialVelocity) +
+    profilePower;
+
+  const demand = required + GOVERNOR_GAIN * enginePower * (1 - rotor.speed);
+  const supplied = engineRunning
+    ? Math.max(0, Math.min(enginePower, demand))
+    : 0;
+
+  // I·Ω·dΩ/dt = P_engine - P_rotor
+  const nominalRate = definition.tipSpeed / radius; // rad/s
+  const rate = Math.max(rotor.speed, 0.1) * nominalRate;
+  const acceleration = (supplied - required) /
+    (definition.rotorInertia * rate);
+  rotor.speed = Math.max(
+    0,
+    Math.min(
+      MAX_ROTOR_SPEED,
+      rotor.speed + acceleration * deltaTime / nominalRate,
+    ),
+  );
+  rotor.thrust = thrust;
+  rotor.power = required;
+}
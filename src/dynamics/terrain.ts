@@ -0,0 +1,139 @@
+/**
+ * Terrain Module
+ *
+ * This module defines the surface the physics engine collides with. A
+ * surface provider answers the height, normal and surface type at any
+ * horizontal position; the physics engine uses it for gear contact and
+ * crash or ditching detection. Surfaces that move, such as a carrier deck,
+ * also give their velocity.
+ */
+
+import * as THREE from "three";
+
+// Surface types
+export enum SurfaceType {
+  RUNWAY = "RUNWAY",
+  GRASS = "GRASS",
+  DIRT = "DIRT",
+  WATER = "WATER",
+}
+
+// Wheel friction multipliers per surface type
+export const SURFACE_FRICTION: Record<
+  SurfaceType,
+  { frictionScale: number; rollingScale: number }
+> = {
+  [SurfaceType.RUNWAY]: { frictionScale: 1, rollingScale: 1 },
+  [SurfaceType.GRASS]: { frictionScale: 0.6, rollingScale: 4 },
+  [SurfaceType.DIRT]: { frictionScale: 0.7, rollingScale: 3 },
+  [SurfaceType.WATER]: { frictionScale: 0, rollingScale: 0 },
+};
+
+// Surface at a horizontal position
+export interface SurfaceSample {
+  height: number; // m
+  normal: THREE.Vector3; // Unit surface normal
+  type: SurfaceType;
+  velocity?: THREE.Vector3; // m/s, world frame, of a moving surface
+}
+
+// Source of surface data for the physics engine
+export interface SurfaceProvider {
+  getSurface(x: number, z: number): SurfaceSample;
+}
+
+// Flat surface at a fixed height
+export class FlatSurfaceProvider implements SurfaceProvider {
+  private height: number;
+  private type: SurfaceType;
+
+  constructor(height: number = 0, type: SurfaceType = SurfaceType.RUNWAY) {
+    this.height = height;
+    this.type = type;
+  }
+
+  public getSurface(_x: number, _z: number): SurfaceSample {
+    return {
+      height: this.height,
+      normal: new THREE.Vector3(0, 1, 0),
+      type: this.type,
+    };
+  }
+}
+
+// Heightfield grid definition
+export interface HeightfieldOptions {
+  originX: number; // m, world X of the first column
+  originZ: number; // m, world Z of the first row
+  spacing: number; // m between grid points
+  columns: number; // Grid points along X
+  rows: number; // Grid points along Z
+  heights: ArrayLike<number>; // Row-major, rows × columns
+  types?: ArrayLike<SurfaceType>; // Per grid point, nearest is used
+  defaultType?: SurfaceType;
+}
+
+// Regularly spaced elevation grid, e.g. from scenery data
+export class HeightfieldSurfaceProvider implements SurfaceProvider {
+  private options: HeightfieldOptions;
+
+  constructor(options: HeightfieldOptions) {
+    if (options.columns < 2 || options.rows < 2) {
+      throw new Error("Heightfield needs at least 2 × 2 grid points");
+    }
+    if (options.heights.length !== options.columns * options.rows) {
+      throw new Error(
+        `Heightfield needs ${
+          options.columns * options.rows
+        } heights, got ${options.heights.length}`,
+      );
+    }
+    this.options = options;
+  }
+
+  public getSurface(x: number, z: number): SurfaceSample {
+    const { originX, originZ, spacing, columns, rows } = this.options;
+
+    // Grid coordinates, clamped to the edge of the data
+    const gridX = Math.max(0, Math.min(columns - 1, (x - originX) / spacing));
+    const gridZ = Math.max(0, Math.min(rows - 1, (z - originZ) / spacing));
+    const column = Math.min(Math.floor(gridX), columns - 2);
+    const row = Math.min(Math.floor(gridZ), rows - 2);
+    const fx = gridX - column;
+    const fz = gridZ - row;
+
+    // Bilinear interpolation within the cell
+    const h00 = this.heightAt(column, row);
+    const h10 = this.heightAt(column + 1, row);
+    const h01 = this.heightAt(column, row + 1);
+    const h11 = this.heightAt(column + 1, row + 1);
+    const height = h00 * (1 - fx) * (1 - fz) + h10 * fx * (1 - fz) +
+      h01 * (1 - fx) * fz + h11 * fx * fz;
+
+    // Surface gradient of the bilinear patch
+    const slopeX = ((h10 - h00) * (1 - fz) + (h11 - h01) * fz) / spacing;
+    const slopeZ = ((h01 - h00) * (1 - fx) + (h11 - h10) * fx) / spacing;
+    const normal = new THREE.Vector3(-slopeX, 1, -slopeZ).normalize();
+
+    return { height, normal, type: this.typeAt(gridX, gridZ) };
+  }
+
+  /**
+   * Height of a grid point
+   */
+  private heightAt(column: number, row: number): number {
+    return this.options.heights[row * this.options.columns + column];
+  }
+
+  /**
+   * Surface type of the grid point nearest to a grid position
+   */
+  private typeAt(gridX: number, gridZ: number): SurfaceType {
+    const { types, columns, defaultType = SurfaceType.GRASS } = this.options;
+    if (!types) {
+      return defaultType;
+    }
+    return types[Math.round(gridZ) * columns + Math.round(gridX)] ??
+      defaultType;
+  }
+}
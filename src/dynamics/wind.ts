@@ -0,0 +1,398 @@
+/**
+ * Wind Module
+ *
+ * This module models the air mass the aircraft flies through: steady wind
+ * layered by altitude, discrete and random gusts, and Dryden turbulence
+ * (MIL-F-8785C). All randomness comes from a seeded generator so flights
+ * can be reproduced exactly.
+ */
+
+import * as THREE from "three";
+import { SeededRandom } from "./random.ts";
+
+// Unit conversions
+const M_TO_FEET = 3.28084;
+const KNOTS_TO_MS = 0.514444;
+
+// Altitude band in which the low and high altitude Dryden models are blended
+const LOW_ALTITUDE_LIMIT = 1000 / M_TO_FEET; // m
+const HIGH_ALTITUDE_LIMIT = 2000 / M_TO_FEET; // m
+
+// High altitude turbulence scale length
+const HIGH_ALTITUDE_SCALE = 1750 / M_TO_FEET; // m
+
+// Mean time between random gusts
+const DEFAULT_GUST_INTERVAL = 8; // s
+
+// Turbulence intensity levels
+export enum TurbulenceIntensity {
+  NONE = "NONE",
+  LIGHT = "LIGHT",
+  MODERATE = "MODERATE",
+  SEVERE = "SEVERE",
+}
+
+// Wind speed at 20 ft and high altitude RMS intensity per level
+const TURBULENCE_LEVELS: Record<
+  TurbulenceIntensity,
+  { windAt20ft: number; highAltitudeSigma: number }
+> = {
+  [TurbulenceIntensity.NONE]: { windAt20ft: 0, highAltitudeSigma: 0 },
+  [TurbulenceIntensity.LIGHT]: {
+    windAt20ft: 15 * KNOTS_TO_MS,
+    highAltitudeSigma: 1.5,
+  },
+  [TurbulenceIntensity.MODERATE]: {
+    windAt20ft: 30 * KNOTS_TO_MS,
+    highAltitudeSigma: 3,
+  },
+  [TurbulenceIntensity.SEVERE]: {
+    windAt20ft: 45 * KNOTS_TO_MS,
+    highAltitudeSigma: 6,
+  },
+};
+
+// Steady wind at an altitude
+// Direction is where the wind blows from, in the autopilot heading convention
+// (0° along +Z, increasing towards +X).
+export interface WindLayer {
+  altitude: number; // m
+  direction: number; // degrees
+  speed: number; // m/s
+}
+
+// Discrete "1-cosine" gust
+export interface GustDefinition {
+  startTime: number; // s, simulation time
+  duration: number; // s
+  amplitude: number; // m/s, peak horizontal speed
+  direction?: number; // degrees the gust blows from; local wind if omitted
+  verticalAmplitude?: number; // m/s, peak updraft (negative for downdraft)
+}
+
+// Dryden model parameters at an altitude
+interface DrydenParameters {
+  sigma: THREE.Vector3; // m/s RMS for u, v, w
+  scale: THREE.Vector3; // m scale lengths for u, v, w
+}
+
+/**
+ * Convert a "from" direction and speed to a world velocity
+ */
+function windVector(direction: number, speed: number): THREE.Vector3 {
+  const radians = direction * Math.PI / 180;
+  return new THREE.Vector3(
+    -Math.sin(radians) * speed,
+    0,
+    -Math.cos(radians) * speed,
+  );
+}
+
+// Wind field model
+export class WindField {
+  private layers: WindLayer[] = [];
+  private gusts: GustDefinition[] = [];
+  private gustiness: number = 0;
+  private gustInterval: number = DEFAULT_GUST_INTERVAL;
+  private nextRandomGustTime: number = 0;
+  private turbulence: TurbulenceIntensity = TurbulenceIntensity.NONE;
+  private turbulenceStates: Map<string, THREE.Vector3> = new Map();
+  private random: SeededRandom;
+  private time: number = 0;
+
+  constructor(seed: number = 1) {
+    this.random = new SeededRandom(seed);
+  }
+
+  /**
+   * Set the steady wind layers
+   */
+  public setLayers(layers: WindLayer[]): void {
+    this.layers = [...layers].sort((a, b) => a.altitude - b.altitude);
+  }
+
+  /**
+   * Get the steady wind layers
+   */
+  public getLayers(): WindLayer[] {
+    return this.layers.map((layer) => ({ ...layer }));
+  }
+
+  /**
+   * Add a discrete gust
+   */
+  public addGust(gust: GustDefinition): void {
+    this.gusts.push({ ...gust });
+  }
+
+  /**
+   * Enable random gusts along the steady wind
+   * @param peakSpeed Largest gust increment in m/s (0 disables)
+   * @param meanInterval Mean time between gusts in seconds
+   */
+  public setGustiness(
+    peakSpeed: number,
+    meanInterval: number = DEFAULT_GUST_INTERVAL,
+  ): void {
+    this.gustiness = Math.max(0, peakSpeed);
+    this.gustInterval = Math.max(0.1, meanInterval);
+    this.nextRandomGustTime = this.time + this.randomGustDelay();
+  }
+
+  /**
+   * Set the turbulence intensity
+   */
+  public setTurbulence(intensity: TurbulenceIntensity): void {
+    this.turbulence = intensity;
+    if (intensity === TurbulenceIntensity.NONE) {
+      this.turbulenceStates.clear();
+    }
+  }
+
+  /**
+   * Get the turbulence intensity
+   */
+  public getTurbulence(): TurbulenceIntensity {
+    return this.turbulence;
+  }
+
+  /**
+   * Reseed the random source used by gusts and turbulence
+   */
+  public setSeed(seed: number): void {
+    this.random.setSeed(seed);
+    this.turbulenceStates.clear();
+  }
+
+  /**
+   * Get the simulation time of the wind field
+   */
+  public getTime(): number {
+    return this.time;
+  }
+
+  /**
+   * Remove all wind, gusts and turbulence
+   */
+  public clear(): void {
+    this.layers = [];
+    this.gusts = [];
+    this.gustiness = 0;
+    this.turbulence = TurbulenceIntensity.NONE;
+    this.turbulenceStates.clear();
+    this.time = 0;
+  }
+
+  /**
+   * Forget the turbulence history of an aircraft
+   */
+  public removeAircraft(id: string): void {
+    this.turbulenceStates.delete(id);
+  }
+
+  /**
+   * Advance the wind field clock and schedule random gusts
+   */
+  public advance(deltaTime: number): void {
+    this.time += deltaTime;
+
+    // Schedule the next random gust
+    if (this.gustiness > 0 && this.time >= this.nextRandomGustTime) {
+      this.gusts.push({
+        startTime: this.time,
+        duration: this.random.range(2, 5),
+        amplitude: this.random.range(0.5, 1) * this.gustiness,
+      });
+      this.nextRandomGustTime = this.time + this.randomGustDelay();
+    }
+
+    // Drop gusts that have passed
+    this.gusts = this.gusts.filter((gust) =>
+      this.time <= gust.startTime + gust.duration
+    );
+  }
+
+  /**
+   * Get the steady wind velocity at an altitude
+   */
+  public getSteadyWind(altitude: number): THREE.Vector3 {
+    if (this.layers.length === 0) {
+      return new THREE.Vector3();
+    }
+
+    const first = this.layers[0];
+    const last = this.layers[this.layers.length - 1];
+    if (altitude <= first.altitude) {
+      return windVector(first.direction, first.speed);
+    }
+    if (altitude >= last.altitude) {
+      return windVector(last.direction, last.speed);
+    }
+
+    // Interpolate the velocity vectors between the surrounding layers
+    const upperIndex = this.layers.findIndex((layer) =>
+      layer.altitude > altitude
+    );
+    const lower = this.layers[upperIndex - 1];
+    const upper = this.layers[upperIndex];
+    const t = (altitude - lower.altitude) / (upper.altitude - lower.altitude);
+
+    return windVector(lower.direction, lower.speed).lerp(
+      windVector(upper.direction, upper.speed),
+      t,
+    );
+  }
+
+  /**
+   * Get the gust velocity at an altitude at the current time
+   */
+  public getGustVelocity(altitude: number): THREE.Vector3 {
+    const total = new THREE.Vector3();
+
+    for (const gust of this.gusts) {
+      const elapsed = this.time - gust.startTime;
+      if (elapsed < 0 || elapsed > gust.duration) {
+        continue;
+      }
+
+      // 1-cosine profile
+      const shape = 0.5 * (1 - Math.cos(2 * Math.PI * elapsed / gust.duration));
+
+      let horizontal: THREE.Vector3;
+      if (gust.direction !== undefined) {
+        horizontal = windVector(gust.direction, gust.amplitude);
+      } else {
+        // Random gusts strengthen the local steady wind
+        const steady = this.getSteadyWind(altitude);
+        horizontal = steady.lengthSq() > 0
+          ? steady.normalize().multiplyScalar(gust.amplitude)
+          : new THREE.Vector3();
+      }
+
+      total.addScaledVector(horizontal, shape);
+      total.y += (gust.verticalAmplitude || 0) * shape;
+    }
+
+    return total;
+  }
+
+  /**
+   * Sample the total wind acting on an aircraft
+   * Advances the aircraft's turbulence filters by the time step.
+   * @param id Aircraft identifier (each aircraft has its own turbulence)
+   * @param position World position
+   * @param orientation Body to world rotation
+   * @param airspeed True airspeed in m/s
+   * @param deltaTime Time step in seconds
+   */
+  public sampleWind(
+    id: string,
+    position: THREE.Vector3,
+    orientation: THREE.Quaternion,
+    airspeed: number,
+    deltaTime: number,
+  ): THREE.Vector3 {
+    const altitude = position.y;
+    const wind = this.getSteadyWind(altitude).add(
+      this.getGustVelocity(altitude),
+    );
+
+    if (this.turbulence !== TurbulenceIntensity.NONE) {
+      const bodyTurbulence = this.updateTurbulence(
+        id,
+        altitude,
+        airspeed,
+        deltaTime,
+      );
+      wind.add(bodyTurbulence.clone().applyQuaternion(orientation));
+    }
+
+    return wind;
+  }
+
+  /**
+   * Advance the Dryden filters of an aircraft and return the body-axis
+   * turbulence velocity
+   */
+  private updateTurbulence(
+    id: string,
+    altitude: number,
+    airspeed: number,
+    deltaTime: number,
+  ): THREE.Vector3 {
+    let state = this.turbulenceStates.get(id);
+    if (!state) {
+      state = new THREE.Vector3();
+      this.turbulenceStates.set(id, state);
+    }
+
+    const { sigma, scale } = this.getDrydenParameters(altitude);
+
+    // Keep a little decorrelation when hovering or parked
+    const speed = Math.max(airspeed, 1);
+
+    // First-order Gauss-Markov filter per axis, matching the Dryden
+    // correlation time L/V and RMS intensity
+    const filter = (value: number, rms: number, length: number): number => {
+      const decay = Math.exp(-speed * deltaTime / length);
+      return decay * value +
+        rms * Math.sqrt(1 - decay * decay) * this.random.gaussian();
+    };
+
+    // Body axes: u along the nose (+Z), v along the left wing (+X), w up (+Y)
+    state.set(
+      filter(state.x, sigma.x, scale.x),
+      filter(state.y, sigma.z, scale.z),
+      filter(state.z, sigma.y, scale.y),
+    );
+
+    return state;
+  }
+
+  /**
+   * Dryden intensities and scale lengths at an altitude
+   */
+  private getDrydenParameters(altitude: number): DrydenParameters {
+    const level = TURBULENCE_LEVELS[this.turbulence];
+    const height = Math.max(altitude, 3); // Avoid zero scale at the surface
+
+    // Low altitude model (MIL-F-8785C, formulas in feet)
+    const lowHeight = Math.min(height, LOW_ALTITUDE_LIMIT) * M_TO_FEET;
+    const factor = 0.177 + 0.000823 * lowHeight;
+    const sigmaW = 0.1 * level.windAt20ft;
+    const sigmaU = sigmaW / Math.pow(factor, 0.4);
+    const lowSigma = new THREE.Vector3(sigmaU, sigmaU, sigmaW);
+    const lowScaleU = lowHeight / Math.pow(factor, 1.2) / M_TO_FEET;
+    const lowScale = new THREE.Vector3(
+      lowScaleU,
+      lowScaleU,
+      lowHeight / M_TO_FEET,
+    );
+
+    if (height <= LOW_ALTITUDE_LIMIT) {
+      return { sigma: lowSigma, scale: lowScale };
+    }
+
+    // High altitude model
+    const highSigma = new THREE.Vector3().setScalar(level.highAltitudeSigma);
+    const highScale = new THREE.Vector3().setScalar(HIGH_ALTITUDE_SCALE);
+    if (height >= HIGH_ALTITUDE_LIMIT) {
+      return { sigma: highSigma, scale: highScale };
+    }
+
+    // Blend between the two models
+    const t = (height - LOW_ALTITUDE_LIMIT) /
+      (HIGH_ALTITUDE_LIMIT - LOW_ALTITUDE_LIMIT);
+    return {
+      sigma: lowSigma.lerp(highSigma, t),
+      scale: lowScale.lerp(highScale, t),
+    };
+  }
+
+  /**
+   * Random delay until the next gust (exponentially distributed)
+   */
+  private randomGustDelay(): number {
+    return -Math.log(1 - this.random.next()) * this.gustInterval;
+  }
+}
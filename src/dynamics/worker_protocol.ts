@@ -0,0 +1,309 @@
+/**
+ * Physics Worker Protocol Module
+ *
+ * This module defines the messages exchanged between the main thread and
+ * the physics worker, and the packed Float64Array layout the worker streams
+ * aircraft state back in. The buffer is either a SharedArrayBuffer, which
+ * both threads read and write in turn, or an ArrayBuffer transferred back
+ * and forth with every frame.
+ */
+
+import type * as THREE from "three";
+import {
+  type AircraftState,
+  ContactStatus,
+  type PhysicsSnapshot,
+  type TimeStepConfig,
+} from "./physics.ts";
+import type { FailureType } from "./damage.ts";
+import type { SnapshotValue } from "../core/snapshot.ts";
+
+// Header: simulated time and physics steps run for the frame
+export const HEADER_SIZE = 2;
+
+// Offsets of the fields of one aircraft slot
+const POSITION = 0;
+const VELOCITY = 3;
+const ORIENTATION = 6;
+const ANGULAR_VELOCITY = 10;
+const ACCELERATION = 14;
+const THROTTLE = 17;
+const FUEL = 18;
+const MASS = 19;
+const ENGINE_RPM = 20;
+const ENGINE_THRUST = 21;
+const ENGINE_AFTERBURNER = 22;
+const TRUE_AIRSPEED = 23;
+const INDICATED_AIRSPEED = 24;
+const MACH = 25;
+const ANGLE_OF_ATTACK = 26;
+const SIDESLIP = 27;
+const LIFT_COEFFICIENT = 28;
+const STALL_FLAGS = 29;
+const CONTACT_STATUS = 30;
+const HEIGHT_ABOVE_GROUND = 31;
+const GEAR_POSITION = 32;
+const GEAR_TARGET = 33;
+const WEIGHT_ON_WHEELS = 34;
+const DRAW_POSITION = 35;
+const DRAW_ORIENTATION = 38;
+const FLAP_POSITION = 42;
+const FLAP_OVERSPEED = 43;
+const SLAT_POSITION = 44;
+const ROTOR_SPEED = 45;
+const CARRIER_FLAGS = 46;
+const LOAD_FACTOR = 47;
+const DAMAGE_FLAGS = 48;
+
+// Number of values per aircraft slot
+export const SLOT_SIZE = 49;
+
+// Contact status codes, indexed by the value stored in the buffer
+const CONTACT_STATUSES = [
+  ContactStatus.AIRBORNE,
+  ContactStatus.GROUNDED,
+  ContactStatus.CRASHED,
+  ContactStatus.DITCHED,
+];
+
+// Bits of the stall flags value
+const STALL_WARNING_FLAG = 1;
+const STALLED_FLAG = 2;
+const SPINNING_FLAG = 4;
+
+// Bits of the carrier flags value
+const HOOK_DOWN_FLAG = 1;
+const LAUNCH_BAR_DOWN_FLAG = 2;
+
+// Bits of the damage flags value
+const OVERSTRESSED_FLAG = 1;
+const OVERSPEED_FLAG = 2;
+
+// Pose used to draw an aircraft between physics steps
+export interface DrawPose {
+  position: THREE.Vector3;
+  orientation: THREE.Quaternion;
+}
+
+// Messages from the main thread to the worker
+export type WorkerRequest =
+  | {
+    type: "init";
+    buffer: SharedArrayBuffer | null; // Null when transferring
+    timeStep?: Partial<TimeStepConfig>;
+  }
+  | {
+    type: "register";
+    id: string;
+    slot: number;
+    properties: SnapshotValue; // AircraftProperties
+    initialState: SnapshotValue; // Partial<AircraftState>
+  }
+  | { type: "remove"; id: string }
+  | {
+    type: "controls";
+    id: string;
+    controlInputs: Partial<AircraftState["controlInputs"]>;
+  }
+  | { type: "throttle"; id: string; throttle: number }
+  | { type: "gear"; id: string; down: boolean }
+  | { type: "hook"; id: string; down: boolean }
+  | { type: "launchBar"; id: string; down: boolean }
+  | { type: "releaseStore"; id: string; index: number }
+  | {
+    type: "hit";
+    id: string;
+    point: SnapshotValue; // THREE.Vector3
+    amount: number;
+  }
+  | { type: "failure"; id: string; failure: FailureType }
+  | { type: "repair"; id: string }
+  | {
+    type: "addPlatform";
+    id: string;
+    definition: SnapshotValue; // PlatformDefinition
+    state: SnapshotValue; // PlatformState
+  }
+  | { type: "removePlatform"; id: string }
+  | {
+    type: "advance";
+    frameTime: number; // s
+    frames: number; // Frames the time was gathered over, advanced in turn
+    buffer: ArrayBuffer | null; // Returned buffer when transferring
+  }
+  | {
+    type: "restore";
+    snapshot: PhysicsSnapshot;
+    slots: Record<string, number>; // Slot of each aircraft
+  };
+
+// Messages from the worker to the main thread
+export type WorkerResponse =
+  | {
+    type: "frame";
+    buffer: ArrayBuffer | null; // Null when shared
+  }
+  | { type: "snapshot"; snapshot: PhysicsSnapshot }
+  | { type: "event"; name: string; event: SnapshotValue };
+
+/**
+ * Allocate a state buffer for a number of aircraft
+ * @param shared Use a SharedArrayBuffer instead of a transferable one
+ */
+export function createStateBuffer(
+  capacity: number,
+  shared: boolean,
+): ArrayBuffer | SharedArrayBuffer {
+  const bytes = (HEADER_SIZE + capacity * SLOT_SIZE) *
+    Float64Array.BYTES_PER_ELEMENT;
+  return shared ? new SharedArrayBuffer(bytes) : new ArrayBuffer(bytes);
+}
+
+/**
+ * Number of aircraft slots in a state buffer
+ */
+export function getSlotCapacity(data: Float64Array): number {
+  return Math.floor((data.length - HEADER_SIZE) / SLOT_SIZE);
+}
+
+/**
+ * Write the state of an aircraft into its slot
+ */
+export function writeAircraftState(
+  data: Float64Array,
+  slot: number,
+  state: AircraftState,
+  draw: DrawPose,
+): void {
+  const base = HEADER_SIZE + slot * SLOT_SIZE;
+  state.position.toArray(data, base + POSITION);
+  state.velocity.toArray(data, base + VELOCITY);
+  state.orientation.toArray(data, base + ORIENTATION);
+  state.angularVelocity.toArray(data, base + ANGULAR_VELOCITY);
+  state.acceleration.toArray(data, base + ACCELERATION);
+  data[base + THROTTLE] = state.throttle;
+  data[base + FUEL] = state.fuel;
+  data[base + MASS] = state.mass.total;
+  data[base + ENGINE_RPM] = state.engine.rpm;
+  data[base + ENGINE_THRUST] = state.engine.thrust;
+  data[base + ENGINE_AFTERBURNER] = state.engine.afterburner ? 1 : 0;
+  data[base + TRUE_AIRSPEED] = state.airData.trueAirspeed;
+  data[base + INDICATED_AIRSPEED] = state.airData.indicatedAirspeed;
+  data[base + MACH] = state.airData.mach;
+
+  const aerodynamics = state.aerodynamics;
+  data[base + ANGLE_OF_ATTACK] = aerodynamics.angleOfAttack;
+  data[base + SIDESLIP] = aerodynamics.sideslip;
+  data[base + LIFT_COEFFICIENT] = aerodynamics.liftCoefficient;
+  data[base + STALL_FLAGS] =
+    (aerodynamics.stallWarning ? STALL_WARNING_FLAG : 0) |
+    (aerodynamics.stalled ? STALLED_FLAG : 0) |
+    (aerodynamics.spinning ? SPINNING_FLAG : 0);
+
+  data[base + CONTACT_STATUS] = CONTACT_STATUSES.indexOf(
+    state.groundContact.status,
+  );
+  data[base + HEIGHT_ABOVE_GROUND] = state.groundContact.heightAboveGround;
+  data[base + GEAR_POSITION] = state.gear?.position ?? 0;
+  data[base + GEAR_TARGET] = state.gear?.target ?? 0;
+  data[base + WEIGHT_ON_WHEELS] = state.gear?.weightOnWheels ? 1 : 0;
+  data[base + FLAP_POSITION] = state.highLift.flapPosition;
+  data[base + FLAP_OVERSPEED] = state.highLift.flapOverspeed ? 1 : 0;
+  data[base + SLAT_POSITION] = state.highLift.slatPosition;
+  data[base + ROTOR_SPEED] = state.rotor?.speed ?? 0;
+  data[base + CARRIER_FLAGS] =
+    (state.carrierGear?.hookDown ? HOOK_DOWN_FLAG : 0) |
+    (state.carrierGear?.launchBarDown ? LAUNCH_BAR_DOWN_FLAG : 0);
+  data[base + LOAD_FACTOR] = state.damage.loadFactor;
+  data[base + DAMAGE_FLAGS] =
+    (state.damage.overstressed ? OVERSTRESSED_FLAG : 0) |
+    (state.damage.overspeed ? OVERSPEED_FLAG : 0);
+
+  draw.position.toArray(data, base + DRAW_POSITION);
+  draw.orientation.toArray(data, base + DRAW_ORIENTATION);
+}
+
+/**
+ * Read the state of an aircraft from its slot, updating it in place
+ * Only the streamed fields are updated; the rest arrive with snapshots.
+ */
+export function readAircraftState(
+  data: Float64Array,
+  slot: number,
+  state: AircraftState,
+  draw: DrawPose,
+): void {
+  const base = HEADER_SIZE + slot * SLOT_SIZE;
+  state.position.fromArray(data, base + POSITION);
+  state.velocity.fromArray(data, base + VELOCITY);
+  state.orientation.fromArray(data, base + ORIENTATION);
+  state.rotation.setFromQuaternion(state.orientation, "YXZ");
+  state.angularVelocity.fromArray(data, base + ANGULAR_VELOCITY);
+  state.acceleration.fromArray(data, base + ACCELERATION);
+  state.throttle = data[base + THROTTLE];
+  state.fuel = data[base + FUEL];
+  state.mass.total = data[base + MASS];
+  state.engine.rpm = data[base + ENGINE_RPM];
+  state.engine.thrust = data[base + ENGINE_THRUST];
+  state.engine.afterburner = data[base + ENGINE_AFTERBURNER] === 1;
+  state.airData.trueAirspeed = data[base + TRUE_AIRSPEED];
+  state.airData.indicatedAirspeed = data[base + INDICATED_AIRSPEED];
+  state.airData.mach = data[base + MACH];
+
+  const aerodynamics = state.aerodynamics;
+  const flags = data[base + STALL_FLAGS];
+  aerodynamics.angleOfAttack = data[base + ANGLE_OF_ATTACK];
+  aerodynamics.sideslip = data[base + SIDESLIP];
+  aerodynamics.liftCoefficient = data[base + LIFT_COEFFICIENT];
+  aerodynamics.stallWarning = (flags & STALL_WARNING_FLAG) !== 0;
+  aerodynamics.stalled = (flags & STALLED_FLAG) !== 0;
+  aerodynamics.spinning = (flags & SPINNING_FLAG) !== 0;
+
+  state.groundContact.status = CONTACT_STATUSES[data[base + CONTACT_STATUS]];
+  state.groundContact.heightAboveGround = data[base + HEIGHT_ABOVE_GROUND];
+  if (state.gear) {
+    state.gear.position = data[base + GEAR_POSITION];
+    state.gear.target = data[base + GEAR_TARGET];
+    state.gear.weightOnWheels = data[base + WEIGHT_ON_WHEELS] === 1;
+  }
+  state.highLift.flapPosition = data[base + FLAP_POSITION];
+  state.highLift.flapOverspeed = data[base + FLAP_OVERSPEED] === 1;
+  state.highLift.slatPosition = data[base + SLAT_POSITION];
+  if (state.rotor) {
+    state.rotor.speed = data[base + ROTOR_SPEED];
+  }
+  if (state.carrierGear) {
+    const carrierFlags = data[base + CARRIER_FLAGS];
+    state.carrierGear.hookDown = (carrierFlags & HOOK_DOWN_FLAG) !== 0;
+    state.carrierGear.launchBarDown =
+      (carrierFlags & LAUNCH_BAR_DOWN_FLAG) !== 0;
+  }
+  const damageFlags = data[base + DAMAGE_FLAGS];
+  state.damage.loadFactor = data[base + LOAD_FACTOR];
+  state.damage.overstressed = (damageFlags & OVERSTRESSED_FLAG) !== 0;
+  state.damage.overspeed = (damageFlags & OVERSPEED_FLAG) !== 0;
+
+  draw.position.fromArray(data, base + DRAW_POSITION);
+  draw.orientation.fromArray(data, base + DRAW_ORIENTATION);
+}
+
+/**
+ * Write the frame header
+ */
+export function writeFrameHeader(
+  data: Float64Array,
+  time: number,
+  steps: number,
+): void {
+  data[0] = time;
+  data[1] = steps;
+}
+
+/**
+ * Read the frame header
+ */
+export function readFrameHeader(
+  data: Float64Array,
+): { time: number; steps: number } {
+  return { time: data[0], steps: data[1] };
+}
@@ -14,6 +14,8 @@ class Renderer {
   private scene: THREE.Scene;
   private camera: THREE.PerspectiveCamera;
   private controls: OrbitControls;
+  private aircraftModels: Map<string, THREE.Object3D> = new Map();
+  private projectiles: THREE.Points | null = null;
 
   constructor() {
     // Initialize scene
@@ -48,6 +50,9 @@ class Renderer {
 
     // Add basic lighting
     this.setupLighting();
+
+    // Add a reference ground grid
+    this.setupGround();
   }
 
   /**
@@ -72,6 +77,14 @@ class Renderer {
     this.scene.add(directionalLight);
   }
 
+  /**
+   * Set up a ground reference grid at sea level
+   */
+  private setupGround(): void {
+    const grid = new THREE.GridHelper(20000, 200, 0x335533, 0x446644);
+    this.scene.add(grid);
+  }
+
   /**
    * Handle window resize events
    */
@@ -95,6 +108,96 @@ class Renderer {
     this.scene.remove(object);
   }
 
+  /**
+   * Add a placeholder model for an aircraft
+   * The model faces +Z, matching the physics body frame
+   */
+  public addAircraftModel(id: string): THREE.Object3D {
+    const existing = this.aircraftModels.get(id);
+    if (existing) {
+      return existing;
+    }
+
+    const material = new THREE.MeshStandardMaterial({ color: 0xcccccc });
+    const model = new THREE.Group();
+
+    // Fuselage
+    const fuselage = new THREE.Mesh(
+      new THREE.BoxGeometry(1, 1, 8),
+      material,
+    );
+    model.add(fuselage);
+
+    // Wing
+    const wing = new THREE.Mesh(new THREE.BoxGeometry(10, 0.2, 1.5), material);
+    model.add(wing);
+
+    // Tail fin
+    const fin = new THREE.Mesh(new THREE.BoxGeometry(0.2, 1.5, 1), material);
+    fin.position.set(0, 1, -3.5);
+    model.add(fin);
+
+    this.aircraftModels.set(id, model);
+    this.scene.add(model);
+    return model;
+  }
+
+  /**
+   * Remove an aircraft model from the scene
+   */
+  public removeAircraftModel(id: string): boolean {
+    const model = this.aircraftModels.get(id);
+    if (!model) {
+      return false;
+    }
+
+    this.scene.remove(model);
+    return this.aircraftModels.delete(id);
+  }
+
+  /**
+   * Move an aircraft model to match its simulated position and attitude
+   */
+  public updateAircraftTransform(
+    id: string,
+    position: THREE.Vector3,
+    orientation: THREE.Quaternion,
+  ): void {
+    const model = this.aircraftModels.get(id);
+    if (model) {
+      model.position.copy(position);
+      model.quaternion.copy(orientation);
+    }
+  }
+
+  /**
+   * Draw the projectiles in flight as points
+   */
+  public updateProjectiles(positions: THREE.Vector3[]): void {
+    if (!this.projectiles) {
+      this.projectiles = new THREE.Points(
+        new THREE.BufferGeometry(),
+        new THREE.PointsMaterial({ color: 0xffaa00, size: 0.5 }),
+      );
+      this.scene.add(this.projectiles);
+    }
+
+    this.projectiles.geometry.setFromPoints(positions);
+  }
+
+  /**
+   * Keep the camera orbiting around a moving target
+   */
+  public followTarget(position: THREE.Vector3): void {
+    // Move the camera by the same offset as the target to keep the view
+    const offset = new THREE.Vector3().subVectors(
+      position,
+      this.controls.target,
+    );
+    this.camera.position.add(offset);
+    this.controls.target.copy(position);
+  }
+
   /**
    * Render the scene
    */
@@ -5,6 +5,24 @@
  * of the flight simulator, including control panels, HUD, and menus.
  */
 
+import { initializeEventBus } from "../core/events.ts";
+import { getClock } from "../core/clock.ts";
+import { AutopilotMode } from "../autopilot/controller.ts";
+import { ApproachPhase, type IlsDeviation } from "../autopilot/ils.ts";
+import { FailureType } from "../dynamics/damage.ts";
+
+// Short names of the failures shown on the HUD
+const FAILURE_LABELS: Record<FailureType, string> = {
+  [FailureType.ENGINE_FLAMEOUT]: "ENG FLAMEOUT",
+  [FailureType.AILERON_JAM]: "AIL JAM",
+  [FailureType.ELEVATOR_JAM]: "ELEV JAM",
+  [FailureType.RUDDER_JAM]: "RUD JAM",
+  [FailureType.STRUCTURAL_FAILURE]: "STRUCT FAIL",
+};
+
+// Metres per nautical mile, for distances to go
+const M_PER_NM = 1852;
+
 // Interface for UI element position and size
 interface UIElementRect {
   x: number;
@@ -329,6 +347,7 @@ class GUIManager {
   private hud: HUD;
   private menus: Map<string, Menu> = new Map();
   private activeMenu: string | null = null;
+  private stallWarning: boolean = false;
 
   constructor() {
     // Create HUD
@@ -338,9 +357,87 @@ class GUIManager {
     this.hud.addElement("speed", "SPEED: 0 kts", { x: 20, y: 20 });
     this.hud.addElement("altitude", "ALT: 0 ft", { x: 20, y: 40 });
     this.hud.addElement("heading", "HDG: 0°", { x: 20, y: 60 });
+    this.hud.addElement("mach", "M 0.00", { x: 20, y: 80 });
+    this.hud.addElement("stall", "", { x: 20, y: 100 });
+    this.hud.addElement("engine", "N1 0%", { x: 20, y: 120 });
+    this.hud.addElement("fuel", "FUEL 0 kg", { x: 20, y: 140 });
+    this.hud.addElement("flaps", "", { x: 20, y: 160 });
+    this.hud.addElement("config", "", { x: 20, y: 180 });
+    this.hud.addElement("weapon", "", { x: 20, y: 200 });
+    this.hud.addElement("carrier", "", { x: 20, y: 220 });
+    this.hud.addElement("damage", "", { x: 20, y: 240 });
+    this.hud.addElement("time", "", { x: 20, y: 260 });
+    this.hud.addElement("navigation", "", { x: 20, y: 280 });
+    this.hud.addElement("ils", "", { x: 20, y: 300 });
+    this.hud.addElement("message", "", { x: 20, y: 320 });
 
     // Create main menu
     this.createMainMenu();
+
+    this.subscribeToEvents();
+  }
+
+  /**
+   * React to simulation events with menus and HUD messages
+   */
+  private subscribeToEvents(): void {
+    const eventBus = initializeEventBus();
+
+    eventBus.on("pause", ({ paused }) => {
+      if (paused) {
+        this.showMainMenu();
+      } else {
+        this.hideMenu("main-menu");
+        this.hideMenu("options-menu");
+      }
+    });
+    eventBus.on("touchdown", ({ sinkRate }) => {
+      this.showMessage(`TOUCHDOWN ${sinkRate.toFixed(1)} m/s`);
+    });
+    eventBus.on("crash", ({ reason }) => {
+      this.showMessage(`CRASHED: ${reason}`);
+    });
+    eventBus.on("ditching", () => {
+      this.showMessage("DITCHED");
+    });
+    eventBus.on("gearChange", ({ down }) => {
+      this.showMessage(down ? "GEAR DOWN" : "GEAR UP");
+    });
+    eventBus.on("trap", ({ wire }) => {
+      this.showMessage(`TRAP WIRE ${wire + 1}`);
+    });
+    eventBus.on("catapultLaunch", ({ speed }) => {
+      this.showMessage(`CAT SHOT ${speed.toFixed(0)} m/s`);
+    });
+    eventBus.on("overstress", ({ overspeed }) => {
+      this.showMessage(overspeed ? "OVERSPEED" : "OVERSTRESS");
+    });
+    eventBus.on("failure", ({ failure }) => {
+      this.showMessage(FAILURE_LABELS[failure]);
+    });
+    eventBus.on("autopilotModeChange", ({ mode }) => {
+      this.showMessage(
+        mode === AutopilotMode.OFF ? "AP DISCONNECT" : `AP ${mode}`,
+      );
+    });
+    eventBus.on("approachCapture", ({ phase }) => {
+      this.showMessage(
+        phase === ApproachPhase.GLIDESLOPE ? "GS CAPTURED" : "LOC CAPTURED",
+      );
+    });
+    eventBus.on("weaponRelease", ({ store }) => {
+      this.showMessage(`${store.name} AWAY`);
+    });
+    eventBus.on("weaponHit", ({ weapon }) => {
+      this.showMessage(`${weapon} HIT`);
+    });
+  }
+
+  /**
+   * Show a status message below the instruments
+   */
+  public showMessage(message: string): void {
+    this.hud.updateElement("message", message);
   }
 
   /**
@@ -357,6 +454,7 @@ class GUIManager {
     menu.addItem("Start Flight", () => {
       console.log("Start flight");
       this.hideMenu("main-menu");
+      getClock()?.setPaused(false);
     });
 
     menu.addItem("Options", () => {
@@ -462,11 +560,207 @@ class GUIManager {
 
   /**
    * Update HUD information
+   * @param speed Indicated airspeed in knots
+   * @param altitude Altitude in feet
+   * @param heading Heading in degrees
+   * @param mach Mach number
    */
-  public updateHUD(speed: number, altitude: number, heading: number): void {
+  public updateHUD(
+    speed: number,
+    altitude: number,
+    heading: number,
+    mach: number = 0,
+  ): void {
     this.hud.updateElement("speed", `SPEED: ${Math.round(speed)} kts`);
     this.hud.updateElement("altitude", `ALT: ${Math.round(altitude)} ft`);
     this.hud.updateElement("heading", `HDG: ${Math.round(heading)}°`);
+    this.hud.updateElement("mach", `M ${mach.toFixed(2)}`);
+  }
+
+  /**
+   * Update the engine and fuel display
+   * @param rpm Engine speed as a fraction of maximum
+   * @param afterburner Whether the afterburner is lit
+   * @param fuel Fuel remaining in kg
+   */
+  public updateEngineDisplay(
+    rpm: number,
+    afterburner: boolean,
+    fuel: number,
+  ): void {
+    this.hud.updateElement(
+      "engine",
+      `N1 ${Math.round(rpm * 100)}%${afterburner ? " AB" : ""}`,
+    );
+    this.hud.updateElement("fuel", `FUEL ${Math.round(fuel)} kg`);
+  }
+
+  /**
+   * Update the flap position display
+   * @param position Flap position from 0.0 (up) to 1.0 (full)
+   * @param overspeed Whether the flaps are out above their placard speed
+   */
+  public updateFlapDisplay(position: number, overspeed: boolean): void {
+    this.hud.updateElement(
+      "flaps",
+      position > 0 || overspeed
+        ? `FLAPS ${Math.round(position * 100)}%${overspeed ? " OVSPD" : ""}`
+        : "",
+    );
+  }
+
+  /**
+   * Update the speed brake, spoiler and pitch trim display
+   * @param speedBrake Speed brake position (0.0 to 1.0)
+   * @param spoilers Spoiler position (0.0 to 1.0)
+   * @param pitchTrim Pitch trim (-1.0 to 1.0, nose up positive)
+   */
+  public updateConfigDisplay(
+    speedBrake: number,
+    spoilers: number,
+    pitchTrim: number,
+  ): void {
+    const items = [];
+    if (speedBrake > 0) {
+      items.push("SPD BRK");
+    }
+    if (spoilers > 0) {
+      items.push("SPOILERS");
+    }
+    if (pitchTrim !== 0) {
+      const percent = Math.round(pitchTrim * 100);
+      items.push(`TRIM ${percent > 0 ? "+" : ""}${percent}%`);
+    }
+    this.hud.updateElement("config", items.join(" "));
+  }
+
+  /**
+   * Update the selected weapon display
+   * @param weapon Name of the selected weapon, or null if there is none
+   * @param count Rounds or stores of it left
+   */
+  public updateWeaponDisplay(weapon: string | null, count: number): void {
+    this.hud.updateElement("weapon", weapon ? `${weapon} ${count}` : "");
+  }
+
+  /**
+   * Update the tailhook and launch bar display
+   * @param hookDown Whether the tailhook is down
+   * @param launchBarDown Whether the launch bar is down
+   */
+  public updateCarrierDisplay(hookDown: boolean, launchBarDown: boolean): void {
+    const items = [];
+    if (hookDown) {
+      items.push("HOOK");
+    }
+    if (launchBarDown) {
+      items.push("LAUNCH BAR");
+    }
+    this.hud.updateElement("carrier", items.join(" "));
+  }
+
+  /**
+   * Update the load factor, limit and failure display
+   * @param loadFactor Load factor in g
+   * @param overstressed Whether the load is beyond the limit load
+   * @param overspeed Whether the airspeed is beyond the never-exceed speed
+   * @param failures Active failures
+   */
+  public updateDamageDisplay(
+    loadFactor: number,
+    overstressed: boolean,
+    overspeed: boolean,
+    failures: FailureType[],
+  ): void {
+    const items = [`G ${loadFactor.toFixed(1)}`];
+    if (overstressed) {
+      items.push("OVER G");
+    }
+    if (overspeed) {
+      items.push("OVERSPEED");
+    }
+    items.push(...failures.map((failure) => FAILURE_LABELS[failure]));
+    this.hud.updateElement("damage", items.join(" "));
+  }
+
+  /**
+   * Update the flight plan display, blank without an active leg
+   * @param waypoint Name of the active waypoint
+   * @param distance Distance to go in metres
+   * @param timeToGo Time to go in seconds
+   */
+  public updateNavigationDisplay(
+    waypoint: string | null,
+    distance: number,
+    timeToGo: number,
+  ): void {
+    let text = "";
+    if (waypoint !== null) {
+      const nauticalMiles = (distance / M_PER_NM).toFixed(1);
+      const minutes = Math.floor(timeToGo / 60);
+      const seconds = String(Math.floor(timeToGo % 60)).padStart(2, "0");
+      const time = Number.isFinite(timeToGo)
+        ? `${minutes}:${seconds}`
+        : "--:--";
+      text = `${waypoint} ${nauticalMiles} NM ${time}`;
+    }
+    this.hud.updateElement("navigation", text);
+  }
+
+  /**
+   * Update the ILS display with the raw beam deviations, blank without an
+   * approach; a beam out of coverage shows dashes
+   * @param runway Name of the approach runway
+   * @param phase Phase of the approach
+   * @param deviation Deviations from the localizer and glideslope
+   */
+  public updateIlsDisplay(
+    runway: string | null,
+    phase: ApproachPhase | null,
+    deviation: IlsDeviation | null,
+  ): void {
+    let text = "";
+    if (runway !== null && phase !== null && deviation !== null) {
+      const localizer = deviation.localizerValid
+        ? deviation.localizer.toFixed(1)
+        : "---";
+      const glideslope = deviation.glideslopeValid
+        ? deviation.glideslope.toFixed(2)
+        : "---";
+      text = `ILS ${runway} ${phase} LOC ${localizer} GS ${glideslope}`;
+    }
+    this.hud.updateElement("ils", text);
+  }
+
+  /**
+   * Update the simulation time display, blank in real time
+   * @param rate Simulated seconds per real second
+   * @param paused Whether the simulation is paused
+   */
+  public updateTimeDisplay(rate: number, paused: boolean): void {
+    let text = "";
+    if (paused) {
+      text = "PAUSED";
+    } else if (rate !== 1) {
+      text = `TIME x${rate}`;
+    }
+    this.hud.updateElement("time", text);
+  }
+
+  /**
+   * Show or clear the stall warning
+   */
+  public setStallWarning(active: boolean): void {
+    if (active === this.stallWarning) {
+      return;
+    }
+    this.stallWarning = active;
+
+    const element = this.hud.getElement().querySelector<HTMLElement>("#stall");
+    if (element) {
+      element.innerHTML = active ? "STALL" : "";
+      element.style.color = "red";
+    }
   }
 
   /**
@@ -10,7 +10,14 @@ import {
   AutopilotMode,
   getAutopilotController,
 } from "../autopilot/controller.ts";
-import { getGUIManager } from "../gui/interface.ts";
+import { getClock } from "../core/clock.ts";
+import { getWeaponSystem } from "../weapons/weapons.ts";
+import {
+  createSimulationSnapshot,
+  parseSnapshot,
+  restoreSimulationSnapshot,
+  serializeSnapshot,
+} from "../core/snapshot.ts";
 
 // Key state interface
 interface KeyState {
@@ -97,10 +104,62 @@ const DEFAULT_MAPPINGS: InputMapping = {
     keys: ["g"],
     description: "Toggle landing gear",
   },
+  "hook_toggle": {
+    keys: ["l"],
+    description: "Lower or raise tailhook",
+  },
+  "launch_bar_toggle": {
+    keys: ["m"],
+    description: "Lower or raise launch bar",
+  },
   "brake": {
     keys: ["b"],
     description: "Apply brakes",
   },
+  "brake_left": {
+    keys: [","],
+    description: "Apply left wheel brake",
+  },
+  "brake_right": {
+    keys: ["."],
+    description: "Apply right wheel brake",
+  },
+  "speed_brake": {
+    keys: ["k"],
+    description: "Toggle speed brake",
+  },
+  "spoilers": {
+    keys: ["j"],
+    description: "Toggle spoilers",
+  },
+  "trim_pitch_up": {
+    keys: ["PageDown"],
+    description: "Trim nose up",
+  },
+  "trim_pitch_down": {
+    keys: ["PageUp"],
+    description: "Trim nose down",
+  },
+  "trim_roll_left": {
+    keys: ["u"],
+    description: "Trim roll left",
+  },
+  "trim_roll_right": {
+    keys: ["o"],
+    description: "Trim roll right",
+  },
+  "trim_yaw_left": {
+    keys: ["y"],
+    description: "Trim yaw left",
+  },
+  "trim_yaw_right": {
+    keys: ["i"],
+    description: "Trim yaw right",
+  },
+  "trim_reset": {
+    keys: ["Delete"],
+    description: "Reset trim",
+  },
 
   // View control
   "view_cockpit": {
@@ -144,7 +203,7 @@ const DEFAULT_MAPPINGS: InputMapping = {
 
   // Weapons
   "weapon_fire": {
-    keys: ["Space"],
+    keys: [" "], // Space bar
     description: "Fire selected weapon",
   },
   "weapon_next": {
@@ -152,17 +211,42 @@ const DEFAULT_MAPPINGS: InputMapping = {
     description: "Select next weapon",
   },
 
+  // Simulation time
+  "time_slower": {
+    keys: ["8"],
+    description: "Slower time",
+  },
+  "time_faster": {
+    keys: ["9"],
+    description: "Faster time",
+  },
+  "time_step": {
+    keys: ["0"],
+    description: "Single step while paused",
+  },
+
   // UI control
   "pause": {
     keys: ["Escape"],
     description: "Pause/Menu",
   },
+  "quick_save": {
+    keys: ["F5"],
+    description: "Quick save",
+  },
+  "quick_load": {
+    keys: ["F9"],
+    description: "Quick load",
+  },
   "screenshot": {
     keys: ["F12"],
     description: "Take screenshot",
   },
 };
 
+// Trim change per update while a trim key is held
+const TRIM_STEP = 0.002;
+
 // Main input handler class
 class InputHandler {
   private keyStates: Map<string, KeyState> = new Map();
@@ -171,7 +255,10 @@ class InputHandler {
   private aircraftId: string | null = null;
   private throttle: number = 0;
   private flaps: number = 0;
-  private isPaused: boolean = false;
+  private speedBrake: number = 0;
+  private spoilers: number = 0;
+  private trim = { pitch: 0, roll: 0, yaw: 0 };
+  private quickSave: string | null = null; // Snapshot JSON
 
   constructor() {
     // Initialize mouse state
@@ -381,21 +468,15 @@ class InputHandler {
    * Update input state and apply to aircraft
    */
   public update(): void {
-    if (this.isPaused) {
-      this.resetJustPressedStates();
-      return;
-    }
-
-    // Handle pause toggle
-    if (this.isActionJustPressed("pause")) {
-      this.togglePause();
-    }
+    // Pause, single step and time rate work while paused too
+    this.updateTimeControl();
 
     // Skip aircraft control if paused
-    if (!this.isPaused) {
+    if (!getClock()?.isPaused()) {
       this.updateAircraftControl();
       this.updateViewControl();
       this.updateAutopilotControl();
+      this.updateSaveControl();
     }
 
     // Reset "just" states for next frame
@@ -426,20 +507,25 @@ class InputHandler {
   }
 
   /**
-   * Toggle pause state
+   * Pause, step and change the rate of the simulation clock
    */
-  private togglePause(): void {
-    this.isPaused = !this.isPaused;
-
-    // Show/hide menu based on pause state
-    const guiManager = getGUIManager();
-    if (guiManager) {
-      if (this.isPaused) {
-        guiManager.showMainMenu();
-      } else {
-        guiManager.hideMenu("main-menu");
-        guiManager.hideMenu("options-menu");
-      }
+  private updateTimeControl(): void {
+    const clock = getClock();
+    if (!clock) {
+      return;
+    }
+
+    if (this.isActionJustPressed("pause")) {
+      clock.togglePause();
+    }
+    if (this.isActionJustPressed("time_step")) {
+      clock.step();
+    }
+    if (this.isActionJustPressed("time_faster")) {
+      clock.faster();
+    }
+    if (this.isActionJustPressed("time_slower")) {
+      clock.slower();
     }
   }
 
@@ -507,15 +593,91 @@ class InputHandler {
       this.flaps = Math.min(1, this.flaps + 0.33);
     }
 
+    // Speed brake and spoilers
+    if (this.isActionJustPressed("speed_brake")) {
+      this.speedBrake = this.speedBrake > 0 ? 0 : 1;
+    }
+    if (this.isActionJustPressed("spoilers")) {
+      this.spoilers = this.spoilers > 0 ? 0 : 1;
+    }
+
+    // Trim moves the neutral position of the controls
+    this.updateTrim();
+
     // Apply control inputs to aircraft
     physicsEngine.updateControlInputs(this.aircraftId, {
       aileron: aileronInput,
       elevator: elevatorInput,
       rudder: rudderInput,
       flaps: this.flaps,
+      speedBrake: this.speedBrake,
+      spoilers: this.spoilers,
+      pitchTrim: this.trim.pitch,
+      rollTrim: this.trim.roll,
+      yawTrim: this.trim.yaw,
     });
 
     physicsEngine.setThrottle(this.aircraftId, this.throttle);
+
+    // Landing gear
+    if (this.isActionJustPressed("gear_toggle")) {
+      physicsEngine.toggleGear(this.aircraftId);
+    }
+
+    // Tailhook and catapult launch bar
+    const carrierGear = physicsEngine.getAircraftState(this.aircraftId)
+      ?.carrierGear;
+    if (carrierGear && this.isActionJustPressed("hook_toggle")) {
+      physicsEngine.setHookDown(this.aircraftId, !carrierGear.hookDown);
+    }
+    if (carrierGear && this.isActionJustPressed("launch_bar_toggle")) {
+      physicsEngine.setLaunchBarDown(
+        this.aircraftId,
+        !carrierGear.launchBarDown,
+      );
+    }
+
+    // Weapons: guns fire while the trigger is held, stores once per pull
+    const weapons = getWeaponSystem();
+    weapons?.setTrigger(this.aircraftId, this.isActionPressed("weapon_fire"));
+    if (this.isActionJustPressed("weapon_next")) {
+      weapons?.selectNextWeapon(this.aircraftId);
+    }
+
+    // Wheel brakes, both together or one side for differential braking
+    const brakeBoth = this.isActionPressed("brake");
+    physicsEngine.setBrakes(
+      this.aircraftId,
+      brakeBoth || this.isActionPressed("brake_left") ? 1 : 0,
+      brakeBoth || this.isActionPressed("brake_right") ? 1 : 0,
+    );
+  }
+
+  /**
+   * Move the trim while trim keys are held
+   */
+  private updateTrim(): void {
+    const nudge = (value: number, increase: string, decrease: string) => {
+      if (this.isActionPressed(increase)) {
+        value += TRIM_STEP;
+      }
+      if (this.isActionPressed(decrease)) {
+        value -= TRIM_STEP;
+      }
+      return Math.max(-1, Math.min(1, value));
+    };
+
+    this.trim.pitch = nudge(
+      this.trim.pitch,
+      "trim_pitch_up",
+      "trim_pitch_down",
+    );
+    this.trim.roll = nudge(this.trim.roll, "trim_roll_right", "trim_roll_left");
+    this.trim.yaw = nudge(this.trim.yaw, "trim_yaw_right", "trim_yaw_left");
+
+    if (this.isActionJustPressed("trim_reset")) {
+      this.trim = { pitch: 0, roll: 0, yaw: 0 };
+    }
   }
 
   /**
@@ -584,6 +746,50 @@ class InputHandler {
     }
   }
 
+  /**
+   * Quick save and quick load the simulation
+   */
+  private updateSaveControl(): void {
+    const physicsEngine = getPhysicsEngine();
+    if (!physicsEngine) {
+      return;
+    }
+
+    if (this.isActionJustPressed("quick_save")) {
+      this.quickSave = serializeSnapshot(
+        createSimulationSnapshot(physicsEngine, getAutopilotController()),
+      );
+      console.log("Quick saved");
+    }
+
+    if (this.isActionJustPressed("quick_load") && this.quickSave) {
+      restoreSimulationSnapshot(
+        parseSnapshot(this.quickSave),
+        physicsEngine,
+        getAutopilotController(),
+      );
+
+      // Pick up the restored throttle, flaps, brakes and trim so input does
+      // not undo them
+      const state = this.aircraftId
+        ? physicsEngine.getAircraftState(this.aircraftId)
+        : null;
+      if (state) {
+        const controls = state.controlInputs;
+        this.throttle = state.throttle;
+        this.flaps = controls.flaps;
+        this.speedBrake = controls.speedBrake;
+        this.spoilers = controls.spoilers;
+        this.trim = {
+          pitch: controls.pitchTrim,
+          roll: controls.rollTrim,
+          yaw: controls.yawTrim,
+        };
+      }
+      console.log("Quick loaded");
+    }
+  }
+
   /**
    * Check if an action is currently pressed
    */
@@ -0,0 +1,187 @@
+/**
+ * Instructor Module
+ *
+ * This module lets an instructor fail systems of the aircraft being flown.
+ * A failure is scheduled to happen after a delay, once the aircraft is
+ * faster than an airspeed or higher than a height, or when all of these
+ * hold: an airspeed alone sets up an engine failure on the takeoff roll.
+ * Failures wait for their aircraft, so one can be scheduled before the
+ * aircraft spawns and survives the aircraft being replaced on a quick-load.
+ * Random failures pick a system and a moment within a time window from a
+ * seeded generator, so that a lesson can be flown again the same way.
+ */
+
+import { getPhysicsEngine } from "../dynamics/physics.ts";
+import { FailureType } from "../dynamics/damage.ts";
+import { SeededRandom } from "../dynamics/random.ts";
+
+// Seed of the random failures until another is set
+const DEFAULT_SEED = 1;
+
+// Failures picked at random unless others are given; a structural failure
+// ends the flight and is left to the instructor
+const RANDOM_FAILURES = [
+  FailureType.ENGINE_FLAMEOUT,
+  FailureType.AILERON_JAM,
+  FailureType.ELEVATOR_JAM,
+  FailureType.RUDDER_JAM,
+];
+
+// Conditions that set off a scheduled failure; all given ones must hold
+export interface FailureTrigger {
+  delay?: number; // s of simulated time after scheduling
+  airspeed?: number; // m/s indicated, at or above
+  height?: number; // m above the surface, at or above
+}
+
+// Failure waiting for its trigger
+export interface ScheduledFailure {
+  id: number;
+  aircraftId: string;
+  failure: FailureType;
+  trigger: FailureTrigger;
+  scheduledAt: number; // s of simulated time
+}
+
+// Random failure options
+export interface RandomFailureOptions {
+  window: number; // s of simulated time the failure happens within
+  failures?: FailureType[]; // Failures to pick from
+}
+
+// Main instructor class
+class Instructor {
+  private schedule: ScheduledFailure[] = [];
+  private nextId: number = 1;
+  private random: SeededRandom = new SeededRandom(DEFAULT_SEED);
+
+  /**
+   * Set the seed of the random failures
+   */
+  public setSeed(seed: number): void {
+    this.random.setSeed(seed);
+  }
+
+  /**
+   * Schedule a failure of an aircraft
+   * @returns Identifier of the scheduled failure, for cancelling it
+   */
+  public scheduleFailure(
+    aircraftId: string,
+    failure: FailureType,
+    trigger: FailureTrigger = {},
+  ): number {
+    const id = this.nextId++;
+    this.schedule.push({
+      id,
+      aircraftId,
+      failure,
+      trigger: { ...trigger },
+      scheduledAt: getPhysicsEngine()?.getSimulationTime() ?? 0,
+    });
+    return id;
+  }
+
+  /**
+   * Schedule a failure picked at random, at a random moment in a window
+   * @returns The scheduled failure, for the debrief
+   */
+  public scheduleRandomFailure(
+    aircraftId: string,
+    options: RandomFailureOptions,
+  ): ScheduledFailure {
+    const failures = options.failures ?? RANDOM_FAILURES;
+    if (failures.length === 0) {
+      throw new Error("No failures to pick from");
+    }
+
+    const failure = failures[Math.floor(this.random.next() * failures.length)];
+    const delay = this.random.range(0, options.window);
+    const id = this.scheduleFailure(aircraftId, failure, { delay });
+    return { ...this.schedule.find((entry) => entry.id === id)! };
+  }
+
+  /**
+   * Cancel a scheduled failure
+   */
+  public cancelFailure(id: number): boolean {
+    const index = this.schedule.findIndex((entry) => entry.id === id);
+    if (index === -1) {
+      return false;
+    }
+
+    this.schedule.splice(index, 1);
+    return true;
+  }
+
+  /**
+   * Get the failures still waiting for their trigger
+   * @param aircraftId Only those of one aircraft
+   */
+  public getScheduledFailures(aircraftId?: string): ScheduledFailure[] {
+    return this.schedule
+      .filter((entry) =>
+        aircraftId === undefined || entry.aircraftId === aircraftId
+      )
+      .map((entry) => ({ ...entry, trigger: { ...entry.trigger } }));
+  }
+
+  /**
+   * Cancel every scheduled failure
+   */
+  public clear(): void {
+    this.schedule = [];
+  }
+
+  /**
+   * Fail the systems whose triggers hold; failures of aircraft that are
+   * not flying keep waiting
+   */
+  public update(): void {
+    const physicsEngine = getPhysicsEngine();
+    if (!physicsEngine) {
+      return;
+    }
+
+    const time = physicsEngine.getSimulationTime();
+    this.schedule = this.schedule.filter((entry) => {
+      const state = physicsEngine.getAircraftState(entry.aircraftId);
+      if (!state) {
+        return true;
+      }
+
+      const { delay, airspeed, height } = entry.trigger;
+      const triggered = (delay === undefined ||
+        time - entry.scheduledAt >= delay) &&
+        (airspeed === undefined ||
+          state.airData.indicatedAirspeed >= airspeed) &&
+        (height === undefined ||
+          state.groundContact.heightAboveGround >= height);
+      if (triggered) {
+        physicsEngine.injectFailure(entry.aircraftId, entry.failure);
+      }
+      return !triggered;
+    });
+  }
+}
+
+// Singleton instance
+let instructorInstance: Instructor | null = null;
+
+/**
+ * Initialize the instructor
+ */
+export function initializeInstructor(): Instructor {
+  if (!instructorInstance) {
+    instructorInstance = new Instructor();
+    console.log("Instructor initialized");
+  }
+  return instructorInstance;
+}
+
+/**
+ * Get the instructor instance
+ */
+export function getInstructor(): Instructor | null {
+  return instructorInstance;
+}
@@ -5,17 +5,92 @@
  * It initializes the core modules and starts the application.
  */
 
-import { initializeGraphics } from "./graphics/renderer.ts";
-import { initializeDynamics } from "./dynamics/physics.ts";
-import { initializeGUI } from "./gui/interface.ts";
-import { initializeAutopilot } from "./autopilot/controller.ts";
-import { initializeInput } from "./input/handler.ts";
+import * as THREE from "three";
+import { getRenderer, initializeGraphics } from "./graphics/renderer.ts";
+import {
+  type AircraftProperties,
+  getAttitude,
+  getPhysicsEngine,
+  initializeDynamics,
+} from "./dynamics/physics.ts";
+import { initializeWorkerDynamics } from "./dynamics/physics_bridge.ts";
+import { createTricycleGear } from "./dynamics/gear.ts";
+import { createEngine } from "./dynamics/engine.ts";
+import { createStructuralLimits } from "./dynamics/damage.ts";
+import { getGUIManager, initializeGUI } from "./gui/interface.ts";
+import {
+  getAutopilotController,
+  initializeAutopilot,
+} from "./autopilot/controller.ts";
+import { getInputHandler, initializeInput } from "./input/handler.ts";
+import {
+  FramePhase,
+  getFrameLoop,
+  initializeFrameLoop,
+} from "./core/frame_loop.ts";
+import { initializeEventBus } from "./core/events.ts";
+import { getClock, initializeClock } from "./core/clock.ts";
+import { getAudioManager, initializeAudio } from "./audio/sounds.ts";
+import { getScoreKeeper, initializeScoring } from "./scoring/scoring.ts";
+import { getWeaponSystem, initializeWeapons } from "./weapons/weapons.ts";
+import { type Armament } from "./weapons/catalog.ts";
+import {
+  getInstructor,
+  initializeInstructor,
+} from "./instructor/instructor.ts";
+
+// Identifier of the aircraft flown by the local pilot
+const PLAYER_AIRCRAFT_ID = "player";
+
+// Longest frame time fed into the pipeline (seconds)
+const MAX_FRAME_TIME = 0.25;
+
+// Unit conversions
+const MS_TO_KNOTS = 1.94384;
+const M_TO_FEET = 3.28084;
+
+// Default aircraft flown until aircraft definitions are loaded
+const DEFAULT_AIRCRAFT_PROPERTIES: AircraftProperties = {
+  mass: 1000, // kg
+  wingspan: 10, // m
+  wingArea: 16, // m²
+  dragCoefficient: 0.03,
+  liftCoefficient: 0.5,
+  maxThrust: 4000, // N
+  engine: createEngine({
+    militaryThrust: 4000, // N
+    fuelFlowMilitary: 0.02, // kg/s
+  }),
+  fuelCapacity: 150, // kg
+  momentOfInertia: new THREE.Vector3(1500, 2500, 1000), // kg·m²
+  landingGear: createTricycleGear({
+    mass: 1000,
+    wheelbase: 2.5,
+    track: 2.5,
+    height: 1.2,
+  }),
+  structuralLimits: createStructuralLimits({
+    maxLoadFactor: 4.4, // g, utility category
+    neverExceedSpeed: 85, // m/s
+  }),
+};
+
+// Guns of the default aircraft
+const DEFAULT_ARMAMENT: Armament = {
+  hitRadius: 5, // m, half the wingspan
+  guns: {
+    positions: [new THREE.Vector3(0, 0, 2)], // m, in the nose
+    rounds: 200,
+    interval: 0.1, // s
+  },
+};
 
 /**
  * Main application class
  */
 class YSFlightWeb {
   private isRunning: boolean = false;
+  private lastFrameTime: number = 0;
 
   /**
    * Initialize the application
@@ -24,12 +99,31 @@ class YSFlightWeb {
     console.log("Initializing YSFLIGHT Web...");
 
     try {
-      // Initialize core modules
+      // Initialize core modules, starting with the event bus they publish on
+      initializeEventBus();
       await initializeGraphics();
-      await initializeDynamics();
+      const physicsEngine = await initializeDynamics();
+      if (new URLSearchParams(location.search).has("physicsWorker")) {
+        // Run the physics off the main thread
+        initializeWorkerDynamics();
+      }
       await initializeGUI();
       await initializeAutopilot();
       await initializeInput();
+      initializeAudio();
+      initializeScoring();
+      initializeWeapons();
+      initializeInstructor();
+      initializeFrameLoop();
+
+      // Single steps while paused advance one physics step
+      initializeClock().setStepTime(
+        1 / physicsEngine.getTimeStepConfig().stepRate,
+      );
+
+      // Set up the player aircraft and the frame pipeline
+      this.setupPlayerAircraft();
+      this.registerPipeline();
 
       console.log("Initialization complete.");
     } catch (error) {
@@ -38,6 +132,144 @@ class YSFlightWeb {
     }
   }
 
+  /**
+   * Register the player aircraft with every subsystem that drives it
+   */
+  private setupPlayerAircraft(): void {
+    getPhysicsEngine()?.registerAircraft(
+      PLAYER_AIRCRAFT_ID,
+      DEFAULT_AIRCRAFT_PROPERTIES,
+      {
+        position: new THREE.Vector3(0, 500, 0),
+        velocity: new THREE.Vector3(0, 0, 50),
+        throttle: 0.6,
+      },
+    );
+    getInputHandler()?.setAircraft(PLAYER_AIRCRAFT_ID);
+    getAutopilotController()?.setAircraft(PLAYER_AIRCRAFT_ID);
+    getScoreKeeper()?.setAircraft(PLAYER_AIRCRAFT_ID);
+    getWeaponSystem()?.addAircraft(PLAYER_AIRCRAFT_ID, DEFAULT_ARMAMENT);
+    getRenderer()?.addAircraftModel(PLAYER_AIRCRAFT_ID);
+  }
+
+  /**
+   * Register the core subsystems into the frame pipeline
+   */
+  private registerPipeline(): void {
+    const frameLoop = getFrameLoop();
+    if (!frameLoop) {
+      return;
+    }
+
+    frameLoop.registerHook(FramePhase.INPUT, "input", () => {
+      getInputHandler()?.update();
+    });
+
+    frameLoop.registerHook(FramePhase.AUTOPILOT, "autopilot", (deltaTime) => {
+      getAutopilotController()?.update(deltaTime);
+    });
+
+    frameLoop.registerHook(FramePhase.PHYSICS, "physics", (deltaTime) => {
+      getPhysicsEngine()?.advance(deltaTime);
+    });
+
+    // Fly the projectiles against the aircraft positions just simulated
+    frameLoop.registerHook(FramePhase.PHYSICS, "weapons", (deltaTime) => {
+      getWeaponSystem()?.update(deltaTime);
+    }, 1);
+
+    // Fail systems once their triggers hold after the physics steps
+    frameLoop.registerHook(FramePhase.PHYSICS, "instructor", () => {
+      getInstructor()?.update();
+    }, 2);
+
+    frameLoop.registerHook(FramePhase.SCENE_SYNC, "aircraft", () => {
+      // Draw between physics steps so motion stays smooth at any frame rate
+      const state = getPhysicsEngine()?.getInterpolatedState(
+        PLAYER_AIRCRAFT_ID,
+      );
+      const renderer = getRenderer();
+      if (!state || !renderer) {
+        return;
+      }
+
+      renderer.updateAircraftTransform(
+        PLAYER_AIRCRAFT_ID,
+        state.position,
+        state.orientation,
+      );
+      renderer.followTarget(state.position);
+      renderer.updateProjectiles(
+        getWeaponSystem()?.getProjectiles().map((projectile) =>
+          projectile.position
+        ) ?? [],
+      );
+    });
+
+    frameLoop.registerHook(FramePhase.HUD, "hud", () => {
+      const state = getPhysicsEngine()?.getAircraftState(PLAYER_AIRCRAFT_ID);
+      if (!state) {
+        return;
+      }
+
+      const attitude = getAttitude(state);
+      const heading = (attitude.heading * 180 / Math.PI + 360) % 360;
+      const gui = getGUIManager();
+      gui?.updateHUD(
+        state.airData.indicatedAirspeed * MS_TO_KNOTS,
+        state.position.y * M_TO_FEET,
+        heading,
+        state.airData.mach,
+      );
+      gui?.updateEngineDisplay(
+        state.engine.rpm,
+        state.engine.afterburner,
+        state.fuel,
+      );
+      gui?.updateFlapDisplay(
+        state.highLift.flapPosition,
+        state.highLift.flapOverspeed,
+      );
+      gui?.updateConfigDisplay(
+        state.controlInputs.speedBrake,
+        state.controlInputs.spoilers,
+        state.controlInputs.pitchTrim,
+      );
+      const weapon = getWeaponSystem()?.getSelectedWeapon(PLAYER_AIRCRAFT_ID);
+      gui?.updateWeaponDisplay(weapon?.name ?? null, weapon?.count ?? 0);
+      gui?.updateCarrierDisplay(
+        state.carrierGear?.hookDown ?? false,
+        state.carrierGear?.launchBarDown ?? false,
+      );
+      gui?.updateDamageDisplay(
+        state.damage.loadFactor,
+        state.damage.overstressed,
+        state.damage.overspeed,
+        state.damage.failures,
+      );
+      const navigation = getAutopilotController()?.getNavigationStatus();
+      gui?.updateNavigationDisplay(
+        navigation?.leg.to.name ?? null,
+        navigation?.distanceToGo ?? 0,
+        navigation?.timeToGo ?? 0,
+      );
+      const approach = getAutopilotController()?.getApproachStatus();
+      gui?.updateIlsDisplay(
+        approach?.runway ?? null,
+        approach?.phase ?? null,
+        approach?.deviation ?? null,
+      );
+      const clock = getClock();
+      gui?.updateTimeDisplay(clock?.getRate() ?? 1, clock?.isPaused() ?? false);
+      gui?.setStallWarning(state.aerodynamics.stallWarning);
+      getAudioManager()?.setStallWarning(state.aerodynamics.stallWarning);
+    });
+
+    frameLoop.registerHook(FramePhase.RENDER, "renderer", () => {
+      getRenderer()?.render();
+    });
+  }
+
   /**
    * Start the application
    */
@@ -49,6 +281,7 @@ class YSFlightWeb {
 
     console.log("Starting YSFLIGHT Web...");
     this.isRunning = true;
+    this.lastFrameTime = performance.now();
 
     // Start the main loop
     this.mainLoop();
@@ -78,7 +311,17 @@ class YSFlightWeb {
     // Request next frame
     requestAnimationFrame(() => this.mainLoop());
 
-    // Update logic will be implemented here
+    // Measure frame time, capped so a stalled tab does not jump ahead
+    const currentTime = performance.now();
+    const deltaTime = Math.min(
+      (currentTime - this.lastFrameTime) / 1000,
+      MAX_FRAME_TIME,
+    );
+    this.lastFrameTime = currentTime;
+
+    // Run input -> autopilot -> physics -> scene sync -> HUD -> render, the
+    // autopilot and physics once per substep of simulated time
+    getFrameLoop()?.runFrame(deltaTime, getClock()?.tick(deltaTime));
   }
 }
 
@@ -0,0 +1,168 @@
+/**
+ * Scoring Module
+ *
+ * This module keeps the score of a flight. It listens on the event bus and
+ * grades landings by sink rate, and counts crashes, ditchings, stalls,
+ * stores released and weapon hits by the scored aircraft.
+ */
+
+import { initializeEventBus } from "../core/events.ts";
+
+// Landing grades, from the softest touchdown down
+export enum LandingGrade {
+  GREASED = "GREASED",
+  GOOD = "GOOD",
+  FIRM = "FIRM",
+}
+
+// Sink rate limits and points for each landing grade
+const LANDING_GRADES: {
+  grade: LandingGrade;
+  sinkRate: number;
+  points: number;
+}[] = [
+  { grade: LandingGrade.GREASED, sinkRate: 1, points: 100 },
+  { grade: LandingGrade.GOOD, sinkRate: 2, points: 50 },
+  { grade: LandingGrade.FIRM, sinkRate: Infinity, points: 10 },
+];
+
+// Points for other events
+const CRASH_POINTS = -500;
+const DITCHING_POINTS = -300;
+const STALL_POINTS = -20;
+const HIT_POINTS = 50;
+
+// Score of the flight so far
+export interface ScoreSummary {
+  points: number;
+  landings: number;
+  lastLanding: LandingGrade | null;
+  crashes: number;
+  ditchings: number;
+  stalls: number;
+  storesReleased: number;
+  hits: number; // Weapon hits on other aircraft
+}
+
+// Main score keeper class
+class ScoreKeeper {
+  private aircraftId: string | null = null;
+  private summary: ScoreSummary = createEmptySummary();
+
+  constructor() {
+    this.subscribeToEvents();
+  }
+
+  /**
+   * Score events for simulation events
+   */
+  private subscribeToEvents(): void {
+    const eventBus = initializeEventBus();
+
+    eventBus.on("touchdown", ({ aircraftId, sinkRate }) => {
+      if (!this.isScored(aircraftId)) {
+        return;
+      }
+      const landing = LANDING_GRADES.find((entry) =>
+        sinkRate < entry.sinkRate
+      )!;
+      this.summary.landings++;
+      this.summary.lastLanding = landing.grade;
+      this.summary.points += landing.points;
+    });
+    eventBus.on("crash", ({ aircraftId }) => {
+      if (this.isScored(aircraftId)) {
+        this.summary.crashes++;
+        this.summary.points += CRASH_POINTS;
+      }
+    });
+    eventBus.on("ditching", ({ aircraftId }) => {
+      if (this.isScored(aircraftId)) {
+        this.summary.ditchings++;
+        this.summary.points += DITCHING_POINTS;
+      }
+    });
+    eventBus.on("stall", ({ aircraftId }) => {
+      if (this.isScored(aircraftId)) {
+        this.summary.stalls++;
+        this.summary.points += STALL_POINTS;
+      }
+    });
+    eventBus.on("weaponRelease", ({ aircraftId }) => {
+      if (this.isScored(aircraftId)) {
+        this.summary.storesReleased++;
+      }
+    });
+    eventBus.on("weaponHit", ({ shooterId }) => {
+      if (this.isScored(shooterId)) {
+        this.summary.hits++;
+        this.summary.points += HIT_POINTS;
+      }
+    });
+  }
+
+  /**
+   * Set the aircraft to score; all aircraft are scored if null
+   */
+  public setAircraft(id: string | null): void {
+    this.aircraftId = id;
+  }
+
+  /**
+   * Get the score so far
+   */
+  public getSummary(): ScoreSummary {
+    return { ...this.summary };
+  }
+
+  /**
+   * Start a new score
+   */
+  public reset(): void {
+    this.summary = createEmptySummary();
+  }
+
+  /**
+   * Whether events of an aircraft count towards the score
+   */
+  private isScored(aircraftId: string): boolean {
+    return this.aircraftId === null || this.aircraftId === aircraftId;
+  }
+}
+
+/**
+ * Create a score with nothing counted yet
+ */
+function createEmptySummary(): ScoreSummary {
+  return {
+    points: 0,
+    landings: 0,
+    lastLanding: null,
+    crashes: 0,
+    ditchings: 0,
+    stalls: 0,
+    storesReleased: 0,
+    hits: 0,
+  };
+}
+
+// Singleton instance
+let scoreKeeperInstance: ScoreKeeper | null = null;
+
+/**
+ * Initialize the scoring
+ */
+export function initializeScoring(): ScoreKeeper {
+  if (!scoreKeeperInstance) {
+    scoreKeeperInstance = new ScoreKeeper();
+    console.log("Scoring initialized");
+  }
+  return scoreKeeperInstance;
+}
+
+/**
+ * Get the score keeper instance
+ */
+export function getScoreKeeper(): ScoreKeeper | null {
+  return scoreKeeperInstance;
+}
@@ -0,0 +1,416 @@
+/**
+ * Autopilot Module Tests
+ *
+ * This file contains tests for the cascaded control loops of the autopilot,
+ * flight plans and ILS approaches.
+ */
+
+import {
+  assertApproxEquals,
+  assertEquals,
+  assertThrows,
+} from "./test_utils.ts";
+import { getAttitude, initializeDynamics } from "../dynamics/physics.ts";
+import { createEngine } from "../dynamics/engine.ts";
+import { AutopilotMode, initializeAutopilot } from "../autopilot/controller.ts";
+import {
+  FlightPlan,
+  getCrossTrackError,
+  getInterceptHeading,
+} from "../autopilot/flight_plan.ts";
+import {
+  ApproachPhase,
+  createRunway,
+  getIlsDeviation,
+} from "../autopilot/ils.ts";
+import { initializeEventBus } from "../core/events.ts";
+import * as THREE from "three";
+
+// Unit conversions
+const RAD_TO_DEG = 180 / Math.PI;
+const M_TO_FEET = 3.28084;
+
+/**
+ * Register a light aircraft cruising level at 500 m
+ */
+function registerCruiser(
+  id: string,
+  position: THREE.Vector3 = new THREE.Vector3(0, 500, 0),
+): void {
+  initializeDynamics().registerAircraft(id, {
+    mass: 1000,
+    wingspan: 10,
+    wingArea: 16,
+    dragCoefficient: 0.03,
+    liftCoefficient: 0.5,
+    maxThrust: 4000,
+    engine: createEngine({
+      militaryThrust: 4000,
+      fuelFlowMilitary: 0.02,
+    }),
+    fuelCapacity: 150,
+    momentOfInertia: new THREE.Vector3(1500, 2500, 1000),
+  }, {
+    position,
+    velocity: new THREE.Vector3(0, 0, 50),
+    throttle: 0.6,
+  });
+}
+
+/**
+ * Fly the autopilot and the physics together in fixed steps
+ * @returns The largest bank and pitch seen, in degrees
+ */
+function fly(
+  id: string,
+  seconds: number,
+  until: () => boolean = () => false,
+): { bank: number; pitch: number } {
+  const physicsEngine = initializeDynamics();
+  const autopilot = initializeAutopilot();
+  const state = physicsEngine.getAircraftState(id)!;
+  const peak = { bank: 0, pitch: 0 };
+  for (let i = 0; i < seconds * 120 && !until(); i++) {
+    autopilot.update(1 / 120);
+    physicsEngine.updateStep(1 / 120);
+    const attitude = getAttitude(state);
+    peak.bank = Math.max(peak.bank, Math.abs(attitude.bank * RAD_TO_DEG));
+    peak.pitch = Math.max(peak.pitch, Math.abs(attitude.pitch * RAD_TO_DEG));
+  }
+  return peak;
+}
+
+// Test suite for the autopilot
+const autopilotTests = [
+  {
+    name: "Heading hold turns within the bank limit",
+    fn: () => {
+      const physicsEngine = initializeDynamics();
+      const autopilot = initializeAutopilot();
+      registerCruiser("turn");
+      autopilot.setAircraft("turn");
+      autopilot.setMaxBankAngle(15);
+      autopilot.setTargetHeading(90);
+      autopilot.setMode(AutopilotMode.HEADING_HOLD);
+
+      // Heading grows turning left, so the left wing goes down
+      const start = fly("turn", 1 / 120);
+      const outputs = autopilot.getLoopOutputs();
+      assertEquals(outputs.commandedBank, -15, "Bank limited");
+      assertEquals(outputs.commandedRollRate! < 0, true, "Rolling left");
+      assertEquals(outputs.aileron! < 0, true);
+      assertEquals(outputs.elevator, null, "Pitch left to the pilot");
+
+      const peak = fly("turn", 60);
+      const state = physicsEngine.getAircraftState("turn")!;
+      const attitude = getAttitude(state);
+      assertEquals(Math.max(start.bank, peak.bank) < 16, true, "No roll-over");
+      assertEquals(
+        Math.abs(attitude.heading * RAD_TO_DEG - 90) < 1,
+        true,
+        "On the new heading",
+      );
+      assertEquals(Math.abs(attitude.bank * RAD_TO_DEG) < 1, true, "Level");
+      assertEquals(
+        Math.abs(state.aerodynamics.sideslip * RAD_TO_DEG) < 0.5,
+        true,
+        "Coordinated",
+      );
+
+      autopilot.setMode(AutopilotMode.OFF);
+      physicsEngine.removeAircraft("turn");
+    },
+  },
+  {
+    name: "Altitude hold climbs within the pitch limit",
+    fn: () => {
+      const physicsEngine = initializeDynamics();
+      const autopilot = initializeAutopilot();
+      registerCruiser("climb");
+      autopilot.setAircraft("climb");
+      autopilot.setMaxPitchAngle(5);
+      autopilot.setTargetAltitude(500 * M_TO_FEET + 300);
+      autopilot.setMode(AutopilotMode.ALTITUDE_HOLD);
+
+      fly("climb", 1 / 120);
+      const outputs = autopilot.getLoopOutputs();
+      assertEquals(outputs.commandedVerticalSpeed, 1500, "Climb limited");
+      assertEquals(outputs.commandedPitch, 5, "Pitch limited");
+      assertEquals(outputs.aileron, null, "Roll left to the pilot");
+
+      const peak = fly("climb", 90);
+      const state = physicsEngine.getAircraftState("climb")!;
+      assertEquals(peak.pitch < 6, true, "Within the pitch limit");
+      assertEquals(
+        Math.abs(state.position.y * M_TO_FEET - (500 * M_TO_FEET + 300)) < 30,
+        true,
+        "At the new altitude",
+      );
+
+      autopilot.setMode(AutopilotMode.OFF);
+      physicsEngine.removeAircraft("climb");
+    },
+  },
+  {
+    name: "Flight plans are edited and sent direct to a waypoint",
+    fn: () => {
+      const waypoint = (name: string, x: number, z: number) => ({
+        name,
+        position: new THREE.Vector3(x, 0, z),
+      });
+      const plan = new FlightPlan([
+        waypoint("A", 0, 1000),
+        waypoint("B", 1000, 1000),
+        waypoint("C", 1000, 2000),
+      ]);
+      assertEquals(plan.getActiveLeg(), null, "Starts where the aircraft is");
+
+      // Cross-track errors are positive left of the leg, where the
+      // intercept turns right
+      const from = new THREE.Vector3();
+      const to = new THREE.Vector3(0, 0, 1000);
+      assertEquals(
+        getCrossTrackError(from, to, new THREE.Vector3(50, 0, 0)),
+        50,
+      );
+      assertEquals(getInterceptHeading(0, 50, 50) > 300, true, "Turn right");
+      assertEquals(getInterceptHeading(0, -5000, 50), 45, "Steepest intercept");
+
+      // Sequencing starts the first leg, which is flown along
+      plan.sequence(new THREE.Vector3(0, 0, 0), 100);
+      const status = plan.getNavigationStatus(
+        new THREE.Vector3(0, 0, 500),
+        new THREE.Vector3(0, 0, 50),
+      )!;
+      assertEquals(status.leg.to.name, "A");
+      assertEquals(status.desiredTrack, 0);
+      assertEquals(status.distanceToGo, 500);
+      assertEquals(status.timeToGo, 10);
+      assertEquals(status.distanceToDestination, 2500);
+      assertEquals(status.timeToDestination, 50);
+
+      // A 90° turn onto the next leg starts a turn radius early
+      assertEquals(plan.sequence(new THREE.Vector3(0, 0, 850), 100), false);
+      assertEquals(plan.sequence(new THREE.Vector3(0, 0, 910), 100), true);
+      assertEquals(plan.getActiveLeg()!.to.name, "B");
+      assertEquals(plan.getActiveLeg()!.from.z, 1000, "From the last one");
+
+      // Inserting before the active waypoint keeps it active; inserting at
+      // it flies to the new one first
+      plan.insertWaypoint(0, waypoint("START", 0, 0));
+      assertEquals(plan.getActiveLeg()!.to.name, "B");
+      plan.insertWaypoint(plan.getActiveIndex(), waypoint("DOG", 500, 900));
+      assertEquals(plan.getActiveLeg()!.to.name, "DOG");
+      assertEquals(plan.deleteWaypoint(plan.getActiveIndex()).name, "DOG");
+      assertEquals(plan.getActiveLeg()!.to.name, "B", "Flies on");
+      plan.deleteWaypoint(0);
+      assertEquals(plan.getActiveLeg()!.to.name, "B");
+      assertThrows(() => plan.deleteWaypoint(5), undefined, "No waypoint");
+
+      // Direct-to flies from where the aircraft is
+      plan.directTo(2, new THREE.Vector3(200, 0, 900));
+      const direct = plan.getActiveLeg()!;
+      assertEquals(direct.to.name, "C");
+      assertEquals(direct.from.x, 200);
+
+      // Past the last waypoint the plan is complete
+      assertEquals(plan.sequence(new THREE.Vector3(1000, 0, 2100), 100), true);
+      assertEquals(plan.isComplete(), true);
+      assertEquals(plan.getActiveLeg(), null);
+    },
+  },
+  {
+    name: "Navigation flies a flight plan with its constraints",
+    fn: () => {
+      const physicsEngine = initializeDynamics();
+      const autopilot = initializeAutopilot();
+      registerCruiser("route", new THREE.Vector3(200, 500, 0));
+      autopilot.setAircraft("route");
+      autopilot.setMaxBankAngle(25);
+      autopilot.setTargetAltitude(500 * M_TO_FEET);
+      autopilot.setTargetSpeed(100);
+
+      // North, then a left turn east and a right turn north again
+      const plan = new FlightPlan([
+        { name: "A", position: new THREE.Vector3(0, 0, 3000) },
+        {
+          name: "B",
+          position: new THREE.Vector3(3000, 0, 3000),
+          altitude: 2000,
+        },
+        { name: "C", position: new THREE.Vector3(3000, 0, 6000), speed: 110 },
+      ]);
+      autopilot.setFlightPlan(plan);
+      autopilot.setMode(AutopilotMode.NAVIGATION);
+
+      fly("route", 1 / 120);
+      const start = autopilot.getNavigationStatus()!;
+      assertEquals(start.leg.to.name, "A");
+      assertEquals(start.leg.from.x, 200, "From where the plan started");
+
+      // The turn onto the next leg starts before the waypoint
+      const state = physicsEngine.getAircraftState("route")!;
+      fly("route", 60, () => plan.getActiveIndex() === 1);
+      assertEquals(state.position.z < 3000, true, "Turn anticipated");
+
+      // Established on the second leg at its altitude
+      fly("route", 40);
+      const status = autopilot.getNavigationStatus()!;
+      assertEquals(status.leg.to.name, "B");
+      assertEquals(Math.abs(status.crossTrackError) < 50, true, "On track");
+      assertApproxEquals(state.position.y * M_TO_FEET, 2000, 50);
+      assertApproxEquals(status.timeToGo, status.distanceToGo / 50, 10);
+
+      // The rest of the route, past the last waypoint
+      fly("route", 120, () => plan.isComplete());
+      assertEquals(plan.isComplete(), true);
+      assertEquals(Math.abs(state.position.x - 3000) < 50, true, "Over C");
+      assertEquals(autopilot.getNavigationStatus(), null);
+
+      // Quick save and load keeps the plan
+      const snapshot = autopilot.snapshot();
+      autopilot.setFlightPlan(null);
+      autopilot.restore(JSON.parse(JSON.stringify(snapshot)));
+      assertEquals(
+        autopilot.getFlightPlan()!.getWaypoints().map((w) => w.name).join(),
+        "A,B,C",
+      );
+      assertEquals(autopilot.getFlightPlan()!.isComplete(), true);
+
+      autopilot.setMode(AutopilotMode.OFF);
+      autopilot.setFlightPlan(null);
+      physicsEngine.removeAircraft("route");
+    },
+  },
+  {
+    name: "ILS deviations follow the beams of the runway",
+    fn: () => {
+      // Landing north from the origin, the localizer 2000 m up the runway
+      // and the glideslope aimed 300 m past the threshold
+      const runway = createRunway({
+        name: "36",
+        threshold: new THREE.Vector3(0, 10, 0),
+        course: 0,
+      });
+      assertEquals(runway.elevation, 10, "From the threshold");
+
+      // On both beams 3 km out
+      const slope = Math.tan(3 * Math.PI / 180);
+      const onPath = getIlsDeviation(
+        runway,
+        new THREE.Vector3(0, 10 + 3300 * slope, -3000),
+        3,
+      );
+      assertApproxEquals(onPath.localizer, 0, 1e-9);
+      assertApproxEquals(onPath.glideslope, 0, 1e-9);
+      assertEquals(onPath.localizerValid && onPath.glideslopeValid, true);
+      assertEquals(onPath.distance, 3300);
+
+      // Left of the centreline and high; headings grow to the left, so
+      // left of a northbound approach is +X
+      const off = getIlsDeviation(
+        runway,
+        new THREE.Vector3(500, 400, -3000),
+        3,
+      );
+      assertApproxEquals(off.localizer, Math.atan2(500, 5000) * RAD_TO_DEG);
+      assertEquals(off.lateralOffset, 500);
+      assertEquals(off.glideslope > 0, true, "Above");
+      assertApproxEquals(off.glidePathHeight, 10 + 3300 * slope);
+
+      // Outside the coverage the beams are flagged
+      const abeam = getIlsDeviation(
+        runway,
+        new THREE.Vector3(5000, 500, 0),
+        3,
+      );
+      assertEquals(abeam.localizerValid, false, "Beside the localizer");
+      assertEquals(abeam.glideslopeValid, false);
+      const far = getIlsDeviation(
+        runway,
+        new THREE.Vector3(0, 2000, -40000),
+        3,
+      );
+      assertEquals(far.localizerValid, false, "Out of range");
+    },
+  },
+  {
+    name: "Approach mode captures the localizer and then the glideslope",
+    fn: () => {
+      const physicsEngine = initializeDynamics();
+      const autopilot = initializeAutopilot();
+      const captures: ApproachPhase[] = [];
+      const unsubscribe = initializeEventBus().on(
+        "approachCapture",
+        ({ phase }) => captures.push(phase),
+      );
+
+      // Flying 30° left of the approach course, 1.5 km right of the
+      // centreline and below the glideslope
+      registerCruiser("ils", new THREE.Vector3(-1500, 305, -12000));
+      autopilot.setAircraft("ils");
+      autopilot.setMaxBankAngle(25);
+      autopilot.setTargetHeading(30);
+      autopilot.setTargetAltitude(1000);
+      autopilot.setTargetSpeed(100);
+      autopilot.setApproachRunway(
+        createRunway({
+          name: "36",
+          threshold: new THREE.Vector3(0, 0, 0),
+          course: 0,
+        }),
+      );
+      autopilot.setMode(AutopilotMode.APPROACH);
+
+      fly("ils", 1 / 120);
+      assertEquals(autopilot.getApproachStatus()!.phase, ApproachPhase.ARMED);
+      assertEquals(
+        autopilot.getApproachStatus()!.deviation.localizer < 0,
+        true,
+        "Right of the centreline",
+      );
+
+      // Tracking the localizer, level until the glideslope comes down
+      const state = physicsEngine.getAircraftState("ils")!;
+      fly(
+        "ils",
+        120,
+        () => autopilot.getApproachStatus()?.phase !== ApproachPhase.ARMED,
+      );
+      assertEquals(captures.join(), ApproachPhase.LOCALIZER);
+      fly("ils", 60);
+      assertEquals(
+        Math.abs(autopilot.getApproachStatus()!.deviation.localizer) < 0.2,
+        true,
+        "On the localizer",
+      );
+
+      // Down the glideslope to a mile out
+      fly(
+        "ils",
+        300,
+        () => autopilot.getApproachStatus()!.deviation.distance < 1852,
+      );
+      const status = autopilot.getApproachStatus()!;
+      assertEquals(captures.join(), "LOCALIZER,GLIDESLOPE");
+      assertEquals(status.phase, ApproachPhase.GLIDESLOPE);
+      assertEquals(Math.abs(status.deviation.localizer) < 0.2, true);
+      assertEquals(Math.abs(status.deviation.glideslope) < 0.2, true);
+      assertEquals(
+        Math.abs(state.position.y - status.deviation.glidePathHeight) < 10,
+        true,
+        "On the glide path",
+      );
+
+      unsubscribe();
+      autopilot.setMode(AutopilotMode.OFF);
+      autopilot.setApproachRunway(null);
+      physicsEngine.removeAircraft("ils");
+    },
+  },
+];
+
+// Run the tests using Deno's test framework
+for (const test of autopilotTests) {
+  Deno.test(test.name, test.fn);
+}
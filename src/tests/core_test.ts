@@ -0,0 +1,344 @@
+/**
+ * Core Module Tests
+ *
+ * This file contains tests for the frame loop and other core services.
+ */
+
+import { assertEquals, assertThrows } from "./test_utils.ts";
+import {
+  FramePhase,
+  getFrameLoop,
+  initializeFrameLoop,
+} from "../core/frame_loop.ts";
+import {
+  decodeSnapshotValue,
+  encodeSnapshotValue,
+  parseSnapshot,
+  SNAPSHOT_VERSION,
+} from "../core/snapshot.ts";
+import { initializeEventBus } from "../core/events.ts";
+import { initializeClock } from "../core/clock.ts";
+import { AutopilotMode } from "../autopilot/controller.ts";
+import * as THREE from "three";
+
+// Test suite for the core services
+const coreTests = [
+  {
+    name: "Frame loop initialization",
+    fn: () => {
+      const frameLoop = initializeFrameLoop();
+      assertEquals(
+        frameLoop === initializeFrameLoop(),
+        true,
+        "Should return the same instance",
+      );
+      assertEquals(
+        frameLoop === getFrameLoop(),
+        true,
+        "Getter should return the same instance",
+      );
+    },
+  },
+
+  {
+    name: "Frame loop runs phases in pipeline order",
+    fn: () => {
+      const frameLoop = initializeFrameLoop();
+      frameLoop.clear();
+
+      const calls: string[] = [];
+
+      // Register out of order to check that phase order wins
+      frameLoop.registerHook(FramePhase.RENDER, "render", () => {
+        calls.push("render");
+      });
+      frameLoop.registerHook(FramePhase.PHYSICS, "physics", () => {
+        calls.push("physics");
+      });
+      frameLoop.registerHook(FramePhase.HUD, "hud", () => {
+        calls.push("hud");
+      });
+      frameLoop.registerHook(FramePhase.INPUT, "input", () => {
+        calls.push("input");
+      });
+      frameLoop.registerHook(FramePhase.SCENE_SYNC, "sync", () => {
+        calls.push("sync");
+      });
+      frameLoop.registerHook(FramePhase.AUTOPILOT, "autopilot", () => {
+        calls.push("autopilot");
+      });
+
+      frameLoop.runFrame(1 / 60);
+
+      assertEquals(
+        calls.join(","),
+        "input,autopilot,physics,sync,hud,render",
+        "Phases should run in pipeline order",
+      );
+      assertEquals(frameLoop.getFrameCount(), 1, "One frame should have run");
+
+      frameLoop.clear();
+    },
+  },
+
+  {
+    name: "Frame loop hook priority and unregistration",
+    fn: () => {
+      const frameLoop = initializeFrameLoop();
+      frameLoop.clear();
+
+      const calls: string[] = [];
+      let receivedDelta = 0;
+
+      frameLoop.registerHook(FramePhase.PHYSICS, "late", () => {
+        calls.push("late");
+      }, 10);
+      const unregisterEarly = frameLoop.registerHook(
+        FramePhase.PHYSICS,
+        "early",
+        (deltaTime) => {
+          calls.push("early");
+          receivedDelta = deltaTime;
+        },
+        -10,
+      );
+
+      assertEquals(
+        frameLoop.getHookNames(FramePhase.PHYSICS).join(","),
+        "early,late",
+        "Lower priority values should run first",
+      );
+
+      frameLoop.runFrame(0.02);
+      assertEquals(receivedDelta, 0.02, "Hooks should receive the frame time");
+
+      unregisterEarly();
+      frameLoop.runFrame(0.02);
+
+      assertEquals(
+        calls.join(","),
+        "early,late,late",
+        "Unregistered hooks should not run",
+      );
+
+      frameLoop.clear();
+    },
+  },
+
+  {
+    name: "Frame loop isolates failing hooks",
+    fn: () => {
+      const frameLoop = initializeFrameLoop();
+      frameLoop.clear();
+
+      let rendered = false;
+      const originalError = console.error;
+      console.error = () => {};
+
+      try {
+        frameLoop.registerHook(FramePhase.PHYSICS, "broken", () => {
+          throw new Error("Broken subsystem");
+        });
+        frameLoop.registerHook(FramePhase.RENDER, "render", () => {
+          rendered = true;
+        });
+
+        frameLoop.runFrame(1 / 60);
+      } finally {
+        console.error = originalError;
+      }
+
+      assertEquals(rendered, true, "Later phases should still run");
+
+      frameLoop.clear();
+    },
+  },
+
+  {
+    name: "Frame loop runs the simulated phases once per substep",
+    fn: () => {
+      const frameLoop = initializeFrameLoop();
+      frameLoop.clear();
+
+      const calls: string[] = [];
+      for (const phase of Object.values(FramePhase)) {
+        frameLoop.registerHook(phase, phase, (deltaTime) => {
+          calls.push(`${phase}:${deltaTime}`);
+        });
+      }
+
+      frameLoop.runFrame(0.02, [0.01, 0.03]);
+      assertEquals(
+        calls.join(","),
+        "INPUT:0.02,AUTOPILOT:0.01,PHYSICS:0.01,AUTOPILOT:0.03," +
+          "PHYSICS:0.03,SCENE_SYNC:0.02,HUD:0.02,RENDER:0.02",
+        "Autopilot and physics take turns with simulated time",
+      );
+
+      calls.length = 0;
+      frameLoop.runFrame(0.02, []);
+      assertEquals(
+        calls.join(","),
+        "INPUT:0.02,SCENE_SYNC:0.02,HUD:0.02,RENDER:0.02",
+        "Nothing is simulated while paused",
+      );
+
+      frameLoop.clear();
+    },
+  },
+
+  {
+    name: "Simulation clock pauses, steps and compresses time",
+    fn: () => {
+      const clock = initializeClock();
+      clock.reset();
+      const events: string[] = [];
+      const eventBus = initializeEventBus();
+      const unsubscribePause = eventBus.on("pause", ({ paused }) => {
+        events.push(`pause:${paused}`);
+      });
+      const unsubscribeRate = eventBus.on("timeRateChange", ({ rate }) => {
+        events.push(`rate:${rate}`);
+      });
+
+      assertEquals(clock.tick(0.02).join(), "0.02", "Real time");
+      assertEquals(clock.step(), false, "Only a paused clock steps");
+
+      // Compressed frames split into substeps no longer than the frame
+      assertEquals(clock.faster(), 2);
+      assertEquals(clock.faster(), 4);
+      assertEquals(clock.tick(0.02).join(), "0.02,0.02,0.02,0.02");
+      clock.setRate(16);
+      assertEquals(clock.faster(), 16, "Fastest rate");
+      assertEquals(clock.tick(0.02).length, 16);
+
+      // Slow motion runs a single short substep
+      clock.setRate(0.5);
+      assertEquals(clock.slower(), 0.25);
+      assertEquals(clock.slower(), 0.25, "Slowest rate");
+      assertEquals(clock.tick(0.02).join(), "0.005");
+      assertThrows(
+        () => clock.setRate(3),
+        undefined,
+        "Unsupported time rate",
+      );
+
+      // Paused, nothing runs but the steps asked for
+      assertEquals(clock.togglePause(), true);
+      assertEquals(clock.tick(0.02).length, 0, "Paused");
+      clock.setStepTime(0.01);
+      assertEquals(clock.step(), true);
+      assertEquals(clock.step(), true);
+      assertEquals(clock.tick(0.02).join(), "0.01,0.01", "Single steps");
+      assertEquals(clock.tick(0.02).length, 0, "Steps are used up");
+      assertEquals(clock.togglePause(), false);
+
+      assertEquals(
+        events.join(),
+        "rate:2,rate:4,rate:16,rate:0.5,rate:0.25,pause:true,pause:false",
+      );
+
+      unsubscribePause();
+      unsubscribeRate();
+      clock.reset();
+      clock.setStepTime(1 / 120);
+    },
+  },
+
+  {
+    name: "Snapshot codec round-trips three.js objects through JSON",
+    fn: () => {
+      const original = {
+        position: new THREE.Vector3(1.5, -2, 1 / 3),
+        orientation: new THREE.Quaternion(0.1, 0.2, 0.3, 0.9).normalize(),
+        rotation: new THREE.Euler(0.1, 0.2, 0.3, "YXZ"),
+        inertia: new THREE.Matrix3().set(1, 2, 3, 4, 5, 6, 7, 8, 9),
+        tanks: [100, 0.1 + 0.2],
+        touchdown: null,
+        limit: Infinity,
+        label: "F-16",
+        skipped: undefined,
+      };
+
+      const text = JSON.stringify(encodeSnapshotValue(original));
+      const restored = decodeSnapshotValue<typeof original>(JSON.parse(text));
+
+      assertEquals(restored.position instanceof THREE.Vector3, true);
+      assertEquals(restored.position.equals(original.position), true);
+      assertEquals(restored.orientation.equals(original.orientation), true);
+      assertEquals(restored.rotation.equals(original.rotation), true);
+      assertEquals(restored.inertia.equals(original.inertia), true);
+      assertEquals(restored.tanks[1], 0.1 + 0.2, "Numbers should be exact");
+      assertEquals(restored.touchdown, null);
+      assertEquals(restored.limit, Infinity);
+      assertEquals(restored.label, "F-16");
+      assertEquals("skipped" in restored, false, "Undefined is dropped");
+      assertThrows(
+        () => decodeSnapshotValue({ $type: "Vector3", x: 1, y: "2", z: 3 }),
+        undefined,
+        "Snapshot Vector3 field y is not a number",
+      );
+
+      assertThrows(
+        () => parseSnapshot(JSON.stringify({ version: SNAPSHOT_VERSION + 1 })),
+        undefined,
+        "Unsupported snapshot version",
+      );
+    },
+  },
+
+  {
+    name: "Event bus delivers typed events to subscribers",
+    fn: () => {
+      const eventBus = initializeEventBus();
+      assertEquals(eventBus === initializeEventBus(), true, "Singleton");
+
+      const paused: boolean[] = [];
+      const modes: string[] = [];
+      const unsubscribePause = eventBus.on("pause", (event) => {
+        paused.push(event.paused);
+      });
+      const unsubscribeMode = eventBus.on("autopilotModeChange", (event) => {
+        modes.push(`${event.previous}->${event.mode}`);
+      });
+
+      eventBus.emit("pause", { paused: true });
+      eventBus.emit("autopilotModeChange", {
+        aircraftId: "player",
+        previous: AutopilotMode.OFF,
+        mode: AutopilotMode.HEADING_HOLD,
+      });
+      unsubscribePause();
+      eventBus.emit("pause", { paused: false });
+
+      assertEquals(paused.join(","), "true", "Unsubscribed after one event");
+      assertEquals(modes.join(","), "OFF->HEADING_HOLD");
+      assertEquals(eventBus.getListenerCount("pause"), 0);
+
+      // A failing listener does not stop the others
+      const originalError = console.error;
+      console.error = () => {};
+      const unsubscribeBroken = eventBus.on("autopilotModeChange", () => {
+        throw new Error("Broken subscriber");
+      });
+      try {
+        eventBus.emit("autopilotModeChange", {
+          aircraftId: null,
+          previous: AutopilotMode.HEADING_HOLD,
+          mode: AutopilotMode.OFF,
+        });
+      } finally {
+        console.error = originalError;
+      }
+      assertEquals(modes.length, 2, "Other listeners still run");
+
+      unsubscribeBroken();
+      unsubscribeMode();
+    },
+  },
+];
+
+// Run the tests using Deno's test framework
+for (const test of coreTests) {
+  Deno.test(test.name, test.fn);
+}
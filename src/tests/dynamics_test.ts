@@ -4,10 +4,170 @@
  * This file contains tests for the physics simulation module.
  */
 
-import { assertEquals } from "./test_utils.ts";
-import { getPhysicsEngine, initializeDynamics } from "../dynamics/physics.ts";
+import {
+  assertApproxEquals,
+  assertDefined,
+  assertEquals,
+  assertThrows,
+} from "./test_utils.ts";
+import {
+  type AircraftState,
+  ContactStatus,
+  FlightModel,
+  getAttitude,
+  getPhysicsEngine,
+  initializeDynamics,
+  PhysicsEngine,
+} from "../dynamics/physics.ts";
+import {
+  PhysicsWorkerBridge,
+  type WorkerPort,
+} from "../dynamics/physics_bridge.ts";
+import { createWorkerHandler } from "../dynamics/physics_worker.ts";
+import {
+  AdaptiveIntegrator,
+  ExplicitEulerIntegrator,
+  type Integrator,
+  type RigidBodyState,
+  RungeKutta4Integrator,
+  SemiImplicitEulerIntegrator,
+} from "../dynamics/integrator.ts";
+import {
+  getAtmosphere,
+  getDensityAltitude,
+  SEA_LEVEL_DENSITY,
+  STANDARD_CONDITIONS,
+} from "../dynamics/atmosphere.ts";
+import { TurbulenceIntensity, WindField } from "../dynamics/wind.ts";
+import { createTricycleGear } from "../dynamics/gear.ts";
+import {
+  createEngine,
+  createEngineState,
+  updateEngine,
+} from "../dynamics/engine.ts";
+import {
+  createLiftCurve,
+  getDragCoefficient,
+  getGroundEffect,
+  getLiftCoefficient,
+  getMaxLiftCoefficient,
+} from "../dynamics/aerodynamics.ts";
+import {
+  createFlaps,
+  createHighLiftState,
+  createSlats,
+  getFlapDetent,
+  getHighLiftCurve,
+  updateHighLift,
+} from "../dynamics/high_lift.ts";
+import { withLoadout } from "../dynamics/mass.ts";
+import { createRotor, getRotorThrust } from "../dynamics/rotorcraft.ts";
+import { createCarrierDeck, MovingPlatform } from "../dynamics/carrier.ts";
+import {
+  AircraftComponent,
+  createDamageState,
+  createStructuralLimits,
+  FailureType,
+  getHitComponent,
+  getLoadFactor,
+  updateStructuralDamage,
+} from "../dynamics/damage.ts";
+import {
+  type ImpactEvent,
+  initializeEventBus,
+  type SimulationEvents,
+} from "../core/events.ts";
+import {
+  parseAircraftDat,
+  parseDatValue,
+} from "../dynamics/aircraft_loader.ts";
+import {
+  FlatSurfaceProvider,
+  HeightfieldSurfaceProvider,
+  SurfaceType,
+} from "../dynamics/terrain.ts";
 import * as THREE from "three";
 
+// Fighter definition in YSFLIGHT DAT format
+const SAMPLE_DAT = `REM Sample fighter
+IDENTIFY "F-16C_FIGHTINGFALCON"
+CATEGORY FIGHTER
+AFTBURNR TRUE
+THRAFTBN 13.0t
+THRMILIT 7.7t      # Military thrust
+WEIGHCLN 8.6t
+WEIGHFUL 3.2t
+WEIGHLOD 5.4t
+FUELABRN 0.3kg
+FUELMILI 0.1kg
+WINGAREA 27.87m^2
+CRITAOAP 25deg
+REFVCRUS 0.9MACH
+REFACRUS 20000ft
+REFTCRUS 0.75
+REFVLAND 140kt
+LEFTGEAR -1.2m -1.6m -0.5m
+RIGHGEAR 1.2m -1.6m -0.5m
+WHELGEAR 0.0m -1.6m 3.5m
+HRDPOINT -3.0m -0.3m 0.0m AIM9 AIM120
+MACHNGUN 0.8m 0.5m 4.0m
+INITIGUN 500
+INITIAAM 4
+INITFUEL 75%
+COCKPITP 0m 1m 3m
+FLAPERON TRUE
+CLBYFLAP 0.6
+CDBYFLAP 0.08
+WINGAREA lots
+`;
+
+/**
+ * Create the light aircraft used throughout the dynamics tests
+ */
+function createTestProperties() {
+  return {
+    mass: 1000,
+    wingspan: 10,
+    wingArea: 20,
+    dragCoefficient: 0.03,
+    liftCoefficient: 0.5,
+    maxThrust: 20000,
+    momentOfInertia: new THREE.Vector3(1000, 2000, 1500),
+  };
+}
+
+/**
+ * Create the test aircraft with a tricycle landing gear, no wings and no
+ * engine thrust
+ */
+function createGearProperties() {
+  return {
+    ...createTestProperties(),
+    wingArea: 0,
+    maxThrust: 0,
+    landingGear: createTricycleGear({
+      mass: 1000,
+      wheelbase: 2.5,
+      track: 2.5,
+      height: 1.2,
+    }),
+  };
+}
+
+/**
+ * Create a worker port that runs the physics worker on this thread
+ */
+function createLocalWorkerPort(): WorkerPort {
+  const port: WorkerPort = {
+    postMessage: (request) => handle(request),
+    onmessage: null,
+  };
+  const handle = createWorkerHandler((response) => {
+    port.onmessage?.(new MessageEvent("message", { data: response }));
+  });
+  return port;
+}
+
 // Test suite for the physics engine
 const dynamicsTests = [
   {
@@ -246,6 +406,2117 @@ const dynamicsTests = [
       physicsEngine.removeAircraft(testAircraftId);
     },
   },
+
+  {
+    name: "Fixed time step accumulates frame time",
+    fn: () => {
+      const physicsEngine = initializeDynamics();
+      physicsEngine.configureTimeStep({
+        stepRate: 120,
+        maxSubSteps: 8,
+        maxFrameTime: 0.25,
+      });
+
+      const testAircraftId = "test-aircraft";
+      physicsEngine.registerAircraft(testAircraftId, createTestProperties(), {
+        position: new THREE.Vector3(0, 1000, 0),
+        velocity: new THREE.Vector3(0, 0, 50),
+      });
+
+      // A 60 Hz frame runs two 120 Hz steps
+      assertEquals(physicsEngine.advance(1 / 60), 2, "Should run two steps");
+
+      // Half a step is carried over and used for interpolation
+      assertEquals(physicsEngine.advance(1 / 240), 0, "Should run no step");
+      assertApproxEquals(
+        physicsEngine.getInterpolationAlpha(),
+        0.5,
+        1e-6,
+        "Interpolation should be halfway between steps",
+      );
+
+      // A long pause is clamped and capped at the maximum step count
+      assertEquals(
+        physicsEngine.advance(5),
+        8,
+        "Long frames should be capped at maxSubSteps",
+      );
+      assertEquals(
+        physicsEngine.getInterpolationAlpha() < 1,
+        true,
+        "Dropped time should not accumulate",
+      );
+
+      physicsEngine.removeAircraft(testAircraftId);
+      physicsEngine.configureTimeStep({ stepRate: 120 });
+    },
+  },
+
+  {
+    name: "Interpolated state lies between physics steps",
+    fn: () => {
+      const physicsEngine = initializeDynamics();
+      physicsEngine.configureTimeStep({ stepRate: 100 });
+
+      const testAircraftId = "test-aircraft";
+      physicsEngine.registerAircraft(testAircraftId, createTestProperties(), {
+        position: new THREE.Vector3(0, 1000, 0),
+        velocity: new THREE.Vector3(0, 0, 50),
+      });
+
+      physicsEngine.advance(0.015); // One step plus half a step
+      const state = physicsEngine.getAircraftState(testAircraftId);
+      const interpolated = physicsEngine.getInterpolatedState(testAircraftId);
+      assertDefined(state);
+      assertDefined(interpolated);
+
+      // Previous step started at z = 0; the current step ended near z = 0.5
+      assertApproxEquals(
+        interpolated.position.z,
+        state.position.z / 2,
+        1e-6,
+        "Position should be interpolated halfway",
+      );
+      assertEquals(
+        interpolated.position !== state.position,
+        true,
+        "Interpolated state should not alias the live state",
+      );
+
+      physicsEngine.removeAircraft(testAircraftId);
+      physicsEngine.configureTimeStep({ stepRate: 120 });
+    },
+  },
+
+  {
+    name: "Fixed time step is independent of frame rate",
+    fn: () => {
+      const physicsEngine = initializeDynamics();
+      physicsEngine.configureTimeStep({ stepRate: 120 });
+
+      const testAircraftId = "test-aircraft";
+      const runWithFrames = (frameTime: number, frames: number) => {
+        physicsEngine.configureTimeStep({});
+        physicsEngine.registerAircraft(
+          testAircraftId,
+          createTestProperties(),
+          {
+            position: new THREE.Vector3(0, 1000, 0),
+            velocity: new THREE.Vector3(0, 0, 50),
+            throttle: 0.5,
+          },
+        );
+        for (let i = 0; i < frames; i++) {
+          physicsEngine.advance(frameTime);
+        }
+        const position = physicsEngine.getAircraftState(testAircraftId)!
+          .position.clone();
+        physicsEngine.removeAircraft(testAircraftId);
+        return position;
+      };
+
+      // One second at 30 fps and at 120 fps
+      const slow = runWithFrames(1 / 30 + 1e-9, 30);
+      const fast = runWithFrames(1 / 120 + 1e-9, 120);
+
+      assertEquals(
+        slow.equals(fast),
+        true,
+        "Both frame rates should give identical results",
+      );
+    },
+  },
+
+  {
+    name: "Quaternion attitude rolls cleanly at vertical pitch",
+    fn: () => {
+      const physicsEngine = initializeDynamics();
+
+      // No wing area, so only gravity acts
+      const testAircraftId = "test-aircraft";
+      physicsEngine.registerAircraft(testAircraftId, {
+        ...createTestProperties(),
+        wingArea: 0,
+      }, {
+        position: new THREE.Vector3(0, 1000, 0),
+        rotation: new THREE.Euler(-Math.PI / 2, 0, 0, "YXZ"), // Nose straight up
+        angularVelocity: new THREE.Vector3(0, 0, Math.PI / 2), // Roll right
+      });
+
+      for (let i = 0; i < 60; i++) {
+        physicsEngine.updateStep(1 / 60);
+      }
+
+      const state = physicsEngine.getAircraftState(testAircraftId);
+      assertDefined(state);
+
+      // Rolling about the nose must keep the nose pointing up
+      const forward = new THREE.Vector3(0, 0, 1).applyQuaternion(
+        state.orientation,
+      );
+      assertApproxEquals(forward.y, 1, 1e-9, "Nose should still point up");
+      assertApproxEquals(
+        state.orientation.length(),
+        1,
+        1e-9,
+        "Orientation should stay normalized",
+      );
+
+      // A quarter turn of roll moves the wings from horizontal to vertical
+      const left = new THREE.Vector3(1, 0, 0).applyQuaternion(
+        state.orientation,
+      );
+      assertApproxEquals(
+        Math.abs(left.z),
+        1,
+        1e-6,
+        "Wings should have rolled a quarter turn",
+      );
+
+      physicsEngine.removeAircraft(testAircraftId);
+    },
+  },
+
+  {
+    name: "Torque-free rotation conserves angular momentum",
+    fn: () => {
+      const physicsEngine = initializeDynamics();
+
+      // Full inertia tensor with products of inertia
+      const testAircraftId = "test-aircraft";
+      physicsEngine.registerAircraft(testAircraftId, {
+        ...createTestProperties(),
+        wingArea: 0,
+        productsOfInertia: new THREE.Vector3(50, 120, 30),
+      }, {
+        position: new THREE.Vector3(0, 1000, 0),
+        angularVelocity: new THREE.Vector3(0.3, 0.2, 1.0),
+      });
+
+      const state = physicsEngine.getAircraftState(testAircraftId);
+      assertDefined(state);
+
+      const inertia = new THREE.Matrix3().set(
+        1000,
+        -50,
+        -120,
+        -50,
+        2000,
+        -30,
+        -120,
+        -30,
+        1500,
+      );
+      const worldMomentum = () =>
+        state.angularVelocity.clone().applyMatrix3(inertia).applyQuaternion(
+          state.orientation,
+        );
+
+      const initialMomentum = worldMomentum();
+      for (let i = 0; i < 2000; i++) {
+        physicsEngine.updateStep(1 / 1000);
+      }
+      const finalMomentum = worldMomentum();
+
+      assertApproxEquals(
+        finalMomentum.distanceTo(initialMomentum) / initialMomentum.length(),
+        0,
+        0.01,
+        "World angular momentum should be conserved",
+      );
+
+      physicsEngine.removeAircraft(testAircraftId);
+    },
+  },
+
+  {
+    name: "Attitude angles are derived from the orientation",
+    fn: () => {
+      const physicsEngine = initializeDynamics();
+
+      const testAircraftId = "test-aircraft";
+      const orientation = new THREE.Quaternion().setFromEuler(
+        new THREE.Euler(-0.3, 1.2, 0.4, "YXZ"),
+      );
+      physicsEngine.registerAircraft(
+        testAircraftId,
+        createTestProperties(),
+        { orientation },
+      );
+
+      const state = physicsEngine.getAircraftState(testAircraftId);
+      assertDefined(state);
+
+      const attitude = getAttitude(state);
+      assertApproxEquals(attitude.heading, 1.2, 1e-9, "Heading should match");
+      assertApproxEquals(
+        attitude.pitch,
+        0.3,
+        1e-9,
+        "Nose-up pitch is positive",
+      );
+      assertApproxEquals(attitude.bank, 0.4, 1e-9, "Right bank is positive");
+      assertApproxEquals(
+        state.rotation.y,
+        1.2,
+        1e-9,
+        "Euler rotation should follow the orientation",
+      );
+
+      physicsEngine.removeAircraft(testAircraftId);
+    },
+  },
+
+  {
+    name: "ISA atmosphere matches standard tables",
+    fn: () => {
+      const seaLevel = getAtmosphere(0);
+      assertApproxEquals(seaLevel.temperature, 288.15, 1e-6, "T at 0 m");
+      assertApproxEquals(seaLevel.pressure, 101325, 1e-3, "p at 0 m");
+      assertApproxEquals(seaLevel.density, 1.225, 1e-3, "rho at 0 m");
+      assertApproxEquals(seaLevel.speedOfSound, 340.29, 0.01, "a at 0 m");
+
+      const tropopause = getAtmosphere(11000);
+      assertApproxEquals(tropopause.temperature, 216.65, 1e-6, "T at 11 km");
+      assertApproxEquals(tropopause.pressure, 22632, 1, "p at 11 km");
+      assertApproxEquals(tropopause.density, 0.3639, 1e-3, "rho at 11 km");
+
+      const stratosphere = getAtmosphere(20000);
+      assertApproxEquals(stratosphere.pressure, 5474.9, 1, "p at 20 km");
+
+      // Density altitude inverts the standard density profile
+      for (const altitude of [-500, 0, 3000, 11000, 15000, 25000]) {
+        assertApproxEquals(
+          getDensityAltitude(getAtmosphere(altitude).density),
+          altitude,
+          0.01,
+          `Density altitude at ${altitude} m`,
+        );
+      }
+    },
+  },
+
+  {
+    name: "Non-standard day shifts density altitude",
+    fn: () => {
+      const hotDay = getAtmosphere(1000, {
+        temperatureOffset: 20,
+        seaLevelPressure: 101325,
+      });
+      assertEquals(
+        getDensityAltitude(hotDay.density) > 1000,
+        true,
+        "Hot day should raise density altitude",
+      );
+
+      const highPressure = getAtmosphere(1000, {
+        temperatureOffset: 0,
+        seaLevelPressure: 103000,
+      });
+      assertEquals(
+        highPressure.density > getAtmosphere(1000).density,
+        true,
+        "High QNH should raise density",
+      );
+    },
+  },
+
+  {
+    name: "Aircraft air data reports IAS, TAS and Mach",
+    fn: () => {
+      const physicsEngine = initializeDynamics();
+      physicsEngine.setAtmosphericConditions(STANDARD_CONDITIONS);
+
+      const testAircraftId = "test-aircraft";
+      physicsEngine.registerAircraft(testAircraftId, createTestProperties(), {
+        position: new THREE.Vector3(0, 10000, 0),
+        velocity: new THREE.Vector3(0, 0, 200),
+      });
+
+      const state = physicsEngine.getAircraftState(testAircraftId);
+      assertDefined(state);
+
+      assertApproxEquals(state.airData.trueAirspeed, 200, 1e-9, "TAS");
+      assertApproxEquals(
+        state.airData.mach,
+        200 / getAtmosphere(10000).speedOfSound,
+        1e-9,
+        "Mach",
+      );
+      assertEquals(
+        state.airData.indicatedAirspeed < 130,
+        true,
+        "IAS should be far below TAS at 10 km",
+      );
+
+      // At sea level IAS equals TAS
+      const lowId = "test-aircraft-low";
+      physicsEngine.registerAircraft(lowId, createTestProperties(), {
+        velocity: new THREE.Vector3(0, 0, 100),
+      });
+      assertApproxEquals(
+        physicsEngine.getAircraftState(lowId)!.airData.indicatedAirspeed,
+        100,
+        0.05,
+        "IAS should equal TAS at sea level",
+      );
+
+      physicsEngine.removeAircraft(testAircraftId);
+      physicsEngine.removeAircraft(lowId);
+    },
+  },
+
+  {
+    name: "Steady wind layers interpolate with altitude",
+    fn: () => {
+      const windField = new WindField();
+      windField.setLayers([
+        { altitude: 1000, direction: 90, speed: 20 },
+        { altitude: 0, direction: 0, speed: 10 },
+      ]);
+
+      // Wind from 0° blows towards -Z
+      const surface = windField.getSteadyWind(-10);
+      assertApproxEquals(surface.z, -10, 1e-9, "Surface wind from 0°");
+      assertApproxEquals(surface.x, 0, 1e-9, "No crosswind component");
+
+      // Wind from 90° blows towards -X
+      const aloft = windField.getSteadyWind(5000);
+      assertApproxEquals(aloft.x, -20, 1e-9, "Wind aloft from 90°");
+
+      const middle = windField.getSteadyWind(500);
+      assertApproxEquals(middle.x, -10, 1e-9, "Interpolated X component");
+      assertApproxEquals(middle.z, -5, 1e-9, "Interpolated Z component");
+    },
+  },
+
+  {
+    name: "Discrete gust follows a 1-cosine profile",
+    fn: () => {
+      const windField = new WindField();
+      windField.addGust({
+        startTime: 1,
+        duration: 2,
+        amplitude: 8,
+        direction: 180,
+        verticalAmplitude: 4,
+      });
+
+      windField.advance(1);
+      assertApproxEquals(
+        windField.getGustVelocity(0).length(),
+        0,
+        1e-9,
+        "Gust should start from zero",
+      );
+
+      windField.advance(1);
+      const peak = windField.getGustVelocity(0);
+      assertApproxEquals(peak.z, 8, 1e-9, "Gust from 180° blows towards +Z");
+      assertApproxEquals(peak.y, 4, 1e-9, "Vertical gust should peak");
+
+      windField.advance(1.5);
+      assertApproxEquals(
+        windField.getGustVelocity(0).length(),
+        0,
+        1e-9,
+        "Gust should be over",
+      );
+    },
+  },
+
+  {
+    name: "Turbulence is reproducible from its seed",
+    fn: () => {
+      const sampleSeries = (seed: number) => {
+        const windField = new WindField(seed);
+        windField.setTurbulence(TurbulenceIntensity.MODERATE);
+        const samples: number[] = [];
+        for (let i = 0; i < 2000; i++) {
+          windField.advance(0.01);
+          samples.push(
+            windField.sampleWind(
+              "test-aircraft",
+              new THREE.Vector3(0, 3000, 0),
+              new THREE.Quaternion(),
+              100,
+              0.01,
+            ).y,
+          );
+        }
+        return samples;
+      };
+
+      const first = sampleSeries(42);
+      const second = sampleSeries(42);
+      const other = sampleSeries(7);
+
+      assertEquals(
+        first.every((value, i) => value === second[i]),
+        true,
+        "Same seed should give the same turbulence",
+      );
+      assertEquals(
+        first.some((value, i) => value !== other[i]),
+        true,
+        "Different seeds should give different turbulence",
+      );
+
+      // Vertical RMS should be near the moderate high-altitude intensity
+      const rms = Math.sqrt(
+        first.reduce((sum, value) => sum + value * value, 0) / first.length,
+      );
+      assertEquals(rms > 1 && rms < 6, true, `Unexpected RMS ${rms}`);
+    },
+  },
+
+  {
+    name: "Aerodynamics use air-relative velocity",
+    fn: () => {
+      const physicsEngine = initializeDynamics();
+      const windField = physicsEngine.getWindField();
+      windField.clear();
+
+      // 20 m/s headwind for an aircraft flying along +Z
+      windField.setLayers([{ altitude: 0, direction: 0, speed: 20 }]);
+
+      const testAircraftId = "test-aircraft";
+      physicsEngine.registerAircraft(testAircraftId, createTestProperties(), {
+        position: new THREE.Vector3(0, 500, 0),
+        velocity: new THREE.Vector3(0, 0, 50),
+      });
+      const state = physicsEngine.getAircraftState(testAircraftId);
+      assertDefined(state);
+
+      assertApproxEquals(
+        state.airData.trueAirspeed,
+        70,
+        1e-9,
+        "Headwind should add to airspeed",
+      );
+
+      // A parked aircraft in a crosswind still feels airflow
+      physicsEngine.removeAircraft(testAircraftId);
+      windField.setLayers([{ altitude: 0, direction: 90, speed: 15 }]);
+      physicsEngine.registerAircraft(testAircraftId, createTestProperties(), {
+        position: new THREE.Vector3(0, 500, 0),
+      });
+      assertApproxEquals(
+        physicsEngine.getAircraftState(testAircraftId)!.airData.trueAirspeed,
+        15,
+        1e-9,
+        "Crosswind should be felt at zero ground speed",
+      );
+
+      physicsEngine.removeAircraft(testAircraftId);
+      windField.clear();
+    },
+  },
+
+  {
+    name: "Landing gear supports the aircraft at rest",
+    fn: () => {
+      const physicsEngine = initializeDynamics();
+      physicsEngine.getWindField().clear();
+
+      const testAircraftId = "test-aircraft";
+      physicsEngine.registerAircraft(testAircraftId, createGearProperties(), {
+        position: new THREE.Vector3(0, 1.2, 0),
+      });
+
+      for (let i = 0; i < 600; i++) {
+        physicsEngine.updateStep(1 / 120);
+      }
+
+      const state = physicsEngine.getAircraftState(testAircraftId);
+      assertDefined(state);
+      assertDefined(state.gear);
+
+      assertEquals(state.gear.weightOnWheels, true, "Should be on its wheels");
+      assertApproxEquals(
+        state.position.y,
+        1.1,
+        0.01,
+        "Struts should settle at their static compression",
+      );
+      assertApproxEquals(state.velocity.length(), 0, 0.01, "Should be still");
+      assertEquals(
+        physicsEngine.setGearDown(testAircraftId, false),
+        false,
+        "Retraction should be inhibited on the ground",
+      );
+
+      physicsEngine.removeAircraft(testAircraftId);
+    },
+  },
+
+  {
+    name: "Touchdown vertical speed is reported",
+    fn: () => {
+      const physicsEngine = initializeDynamics();
+
+      const testAircraftId = "test-aircraft";
+      physicsEngine.registerAircraft(testAircraftId, createGearProperties(), {
+        position: new THREE.Vector3(0, 1.21, 0),
+        velocity: new THREE.Vector3(0, -2, 0),
+      });
+
+      for (let i = 0; i < 120; i++) {
+        physicsEngine.updateStep(1 / 120);
+      }
+
+      const gear = physicsEngine.getAircraftState(testAircraftId)?.gear;
+      assertDefined(gear);
+      assertDefined(gear.touchdownVerticalSpeed);
+      assertApproxEquals(
+        gear.touchdownVerticalSpeed,
+        -2.05,
+        0.05,
+        "Sink rate at touchdown should be recorded",
+      );
+
+      physicsEngine.removeAircraft(testAircraftId);
+    },
+  },
+
+  {
+    name: "Wheel brakes stop the aircraft and brake differentially",
+    fn: () => {
+      const physicsEngine = initializeDynamics();
+
+      const rollOut = (left: number, right: number) => {
+        const testAircraftId = "test-aircraft";
+        physicsEngine.registerAircraft(
+          testAircraftId,
+          createGearProperties(),
+          {
+            position: new THREE.Vector3(0, 1.1, 0),
+            velocity: new THREE.Vector3(0, 0, 15),
+          },
+        );
+        physicsEngine.setBrakes(testAircraftId, left, right);
+        for (let i = 0; i < 360; i++) {
+          physicsEngine.updateStep(1 / 120);
+        }
+        const state = physicsEngine.getAircraftState(testAircraftId)!;
+        const result = {
+          speed: state.velocity.length(),
+          heading: getAttitude(state).heading,
+        };
+        physicsEngine.removeAircraft(testAircraftId);
+        return result;
+      };
+
+      const coasting = rollOut(0, 0);
+      const braking = rollOut(1, 1);
+      const leftBrake = rollOut(1, 0);
+
+      assertEquals(
+        braking.speed < coasting.speed - 5,
+        true,
+        "Brakes should slow the aircraft",
+      );
+      assertApproxEquals(
+        coasting.heading,
+        0,
+        1e-3,
+        "Coasting should track straight",
+      );
+      assertEquals(
+        leftBrake.heading > 0.01,
+        true,
+        "Left brake should yaw the nose left",
+      );
+    },
+  },
+
+  {
+    name: "Gear up landing ends on the belly",
+    fn: () => {
+      const physicsEngine = initializeDynamics();
+
+      const testAircraftId = "test-aircraft";
+      physicsEngine.registerAircraft(testAircraftId, createGearProperties(), {
+        position: new THREE.Vector3(0, 10, 0),
+        velocity: new THREE.Vector3(0, 0, 20),
+      });
+
+      // Retract in the air; the transit takes the gear's transit time
+      assertEquals(
+        physicsEngine.setGearDown(testAircraftId, false),
+        true,
+        "Retraction should be accepted in the air",
+      );
+      physicsEngine.updateStep(1);
+      const state = physicsEngine.getAircraftState(testAircraftId);
+      const gear = state?.gear;
+      assertDefined(state);
+      assertDefined(gear);
+      assertApproxEquals(gear.position, 0.8, 1e-9, "Gear should be in transit");
+
+      // Hold altitude until the gear is up
+      for (let i = 0; i < 600; i++) {
+        state.position.y = 10;
+        state.velocity.y = 0;
+        physicsEngine.updateStep(1 / 120);
+      }
+      assertEquals(gear.position, 0, "Gear should be fully retracted");
+
+      // Settle onto the fuselage from just above the ground
+      state.position.y = 0.6;
+      state.velocity.y = 0;
+      for (let i = 0; i < 600; i++) {
+        physicsEngine.updateStep(1 / 120);
+      }
+
+      assertEquals(
+        state.groundContact.status,
+        ContactStatus.GROUNDED,
+        "A gentle belly landing should not crash",
+      );
+      assertEquals(gear.bellyLanded, true, "Should have landed on the belly");
+      assertEquals(gear.weightOnWheels, false, "Wheels should carry no load");
+
+      physicsEngine.removeAircraft(testAircraftId);
+    },
+  },
+  {
+    name: "Heightfield surface sampling",
+    fn: () => {
+      // 3 × 2 grid rising 10 m per 100 m along X
+      const terrain = new HeightfieldSurfaceProvider({
+        originX: 0,
+        originZ: 0,
+        spacing: 100,
+        columns: 3,
+        rows: 2,
+        heights: [0, 10, 20, 0, 10, 20],
+        types: [
+          SurfaceType.RUNWAY,
+          SurfaceType.RUNWAY,
+          SurfaceType.GRASS,
+          SurfaceType.RUNWAY,
+          SurfaceType.RUNWAY,
+          SurfaceType.GRASS,
+        ],
+      });
+
+      const sample = terrain.getSurface(50, 50);
+      assertApproxEquals(sample.height, 5, 1e-9, "Height should interpolate");
+      assertApproxEquals(
+        sample.normal.x,
+        -0.1 / Math.sqrt(1.01),
+        1e-9,
+        "Normal should lean away from the slope",
+      );
+      assertEquals(sample.type, SurfaceType.RUNWAY, "Nearest type is runway");
+      assertEquals(
+        terrain.getSurface(190, 0).type,
+        SurfaceType.GRASS,
+        "Nearest type is grass",
+      );
+      assertApproxEquals(
+        terrain.getSurface(1000, 0).height,
+        20,
+        1e-9,
+        "Outside the grid the edge height is used",
+      );
+    },
+  },
+  {
+    name: "Flying into terrain crashes",
+    fn: () => {
+      const physicsEngine = initializeDynamics();
+
+      // Ridge 200 m high beyond Z = 100 m
+      physicsEngine.setSurfaceProvider(
+        new HeightfieldSurfaceProvider({
+          originX: -1000,
+          originZ: 0,
+          spacing: 100,
+          columns: 21,
+          rows: 3,
+          heights: [
+            ...new Array(21).fill(0),
+            ...new Array(21).fill(200),
+            ...new Array(21).fill(200),
+          ],
+        }),
+      );
+
+      const events: ImpactEvent[] = [];
+      const unsubscribe = initializeEventBus().on(
+        "crash",
+        (event) => events.push(event),
+      );
+
+      const testAircraftId = "test-aircraft";
+      physicsEngine.registerAircraft(testAircraftId, createGearProperties(), {
+        position: new THREE.Vector3(0, 50, 0),
+        velocity: new THREE.Vector3(0, 0, 60),
+      });
+
+      for (let i = 0; i < 360; i++) {
+        physicsEngine.updateStep(1 / 120);
+      }
+
+      const state = physicsEngine.getAircraftState(testAircraftId);
+      assertDefined(state);
+      assertEquals(events.length, 1, "Exactly one crash should be reported");
+      assertEquals(events[0].aircraftId, testAircraftId, "Aircraft id");
+      assertEquals(
+        state.groundContact.status,
+        ContactStatus.CRASHED,
+        "State should record the crash",
+      );
+      assertEquals(state.velocity.length(), 0, "Wreck should be stopped");
+
+      unsubscribe();
+      physicsEngine.removeAircraft(testAircraftId);
+      physicsEngine.setSurfaceProvider(new FlatSurfaceProvider());
+    },
+  },
+  {
+    name: "Hard landing and water contact",
+    fn: () => {
+      const physicsEngine = initializeDynamics();
+      const events: { type: string; event: ImpactEvent }[] = [];
+      const eventBus = initializeEventBus();
+      const unsubscribeCrash = eventBus.on(
+        "crash",
+        (event) => events.push({ type: "crash", event }),
+      );
+      const unsubscribeDitching = eventBus.on(
+        "ditching",
+        (event) => events.push({ type: "ditching", event }),
+      );
+
+      // Sinking at 8 m/s collapses the gear
+      physicsEngine.registerAircraft("hard", createGearProperties(), {
+        position: new THREE.Vector3(0, 1.3, 0),
+        velocity: new THREE.Vector3(0, -8, 0),
+      });
+      for (let i = 0; i < 60; i++) {
+        physicsEngine.updateStep(1 / 120);
+      }
+      assertEquals(events.length, 1, "Hard landing should be reported");
+      assertEquals(events[0].type, "crash", "Should crash");
+      physicsEngine.removeAircraft("hard");
+
+      // A gentle touchdown on water ditches
+      physicsEngine.setSurfaceProvider(
+        new FlatSurfaceProvider(0, SurfaceType.WATER),
+      );
+      physicsEngine.registerAircraft("water", createGearProperties(), {
+        position: new THREE.Vector3(0, 1.25, 0),
+        velocity: new THREE.Vector3(0, -1, 0),
+      });
+      for (let i = 0; i < 60; i++) {
+        physicsEngine.updateStep(1 / 120);
+      }
+      assertEquals(events.length, 2, "Ditching should be reported");
+      assertEquals(events[1].type, "ditching", "Should ditch");
+      assertEquals(
+        events[1].event.surfaceType,
+        SurfaceType.WATER,
+        "Surface type",
+      );
+
+      unsubscribeCrash();
+      unsubscribeDitching();
+      physicsEngine.removeAircraft("water");
+      physicsEngine.setSurfaceProvider(new FlatSurfaceProvider());
+    },
+  },
+  {
+    name: "Grass slows a rollout more than runway",
+    fn: () => {
+      const physicsEngine = initializeDynamics();
+
+      const rollout = (type: SurfaceType): number => {
+        physicsEngine.setSurfaceProvider(new FlatSurfaceProvider(0, type));
+        physicsEngine.registerAircraft("rollout", createGearProperties(), {
+          position: new THREE.Vector3(0, 1.1, 0),
+          velocity: new THREE.Vector3(0, 0, 20),
+        });
+        for (let i = 0; i < 600; i++) {
+          physicsEngine.updateStep(1 / 120);
+        }
+        const speed = physicsEngine.getAircraftState("rollout")?.velocity.z;
+        physicsEngine.removeAircraft("rollout");
+        assertDefined(speed);
+        return speed;
+      };
+
+      const runwaySpeed = rollout(SurfaceType.RUNWAY);
+      const grassSpeed = rollout(SurfaceType.GRASS);
+      physicsEngine.setSurfaceProvider(new FlatSurfaceProvider());
+
+      assertEquals(
+        grassSpeed < runwaySpeed - 1,
+        true,
+        `Grass (${grassSpeed.toFixed(2)} m/s) should be slower than runway ` +
+          `(${runwaySpeed.toFixed(2)} m/s)`,
+      );
+    },
+  },
+  {
+    name: "DAT aircraft definitions",
+    fn: () => {
+      assertApproxEquals(parseDatValue("7.7t", "force") ?? 0, 75537, 1e-6);
+      assertApproxEquals(parseDatValue("140kt", "speed") ?? 0, 72.02216, 1e-6);
+      assertApproxEquals(parseDatValue("10ft", "length") ?? 0, 3.048, 1e-9);
+      assertEquals(parseDatValue("3m^2", "mass"), null, "Wrong unit");
+      assertEquals(parseDatValue("50%", "count"), null, "Rounds are counted");
+      assertApproxEquals(parseDatValue("0.05sec", "time") ?? 0, 0.05, 1e-12);
+
+      const definition = parseAircraftDat(SAMPLE_DAT);
+      assertEquals(definition.identify, "F-16C_FIGHTINGFALCON");
+      assertEquals(definition.category, "FIGHTER");
+      assertApproxEquals(definition.engine.afterburnerThrust, 127530, 1e-6);
+      assertApproxEquals(definition.properties.mass, 8600, 1e-9);
+      assertApproxEquals(definition.properties.wingArea, 27.87, 1e-9);
+      assertApproxEquals(
+        definition.performance.criticalAoaPositive,
+        25 * Math.PI / 180,
+        1e-9,
+      );
+      assertEquals(definition.initialStores.IAAM, 4, "Initial missiles");
+      assertEquals(definition.guns.rounds, 500, "Gun rounds");
+
+      // YSFLIGHT +X is the right wing; body +X is the left wing
+      assertEquals(definition.stations.length, 1, "One hardpoint");
+      assertEquals(definition.stations[0].position.x, 3, "Hardpoint side");
+      assertEquals(definition.stations[0].stores.join(","), "AIM9,AIM120");
+      const struts = definition.properties.landingGear?.struts;
+      assertDefined(struts);
+      assertEquals(
+        struts.map((strut) => strut.name).join(","),
+        "nose,left,right",
+      );
+      assertEquals(struts[1].position.x, 1.2, "Left wheel on the left");
+      assertEquals(definition.properties.flaps?.liftIncrement, 0.6);
+      assertEquals(definition.properties.flaps?.dragIncrement, 0.08);
+
+      // Unknown keyword and bad value are warnings, not errors
+      assertEquals(
+        definition.warnings.map((warning) => warning.keyword).join(","),
+        "FLAPERON,WINGAREA",
+      );
+      assertEquals(definition.warnings[0].line, 27, "Warning line number");
+
+      // The definition registers directly with the physics engine
+      const physicsEngine = initializeDynamics();
+      physicsEngine.registerAircraft("dat", definition.properties, {
+        position: new THREE.Vector3(0, 1.6, 0),
+      });
+      assertApproxEquals(
+        physicsEngine.getAircraftState("dat")?.mass.total ?? 0,
+        11000,
+        1e-9,
+        "Empty weight plus 75% fuel",
+      );
+      for (let i = 0; i < 240; i++) {
+        physicsEngine.updateStep(1 / 120);
+      }
+      const state = physicsEngine.getAircraftState("dat");
+      assertDefined(state);
+      assertEquals(
+        state.groundContact.status,
+        ContactStatus.GROUNDED,
+        "Aircraft should stand on its gear",
+      );
+      physicsEngine.removeAircraft("dat");
+
+      assertThrows(
+        () => parseAircraftDat("IDENTIFY GLIDER\nWINGAREA 10m^2"),
+        undefined,
+        "missing WEIGHCLN",
+      );
+    },
+  },
+  {
+    name: "DAT aircraft hold the cruise speed at the cruise throttle",
+    fn: () => {
+      const definition = parseAircraftDat(SAMPLE_DAT);
+      const { cruiseSpeed, cruiseAltitude, cruiseThrottle } =
+        definition.performance;
+      assertEquals(cruiseThrottle, 0.75);
+
+      // Level at the cruise reference, trimmed at zero angle of attack
+      const physicsEngine = initializeDynamics();
+      physicsEngine.registerAircraft("cruise", definition.properties, {
+        position: new THREE.Vector3(0, cruiseAltitude, 0),
+        velocity: new THREE.Vector3(0, 0, cruiseSpeed),
+        throttle: cruiseThrottle,
+      });
+      const state = physicsEngine.getAircraftState("cruise");
+      assertDefined(state);
+      for (let i = 0; i < 30 * 120; i++) {
+        physicsEngine.updateStep(1 / 120);
+      }
+      assertApproxEquals(
+        state.velocity.length(),
+        cruiseSpeed,
+        cruiseSpeed * 0.01,
+        "Thrust balances drag",
+      );
+      assertApproxEquals(state.position.y, cruiseAltitude, 30, "Level");
+      physicsEngine.removeAircraft("cruise");
+    },
+  },
+  {
+    name: "Lift curve and stall",
+    fn: () => {
+      const curve = createLiftCurve(createTestProperties());
+      const degrees = Math.PI / 180;
+
+      // Linear below the stall
+      const slope = (getLiftCoefficient(5 * degrees, curve) -
+        getLiftCoefficient(0, curve)) / (5 * degrees);
+      assertApproxEquals(slope, curve.liftSlope, 1e-9, "Linear lift slope");
+
+      // Lift collapses past the critical angle while drag keeps rising
+      const maxLift = getMaxLiftCoefficient(curve);
+      const stalledLift = getLiftCoefficient(
+        curve.criticalAngle + 8 * degrees,
+        curve,
+      );
+      assertEquals(
+        stalledLift < 0.8 * maxLift,
+        true,
+        `Lift should collapse past the stall (${stalledLift.toFixed(2)})`,
+      );
+      assertEquals(
+        getDragCoefficient(curve.criticalAngle + 8 * degrees, curve) >
+          getDragCoefficient(curve.criticalAngle, curve),
+        true,
+        "Drag should rise past the stall",
+      );
+    },
+  },
+  {
+    name: "Spin entry and recovery",
+    fn: () => {
+      const physicsEngine = initializeDynamics();
+      const testAircraftId = "test-aircraft";
+      physicsEngine.registerAircraft(testAircraftId, createTestProperties(), {
+        position: new THREE.Vector3(0, 2000, 0),
+        velocity: new THREE.Vector3(0, 0, 40),
+        throttle: 0.2,
+      });
+      const state = physicsEngine.getAircraftState(testAircraftId);
+      assertDefined(state);
+
+      const fly = (
+        seconds: number,
+        elevator: number,
+        rudder: number,
+      ): { warned: boolean; spun: boolean } => {
+        physicsEngine.updateControlInputs(testAircraftId, { elevator, rudder });
+        let warned = false;
+        let spun = false;
+        for (let i = 0; i < seconds * 120; i++) {
+          physicsEngine.updateStep(1 / 120);
+          warned ||= state.aerodynamics.stallWarning;
+          spun ||= state.aerodynamics.spinning;
+        }
+        return { warned, spun };
+      };
+
+      // Full back stick warns of the stall; adding rudder spins
+      assertEquals(fly(5, 1, 0).warned, true, "Stall warning expected");
+      assertEquals(fly(10, 1, 1).spun, true, "Pro-spin controls should spin");
+
+      // Opposite rudder and forward stick, then neutral controls
+      fly(5, -0.5, -1);
+      fly(5, 0, 0);
+      assertEquals(state.aerodynamics.stalled, false, "Should have unstalled");
+      assertEquals(state.aerodynamics.spinning, false, "Should have recovered");
+
+      physicsEngine.removeAircraft(testAircraftId);
+    },
+  },
+  {
+    name: "Engine spool, afterburner and lapse",
+    fn: () => {
+      const engine = createEngine({
+        militaryThrust: 50000,
+        afterburnerThrust: 80000,
+        fuelFlowMilitary: 1,
+        fuelFlowAfterburner: 3,
+      });
+      const seaLevel = getAtmosphere(0);
+      const run = (
+        state: ReturnType<typeof createEngineState>,
+        throttle: number,
+        seconds: number,
+      ): number => {
+        let burned = 0;
+        for (let i = 0; i < seconds * 120; i++) {
+          burned += updateEngine(
+            engine,
+            state,
+            throttle,
+            1000,
+            seaLevel,
+            0,
+            1 / 120,
+          );
+        }
+        return burned;
+      };
+
+      // The spool lags the throttle
+      const state = createEngineState(engine, 0);
+      run(state, 0.95, 0.5);
+      assertEquals(
+        state.thrust < 25000,
+        true,
+        "Thrust should lag the throttle",
+      );
+      run(state, 0.95, 30);
+      assertApproxEquals(
+        state.thrust,
+        50000,
+        100,
+        "Military thrust at the detent",
+      );
+      assertEquals(state.afterburner, false, "No afterburner at the detent");
+
+      // Through the detent the afterburner lights and burns more fuel
+      const militaryFlow = state.fuelFlow;
+      run(state, 1, 5);
+      assertEquals(state.afterburner, true, "Afterburner should light");
+      assertApproxEquals(state.thrust, 80000, 100, "Full afterburner thrust");
+      assertApproxEquals(
+        state.fuelFlow,
+        3 * militaryFlow,
+        0.01,
+        "AB fuel flow",
+      );
+
+      // Thin air reduces thrust
+      const high = createEngineState(engine, 0.95);
+      updateEngine(engine, high, 0.95, 1000, getAtmosphere(10000), 0, 1 / 120);
+      assertEquals(high.thrust < 0.5 * 50000, true, "Thrust should lapse");
+    },
+  },
+  {
+    name: "Engine runs down when the fuel is gone",
+    fn: () => {
+      const physicsEngine = initializeDynamics();
+      const testAircraftId = "test-aircraft";
+      physicsEngine.registerAircraft(testAircraftId, {
+        ...createTestProperties(),
+        engine: createEngine({ militaryThrust: 20000, fuelFlowMilitary: 2 }),
+        fuelCapacity: 5,
+      }, {
+        position: new THREE.Vector3(0, 1000, 0),
+        velocity: new THREE.Vector3(0, 0, 60),
+        throttle: 1,
+      });
+      const state = physicsEngine.getAircraftState(testAircraftId);
+      assertDefined(state);
+
+      physicsEngine.updateStep(1 / 120);
+      assertApproxEquals(state.engine.thrust, 20000 * 0.9, 2000, "Full power");
+      for (let i = 0; i < 120 * 10; i++) {
+        physicsEngine.updateStep(1 / 120);
+      }
+
+      assertEquals(state.fuel, 0, "Tanks should be empty");
+      assertEquals(state.engine.running, false, "Engine should have stopped");
+      assertEquals(state.engine.thrust, 0, "No thrust without fuel");
+      assertEquals(state.engine.rpm < 0.1, true, "Spool should run down");
+
+      physicsEngine.removeAircraft(testAircraftId);
+    },
+  },
+  {
+    name: "Fuel, stores and centre of gravity",
+    fn: () => {
+      const physicsEngine = initializeDynamics();
+      const properties = {
+        ...createTestProperties(),
+        engine: createEngine({ militaryThrust: 20000, fuelFlowMilitary: 2 }),
+        fuelTanks: [
+          { name: "aft", position: new THREE.Vector3(0, 0, -1), capacity: 100 },
+          {
+            name: "forward",
+            position: new THREE.Vector3(0, 0, 1),
+            capacity: 100,
+          },
+        ],
+      };
+      const store = (z: number) => ({
+        name: "bomb",
+        mass: 200,
+        position: new THREE.Vector3(0, -0.5, z),
+      });
+      const flight = {
+        position: new THREE.Vector3(0, 1000, 0),
+        velocity: new THREE.Vector3(0, 0, 60),
+        throttle: 1,
+      };
+      physicsEngine.registerAircraft(
+        "forward",
+        withLoadout(properties, { fuel: 100, stores: [store(2)] }),
+        flight,
+      );
+      physicsEngine.registerAircraft(
+        "aft",
+        withLoadout(properties, { fuel: 100, stores: [store(-2)] }),
+        flight,
+      );
+      const forward = physicsEngine.getAircraftState("forward");
+      const aft = physicsEngine.getAircraftState("aft");
+      assertDefined(forward);
+      assertDefined(aft);
+
+      assertApproxEquals(forward.mass.total, 1300, 1e-9, "Loaded mass");
+      assertApproxEquals(forward.fuel, 100, 1e-9, "Half fuel");
+      assertApproxEquals(forward.mass.centerOfGravity.z, 400 / 1300, 1e-9);
+
+      // Lift behind a forward CG pitches the nose down (q = -ω.x)
+      physicsEngine.updateStep(1 / 120);
+      assertEquals(
+        forward.angularVelocity.x > aft.angularVelocity.x,
+        true,
+        "Forward CG should pitch down relative to aft CG",
+      );
+
+      // Burning fuel lightens the aircraft and empties the aft tank first
+      for (let i = 0; i < 120 * 5; i++) {
+        physicsEngine.updateStep(1 / 120);
+      }
+      assertEquals(forward.mass.total < 1300, true, "Fuel should burn");
+      assertApproxEquals(
+        forward.mass.total,
+        1000 + forward.fuel + 200,
+        1e-9,
+        "Mass follows the fuel",
+      );
+      assertEquals(forward.mass.tanks[0] < 50, true, "Aft tank feeds first");
+      assertApproxEquals(forward.mass.tanks[1], 50, 1e-9, "Forward tank full");
+
+      // Releasing the store drops its mass and moves the CG aft
+      const cgBefore = forward.mass.centerOfGravity.z;
+      const released = physicsEngine.releaseStore("forward", 0);
+      assertEquals(released?.name, "bomb", "Released store");
+      assertApproxEquals(forward.mass.total, 1000 + forward.fuel, 1e-9);
+      assertEquals(forward.mass.centerOfGravity.z < cgBefore, true);
+      assertEquals(physicsEngine.releaseStore("forward", 0), null);
+
+      physicsEngine.removeAircraft("forward");
+      physicsEngine.removeAircraft("aft");
+    },
+  },
+  {
+    name: "Snapshot and restore",
+    fn: () => {
+      const physicsEngine = initializeDynamics();
+      physicsEngine.registerAircraft("snapshot", {
+        ...createTestProperties(),
+        engine: createEngine({ militaryThrust: 20000, fuelFlowMilitary: 2 }),
+        fuelCapacity: 100,
+      }, {
+        position: new THREE.Vector3(0, 1000, 0),
+        velocity: new THREE.Vector3(0, 0, 60),
+        throttle: 0.8,
+        controlInputs: {
+          elevator: 0.2,
+          aileron: 0.3,
+          rudder: 0,
+          flaps: 0,
+          brakeLeft: 0,
+          brakeRight: 0,
+          speedBrake: 0,
+          spoilers: 0,
+          pitchTrim: 0,
+          rollTrim: 0,
+          yawTrim: 0,
+        },
+      });
+      for (let i = 0; i < 120; i++) {
+        physicsEngine.updateStep(1 / 120);
+      }
+
+      // Save through JSON, fly on, then restore and fly the same steps again
+      const text = JSON.stringify(physicsEngine.snapshot());
+      const time = physicsEngine.getSimulationTime();
+      for (let i = 0; i < 240; i++) {
+        physicsEngine.updateStep(1 / 120);
+      }
+      const first = physicsEngine.getAircraftState("snapshot");
+      assertDefined(first);
+      const firstPosition = first.position.clone();
+      const firstFuel = first.fuel;
+
+      physicsEngine.restore(JSON.parse(text));
+      assertEquals(physicsEngine.getSimulationTime(), time, "Time restored");
+      for (let i = 0; i < 240; i++) {
+        physicsEngine.updateStep(1 / 120);
+      }
+      const second = physicsEngine.getAircraftState("snapshot");
+      assertDefined(second);
+      assertEquals(second === first, false, "Restore replaces the state");
+      assertEquals(
+        second.position.equals(firstPosition),
+        true,
+        "Restored flight should repeat exactly",
+      );
+      assertEquals(second.fuel, firstFuel, "Fuel burn should repeat exactly");
+      assertEquals(second.controlInputs.aileron, 0.3, "Controls restored");
+
+      assertThrows(
+        () => physicsEngine.restore({ ...JSON.parse(text), version: 0 }),
+        undefined,
+        "Unsupported snapshot version",
+      );
+      physicsEngine.removeAircraft("snapshot");
+    },
+  },
+  {
+    name: "Physics events on the event bus",
+    fn: () => {
+      const physicsEngine = initializeDynamics();
+      const eventBus = initializeEventBus();
+      const touchdowns: SimulationEvents["touchdown"][] = [];
+      const gearChanges: boolean[] = [];
+      const releases: string[] = [];
+      const unsubscribers = [
+        eventBus.on("touchdown", (event) => touchdowns.push(event)),
+        eventBus.on("gearChange", ({ down }) => gearChanges.push(down)),
+        eventBus.on("weaponRelease", ({ store }) => releases.push(store.name)),
+      ];
+
+      // Parked aircraft do not report a touchdown
+      physicsEngine.registerAircraft("parked", createGearProperties(), {
+        position: new THREE.Vector3(0, 1.2, 0),
+      });
+      for (let i = 0; i < 60; i++) {
+        physicsEngine.updateStep(1 / 120);
+      }
+      assertEquals(touchdowns.length, 0, "Parked aircraft should not land");
+      physicsEngine.removeAircraft("parked");
+
+      // Settling onto the runway from the air is one touchdown
+      physicsEngine.registerAircraft(
+        "landing",
+        withLoadout(createGearProperties(), {
+          stores: [{ name: "tank", mass: 100, position: new THREE.Vector3() }],
+        }),
+        {
+          position: new THREE.Vector3(0, 1.6, 0),
+          velocity: new THREE.Vector3(0, -1, 0),
+        },
+      );
+      for (let i = 0; i < 240; i++) {
+        physicsEngine.updateStep(1 / 120);
+      }
+      assertEquals(touchdowns.length, 1, "One touchdown");
+      assertEquals(touchdowns[0].aircraftId, "landing");
+      assertEquals(touchdowns[0].sinkRate > 0.5, true, "Sink rate reported");
+
+      // Gear commands and store releases are published
+      assertEquals(physicsEngine.setGearDown("landing", false), false);
+      assertEquals(gearChanges.length, 0, "Rejected command is not an event");
+      physicsEngine.releaseStore("landing", 0);
+      assertEquals(releases.join(","), "tank");
+
+      unsubscribers.forEach((unsubscribe) => unsubscribe());
+      physicsEngine.removeAircraft("landing");
+    },
+  },
+  {
+    name: "Physics in a worker matches the main thread",
+    fn: () => {
+      for (const shared of [false, true]) {
+        const bridge = new PhysicsWorkerBridge(createLocalWorkerPort(), {
+          shared,
+          capacity: 2,
+        });
+        const reference = new PhysicsEngine();
+        assertEquals(bridge.isShared(), shared, "Buffer mode");
+
+        for (const physics of [bridge, reference]) {
+          physics.registerAircraft("worker", {
+            ...createTestProperties(),
+            engine: createEngine({
+              militaryThrust: 20000,
+              fuelFlowMilitary: 2,
+            }),
+            fuelCapacity: 100,
+            flaps: createFlaps({
+              liftIncrement: 0.4,
+              maxSpeeds: [Infinity, 40, 40, 40],
+            }),
+          }, {
+            position: new THREE.Vector3(0, 1000, 0),
+            velocity: new THREE.Vector3(0, 0, 60),
+          });
+          physics.setThrottle("worker", 0.8);
+          physics.updateControlInputs("worker", { elevator: 0.2, flaps: 1 });
+          physics.addPlatform(
+            "carrier",
+            new MovingPlatform(createCarrierDeck(), { speed: 15 }),
+          );
+        }
+
+        // Warnings are streamed ahead of the first snapshot
+        bridge.advance(1 / 60);
+        reference.advance(1 / 60);
+        assertEquals(
+          bridge.getAircraftState("worker")?.highLift.flapOverspeed,
+          true,
+          "Streamed flap overspeed",
+        );
+
+        // Fly past a full snapshot from the worker
+        for (let i = 0; i < 90; i++) {
+          bridge.advance(1 / 60);
+          reference.advance(1 / 60);
+        }
+        const state = bridge.getAircraftState("worker");
+        const expected = reference.getAircraftState("worker");
+        assertDefined(state);
+        assertDefined(expected);
+        assertEquals(
+          state.position.equals(expected.position),
+          true,
+          "Streamed position should match",
+        );
+        assertEquals(state.fuel, expected.fuel, "Streamed fuel should match");
+        assertEquals(state.controlInputs.elevator, 0.2, "Controls kept");
+        assertEquals(
+          bridge.getInterpolatedState("worker")?.position.equals(
+            reference.getInterpolatedState("worker")!.position,
+          ),
+          true,
+          "Draw pose should match",
+        );
+        assertEquals(bridge.getSimulationTime(), reference.getSimulationTime());
+        assertEquals(bridge.snapshot().time, reference.getSimulationTime());
+        assertApproxEquals(
+          bridge.getPlatform("carrier")!.getState().position.z,
+          reference.getPlatform("carrier")!.getState().position.z,
+          1e-9,
+          "The mirrored deck steams on",
+        );
+
+        // Commands without an effect are refused without asking the worker
+        assertEquals(bridge.releaseStore("worker", 0), null);
+        assertEquals(bridge.setGearDown("worker", false), false);
+
+        // Failures reach the worker at once
+        assertEquals(
+          bridge.injectFailure("worker", FailureType.ENGINE_FLAMEOUT),
+          true,
+        );
+        assertEquals(
+          bridge.injectFailure("worker", FailureType.ENGINE_FLAMEOUT),
+          false,
+          "Already failed",
+        );
+        bridge.advance(1 / 60);
+        assertEquals(state.engine.thrust, 0, "Flamed out in the worker");
+
+        bridge.registerAircraft("second", createTestProperties());
+        assertThrows(
+          () => bridge.registerAircraft("third", createTestProperties()),
+          undefined,
+          "Physics worker is full",
+        );
+
+        // Snapshots from the main thread may not fit in the worker
+        reference.registerAircraft("second", createTestProperties());
+        reference.registerAircraft("third", createTestProperties());
+        assertThrows(
+          () => bridge.restore(reference.snapshot()),
+          undefined,
+          "Physics worker is full",
+        );
+        assertEquals(
+          bridge.getAircraftState("third"),
+          null,
+          "Aircraft kept",
+        );
+        assertDefined(bridge.getAircraftState("worker"));
+        bridge.terminate();
+      }
+    },
+  },
+  {
+    name: "Integrator energy drift on an oscillator",
+    fn: () => {
+      // Unit mass on a spring of 1 rad/s, spinning about a fixed axis
+      const derivative = (body: RigidBodyState) => ({
+        acceleration: body.position.clone().negate(),
+        angularAcceleration: new THREE.Vector3(),
+      });
+      const energyOf = (body: RigidBodyState) =>
+        (body.velocity.lengthSq() + body.position.lengthSq()) / 2;
+
+      // 100 s, about 16 periods
+      const drift = (integrator: Integrator) => {
+        const body: RigidBodyState = {
+          position: new THREE.Vector3(1, 0, 0),
+          velocity: new THREE.Vector3(),
+          orientation: new THREE.Quaternion(),
+          angularVelocity: new THREE.Vector3(0, 0, 1),
+        };
+        let worst = 0;
+        for (let i = 0; i < 2000; i++) {
+          integrator.step(body, 0.05, derivative);
+          worst = Math.max(worst, Math.abs(energyOf(body) - 0.5) / 0.5);
+        }
+
+        // The attitude turns by the spin rate whatever the integrator
+        const spun = new THREE.Quaternion().setFromAxisAngle(
+          new THREE.Vector3(0, 0, 1),
+          100,
+        );
+        assertApproxEquals(body.orientation.angleTo(spun), 0, 1e-6, "Spin");
+        return worst;
+      };
+
+      const explicit = drift(new ExplicitEulerIntegrator());
+      const semiImplicit = drift(new SemiImplicitEulerIntegrator());
+      const rk4 = drift(new RungeKutta4Integrator());
+      const adaptive = drift(new AdaptiveIntegrator());
+      assertEquals(explicit > 1, true, "Forward Euler gains energy");
+      assertEquals(semiImplicit < 0.03, true, "Semi-implicit stays bounded");
+      assertEquals(rk4 < 1e-4, true, `RK4 drift ${rk4}`);
+      assertEquals(adaptive <= rk4, true, "Sub-steps only improve RK4");
+    },
+  },
+  {
+    name: "Integrators on stiff landing gear",
+    fn: () => {
+      const physicsEngine = new PhysicsEngine();
+      assertEquals(
+        physicsEngine.getIntegrator() instanceof SemiImplicitEulerIntegrator,
+        true,
+        "Semi-implicit Euler by default",
+      );
+      assertEquals(
+        physicsEngine.setAircraftIntegrator("missing", null),
+        false,
+        "Unknown aircraft",
+      );
+
+      // Drop each aircraft onto its gear and let it settle for 20 s
+      const integrators = {
+        euler: new SemiImplicitEulerIntegrator(),
+        rk4: new RungeKutta4Integrator(),
+        adaptive: new AdaptiveIntegrator(),
+      };
+      const mass = 1000;
+      for (const [id, integrator] of Object.entries(integrators)) {
+        physicsEngine.registerAircraft(id, createGearProperties(), {
+          position: new THREE.Vector3(0, 1.5, 0),
+        });
+        physicsEngine.setAircraftIntegrator(id, integrator);
+      }
+      const energyOf = (id: string) => {
+        const state = physicsEngine.getAircraftState(id)!;
+        return mass * (state.velocity.lengthSq() / 2 + 9.81 * state.position.y);
+      };
+      const initialEnergy = energyOf("rk4");
+      const peaks = new Map<string, number>();
+      for (let i = 0; i < 2400; i++) {
+        physicsEngine.updateStep(1 / 120);
+        for (const id of Object.keys(integrators)) {
+          peaks.set(id, Math.max(peaks.get(id) ?? 0, energyOf(id)));
+        }
+      }
+
+      // The gear only ever takes energy out
+      for (const id of Object.keys(integrators)) {
+        const state = physicsEngine.getAircraftState(id);
+        assertDefined(state);
+        assertEquals(
+          state.groundContact.status,
+          ContactStatus.GROUNDED,
+          `${id} should rest on its wheels`,
+        );
+        assertEquals(
+          peaks.get(id)! <= initialEnergy * 1.001,
+          true,
+          `${id} should not gain energy`,
+        );
+        assertEquals(
+          state.velocity.length() < 0.01,
+          true,
+          `${id} should settle`,
+        );
+      }
+
+      const rk4 = new RungeKutta4Integrator();
+      physicsEngine.setIntegrator(rk4);
+      assertEquals(physicsEngine.getIntegrator(), rk4, "Engine integrator");
+    },
+  },
+  {
+    name: "Flap detents, deploy time and overspeed",
+    fn: () => {
+      const flaps = createFlaps({
+        detents: [0, 0.5, 1],
+        deployTime: 4,
+        liftIncrement: 0.8,
+        maxSpeeds: [Infinity, 80, 60],
+      });
+      assertEquals(getFlapDetent(flaps, 0.33), 0.5, "Nearest detent");
+      assertEquals(getFlapDetent(flaps, 2), 1, "Lever clamped");
+
+      // Full flaps take the deploy time to run out
+      const state = createHighLiftState(flaps);
+      for (let i = 0; i < 10; i++) {
+        updateHighLift(flaps, null, state, 1, 50, 0, 0.2);
+      }
+      assertApproxEquals(state.flapPosition, 0.5, 1e-9, "Half way in 2 s");
+      assertEquals(state.flapOverspeed, false, "Within the placard speed");
+
+      // Too fast for full flaps: they blow back to the setting that is safe
+      for (let i = 0; i < 20; i++) {
+        updateHighLift(flaps, null, state, 1, 70, 0, 0.2);
+      }
+      assertEquals(state.flapOverspeed, true, "Overspeed flagged");
+      assertEquals(state.flapTarget, 0.5, "Blown back to the middle detent");
+      assertApproxEquals(state.flapPosition, 0.5, 1e-9);
+
+      // Automatic slats come out with the angle of attack and delay the stall
+      const slats = createSlats({
+        criticalAngleIncrement: 5 * Math.PI / 180,
+        automatic: true,
+        deployTime: 1,
+      });
+      const curve = createLiftCurve(createTestProperties());
+      updateHighLift(flaps, slats, state, 0, 50, 0.1, 0.5);
+      assertEquals(state.slatPosition, 0, "Retracted at low angle of attack");
+      updateHighLift(flaps, slats, state, 0, 50, 0.2, 2);
+      assertEquals(state.slatPosition, 1, "Extended at high angle of attack");
+      assertApproxEquals(
+        getHighLiftCurve(curve, flaps, slats, state).criticalAngle,
+        curve.criticalAngle + 5 * Math.PI / 180,
+        1e-12,
+      );
+
+      // The engine runs the flaps of a registered aircraft
+      const physicsEngine = initializeDynamics();
+      physicsEngine.registerAircraft("flaps", {
+        ...createTestProperties(),
+        flaps,
+      }, {
+        position: new THREE.Vector3(0, 100, 0),
+        velocity: new THREE.Vector3(0, 0, 70),
+        controlInputs: {
+          elevator: 0,
+          aileron: 0,
+          rudder: 0,
+          flaps: 1,
+          brakeLeft: 0,
+          brakeRight: 0,
+          speedBrake: 0,
+          spoilers: 0,
+          pitchTrim: 0,
+          rollTrim: 0,
+          yawTrim: 0,
+        },
+      });
+      for (let i = 0; i < 120; i++) {
+        physicsEngine.updateStep(1 / 120);
+      }
+      const highLift = physicsEngine.getAircraftState("flaps")?.highLift;
+      assertDefined(highLift);
+      assertEquals(highLift.flapOverspeed, true, "Overspeed at 70 m/s");
+      assertEquals(highLift.flapTarget, 0.5, "Blown back");
+      physicsEngine.removeAircraft("flaps");
+    },
+  },
+  {
+    name: "Ground effect",
+    fn: () => {
+      const low = getGroundEffect(1, 10);
+      const high = getGroundEffect(20, 10);
+      assertEquals(low.inducedDragFactor < 0.75, true, "Less induced drag");
+      assertEquals(low.liftFactor > 1.05, true, "More lift");
+      assertApproxEquals(high.inducedDragFactor, 1, 1e-3, "Gone at 2 spans");
+      assertApproxEquals(high.liftFactor, 1, 1e-3);
+
+      // The same glide gets more lift and less drag just above the surface
+      const physicsEngine = initializeDynamics();
+      const glide = (height: number) => {
+        physicsEngine.registerAircraft("glide", createTestProperties(), {
+          position: new THREE.Vector3(0, height, 0),
+          velocity: new THREE.Vector3(0, 0, 50),
+        });
+        physicsEngine.updateStep(1 / 120);
+        const acceleration = physicsEngine.getAircraftState("glide")!
+          .acceleration.clone();
+        physicsEngine.removeAircraft("glide");
+        return acceleration;
+      };
+      const nearSurface = glide(1);
+      const clear = glide(50);
+      assertEquals(nearSurface.y > clear.y, true, "More lift");
+      assertEquals(nearSurface.z > clear.z, true, "Less drag");
+    },
+  },
+  {
+    name: "Speed brake, spoilers and trim",
+    fn: () => {
+      const physicsEngine = initializeDynamics();
+      const fly = (controlInputs: Partial<AircraftState["controlInputs"]>) => {
+        physicsEngine.registerAircraft("config", createTestProperties(), {
+          position: new THREE.Vector3(0, 1000, 0),
+          velocity: new THREE.Vector3(0, 0, 60),
+        });
+        physicsEngine.updateControlInputs("config", controlInputs);
+        physicsEngine.updateStep(1 / 120);
+        const state = physicsEngine.getAircraftState("config")!;
+        physicsEngine.removeAircraft("config");
+        return state;
+      };
+
+      const clean = fly({});
+      const speedBrake = fly({ speedBrake: 1 });
+      const spoilers = fly({ spoilers: 1 });
+      assertEquals(
+        speedBrake.acceleration.z < clean.acceleration.z,
+        true,
+        "Speed brake adds drag",
+      );
+      assertApproxEquals(
+        speedBrake.acceleration.y,
+        clean.acceleration.y,
+        1e-3,
+        "Speed brake keeps the lift",
+      );
+      assertEquals(
+        spoilers.acceleration.y < clean.acceleration.y - 1,
+        true,
+        "Spoilers dump lift",
+      );
+
+      // Trim offsets the neutral position of each control
+      const trimmed = fly({ pitchTrim: 0.2, rollTrim: -0.1, yawTrim: 0.1 });
+      const deflected = fly({ elevator: 0.2, aileron: -0.1, rudder: 0.1 });
+      assertEquals(
+        trimmed.angularAcceleration.equals(deflected.angularAcceleration),
+        true,
+        "Trim acts like a held control",
+      );
+      const cancelled = fly({ elevator: -0.2, pitchTrim: 0.2 });
+      assertApproxEquals(
+        cancelled.angularAcceleration.x,
+        clean.angularAcceleration.x,
+        1e-9,
+        "Stick against the trim centres the elevator",
+      );
+    },
+  },
+  {
+    name: "Rotorcraft hover, cyclic, pedals and autorotation",
+    fn: () => {
+      const weight = 2000 * 9.81;
+      const properties = {
+        ...createTestProperties(),
+        mass: 1900, // 2000 kg with the fuel
+        wingArea: 0,
+        maxThrust: 0,
+        momentOfInertia: new THREE.Vector3(2000, 4000, 2000),
+        flightModel: FlightModel.ROTORCRAFT,
+        rotor: createRotor({ radius: 5, maxThrust: 1.5 * weight }),
+        engine: createEngine({ militaryThrust: 0, fuelFlowMilitary: 0.1 }),
+        fuelCapacity: 100,
+      };
+      const densityRatio = getAtmosphere(500).density / SEA_LEVEL_DENSITY;
+      const hoverCollective = 1 / (1.5 * densityRatio);
+
+      const physicsEngine = new PhysicsEngine();
+      const fly = (
+        initialState: Partial<AircraftState>,
+        controlInputs: Partial<AircraftState["controlInputs"]>,
+        duration: number,
+      ) => {
+        physicsEngine.registerAircraft("heli", properties, {
+          position: new THREE.Vector3(0, 500, 0),
+          throttle: hoverCollective,
+          fuel: 100,
+          ...initialState,
+        });
+        physicsEngine.updateControlInputs("heli", controlInputs);
+        for (let i = 0; i < duration * 120; i++) {
+          physicsEngine.updateStep(1 / 120);
+        }
+        const state = physicsEngine.getAircraftState("heli")!;
+        physicsEngine.removeAircraft("heli");
+        return state;
+      };
+
+      // The collective that carries the weight holds a hover
+      const hover = fly({}, {}, 5);
+      assertApproxEquals(hover.position.y, 500, 0.1, "Hovering");
+      assertApproxEquals(hover.rotor!.speed, 1, 1e-3, "Governed rotor");
+      assertEquals(hover.aerodynamics.stalled, false);
+
+      // Forward cyclic pitches down and flies forward, right pedal yaws right
+      const cyclic = fly({}, { elevator: -0.3 }, 2);
+      assertEquals(getAttitude(cyclic).pitch < -0.1, true, "Nose down");
+      assertEquals(cyclic.velocity.z > 1, true, "Flying forward");
+      const pedal = fly({}, { rudder: 0.5 }, 2);
+      assertEquals(-pedal.angularVelocity.y > 0.1, true, "Yawing right");
+
+      // Translational lift and a climb change the thrust of a collective
+      const rotorState = { speed: 1, thrust: 0, power: 0 };
+      const thrust = (axial: number, inPlane: number) =>
+        getRotorThrust(
+          properties.rotor,
+          rotorState,
+          0.5,
+          axial,
+          inPlane,
+          SEA_LEVEL_DENSITY,
+          100,
+        );
+      assertEquals(thrust(0, 15) > thrust(0, 0) * 1.1, true, "Clean air");
+      assertEquals(thrust(5, 0) < thrust(0, 0), true, "Climbing inflow");
+
+      // Without fuel the rotor keeps turning on the air flowing up through
+      // it and the descent settles to a steady rate
+      const autorotation = fly({ fuel: 0, throttle: 0.1 }, {}, 20);
+      assertEquals(autorotation.engine.running, false);
+      assertEquals(autorotation.rotor!.speed > 0.9, true, "Rotor turning");
+      assertEquals(
+        autorotation.velocity.y > -20 && autorotation.velocity.y < -5,
+        true,
+        `Steady descent (${autorotation.velocity.y.toFixed(1)} m/s)`,
+      );
+
+      // Helicopter DAT files load as rotorcraft
+      const definition = parseAircraftDat(
+        SAMPLE_DAT.replace("CATEGORY FIGHTER", "CATEGORY HELICOPTER"),
+      );
+      assertEquals(definition.properties.flightModel, FlightModel.ROTORCRAFT);
+      assertDefined(definition.properties.rotor);
+      assertThrows(
+        () =>
+          physicsEngine.registerAircraft("heli", {
+            ...properties,
+            rotor: undefined,
+          }),
+        undefined,
+        "no rotor definition",
+      );
+    },
+  },
+
+  {
+    name: "Carrier deck, arrestor wires and catapult",
+    fn: () => {
+      const physicsEngine = new PhysicsEngine();
+      const deck = new MovingPlatform(createCarrierDeck(), {
+        position: new THREE.Vector3(0, 20, 0),
+        speed: 15,
+        turnRate: 0.02,
+      });
+      physicsEngine.addPlatform("carrier", deck);
+      const properties = {
+        ...createGearProperties(),
+        tailhook: new THREE.Vector3(0, -1.1, -4),
+        launchBar: new THREE.Vector3(0, -1.2, 2.2),
+      };
+      const traps: SimulationEvents["trap"][] = [];
+      const launches: SimulationEvents["catapultLaunch"][] = [];
+      const eventBus = initializeEventBus();
+      const unsubscribe = [
+        eventBus.on("trap", (event) => traps.push(event)),
+        eventBus.on("catapultLaunch", (event) => launches.push(event)),
+      ];
+
+      // Place the aircraft on the deck, moving with it plus a speed along it
+      const land = (id: string, x: number, z: number, speed: number = 0) => {
+        const position = deck.fromDeck(new THREE.Vector3(x, 1.1, z));
+        physicsEngine.registerAircraft(id, properties, {
+          position,
+          velocity: deck.getPointVelocity(position)
+            .addScaledVector(deck.getForward(), speed),
+          orientation: deck.getOrientation(),
+        });
+      };
+      const run = (duration: number) => {
+        for (let i = 0; i < duration * 120; i++) {
+          physicsEngine.updateStep(1 / 120);
+        }
+      };
+
+      // The turning, rolling deck carries an aircraft parked on it
+      land("parked", -10, 0);
+      run(5);
+      const parked = physicsEngine.getAircraftState("parked")!;
+      const parkedOnDeck = deck.toDeck(parked.position);
+      assertEquals(parked.groundContact.status, ContactStatus.GROUNDED);
+      assertApproxEquals(parkedOnDeck.x, -10, 0.5, "Stays across the deck");
+      assertApproxEquals(parkedOnDeck.z, 0, 0.5, "Stays along the deck");
+      physicsEngine.removeAircraft("parked");
+
+      // A hook rolling over the wires catches the first and stops the
+      // aircraft at the end of the runout
+      land("trap", 0, -150, 40);
+      assertEquals(physicsEngine.setHookDown("trap", true), true);
+      run(6);
+      const trapped = physicsEngine.getAircraftState("trap")!;
+      assertEquals(traps.length, 1);
+      assertEquals(traps[0].wire, 0, "First wire");
+      assertApproxEquals(traps[0].speed, 40, 0.5);
+      assertEquals(trapped.carrierGear!.wire!.wire, 0);
+      assertApproxEquals(
+        trapped.velocity.clone().sub(deck.getPointVelocity(trapped.position))
+          .length(),
+        0,
+        0.5,
+        "Stopped on the deck",
+      );
+      assertApproxEquals(
+        deck.toDeck(trapped.position).z - trapped.carrierGear!.wire!.point.z,
+        100,
+        2,
+        "Wire paid out",
+      );
+      physicsEngine.setHookDown("trap", false);
+      assertEquals(trapped.carrierGear!.wire, null, "Raising frees the wire");
+      physicsEngine.removeAircraft("trap");
+
+      // The launch bar hooks onto the shuttle, the holdback keeps the
+      // aircraft there until full power and the shot throws it off the bow
+      land("launch", 5, 37.8);
+      assertEquals(physicsEngine.setLaunchBarDown("launch", true), true);
+      run(1);
+      const held = physicsEngine.getAircraftState("launch")!;
+      assertEquals(held.carrierGear!.catapult?.catapult, 0, "Hooked up");
+      assertApproxEquals(deck.toDeck(held.position).z, 37.8, 0.3, "Held");
+      physicsEngine.setThrottle("launch", 1);
+      run(8);
+      const launched = physicsEngine.getAircraftState("launch")!;
+      assertEquals(launches.length, 1);
+      assertApproxEquals(launches[0].speed, 70, 3, "End speed");
+      assertEquals(launched.carrierGear!.launchBarDown, false, "Bar stowed");
+      assertEquals(launched.carrierGear!.catapult, null);
+      physicsEngine.removeAircraft("launch");
+
+      // Quick-loading moves the deck back to where it was saved and drops
+      // platforms added since
+      const saved = JSON.stringify(physicsEngine.snapshot());
+      const savedPosition = deck.getState().position.clone();
+      physicsEngine.addPlatform(
+        "escort",
+        new MovingPlatform(createCarrierDeck()),
+      );
+      run(2);
+      physicsEngine.restore(JSON.parse(saved));
+      assertEquals(
+        physicsEngine.getPlatform("carrier"),
+        deck,
+        "Moved in place",
+      );
+      assertEquals(deck.getState().position.equals(savedPosition), true);
+      assertEquals(physicsEngine.getPlatform("escort"), null);
+      const loaded = new PhysicsEngine();
+      loaded.restore(JSON.parse(saved));
+      assertEquals(
+        loaded.getPlatform("carrier")?.getState().position.equals(
+          savedPosition,
+        ),
+        true,
+        "Added when missing",
+      );
+      physicsEngine.removePlatform("carrier");
+
+      // Aircraft without the equipment have nothing to lower
+      physicsEngine.registerAircraft("plain", createGearProperties());
+      assertEquals(physicsEngine.setHookDown("plain", true), false);
+      assertEquals(physicsEngine.getAircraftState("plain")!.carrierGear, null);
+      physicsEngine.removeAircraft("plain");
+      unsubscribe.forEach((stop) => stop());
+
+      // Carrier aircraft DAT files give the hook, the bar is on the nose
+      const definition = parseAircraftDat(
+        SAMPLE_DAT + "ARRESTER 0m -0.5m -6m\n",
+      );
+      assertEquals(definition.properties.tailhook!.z, -6);
+      assertEquals(definition.properties.launchBar!.z, 3.5);
+    },
+  },
+  {
+    name: "Load factor, overstress, damage and failures",
+    fn: () => {
+      // An accelerometer reads 1 g at rest and -1 g upside down
+      const rest = new THREE.Vector3();
+      assertApproxEquals(getLoadFactor(rest, new THREE.Quaternion()), 1, 1e-9);
+      assertApproxEquals(
+        getLoadFactor(
+          rest,
+          new THREE.Quaternion().setFromAxisAngle(
+            new THREE.Vector3(0, 0, 1),
+            Math.PI,
+          ),
+        ),
+        -1,
+        1e-9,
+      );
+
+      // Beyond the limit load the airframe weakens, past the ultimate load
+      // it breaks up, and loads on the ground are left to the gear
+      const limits = createStructuralLimits({
+        maxLoadFactor: 4,
+        neverExceedSpeed: 100,
+      });
+      assertEquals(limits.minLoadFactor, -1.6, "Negative limit load");
+      const neutral = { elevator: 0, aileron: 0, rudder: 0 };
+      const damage = createDamageState();
+      const load = (loadFactor: number, airspeed = 50, airborne = true) =>
+        updateStructuralDamage(
+          limits,
+          damage,
+          loadFactor,
+          airspeed,
+          airborne,
+          neutral,
+          0.5,
+        );
+      assertEquals(load(5), true, "Limit first exceeded");
+      assertEquals(load(5), false, "Reported once");
+      assertApproxEquals(damage.health.AIRFRAME, 0.75, 1e-9);
+      load(-2.4);
+      assertApproxEquals(damage.health.AIRFRAME, 0.5, 1e-9, "Negative load");
+      load(8, 50, false);
+      assertEquals(damage.overstressed, false, "On the ground");
+      load(1, 110);
+      assertApproxEquals(damage.health.RUDDER, 0.9, 1e-9, "Flutter");
+      assertEquals(damage.failures.length, 0);
+      load(6.5);
+      assertEquals(damage.failures.join(), FailureType.STRUCTURAL_FAILURE);
+      assertEquals(damage.health.AILERONS, 0, "Nothing left to fly");
+      assertEquals(damage.peakLoadFactor, 8);
+
+      // Hits damage the part they strike
+      const hit = (x: number, y: number, z: number) =>
+        getHitComponent(new THREE.Vector3(x, y, z), 10);
+      assertEquals(hit(4, 0, 0), AircraftComponent.AILERONS);
+      assertEquals(hit(0, 1, -4), AircraftComponent.RUDDER);
+      assertEquals(hit(0, -1, -4), AircraftComponent.ELEVATOR);
+      assertEquals(hit(0, 0, -1), AircraftComponent.ENGINE);
+      assertEquals(hit(0, 0, 2), AircraftComponent.AIRFRAME);
+
+      // Pulling past the limit in flight overstresses the aircraft
+      const physicsEngine = initializeDynamics();
+      const eventBus = initializeEventBus();
+      const events: string[] = [];
+      const unsubscribe = [
+        eventBus.on("overstress", () => events.push("overstress")),
+        eventBus.on("failure", ({ failure }) => events.push(failure)),
+      ];
+      const register = (id: string) => {
+        physicsEngine.registerAircraft(id, {
+          ...createTestProperties(),
+          structuralLimits: createStructuralLimits({ maxLoadFactor: 3 }),
+        }, {
+          position: new THREE.Vector3(0, 1000, 0),
+          velocity: new THREE.Vector3(0, 0, 60),
+        });
+        return physicsEngine.getAircraftState(id)!;
+      };
+      const run = (seconds: number) => {
+        for (let i = 0; i < seconds * 120; i++) {
+          physicsEngine.updateStep(1 / 120);
+        }
+      };
+      const pulled = register("pull");
+      physicsEngine.updateControlInputs("pull", { elevator: 0.5 });
+      run(1);
+      assertEquals(events.join(), "overstress");
+      assertEquals(pulled.damage.peakLoadFactor > 3, true, "Over the limit");
+      assertEquals(pulled.damage.health.AIRFRAME < 1, true, "Weakened");
+      assertEquals(physicsEngine.repairAircraft("pull"), true);
+      assertEquals(pulled.damage.health.AIRFRAME, 1, "Repaired");
+      physicsEngine.removeAircraft("pull");
+
+      // A flamed out engine runs down and is reported once
+      const failed = register("flameout");
+      assertEquals(
+        physicsEngine.injectFailure("flameout", FailureType.ENGINE_FLAMEOUT),
+        true,
+      );
+      assertEquals(
+        physicsEngine.injectFailure("flameout", FailureType.ENGINE_FLAMEOUT),
+        false,
+        "Already failed",
+      );
+      run(0.5);
+      assertEquals(failed.engine.running, false);
+      assertEquals(failed.engine.thrust, 0);
+      physicsEngine.removeAircraft("flameout");
+
+      // A jammed aileron holds its deflection and a damaged elevator loses
+      // authority
+      const jammed = register("jammed");
+      const reference = register("reference");
+      physicsEngine.updateControlInputs("jammed", { aileron: 0.5 });
+      physicsEngine.injectFailure("jammed", FailureType.AILERON_JAM);
+      physicsEngine.updateControlInputs("jammed", { aileron: -1 });
+      physicsEngine.updateControlInputs("reference", { aileron: 0.5 });
+      run(1 / 120);
+      assertApproxEquals(
+        jammed.angularAcceleration.z,
+        reference.angularAcceleration.z,
+        1e-9,
+        "Stuck where it jammed",
+      );
+      assertEquals(jammed.damage.jammed.aileron, 0.5);
+
+      physicsEngine.applyHit(
+        "jammed",
+        jammed.position.clone().add(new THREE.Vector3(0, -1, -4)),
+        0.5,
+      );
+      assertEquals(jammed.damage.health.ELEVATOR, 0.5, "Tail hit");
+      assertEquals(jammed.damage.health.AIRFRAME, 0.5);
+      physicsEngine.updateControlInputs("jammed", { elevator: 0.5 });
+      physicsEngine.updateControlInputs("reference", { elevator: 0.5 });
+      run(1 / 120);
+      assertEquals(
+        Math.abs(jammed.angularAcceleration.x) <
+          Math.abs(reference.angularAcceleration.x),
+        true,
+        "Less pitch authority",
+      );
+      physicsEngine.removeAircraft("jammed");
+      physicsEngine.removeAircraft("reference");
+      unsubscribe.forEach((stop) => stop());
+      assertEquals(
+        events.join(),
+        "overstress,ENGINE_FLAMEOUT,AILERON_JAM",
+        "Failure events",
+      );
+
+      // DAT files give the limit load and the never-exceed speed
+      const definition = parseAircraftDat(
+        SAMPLE_DAT + "STRENGTH 9\nCRITSPED 400kt\n",
+      );
+      assertEquals(definition.properties.structuralLimits!.maxLoadFactor, 9);
+      assertApproxEquals(
+        definition.properties.structuralLimits!.neverExceedSpeed,
+        205.778,
+        1e-3,
+      );
+      assertEquals(
+        parseAircraftDat(SAMPLE_DAT).properties.structuralLimits,
+        undefined,
+      );
+    },
+  },
 ];
 
 // Run the tests using Deno's test framework
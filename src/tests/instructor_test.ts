@@ -0,0 +1,174 @@
+/**
+ * Instructor Module Tests
+ *
+ * This file contains tests for scheduled and random failures.
+ */
+
+import { assertEquals } from "./test_utils.ts";
+import { initializeDynamics } from "../dynamics/physics.ts";
+import { FailureType } from "../dynamics/damage.ts";
+import { createTricycleGear } from "../dynamics/gear.ts";
+import { initializeEventBus } from "../core/events.ts";
+import { initializeInstructor } from "../instructor/instructor.ts";
+import * as THREE from "three";
+
+/**
+ * Create an aircraft that accelerates along the runway without lifting off
+ */
+function createTaxiProperties() {
+  return {
+    mass: 1000,
+    wingspan: 10,
+    wingArea: 0,
+    dragCoefficient: 0.03,
+    liftCoefficient: 0.5,
+    maxThrust: 5000,
+    momentOfInertia: new THREE.Vector3(1000, 2000, 1500),
+    landingGear: createTricycleGear({
+      mass: 1000,
+      wheelbase: 2.5,
+      track: 2.5,
+      height: 1.2,
+    }),
+  };
+}
+
+/**
+ * Run the physics and the instructor together in fixed steps
+ */
+function run(seconds: number): void {
+  const physicsEngine = initializeDynamics();
+  const instructor = initializeInstructor();
+  for (let i = 0; i < seconds * 120; i++) {
+    physicsEngine.updateStep(1 / 120);
+    instructor.update();
+  }
+}
+
+// Test suite for the instructor
+const instructorTests = [
+  {
+    name: "Scheduled failures wait for their triggers",
+    fn: () => {
+      const physicsEngine = initializeDynamics();
+      const instructor = initializeInstructor();
+      instructor.clear();
+      const failures: string[] = [];
+      const unsubscribe = initializeEventBus().on(
+        "failure",
+        ({ aircraftId, failure }) => failures.push(`${aircraftId}:${failure}`),
+      );
+
+      // Engine failure on the takeoff roll, past 20 m/s
+      physicsEngine.registerAircraft("takeoff", createTaxiProperties(), {
+        position: new THREE.Vector3(0, 1.2, 0),
+        throttle: 1,
+      });
+      const state = physicsEngine.getAircraftState("takeoff")!;
+      instructor.scheduleFailure("takeoff", FailureType.ENGINE_FLAMEOUT, {
+        airspeed: 20,
+      });
+      const jam = instructor.scheduleFailure(
+        "takeoff",
+        FailureType.RUDDER_JAM,
+        { delay: 1, height: 100 },
+      );
+      run(1);
+      assertEquals(failures.length, 0, "Still slow");
+      assertEquals(instructor.getScheduledFailures("takeoff").length, 2);
+
+      let speedAtFailure = 0;
+      for (let i = 0; i < 20 * 120 && failures.length === 0; i++) {
+        run(1 / 120);
+        speedAtFailure = state.airData.indicatedAirspeed;
+      }
+      assertEquals(failures.join(), "takeoff:ENGINE_FLAMEOUT");
+      assertEquals(speedAtFailure >= 20 && speedAtFailure < 20.5, true);
+      run(2);
+      assertEquals(state.engine.running, false, "Engine out");
+      assertEquals(
+        state.airData.indicatedAirspeed < speedAtFailure,
+        true,
+        "Slowing down",
+      );
+
+      // Every condition of a trigger must hold
+      assertEquals(failures.length, 1, "Never climbed");
+      assertEquals(instructor.cancelFailure(jam), true);
+      assertEquals(instructor.cancelFailure(jam), false, "Already cancelled");
+
+      // Failures of aircraft that leave wait for them to come back
+      instructor.scheduleFailure("takeoff", FailureType.AILERON_JAM, {
+        delay: 10,
+      });
+      physicsEngine.removeAircraft("takeoff");
+      run(1 / 120);
+      assertEquals(instructor.getScheduledFailures().length, 1);
+      instructor.clear();
+      unsubscribe();
+    },
+  },
+  {
+    name: "Failures scheduled before the aircraft spawns wait for it",
+    fn: () => {
+      const physicsEngine = initializeDynamics();
+      const instructor = initializeInstructor();
+      instructor.clear();
+      const failures: string[] = [];
+      const unsubscribe = initializeEventBus().on(
+        "failure",
+        ({ aircraftId, failure }) => failures.push(`${aircraftId}:${failure}`),
+      );
+
+      instructor.scheduleFailure("student", FailureType.ENGINE_FLAMEOUT, {
+        airspeed: 20,
+      });
+      run(1);
+      assertEquals(instructor.getScheduledFailures("student").length, 1);
+
+      physicsEngine.registerAircraft("student", createTaxiProperties(), {
+        position: new THREE.Vector3(0, 1.2, 0),
+        throttle: 1,
+      });
+      for (let i = 0; i < 20 * 120 && failures.length === 0; i++) {
+        run(1 / 120);
+      }
+      assertEquals(failures.join(), "student:ENGINE_FLAMEOUT");
+      assertEquals(instructor.getScheduledFailures().length, 0);
+
+      physicsEngine.removeAircraft("student");
+      unsubscribe();
+    },
+  },
+  {
+    name: "Random failures repeat with their seed",
+    fn: () => {
+      const instructor = initializeInstructor();
+      instructor.clear();
+      const options = {
+        window: 60,
+        failures: [FailureType.AILERON_JAM, FailureType.ELEVATOR_JAM],
+      };
+
+      instructor.setSeed(7);
+      const first = instructor.scheduleRandomFailure("student", options);
+      instructor.setSeed(7);
+      const second = instructor.scheduleRandomFailure("student", options);
+      assertEquals(second.failure, first.failure, "Same failure");
+      assertEquals(second.trigger.delay, first.trigger.delay, "Same moment");
+      assertEquals(options.failures.includes(first.failure), true);
+      assertEquals(
+        first.trigger.delay! >= 0 && first.trigger.delay! < 60,
+        true,
+        "Within the window",
+      );
+      assertEquals(instructor.getScheduledFailures("student").length, 2);
+      instructor.clear();
+    },
+  },
+];
+
+// Run the tests using Deno's test framework
+for (const test of instructorTests) {
+  Deno.test(test.name, test.fn);
+}
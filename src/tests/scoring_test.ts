@@ -0,0 +1,60 @@
+/**
+ * Scoring Module Tests
+ *
+ * This file contains tests for the score keeper.
+ */
+
+import { assertEquals } from "./test_utils.ts";
+import { initializeEventBus } from "../core/events.ts";
+import { initializeScoring, LandingGrade } from "../scoring/scoring.ts";
+import { SurfaceType } from "../dynamics/terrain.ts";
+import * as THREE from "three";
+
+// Test suite for the scoring
+const scoringTests = [
+  {
+    name: "Score keeper grades landings and counts mishaps",
+    fn: () => {
+      const eventBus = initializeEventBus();
+      const scoreKeeper = initializeScoring();
+      scoreKeeper.reset();
+      scoreKeeper.setAircraft("player");
+
+      const touchdown = (aircraftId: string, sinkRate: number) =>
+        eventBus.emit("touchdown", {
+          aircraftId,
+          sinkRate,
+          surfaceType: SurfaceType.RUNWAY,
+          position: new THREE.Vector3(),
+        });
+
+      touchdown("player", 0.5);
+      touchdown("player", 2.5);
+      touchdown("other", 0.5);
+      eventBus.emit("stall", { aircraftId: "player", angleOfAttack: 0.4 });
+      eventBus.emit("crash", {
+        aircraftId: "player",
+        reason: "Terrain impact",
+        surfaceType: SurfaceType.GRASS,
+        position: new THREE.Vector3(),
+        velocity: new THREE.Vector3(),
+      });
+
+      const summary = scoreKeeper.getSummary();
+      assertEquals(summary.landings, 2, "Other aircraft are not scored");
+      assertEquals(summary.lastLanding, LandingGrade.FIRM);
+      assertEquals(summary.stalls, 1);
+      assertEquals(summary.crashes, 1);
+      assertEquals(summary.points, 100 + 10 - 20 - 500);
+
+      scoreKeeper.reset();
+      assertEquals(scoreKeeper.getSummary().points, 0, "Reset score");
+      scoreKeeper.setAircraft(null);
+    },
+  },
+];
+
+// Run the tests using Deno's test framework
+for (const test of scoringTests) {
+  Deno.test(test.name, test.fn);
+}
@@ -0,0 +1,466 @@
+/**
+ * Weapons Module Tests
+ *
+ * This file contains tests for the weapon catalog, guidance, the weapon
+ * system and the trigger.
+ */
+
+import { assertApproxEquals, assertEquals } from "./test_utils.ts";
+import { initializeDynamics } from "../dynamics/physics.ts";
+import { parseAircraftDat } from "../dynamics/aircraft_loader.ts";
+import { initializeEventBus, type SimulationEvents } from "../core/events.ts";
+import {
+  createArmament,
+  SeekerType,
+  withStationLoadout,
+} from "../weapons/catalog.ts";
+import {
+  getLockOnRange,
+  getProportionalNavigation,
+} from "../weapons/guidance.ts";
+import { initializeWeapons } from "../weapons/weapons.ts";
+import { initializeInput } from "../input/handler.ts";
+import * as THREE from "three";
+
+// Fighter with three hardpoints and a gun
+const ARMED_DAT = `IDENTIFY "TEST_FIGHTER"
+CATEGORY FIGHTER
+THRMILIT 5t
+WEIGHCLN 8t
+WEIGHFUL 2t
+WINGAREA 30m^2
+REFVCRUS 250m/s
+REFACRUS 5000m
+HRDPOINT -3m 0m 0m AIM9 AIM120
+HRDPOINT 3m 0m 0m AIM9 AIM120
+HRDPOINT 0m -1m 0m B500 AIM120
+MACHNGUN 0.5m 0.5m 4m
+INITIGUN 300
+INITIAAM 2
+INITRAAM 1
+INITB500 4
+`;
+
+// Attack aircraft with a bomb and a pod of rockets
+const ATTACK_DAT = `IDENTIFY "TEST_ATTACKER"
+CATEGORY ATTACKER
+THRMILIT 5t
+WEIGHCLN 8t
+WEIGHFUL 2t
+WINGAREA 30m^2
+REFVCRUS 200m/s
+REFACRUS 1000m
+HRDPOINT -3m 0m 0m B500 B250
+HRDPOINT 3m 0m 0m RKT
+INITB500 1
+INITRCKT 19
+`;
+
+/**
+ * Register the attack aircraft flying level along +Z
+ */
+function registerAttacker(id: string, altitude: number, speed: number): void {
+  const definition = parseAircraftDat(ATTACK_DAT);
+  initializeDynamics().registerAircraft(
+    id,
+    withStationLoadout(definition),
+    {
+      position: new THREE.Vector3(0, altitude, 0),
+      velocity: new THREE.Vector3(0, 0, speed),
+    },
+  );
+  initializeWeapons().addAircraft(id, createArmament(definition));
+}
+
+/**
+ * Send a key event to the window, as the browser does
+ */
+function sendKey(type: "keydown" | "keyup", key: string): void {
+  globalThis.dispatchEvent(Object.assign(new Event(type), { key }));
+}
+
+/**
+ * Create a plain aircraft for weapons to shoot at, without wings so that
+ * it falls without turning
+ */
+function createTargetProperties() {
+  return {
+    mass: 1000,
+    wingspan: 10,
+    wingArea: 0,
+    dragCoefficient: 0.03,
+    liftCoefficient: 0.5,
+    maxThrust: 0,
+    momentOfInertia: new THREE.Vector3(1000, 2000, 1500),
+  };
+}
+
+/**
+ * Run the physics and the weapons together in fixed steps
+ * @returns The weapon hits seen
+ */
+function runCombat(
+  duration: number,
+  until: (hits: SimulationEvents["weaponHit"][]) => boolean = () => false,
+): SimulationEvents["weaponHit"][] {
+  const physicsEngine = initializeDynamics();
+  const weapons = initializeWeapons();
+  const hits: SimulationEvents["weaponHit"][] = [];
+  const unsubscribe = initializeEventBus().on(
+    "weaponHit",
+    (hit) => hits.push(hit),
+  );
+  for (let i = 0; i < duration * 120 && !until(hits); i++) {
+    physicsEngine.updateStep(1 / 120);
+    weapons.update(1 / 120);
+  }
+  unsubscribe();
+  return hits;
+}
+
+// Test suite for the weapons
+const weaponsTests = [
+  {
+    name: "Stations carry the initial stores of a DAT file",
+    fn: () => {
+      const definition = parseAircraftDat(ARMED_DAT);
+      const stores = withStationLoadout(definition).loadout!.stores;
+      const names = stores.map((store) => `${store.name}@${store.station}`);
+      assertEquals(
+        names.join(","),
+        "AIM9@0,AIM9@1,AIM120@2",
+        "One kind of store per station, the rest left behind",
+      );
+      assertEquals(stores[0].position.x, 3, "At the hardpoint");
+
+      const armament = createArmament(definition);
+      assertEquals(armament.guns!.rounds, 300);
+      assertEquals(armament.guns!.positions.length, 1);
+      assertEquals(armament.guns!.interval > 0, true, "Default rate of fire");
+    },
+  },
+  {
+    name: "Seekers and proportional navigation",
+    fn: () => {
+      // A target crossing the line of sight draws the missile its way
+      const steering = getProportionalNavigation(
+        new THREE.Vector3(),
+        new THREE.Vector3(0, 0, 300),
+        new THREE.Vector3(0, 0, 3000),
+        new THREE.Vector3(100, 0, 0),
+        4,
+      );
+      assertEquals(steering.x > 0, true, "Leads the target");
+      assertApproxEquals(steering.x, 4 * 300 * 100 / 3000, 1e-9);
+
+      // On a collision course the line of sight does not turn
+      const collision = getProportionalNavigation(
+        new THREE.Vector3(),
+        new THREE.Vector3(100, 0, 300),
+        new THREE.Vector3(0, 0, 3000),
+        new THREE.Vector3(100, 0, -700),
+        4,
+      );
+      assertEquals(collision.length() < 1e-9, true, "No correction");
+
+      // Infrared seekers see a tailpipe from further away than a nose
+      const seeker = { type: SeekerType.IR, range: 8000, fieldOfView: 0.5 };
+      const target = (velocity: THREE.Vector3, afterburner = false) => ({
+        id: "target",
+        position: new THREE.Vector3(0, 0, 1000),
+        velocity,
+        afterburner,
+      });
+      const origin = new THREE.Vector3();
+      const tail = getLockOnRange(
+        seeker,
+        origin,
+        target(new THREE.Vector3(0, 0, 200)),
+      );
+      const nose = getLockOnRange(
+        seeker,
+        origin,
+        target(new THREE.Vector3(0, 0, -200)),
+      );
+      assertEquals(tail, 8000, "Full range from behind");
+      assertEquals(nose < tail / 2, true, "Short range head-on");
+      assertEquals(
+        getLockOnRange(seeker, origin, target(new THREE.Vector3(), true)) >
+          tail,
+        true,
+        "Afterburner",
+      );
+      assertEquals(
+        getLockOnRange(
+          { ...seeker, type: SeekerType.RADAR },
+          origin,
+          target(new THREE.Vector3(0, 0, -200)),
+        ),
+        8000,
+        "Radar from any aspect",
+      );
+    },
+  },
+  {
+    name: "Guns hit the aircraft ahead",
+    fn: () => {
+      const physicsEngine = initializeDynamics();
+      const weapons = initializeWeapons();
+      weapons.clear();
+      for (const [id, z] of [["shooter", 0], ["target", 300]] as const) {
+        physicsEngine.registerAircraft(id, createTargetProperties(), {
+          position: new THREE.Vector3(0, 1000, z),
+          velocity: new THREE.Vector3(0, 0, 100),
+        });
+      }
+      weapons.addAircraft("shooter", {
+        hitRadius: 5,
+        guns: {
+          positions: [new THREE.Vector3(0, 0, 4)],
+          rounds: 100,
+          interval: 0.1,
+        },
+      });
+      weapons.addAircraft("target", { hitRadius: 5, guns: null });
+      assertEquals(weapons.getSelectedWeapon("shooter")!.name, "GUN");
+
+      // Half a second on the trigger fires a round every 0.1 s
+      weapons.setTrigger("shooter", true);
+      const hits = runCombat(0.5);
+      weapons.setTrigger("shooter", false);
+      hits.push(...runCombat(1));
+      assertEquals(weapons.getSelectedWeapon("shooter")!.count, 95);
+      assertEquals(hits.length, 5, "Every round on target");
+      assertEquals(hits[0].targetId, "target");
+      assertEquals(hits[0].weapon, "GUN");
+      assertEquals(weapons.getProjectiles().length, 0, "Rounds spent");
+      assertApproxEquals(
+        physicsEngine.getAircraftState("target")!.damage.health.AIRFRAME,
+        1 - 5 * hits[0].damage,
+        1e-9,
+        "Every round damages the target",
+      );
+
+      physicsEngine.removeAircraft("shooter");
+      physicsEngine.removeAircraft("target");
+      weapons.clear();
+    },
+  },
+  {
+    name: "The space bar pulls the trigger",
+    fn: () => {
+      // The input handler also listens to the document for pointer lock
+      if (typeof document === "undefined") {
+        Object.assign(globalThis, { document: new EventTarget() });
+      }
+      const physicsEngine = initializeDynamics();
+      const weapons = initializeWeapons();
+      const input = initializeInput();
+      weapons.clear();
+      physicsEngine.registerAircraft("pilot", createTargetProperties(), {
+        position: new THREE.Vector3(0, 1000, 0),
+        velocity: new THREE.Vector3(0, 0, 100),
+      });
+      weapons.addAircraft("pilot", {
+        hitRadius: 5,
+        guns: {
+          positions: [new THREE.Vector3(0, 0, 4)],
+          rounds: 100,
+          interval: 0.1,
+        },
+      });
+      input.setAircraft("pilot");
+
+      // Guns fire while the space bar is held
+      sendKey("keydown", " ");
+      input.update();
+      runCombat(0.5);
+      sendKey("keyup", " ");
+      input.update();
+      runCombat(0.5);
+      assertEquals(weapons.getSelectedWeapon("pilot")!.count, 95);
+
+      physicsEngine.removeAircraft("pilot");
+      weapons.clear();
+    },
+  },
+  {
+    name: "Bombs fall ballistically and hit where they land",
+    fn: () => {
+      const physicsEngine = initializeDynamics();
+      const weapons = initializeWeapons();
+      weapons.clear();
+      registerAttacker("bomber", 1000, 150);
+      assertEquals(weapons.getSelectedWeapon("bomber")!.name, "B500");
+
+      // Released with the aircraft's velocity, no faster
+      assertEquals(weapons.fire("bomber"), true);
+      const bomb = weapons.getProjectiles()[0];
+      assertEquals(bomb.weapon.name, "B500");
+      assertEquals(bomb.velocity.z, 150, "Carried forward");
+      assertEquals(
+        physicsEngine.getAircraftState("bomber")!.mass.stores
+          .some((store) => store.name === "B500"),
+        false,
+        "Released",
+      );
+
+      // Gravity pulls it down and drag slows it a little
+      runCombat(5);
+      assertApproxEquals(bomb.velocity.y, -5 * 9.81, 2, "Falling");
+      assertEquals(bomb.velocity.z < 150 && bomb.velocity.z > 140, true);
+
+      // Down on the ground within the fall time in a vacuum plus drag
+      let fallTime = 5;
+      let impact = bomb.position.clone();
+      for (let i = 0; i < 20 * 120 && weapons.getProjectiles().length; i++) {
+        impact = bomb.position.clone();
+        runCombat(1 / 120);
+        fallTime += 1 / 120;
+      }
+      const vacuumTime = Math.sqrt(2 * 999 / 9.81);
+      assertEquals(weapons.getProjectiles().length, 0, "Exploded");
+      assertEquals(fallTime > vacuumTime && fallTime < vacuumTime + 1, true);
+      assertEquals(impact.y < 5, true, "At the surface");
+      assertEquals(
+        impact.z > 1900 && impact.z < 150 * vacuumTime,
+        true,
+        "Short of the range in a vacuum",
+      );
+
+      // The same drop hits a target parked where the first one landed
+      physicsEngine.removeAircraft("bomber");
+      weapons.clear();
+      registerAttacker("bomber", 1000, 150);
+      physicsEngine.registerAircraft("truck", createTargetProperties(), {
+        position: new THREE.Vector3(impact.x + 10, 0, impact.z),
+      });
+      weapons.addAircraft("truck", { hitRadius: 3, guns: null });
+      weapons.fire("bomber");
+      const hits = runCombat(20, (seen) => seen.length > 0);
+      assertEquals(hits.length, 1, "In the blast");
+      assertEquals(hits[0].weapon, "B500");
+      assertEquals(hits[0].targetId, "truck");
+
+      physicsEngine.removeAircraft("bomber");
+      physicsEngine.removeAircraft("truck");
+      weapons.clear();
+    },
+  },
+  {
+    name: "Rockets burn their motor and hit the target ahead",
+    fn: () => {
+      const physicsEngine = initializeDynamics();
+      const weapons = initializeWeapons();
+      weapons.clear();
+      registerAttacker("striker", 3000, 150);
+      assertEquals(weapons.selectNextWeapon("striker"), "RKT");
+      assertEquals(weapons.getSelectedWeapon("striker")!.count, 19, "A pod");
+
+      // The motor burns its propellant in 1.1 s
+      weapons.fire("striker");
+      const rocket = weapons.getProjectiles()[0];
+      runCombat(1.1 - 1e-6);
+      assertApproxEquals(rocket.mass, 4, 0.1, "Propellant burned");
+      assertEquals(rocket.velocity.z > 150 + 800, true, "Boosted");
+      const burnout = rocket.velocity.length();
+      runCombat(0.5);
+      assertApproxEquals(rocket.mass, 4, 0.1, "Burned out");
+      assertEquals(rocket.velocity.length() < burnout, true, "Coasting");
+
+      // A target ahead in line with the pod, as far below as the rocket
+      // drops more than a falling target, takes the hit
+      physicsEngine.removeAircraft("striker");
+      weapons.clear();
+      registerAttacker("striker", 3000, 150);
+      physicsEngine.registerAircraft("target", createTargetProperties(), {
+        position: new THREE.Vector3(-3, 2980, 1200),
+        velocity: new THREE.Vector3(0, 0, 150),
+      });
+      weapons.addAircraft("target", { hitRadius: 5, guns: null });
+      weapons.selectNextWeapon("striker");
+      weapons.fire("striker");
+      const hits = runCombat(5, (seen) => seen.length > 0);
+      assertEquals(hits.length, 1, "On target");
+      assertEquals(hits[0].weapon, "RKT");
+      assertEquals(hits[0].targetId, "target");
+      assertEquals(weapons.getSelectedWeapon("striker")!.count, 18);
+
+      physicsEngine.removeAircraft("striker");
+      physicsEngine.removeAircraft("target");
+      weapons.clear();
+    },
+  },
+  {
+    name: "Guided missiles intercept a crossing target",
+    fn: () => {
+      const physicsEngine = initializeDynamics();
+      const weapons = initializeWeapons();
+      weapons.clear();
+      const releases: string[] = [];
+      const unsubscribe = initializeEventBus().on(
+        "weaponRelease",
+        ({ store }) => releases.push(store.name),
+      );
+
+      const definition = parseAircraftDat(ARMED_DAT);
+      physicsEngine.registerAircraft(
+        "shooter",
+        withStationLoadout(definition),
+        {
+          position: new THREE.Vector3(0, 3000, 0),
+          velocity: new THREE.Vector3(0, 0, 250),
+          throttle: 1,
+        },
+      );
+      weapons.addAircraft("shooter", createArmament(definition));
+
+      // A target crossing ahead, flying along +X
+      physicsEngine.registerAircraft("target", createTargetProperties(), {
+        position: new THREE.Vector3(-300, 3000, 4000),
+        velocity: new THREE.Vector3(150, 0, 0),
+        rotation: new THREE.Euler(0, Math.PI / 2, 0, "YXZ"),
+      });
+      weapons.addAircraft("target", { hitRadius: 5, guns: null });
+
+      // Select the radar missile and fire it
+      assertEquals(weapons.selectNextWeapon("shooter"), "AIM9");
+      assertEquals(weapons.selectNextWeapon("shooter"), "AIM120");
+      weapons.setTrigger("shooter", true);
+      weapons.update(0);
+      weapons.setTrigger("shooter", false);
+      assertEquals(releases.join(","), "AIM120", "Released from its station");
+      assertEquals(
+        weapons.getProjectiles()[0].targetId,
+        "target",
+        "Locked at launch",
+      );
+
+      const hits = runCombat(30, (seen) => seen.length > 0);
+      assertEquals(hits.length, 1, "Intercepted");
+      assertEquals(hits[0].weapon, "AIM120");
+      assertEquals(hits[0].shooterId, "shooter");
+      assertEquals(weapons.getSelectedWeapon("shooter")!.name, "GUN");
+
+      // Once the last AIM9 is gone the gun is selected again
+      assertEquals(weapons.selectNextWeapon("shooter"), "AIM9");
+      assertEquals(weapons.fire("shooter"), true);
+      assertEquals(weapons.fire("shooter"), true);
+      assertEquals(weapons.getSelectedWeapon("shooter")!.name, "GUN");
+
+      // Every missile ends at a target, the ground or its lifetime
+      runCombat(60, () => weapons.getProjectiles().length === 0);
+      assertEquals(weapons.getProjectiles().length, 0, "All spent");
+
+      unsubscribe();
+      physicsEngine.removeAircraft("shooter");
+      physicsEngine.removeAircraft("target");
+      weapons.clear();
+    },
+  },
+];
+
+// Run the tests using Deno's test framework
+for (const test of weaponsTests) {
+  Deno.test(test.name, test.fn);
+}
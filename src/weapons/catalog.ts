@@ -0,0 +1,294 @@
+/**
+ * Weapon Catalog Module
+ *
+ * This module describes the weapons aircraft carry: gun rounds, unguided
+ * bombs and rockets, and infrared and radar guided missiles. Stores are
+ * named as in YSFLIGHT, and the initial store counts of a DAT file are
+ * loaded onto the weapon stations that can carry them.
+ */
+
+import * as THREE from "three";
+import {
+  type AircraftDefinition,
+  type WeaponStation,
+} from "../dynamics/aircraft_loader.ts";
+import { type AircraftProperties } from "../dynamics/physics.ts";
+import { type Store, withLoadout } from "../dynamics/mass.ts";
+
+// Name of the gun in the weapon selection
+export const GUN = "GUN";
+
+// Guns fire this fast unless the DAT file says otherwise
+const DEFAULT_GUN_INTERVAL = 0.05; // s between rounds
+
+// Kinds of weapon
+export enum WeaponType {
+  GUN = "GUN",
+  BOMB = "BOMB",
+  ROCKET = "ROCKET",
+  MISSILE = "MISSILE",
+}
+
+// How a guided weapon sees its target
+export enum SeekerType {
+  IR = "IR", // Engine heat, best from behind
+  RADAR = "RADAR", // Radar returns from any aspect
+}
+
+// Rocket motor
+export interface MotorDefinition {
+  thrust: number; // N
+  burnTime: number; // s
+  propellantMass: number; // kg burned over the burn time
+}
+
+// Seeker of a guided weapon
+export interface SeekerDefinition {
+  type: SeekerType;
+  range: number; // m, lock-on range against the best aspect
+  fieldOfView: number; // rad, half angle of the cone it can track in
+}
+
+// Weapon definition
+export interface WeaponDefinition {
+  name: string;
+  type: WeaponType;
+  mass: number; // kg at launch
+  dragArea: number; // m², drag coefficient times reference area
+  launchSpeed: number; // m/s added along the nose at launch
+  motor: MotorDefinition | null;
+  seeker: SeekerDefinition | null;
+  navigationConstant: number; // Proportional navigation gain
+  maxAcceleration: number; // m/s² of steering at most
+  proximityFuse: number; // m, detonates this close to its target
+  lethalRadius: number; // m around the detonation, 0 for direct hits only
+  damage: number; // Health taken from the airframe and the part it hits
+  lifetime: number; // s before it self-destructs
+  perStation: number; // Carried on a single station
+}
+
+// Guns of an aircraft
+export interface GunDefinition {
+  positions: THREE.Vector3[]; // m, body axes, fired in turn
+  rounds: number;
+  interval: number; // s between rounds
+}
+
+// Weapons of an aircraft beyond its stores, and its size as a target
+export interface Armament {
+  hitRadius: number; // m
+  guns: GunDefinition | null;
+}
+
+// Weapon definitions by store name
+export const WEAPONS: Record<string, WeaponDefinition> = {
+  [GUN]: {
+    name: GUN,
+    type: WeaponType.GUN,
+    mass: 0.1,
+    dragArea: 1e-4,
+    launchSpeed: 1000,
+    motor: null,
+    seeker: null,
+    navigationConstant: 0,
+    maxAcceleration: 0,
+    proximityFuse: 0,
+    lethalRadius: 0,
+    damage: 0.05,
+    lifetime: 3,
+    perStation: 0,
+  },
+  AIM9: {
+    name: "AIM9",
+    type: WeaponType.MISSILE,
+    mass: 85,
+    dragArea: 0.005,
+    launchSpeed: 0,
+    motor: { thrust: 12000, burnTime: 2.2, propellantMass: 27 },
+    seeker: {
+      type: SeekerType.IR,
+      range: 8000,
+      fieldOfView: 30 * Math.PI / 180,
+    },
+    navigationConstant: 4,
+    maxAcceleration: 30 * 9.81,
+    proximityFuse: 8,
+    lethalRadius: 10,
+    damage: 0.6,
+    lifetime: 25,
+    perStation: 1,
+  },
+  AIM120: {
+    name: "AIM120",
+    type: WeaponType.MISSILE,
+    mass: 150,
+    dragArea: 0.008,
+    launchSpeed: 0,
+    motor: { thrust: 15000, burnTime: 8, propellantMass: 50 },
+    seeker: {
+      type: SeekerType.RADAR,
+      range: 30000,
+      fieldOfView: 40 * Math.PI / 180,
+    },
+    navigationConstant: 4,
+    maxAcceleration: 30 * 9.81,
+    proximityFuse: 10,
+    lethalRadius: 12,
+    damage: 0.8,
+    lifetime: 60,
+    perStation: 1,
+  },
+  RKT: {
+    name: "RKT",
+    type: WeaponType.ROCKET,
+    mass: 10,
+    dragArea: 0.0012,
+    launchSpeed: 0,
+    motor: { thrust: 6000, burnTime: 1.1, propellantMass: 6 },
+    seeker: null,
+    navigationConstant: 0,
+    maxAcceleration: 0,
+    proximityFuse: 0,
+    lethalRadius: 5,
+    damage: 0.3,
+    lifetime: 20,
+    perStation: 19,
+  },
+  B250: {
+    name: "B250",
+    type: WeaponType.BOMB,
+    mass: 113,
+    dragArea: 0.015,
+    launchSpeed: 0,
+    motor: null,
+    seeker: null,
+    navigationConstant: 0,
+    maxAcceleration: 0,
+    proximityFuse: 0,
+    lethalRadius: 20,
+    damage: 1,
+    lifetime: 120,
+    perStation: 1,
+  },
+  B500: {
+    name: "B500",
+    type: WeaponType.BOMB,
+    mass: 227,
+    dragArea: 0.026,
+    launchSpeed: 0,
+    motor: null,
+    seeker: null,
+    navigationConstant: 0,
+    maxAcceleration: 0,
+    proximityFuse: 0,
+    lethalRadius: 30,
+    damage: 1,
+    lifetime: 120,
+    perStation: 1,
+  },
+};
+
+// Stores named by the INITxxxx keywords of DAT files
+const INITIAL_STORE_NAMES: Record<string, string> = {
+  IAAM: "AIM9",
+  RAAM: "AIM120",
+  RCKT: "RKT",
+  B250: "B250",
+  B500: "B500",
+};
+
+/**
+ * Get the definition of a weapon by its store name
+ */
+export function getWeaponDefinition(name: string): WeaponDefinition | null {
+  return WEAPONS[name] ?? null;
+}
+
+/**
+ * Load stores onto the stations that can carry them
+ * Each station carries a single kind of store, up to its per-station
+ * count; stores that find no room are left behind.
+ * @param counts Number of each store, by store name
+ */
+export function createStationStores(
+  stations: WeaponStation[],
+  counts: Record<string, number>,
+): Store[] {
+  const stores: Store[] = [];
+  const loaded = new Map<number, string>();
+
+  for (const [name, count] of Object.entries(counts)) {
+    const weapon = getWeaponDefinition(name);
+    if (!weapon) {
+      continue;
+    }
+
+    // Fill the stations in turn so the load stays balanced
+    const accepting = stations
+      .map((station, index) => ({ station, index }))
+      .filter(({ station, index }) =>
+        station.stores.includes(name) && !loaded.has(index)
+      );
+    let placed = 0;
+    for (let round = 0; round < weapon.perStation; round++) {
+      for (const { station, index } of accepting) {
+        if (placed >= count) {
+          break;
+        }
+        loaded.set(index, name);
+        stores.push({
+          name,
+          mass: weapon.mass,
+          position: station.position.clone(),
+          station: index,
+        });
+        placed++;
+      }
+    }
+  }
+
+  return stores;
+}
+
+/**
+ * Get the aircraft properties with the initial stores of a DAT file on its
+ * weapon stations
+ */
+export function withStationLoadout(
+  definition: AircraftDefinition,
+): AircraftProperties {
+  const { properties } = definition;
+  const counts = Object.fromEntries(
+    Object.entries(definition.initialStores)
+      .filter(([keyword]) => keyword in INITIAL_STORE_NAMES)
+      .map(([keyword, count]) => [INITIAL_STORE_NAMES[keyword], count]),
+  );
+  const loadout = properties.loadout;
+
+  return withLoadout(properties, {
+    fuel: loadout?.fuel.reduce((sum, fuel) => sum + fuel, 0),
+    stores: [
+      ...(loadout?.stores ?? []),
+      ...createStationStores(definition.stations, counts),
+    ],
+  });
+}
+
+/**
+ * Get the guns and target size of an aircraft read from a DAT file
+ */
+export function createArmament(definition: AircraftDefinition): Armament {
+  const { guns, properties } = definition;
+  return {
+    hitRadius: properties.wingspan / 2,
+    guns: guns.rounds > 0
+      ? {
+        positions: guns.positions.length > 0
+          ? guns.positions
+          : [new THREE.Vector3()],
+        rounds: guns.rounds,
+        interval: guns.interval > 0 ? guns.interval : DEFAULT_GUN_INTERVAL,
+      }
+      : null,
+  };
+}
@@ -0,0 +1,124 @@
+/**
+ * Guidance Module
+ *
+ * This module steers guided missiles. A seeker tracks targets inside its
+ * field of view and range: an infrared seeker sees a hot engine from much
+ * further behind than ahead, a radar seeker sees an aircraft from any
+ * aspect. Proportional navigation turns the missile at a multiple of the
+ * rotation rate of the line of sight, which flies it onto a collision
+ * course.
+ */
+
+import * as THREE from "three";
+import { type SeekerDefinition, SeekerType } from "./catalog.ts";
+
+// Infrared signature: fraction of the lock-on range seen head-on, and the
+// gain from a lit afterburner
+const IR_HEAD_ON_FRACTION = 0.4;
+const IR_AFTERBURNER_GAIN = 1.5;
+
+// Aircraft as seen by a seeker
+export interface SeekerTarget {
+  id: string;
+  position: THREE.Vector3;
+  velocity: THREE.Vector3;
+  afterburner: boolean;
+}
+
+/**
+ * Get the range at which a seeker locks on to a target from a position
+ */
+export function getLockOnRange(
+  seeker: SeekerDefinition,
+  position: THREE.Vector3,
+  target: SeekerTarget,
+): number {
+  if (seeker.type === SeekerType.RADAR) {
+    return seeker.range;
+  }
+
+  // Looking up the tailpipe of a target flying away gives the full range
+  const lineOfSight = target.position.clone().sub(position).normalize();
+  const speed = target.velocity.length();
+  const tailAspect = speed > 0
+    ? Math.max(0, target.velocity.dot(lineOfSight) / speed)
+    : 1;
+  const signature = IR_HEAD_ON_FRACTION +
+    (1 - IR_HEAD_ON_FRACTION) * tailAspect;
+  return seeker.range * signature *
+    (target.afterburner ? IR_AFTERBURNER_GAIN : 1);
+}
+
+/**
+ * Whether a seeker looking along a direction can track a target
+ */
+export function canTrackTarget(
+  seeker: SeekerDefinition,
+  position: THREE.Vector3,
+  direction: THREE.Vector3,
+  target: SeekerTarget,
+): boolean {
+  const lineOfSight = target.position.clone().sub(position);
+  const distance = lineOfSight.length();
+  if (distance === 0) {
+    return true;
+  }
+
+  return lineOfSight.angleTo(direction) <= seeker.fieldOfView &&
+    distance <= getLockOnRange(seeker, position, target);
+}
+
+/**
+ * Pick the trackable target closest to the seeker's boresight
+ */
+export function selectTarget(
+  seeker: SeekerDefinition,
+  position: THREE.Vector3,
+  direction: THREE.Vector3,
+  targets: SeekerTarget[],
+): SeekerTarget | null {
+  let best: SeekerTarget | null = null;
+  let bestAngle = Infinity;
+  for (const target of targets) {
+    if (!canTrackTarget(seeker, position, direction, target)) {
+      continue;
+    }
+    const angle = target.position.clone().sub(position).angleTo(direction);
+    if (angle < bestAngle) {
+      best = target;
+      bestAngle = angle;
+    }
+  }
+  return best;
+}
+
+/**
+ * Get the steering acceleration of proportional navigation
+ * a = N · Vc · (Ω × r̂), with Ω the rotation rate of the line of sight and
+ * Vc the closing speed.
+ * @returns Acceleration in m/s², at right angles to the line of sight
+ */
+export function getProportionalNavigation(
+  position: THREE.Vector3,
+  velocity: THREE.Vector3,
+  targetPosition: THREE.Vector3,
+  targetVelocity: THREE.Vector3,
+  navigationConstant: number,
+): THREE.Vector3 {
+  const range = targetPosition.clone().sub(position);
+  const distance = range.length();
+  if (distance < 1e-6) {
+    return new THREE.Vector3();
+  }
+
+  const relativeVelocity = targetVelocity.clone().sub(velocity);
+  const lineOfSight = range.clone().divideScalar(distance);
+  const rotationRate = new THREE.Vector3()
+    .crossVectors(range, relativeVelocity)
+    .divideScalar(distance * distance);
+  const closingSpeed = -relativeVelocity.dot(lineOfSight);
+
+  return new THREE.Vector3()
+    .crossVectors(rotationRate, lineOfSight)
+    .multiplyScalar(navigationConstant * closingSpeed);
+}
@@ -0,0 +1,507 @@
+/**
+ * Weapons Module
+ *
+ * This module fires the weapons of armed aircraft and flies what they
+ * launch. Gun rounds fire while the trigger is held; other weapons are
+ * stores released from the aircraft one per trigger pull. Projectiles fly
+ * under gravity, drag and motor thrust in fixed steps, guided missiles
+ * steer by proportional navigation, and a hit is scored when a projectile
+ * passes through an aircraft or detonates close enough to it. Hits damage
+ * the aircraft they strike.
+ */
+
+import * as THREE from "three";
+import { type AircraftState, getPhysicsEngine } from "../dynamics/physics.ts";
+import { getAtmosphere } from "../dynamics/atmosphere.ts";
+import {
+  FlatSurfaceProvider,
+  type SurfaceProvider,
+} from "../dynamics/terrain.ts";
+import { getEventBus } from "../core/events.ts";
+import {
+  type Armament,
+  getWeaponDefinition,
+  GUN,
+  type WeaponDefinition,
+  WEAPONS,
+} from "./catalog.ts";
+import {
+  canTrackTarget,
+  getProportionalNavigation,
+  type SeekerTarget,
+  selectTarget,
+} from "./guidance.ts";
+
+// Constants
+const GRAVITY = 9.81; // m/s²
+
+// Projectiles move in fixed steps whatever the frame rate
+const WEAPON_STEP = 1 / 120; // s
+const MAX_WEAPON_STEPS = 30; // Per update, longer frames are dropped
+
+// Projectile in flight
+export interface Projectile {
+  weapon: WeaponDefinition;
+  shooterId: string;
+  targetId: string | null; // Target a guided weapon is tracking
+  position: THREE.Vector3;
+  velocity: THREE.Vector3;
+  mass: number; // kg, falls as the motor burns
+  time: number; // s since launch
+}
+
+// Weapon available to an aircraft
+export interface WeaponLoad {
+  name: string; // Store name, or GUN
+  count: number;
+}
+
+// Aircraft taking part in combat
+interface ArmedAircraft {
+  armament: Armament;
+  rounds: number;
+  nextGun: number; // Index of the gun that fires next
+  gunCooldown: number; // s until the guns can fire again
+  selected: string | null;
+  trigger: boolean; // Held down
+  triggerPulled: boolean; // Pulled since the last update
+}
+
+// Main weapon system class
+class WeaponSystem {
+  private aircraft: Map<string, ArmedAircraft> = new Map();
+  private projectiles: Projectile[] = [];
+  private surfaceProvider: SurfaceProvider = new FlatSurfaceProvider();
+  private accumulator: number = 0;
+
+  /**
+   * Add an aircraft as a shooter and a target
+   */
+  public addAircraft(id: string, armament: Armament): void {
+    this.aircraft.set(id, {
+      armament,
+      rounds: armament.guns?.rounds ?? 0,
+      nextGun: 0,
+      gunCooldown: 0,
+      selected: null,
+      trigger: false,
+      triggerPulled: false,
+    });
+  }
+
+  /**
+   * Remove an aircraft; what it already launched keeps flying
+   */
+  public removeAircraft(id: string): boolean {
+    return this.aircraft.delete(id);
+  }
+
+  /**
+   * Get the weapons an aircraft can fire: the gun, then each kind of store
+   * in the order it was loaded
+   */
+  public getAvailableWeapons(id: string): WeaponLoad[] {
+    const aircraft = this.aircraft.get(id);
+    const state = getPhysicsEngine()?.getAircraftState(id);
+    if (!aircraft || !state) {
+      return [];
+    }
+
+    const loads: WeaponLoad[] = aircraft.rounds > 0
+      ? [{ name: GUN, count: aircraft.rounds }]
+      : [];
+    for (const store of state.mass.stores) {
+      const load = loads.find((entry) => entry.name === store.name);
+      if (load) {
+        load.count++;
+      } else {
+        loads.push({ name: store.name, count: 1 });
+      }
+    }
+    return loads;
+  }
+
+  /**
+   * Get the selected weapon, falling back to the first one available
+   */
+  public getSelectedWeapon(id: string): WeaponLoad | null {
+    const aircraft = this.aircraft.get(id);
+    const loads = this.getAvailableWeapons(id);
+    if (!aircraft || loads.length === 0) {
+      return null;
+    }
+
+    const selected = loads.find((load) => load.name === aircraft.selected) ??
+      loads[0];
+    aircraft.selected = selected.name;
+    return selected;
+  }
+
+  /**
+   * Select the next weapon available
+   * @returns The name of the selected weapon, or null if there is none
+   */
+  public selectNextWeapon(id: string): string | null {
+    const aircraft = this.aircraft.get(id);
+    const current = this.getSelectedWeapon(id);
+    if (!aircraft || !current) {
+      return null;
+    }
+
+    const loads = this.getAvailableWeapons(id);
+    const index = loads.findIndex((load) => load.name === current.name);
+    aircraft.selected = loads[(index + 1) % loads.length].name;
+    return aircraft.selected;
+  }
+
+  /**
+   * Press or release the trigger of an aircraft
+   */
+  public setTrigger(id: string, pressed: boolean): void {
+    const aircraft = this.aircraft.get(id);
+    if (!aircraft) {
+      return;
+    }
+
+    if (pressed && !aircraft.trigger) {
+      aircraft.triggerPulled = true;
+    }
+    aircraft.trigger = pressed;
+  }
+
+  /**
+   * Fire a round or launch a store of the selected weapon now
+   * @returns Whether anything was fired
+   */
+  public fire(id: string): boolean {
+    const aircraft = this.aircraft.get(id);
+    const state = getPhysicsEngine()?.getAircraftState(id);
+    const selected = this.getSelectedWeapon(id);
+    if (!aircraft || !state || !selected) {
+      return false;
+    }
+
+    if (selected.name === GUN) {
+      const guns = aircraft.armament.guns!;
+      const position = guns.positions[aircraft.nextGun % guns.positions.length];
+      aircraft.nextGun++;
+      aircraft.rounds--;
+      this.launch(id, WEAPONS[GUN], state, position);
+      return true;
+    }
+
+    // The last store of the kind goes first
+    const physicsEngine = getPhysicsEngine()!;
+    const index = state.mass.stores.findLastIndex((store) =>
+      store.name === selected.name
+    );
+    const store = physicsEngine.releaseStore(id, index);
+    if (!store) {
+      return false;
+    }
+
+    // Stores without a weapon definition, such as drop tanks, are jettisoned
+    const weapon = getWeaponDefinition(store.name);
+    if (weapon) {
+      this.launch(id, weapon, state, store.position);
+    }
+    return true;
+  }
+
+  /**
+   * Get the projectiles in flight
+   */
+  public getProjectiles(): readonly Projectile[] {
+    return this.projectiles;
+  }
+
+  /**
+   * Set the surface that stops projectiles
+   */
+  public setSurfaceProvider(provider: SurfaceProvider): void {
+    this.surfaceProvider = provider;
+  }
+
+  /**
+   * Fire the weapons and fly the projectiles over a frame
+   * @param deltaTime Frame time in seconds
+   */
+  public update(deltaTime: number): void {
+    // Stores go once per trigger pull
+    for (const [id, aircraft] of this.aircraft) {
+      if (aircraft.triggerPulled) {
+        aircraft.triggerPulled = false;
+        if (this.getSelectedWeapon(id)?.name !== GUN) {
+          this.fire(id);
+        }
+      }
+    }
+
+    this.accumulator += Math.max(0, deltaTime);
+    let steps = 0;
+    while (this.accumulator >= WEAPON_STEP && steps < MAX_WEAPON_STEPS) {
+      this.step(WEAPON_STEP);
+      this.accumulator -= WEAPON_STEP;
+      steps++;
+    }
+    this.accumulator %= WEAPON_STEP;
+  }
+
+  /**
+   * Remove every projectile and aircraft
+   */
+  public clear(): void {
+    this.aircraft.clear();
+    this.projectiles = [];
+    this.accumulator = 0;
+  }
+
+  /**
+   * Advance the guns and every projectile by a fixed step
+   */
+  private step(deltaTime: number): void {
+    // Guns fire while the trigger is held
+    for (const [id, aircraft] of this.aircraft) {
+      aircraft.gunCooldown = Math.max(0, aircraft.gunCooldown - deltaTime);
+      if (
+        aircraft.trigger && aircraft.gunCooldown === 0 &&
+        aircraft.rounds > 0 && this.getSelectedWeapon(id)?.name === GUN
+      ) {
+        this.fire(id);
+        aircraft.gunCooldown = aircraft.armament.guns!.interval;
+      }
+    }
+
+    const targets = this.getTargets();
+    this.projectiles = this.projectiles.filter((projectile) =>
+      this.moveProjectile(projectile, targets, deltaTime)
+    );
+  }
+
+  /**
+   * Launch a weapon from a position on an aircraft
+   */
+  private launch(
+    shooterId: string,
+    weapon: WeaponDefinition,
+    state: AircraftState,
+    localPosition: THREE.Vector3,
+  ): void {
+    const nose = new THREE.Vector3(0, 0, 1).applyQuaternion(
+      state.orientation,
+    );
+    const position = localPosition.clone()
+      .applyQuaternion(state.orientation)
+      .add(state.position);
+    const projectile: Projectile = {
+      weapon,
+      shooterId,
+      targetId: null,
+      position,
+      velocity: state.velocity.clone().addScaledVector(
+        nose,
+        weapon.launchSpeed,
+      ),
+      mass: weapon.mass,
+      time: 0,
+    };
+
+    // Missiles lock on at launch, looking along the nose
+    if (weapon.seeker) {
+      projectile.targetId = selectTarget(
+        weapon.seeker,
+        position,
+        nose,
+        this.getTargets().filter((target) => target.id !== shooterId),
+      )?.id ?? null;
+    }
+
+    this.projectiles.push(projectile);
+  }
+
+  /**
+   * Move a projectile and check for hits
+   * @returns Whether the projectile is still flying
+   */
+  private moveProjectile(
+    projectile: Projectile,
+    targets: SeekerTarget[],
+    deltaTime: number,
+  ): boolean {
+    const { weapon, velocity } = projectile;
+    const atmosphere = getAtmosphere(projectile.position.y);
+    const speed = velocity.length();
+    const direction = speed > 0
+      ? velocity.clone().divideScalar(speed)
+      : new THREE.Vector3(0, 0, 1);
+
+    // Gravity, drag and motor thrust
+    const acceleration = new THREE.Vector3(0, -GRAVITY, 0).addScaledVector(
+      velocity,
+      -0.5 * atmosphere.density * speed * weapon.dragArea / projectile.mass,
+    );
+    const { motor } = weapon;
+    if (motor && projectile.time < motor.burnTime) {
+      acceleration.addScaledVector(direction, motor.thrust / projectile.mass);
+      projectile.mass -= motor.propellantMass / motor.burnTime * deltaTime;
+    }
+
+    // Guided weapons steer at the target while their seeker tracks it
+    const target = targets.find((entry) => entry.id === projectile.targetId);
+    if (weapon.seeker && target) {
+      if (
+        canTrackTarget(weapon.seeker, projectile.position, direction, target)
+      ) {
+        acceleration.add(this.getSteering(projectile, direction, target));
+      } else {
+        projectile.targetId = null;
+      }
+    }
+
+    // Semi-implicit Euler, as for the aircraft
+    const start = projectile.position.clone();
+    velocity.addScaledVector(acceleration, deltaTime);
+    projectile.position.addScaledVector(velocity, deltaTime);
+    projectile.time += deltaTime;
+
+    return !this.checkDetonation(projectile, start, targets) &&
+      projectile.time < weapon.lifetime;
+  }
+
+  /**
+   * Get the steering acceleration of a guided weapon
+   * Proportional navigation plus a lift to hold up against gravity, at
+   * right angles to the flight path and within the weapon's limit.
+   */
+  private getSteering(
+    projectile: Projectile,
+    direction: THREE.Vector3,
+    target: SeekerTarget,
+  ): THREE.Vector3 {
+    const { weapon } = projectile;
+    const steering = getProportionalNavigation(
+      projectile.position,
+      projectile.velocity,
+      target.position,
+      target.velocity,
+      weapon.navigationConstant,
+    ).add(new THREE.Vector3(0, GRAVITY, 0));
+    steering.addScaledVector(direction, -steering.dot(direction));
+    return steering.clampLength(0, weapon.maxAcceleration);
+  }
+
+  /**
+   * Detonate a projectile that reached a target or the ground on its last
+   * move, scoring hits on every aircraft in reach
+   * @returns Whether the projectile detonated
+   */
+  private checkDetonation(
+    projectile: Projectile,
+    start: THREE.Vector3,
+    targets: SeekerTarget[],
+  ): boolean {
+    const { weapon, shooterId } = projectile;
+    const path = new THREE.Line3(start, projectile.position);
+    const closest = new THREE.Vector3();
+
+    // Through an aircraft, or within fuse range of the one it tracks
+    let detonation: THREE.Vector3 | null = null;
+    let direct: string | null = null;
+    for (const target of targets) {
+      if (target.id === shooterId) {
+        continue;
+      }
+      path.closestPointToPoint(target.position, true, closest);
+      const distance = closest.distanceTo(target.position);
+      const fuse = target.id === projectile.targetId ? weapon.proximityFuse : 0;
+      if (distance <= Math.max(this.getHitRadius(target.id), fuse)) {
+        detonation = closest.clone();
+        direct = target.id;
+        break;
+      }
+    }
+
+    // Into the ground
+    const surface = this.surfaceProvider.getSurface(
+      projectile.position.x,
+      projectile.position.z,
+    );
+    if (!detonation && projectile.position.y <= surface.height) {
+      detonation = projectile.position.clone().setY(surface.height);
+    }
+    if (!detonation) {
+      return false;
+    }
+
+    // A warhead hits everything in its lethal radius, a round only what it
+    // passed through
+    const hits = weapon.lethalRadius > 0
+      ? targets.filter((target) =>
+        target.id !== shooterId &&
+        target.position.distanceTo(detonation) <=
+          weapon.lethalRadius + this.getHitRadius(target.id)
+      ).map((target) => target.id)
+      : direct
+      ? [direct]
+      : [];
+    for (const targetId of hits) {
+      getPhysicsEngine()?.applyHit(targetId, detonation, weapon.damage);
+      getEventBus()?.emit("weaponHit", {
+        shooterId,
+        targetId,
+        weapon: weapon.name,
+        position: detonation.clone(),
+        damage: weapon.damage,
+      });
+    }
+    return true;
+  }
+
+  /**
+   * Get every armed aircraft as seen by a seeker
+   */
+  private getTargets(): SeekerTarget[] {
+    const physicsEngine = getPhysicsEngine();
+    const targets: SeekerTarget[] = [];
+    for (const id of this.aircraft.keys()) {
+      const state = physicsEngine?.getAircraftState(id);
+      if (state) {
+        targets.push({
+          id,
+          position: state.position,
+          velocity: state.velocity,
+          afterburner: state.engine.afterburner,
+        });
+      }
+    }
+    return targets;
+  }
+
+  /**
+   * Get the size of an aircraft as a target
+   */
+  private getHitRadius(id: string): number {
+    return this.aircraft.get(id)?.armament.hitRadius ?? 0;
+  }
+}
+
+// Singleton instance
+let weaponSystemInstance: WeaponSystem | null = null;
+
+/**
+ * Initialize the weapon system
+ */
+export function initializeWeapons(): WeaponSystem {
+  if (!weaponSystemInstance) {
+    weaponSystemInstance = new WeaponSystem();
+    console.log("Weapon system initialized");
+  }
+  return weaponSystemInstance;
+}
+
+/**
+ * Get the weapon system instance
+ */
+export function getWeaponSystem(): WeaponSystem | null {
+  return weaponSystemInstance;
+}